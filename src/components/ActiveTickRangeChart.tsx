@@ -9,6 +9,7 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from "recharts";
+import { usePriceFormatter } from "../lib/priceDisplay";
 
 interface TickData {
   id?: string;
@@ -18,8 +19,6 @@ interface TickData {
   liquidityNet?: string | number;
   liquidityGross?: string | number;
   liquidity?: string | number;
-  price0?: string | number;
-  price1?: string | number;
 }
 
 interface ActiveTickRangeProps {
@@ -30,15 +29,6 @@ interface ActiveTickRangeProps {
   maxTicksToShow?: number;
 }
 
-// ティックから価格を計算する関数
-function calculatePrice0FromTick(tick: number): number {
-  return Math.pow(1.0001, tick);
-}
-
-function calculatePrice1FromTick(tick: number): number {
-  return 1 / calculatePrice0FromTick(tick);
-}
-
 /**
  * アクティブなティック範囲を表示するチャートコンポーネント
  */
@@ -49,6 +39,12 @@ const ActiveTickRangeChart: React.FC<ActiveTickRangeProps> = ({
   token1Symbol,
   maxTicksToShow = 100,
 }) => {
+  // デシマルと表示の向きはPriceDisplayProviderの設定に従う
+  const priceFormatter = usePriceFormatter(
+    { symbol: token0Symbol, decimals: 0 },
+    { symbol: token1Symbol, decimals: 0 },
+  );
+
   // ティックデータを整形
   const formattedData = useMemo(() => {
     if (!tickData || tickData.length === 0) return [];
@@ -70,32 +66,18 @@ const ActiveTickRangeChart: React.FC<ActiveTickRangeProps> = ({
           tick.liquidityNet !== undefined ? tick.liquidityNet : tick.liquidity;
         if (liquidityNet === undefined) liquidityNet = 0;
 
-        // 価格を取得または計算
-        const price0 =
-          tick.price0 !== undefined
-            ? Number(tick.price0)
-            : calculatePrice0FromTick(tickIdx);
-
-        const price1 =
-          tick.price1 !== undefined
-            ? Number(tick.price1)
-            : calculatePrice1FromTick(tickIdx);
-
         return {
           tickIdx,
           value: Math.abs(Number(liquidityNet) || 1), // 値がゼロの場合は小さい値を設定して表示
           color: isLowerThanCurrent ? "#f59e0b" : "#3b82f6", // オレンジまたは青
-          price0,
-          price1,
           // ラベル用
           tickLabel: `${tickIdx}`,
-          price0Label: `${token0Symbol}: ${price0.toFixed(6)}`,
-          price1Label: `${token1Symbol}: ${price1.toFixed(6)}`,
+          priceLabel: priceFormatter.formatTick(tickIdx),
         };
       })
       .filter((item) => item !== null) // nullを除去
       .sort((a, b) => a!.tickIdx - b!.tickIdx); // ティックでソート
-  }, [tickData, currentTick, token0Symbol, token1Symbol]);
+  }, [tickData, currentTick, priceFormatter]);
 
   // 表示範囲を制限
   const visibleData = useMemo(() => {
@@ -147,8 +129,7 @@ const ActiveTickRangeChart: React.FC<ActiveTickRangeProps> = ({
       return (
         <div className="bg-gray-800 text-white p-3 border border-gray-700 shadow-md rounded">
           <p className="font-bold mb-1">Tick: {data.tickIdx}</p>
-          <p className="text-sm">{data.price0Label}</p>
-          <p className="text-sm">{data.price1Label}</p>
+          <p className="text-sm">価格: {data.priceLabel}</p>
         </div>
       );
     }
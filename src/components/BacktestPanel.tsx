@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { format } from 'date-fns';
+import { formatUSD } from '../lib/utils';
+import { usePriceFormatter } from '../lib/priceDisplay';
+import {
+  BacktestRangeType,
+  BacktestRebalanceTrigger,
+  BacktestResult,
+  BacktestStrategy,
+  runBacktest,
+} from '../lib/backtest';
+import { SwapEvent } from '../types';
+
+interface BacktestTokenInfo {
+  symbol: string;
+  decimals: string;
+}
+
+interface BacktestPanelProps {
+  /** 期間内のスワップイベント */
+  swapEvents: SwapEvent[];
+  /** スワップイベントを読み込み中かどうか */
+  loading: boolean;
+  /** プールの手数料率 */
+  feeTier: string;
+  token0: BacktestTokenInfo;
+  token1: BacktestTokenInfo;
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const signClass = (value: number) => (value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : '');
+const formatSignedUSD = (value: number) => `${value < 0 ? '-' : '+'}${formatUSD(Math.abs(value))}`;
+
+/**
+ * LPの価格範囲の戦略を、読み込み済みのスワップでバックテストするパネル
+ * 戦略（範囲・リバランスの条件・ガス代）を指定して、資産の推移と損益の内訳を表示する
+ */
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ swapEvents, loading, feeTier, token0, token1 }) => {
+  const priceFormatter = usePriceFormatter(token0, token1);
+  const [rangeType, setRangeType] = useState<BacktestRangeType>('symmetric');
+  const [widthPercent, setWidthPercent] = useState('5');
+  const [priceLower, setPriceLower] = useState('');
+  const [priceUpper, setPriceUpper] = useState('');
+  const [rebalanceTrigger, setRebalanceTrigger] = useState<BacktestRebalanceTrigger>('outOfRange');
+  const [rebalanceDelayHours, setRebalanceDelayHours] = useState('0');
+  const [gasCostUSD, setGasCostUSD] = useState('5');
+  const [initialCapitalUSD, setInitialCapitalUSD] = useState('10000');
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = () => {
+    // 固定範囲は表示の向きで入力するため、token0建ての価格に戻す
+    const lower = priceFormatter.fromPrice0(Number(priceLower));
+    const upper = priceFormatter.fromPrice0(Number(priceUpper));
+    const strategy: BacktestStrategy = {
+      rangeType,
+      widthPercent: Number(widthPercent),
+      priceLower: Math.min(lower, upper),
+      priceUpper: Math.max(lower, upper),
+      rebalanceTrigger,
+      rebalanceDelaySeconds: Number(rebalanceDelayHours) * 60 * 60,
+      gasCostUSD: Number(gasCostUSD),
+      initialCapitalUSD: Number(initialCapitalUSD),
+    };
+
+    try {
+      setResult(runBacktest(swapEvents, strategy, feeTier, token0.decimals, token1.decimals));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const chartData = result?.points.map((point) => ({
+    ...point,
+    dateLabel: format(new Date(point.timestamp * 1000), 'MM/dd HH:mm'),
+  }));
+
+  // カスタムツールチップ
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+      const [rangeLower, rangeUpper] = [point.priceLower, point.priceUpper]
+        .map((price: number) => priceFormatter.fromPrice0(price))
+        .sort((a: number, b: number) => a - b);
+
+      return (
+        <div className='bg-white p-3 border border-gray-200 shadow-md rounded'>
+          <p className='font-bold mb-1'>{format(new Date(point.timestamp * 1000), 'yyyy/MM/dd HH:mm')}</p>
+          <p className='text-sm'>資産: {formatUSD(point.equityUSD)}</p>
+          <p className='text-sm'>HODL: {formatUSD(point.hodlUSD)}</p>
+          <p className='text-sm'>累計手数料: {formatUSD(point.feesUSD)}</p>
+          <p className='text-sm'>
+            価格: {priceFormatter.format(priceFormatter.fromPrice0(point.price))} {priceFormatter.unitLabel}
+          </p>
+          <p className='text-sm'>
+            範囲: {priceFormatter.format(rangeLower)} 〜 {priceFormatter.format(rangeUpper)}
+            {point.inRange ? '' : '（範囲外）'}
+          </p>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <div className='card p-6'>
+      <h2 className='text-xl font-bold mb-2'>バックテスト</h2>
+      <p className='text-sm text-gray-600 mb-4'>
+        読み込み済みのスワップ（{swapEvents.length.toLocaleString()}件、期間は「流動性チャート」タブの期間設定）を
+        再生して、価格範囲の戦略で得られた手数料・インパーマネントロス・リバランスのコストを計算します。
+        自分の流動性はスワップの価格の動きに影響しないとみなします。
+      </p>
+
+      <div className='grid grid-cols-1 md:grid-cols-4 gap-4 mb-4'>
+        <div>
+          <label className='block text-sm text-gray-600 mb-1'>範囲</label>
+          <select
+            className='w-full border rounded-md px-3 py-2'
+            value={rangeType}
+            onChange={(e) => setRangeType(e.target.value as BacktestRangeType)}
+          >
+            <option value='symmetric'>現在価格を中心に±幅</option>
+            <option value='fixed'>固定の価格範囲</option>
+          </select>
+        </div>
+        {rangeType === 'symmetric' ? (
+          <>
+            <div>
+              <label className='block text-sm text-gray-600 mb-1'>幅（±%）</label>
+              <input
+                type='number'
+                min='0'
+                max='100'
+                step='any'
+                className='w-full border rounded-md px-3 py-2'
+                value={widthPercent}
+                onChange={(e) => setWidthPercent(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className='block text-sm text-gray-600 mb-1'>リバランス</label>
+              <select
+                className='w-full border rounded-md px-3 py-2'
+                value={rebalanceTrigger}
+                onChange={(e) => setRebalanceTrigger(e.target.value as BacktestRebalanceTrigger)}
+              >
+                <option value='outOfRange'>範囲外になったら</option>
+                <option value='none'>しない</option>
+              </select>
+            </div>
+            <div>
+              <label className='block text-sm text-gray-600 mb-1'>リバランスまでの待ち時間（時間）</label>
+              <input
+                type='number'
+                min='0'
+                step='any'
+                className='w-full border rounded-md px-3 py-2'
+                value={rebalanceDelayHours}
+                disabled={rebalanceTrigger === 'none'}
+                onChange={(e) => setRebalanceDelayHours(e.target.value)}
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <label className='block text-sm text-gray-600 mb-1'>下限（{priceFormatter.unitLabel}）</label>
+              <input
+                type='number'
+                min='0'
+                step='any'
+                className='w-full border rounded-md px-3 py-2'
+                value={priceLower}
+                onChange={(e) => setPriceLower(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className='block text-sm text-gray-600 mb-1'>上限（{priceFormatter.unitLabel}）</label>
+              <input
+                type='number'
+                min='0'
+                step='any'
+                className='w-full border rounded-md px-3 py-2'
+                value={priceUpper}
+                onChange={(e) => setPriceUpper(e.target.value)}
+              />
+            </div>
+          </>
+        )}
+        <div>
+          <label className='block text-sm text-gray-600 mb-1'>初期資金（USD）</label>
+          <input
+            type='number'
+            min='0'
+            step='any'
+            className='w-full border rounded-md px-3 py-2'
+            value={initialCapitalUSD}
+            onChange={(e) => setInitialCapitalUSD(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className='block text-sm text-gray-600 mb-1'>リバランス1回のガス代（USD）</label>
+          <input
+            type='number'
+            min='0'
+            step='any'
+            className='w-full border rounded-md px-3 py-2'
+            value={gasCostUSD}
+            onChange={(e) => setGasCostUSD(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <button
+        type='button'
+        className='px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50'
+        disabled={loading || swapEvents.length === 0}
+        onClick={handleRun}
+      >
+        {loading ? 'スワップを読み込み中...' : 'バックテストを実行'}
+      </button>
+
+      {error && <p className='mt-4 text-red-500'>バックテストできませんでした: {error}</p>}
+
+      {result && chartData && (
+        <div className='mt-6'>
+          <p className='text-sm text-gray-500 mb-3'>
+            {format(new Date(result.startTimestamp * 1000), 'yyyy/MM/dd HH:mm')} 〜{' '}
+            {format(new Date(result.endTimestamp * 1000), 'yyyy/MM/dd HH:mm')}
+          </p>
+          <div className='grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-6'>
+            <div>
+              <p className='text-gray-500'>最終的な資産</p>
+              <p className='font-medium'>{formatUSD(result.finalEquityUSD)}</p>
+              <p className={signClass(result.netReturnPercent)}>{formatPercent(result.netReturnPercent)}</p>
+            </div>
+            <div>
+              <p className='text-gray-500'>HODLの場合</p>
+              <p className='font-medium'>{formatUSD(result.finalHodlUSD)}</p>
+              <p className={signClass(result.hodlReturnPercent)}>{formatPercent(result.hodlReturnPercent)}</p>
+            </div>
+            <div>
+              <p className='text-gray-500'>年率（APR）</p>
+              <p className={`font-medium ${signClass(result.aprPercent)}`}>{formatPercent(result.aprPercent)}</p>
+            </div>
+            <div>
+              <p className='text-gray-500'>範囲内の時間</p>
+              <p className='font-medium'>{result.timeInRangePercent.toFixed(1)}%</p>
+            </div>
+            <div>
+              <p className='text-gray-500'>手数料収入</p>
+              <p className='font-medium text-green-600'>{formatSignedUSD(result.feesUSD)}</p>
+            </div>
+            <div>
+              <p className='text-gray-500'>インパーマネントロス</p>
+              <p className={`font-medium ${signClass(result.impermanentLossUSD)}`}>
+                {formatSignedUSD(result.impermanentLossUSD)}
+              </p>
+            </div>
+            <div>
+              <p className='text-gray-500'>リバランスのコスト（{result.rebalances.length}回）</p>
+              <p className='font-medium text-red-600'>{formatSignedUSD(-result.rebalanceCostUSD)}</p>
+            </div>
+            <div>
+              <p className='text-gray-500'>最大下落率</p>
+              <p className='font-medium'>{result.maxDrawdownPercent.toFixed(2)}%</p>
+            </div>
+          </div>
+
+          <div className='h-80'>
+            <ResponsiveContainer width='100%' height='100%'>
+              <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray='3 3' />
+                <XAxis dataKey='dateLabel' minTickGap={40} />
+                <YAxis tickFormatter={(value) => formatUSD(value, 0)} domain={['auto', 'auto']} width={90} />
+                <Tooltip content={<CustomTooltip />} />
+                <Legend />
+                <Area type='monotone' dataKey='feesUSD' name='累計手数料' stroke='#10b981' fill='#d1fae5' />
+                <Line type='monotone' dataKey='equityUSD' name='資産' stroke='#3b82f6' dot={false} />
+                <Line type='monotone' dataKey='hodlUSD' name='HODL' stroke='#9ca3af' dot={false} strokeDasharray='4 4' />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { usePriceFormatter } from '../lib/priceDisplay';
+import PriceInvertToggle from './PriceInvertToggle';
+
+interface CurrentPriceProps {
+  /** プールの現在の価格（Q64.96） */
+  sqrtPriceX96?: string;
+}
+
+/**
+ * プールの現在価格を、選択した向きで表示するコンポーネント（向きの切り替えボタン付き）
+ */
+const CurrentPrice: React.FC<CurrentPriceProps> = ({ sqrtPriceX96 }) => {
+  const priceFormatter = usePriceFormatter();
+
+  return (
+    <span className='inline-flex items-center gap-2'>
+      <span>
+        {sqrtPriceX96 ? priceFormatter.format(priceFormatter.fromSqrtPriceX96(sqrtPriceX96)) : '-'}{' '}
+        {priceFormatter.unitLabel}
+      </span>
+      <PriceInvertToggle />
+    </span>
+  );
+};
+
+export default CurrentPrice;
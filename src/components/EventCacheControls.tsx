@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import {
+  clearEventStore,
+  enforceCacheLimit,
+  evictPool,
+  getEventCacheStats,
+  getMaxCachedPools,
+  isEventStoreAvailable,
+  setMaxCachedPools,
+  EventCacheStats,
+} from '../lib/eventStore';
+import { formatTimestamp } from '../lib/utils';
+
+interface EventCacheControlsProps {
+  /** 表示中のプールID */
+  poolId: string;
+  /** 同期が完了するたびに増える値（統計の再取得に使用） */
+  refreshKey?: number;
+  /** 「再構築」が押されたときのハンドラ */
+  onRebuild: () => void;
+  /** 同期中かどうか */
+  busy?: boolean;
+}
+
+// バイト数を読みやすい単位に変換
+const formatBytes = (bytes: number | null): string => {
+  if (bytes === null) return '不明';
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(0)} KB`;
+};
+
+/**
+ * ブラウザ内イベントキャッシュの状態表示と操作（削除・再構築・保持数設定）を行うコンポーネント
+ */
+const EventCacheControls: React.FC<EventCacheControlsProps> = ({ poolId, refreshKey = 0, onRebuild, busy = false }) => {
+  const [stats, setStats] = useState<EventCacheStats | null>(null);
+  const [maxPools, setMaxPools] = useState(10);
+  const [isOpen, setIsOpen] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!isEventStoreAvailable()) return;
+    setMaxPools(getMaxCachedPools());
+    getEventCacheStats()
+      .then(setStats)
+      .catch((error) => console.error('キャッシュ統計の取得エラー:', error));
+  }, [poolId, refreshKey, version]);
+
+  if (!isEventStoreAvailable() || !stats) return null;
+
+  const current = stats.pools.find((meta) => meta.poolId === poolId);
+
+  const handleEvictCurrent = async () => {
+    await evictPool(poolId);
+    setVersion((v) => v + 1);
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('すべてのプールのキャッシュを削除しますか？')) return;
+    await clearEventStore();
+    setVersion((v) => v + 1);
+  };
+
+  const handleMaxPoolsChange = async (value: number) => {
+    setMaxCachedPools(value);
+    setMaxPools(value);
+    await enforceCacheLimit(value);
+    setVersion((v) => v + 1);
+  };
+
+  return (
+    <div className='mb-4 p-3 bg-gray-50 rounded-md text-sm'>
+      <div className='flex flex-wrap items-center justify-between gap-2'>
+        <div className='text-gray-700'>
+          <span className='font-medium'>ローカルキャッシュ: </span>
+          {current ? (
+            <span>
+              スワップ {(current.swaps?.count ?? 0).toLocaleString()}件 / 流動性イベント{' '}
+              {(current.modifyLiquidity?.count ?? 0).toLocaleString()}件
+              <span className='ml-2 text-gray-500'>(最終同期: {formatTimestamp(current.updatedAt / 1000)})</span>
+            </span>
+          ) : (
+            <span className='text-gray-500'>このプールのデータは未保存です</span>
+          )}
+        </div>
+        <div className='flex items-center gap-2'>
+          <button className='btn-secondary py-1' onClick={onRebuild} disabled={busy}>
+            再構築
+          </button>
+          <button className='text-blue-500 hover:underline' onClick={() => setIsOpen(!isOpen)}>
+            {isOpen ? '閉じる' : '管理'}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className='mt-3 border-t pt-3'>
+          <p className='mb-2'>
+            <span className='font-medium'>使用量:</span> {formatBytes(stats.usageBytes)} /{' '}
+            {formatBytes(stats.quotaBytes)}（{stats.pools.length}プール）
+          </p>
+          <div className='mb-3 flex items-center gap-2'>
+            <label htmlFor='max-cached-pools' className='font-medium'>
+              保持するプール数:
+            </label>
+            <select
+              id='max-cached-pools'
+              className='border border-gray-300 rounded px-2 py-1'
+              value={maxPools}
+              onChange={(e) => handleMaxPoolsChange(Number(e.target.value))}
+              disabled={busy}
+            >
+              {[1, 3, 5, 10, 20, 50].map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+            <span className='text-gray-500'>（超えた分は最終アクセスが古い順に削除）</span>
+          </div>
+          <ul className='mb-3 divide-y divide-gray-200'>
+            {stats.pools.map((meta) => (
+              <li key={meta.poolId} className='py-1 flex justify-between'>
+                <span className={meta.poolId === poolId ? 'font-medium' : 'text-gray-600'}>{meta.poolId}</span>
+                <span className='text-gray-500'>
+                  {((meta.swaps?.count ?? 0) + (meta.modifyLiquidity?.count ?? 0)).toLocaleString()}件
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className='flex gap-2'>
+            <button className='btn-secondary py-1' onClick={handleEvictCurrent} disabled={busy || !current}>
+              このプールを削除
+            </button>
+            <button className='btn-secondary py-1' onClick={handleClearAll} disabled={busy}>
+              すべて削除
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventCacheControls;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { shortenAddress, formatTimestamp, formatUSD, formatNumber } from '../lib/utils';
+import { getExplorerUrl } from '../lib/nativeCurrency';
 import { ModifyLiquidityEvent, SwapEvent } from '../types';
 import { ApolloError } from '@apollo/client';
 
@@ -10,6 +11,8 @@ interface EventsTableProps {
   token1Symbol: string;
   loading?: boolean;
   error?: ApolloError | null;
+  /** エクスプローラーのリンクに使うチェーンID（イベントにchainIdが無い場合） */
+  chainId?: number | string;
 }
 
 const EventsTable: React.FC<EventsTableProps> = ({
@@ -19,6 +22,7 @@ const EventsTable: React.FC<EventsTableProps> = ({
   token1Symbol,
   loading = false,
   error = null,
+  chainId,
 }) => {
   if (loading) {
     return (
@@ -78,6 +82,7 @@ const EventsTable: React.FC<EventsTableProps> = ({
           <tbody className='bg-white divide-y divide-gray-200'>
             {liquidityEvents.map((event) => {
               const isAddLiquidity = event.type === 'Mint';
+              const originUrl = event.origin ? getExplorerUrl(event.chainId || chainId, 'address', event.origin) : null;
 
               return (
                 <tr key={event.id} className='hover:bg-gray-50'>
@@ -85,14 +90,13 @@ const EventsTable: React.FC<EventsTableProps> = ({
                     {formatTimestamp(event.timestamp || '')}
                   </td>
                   <td className='px-4 py-4 whitespace-nowrap text-sm'>
-                    <a
-                      href={`https://etherscan.io/address/${event.origin || ''}`}
-                      target='_blank'
-                      rel='noopener noreferrer'
-                      className='text-blue-500 hover:underline'
-                    >
-                      {shortenAddress(event.origin || '')}
-                    </a>
+                    {originUrl ? (
+                      <a href={originUrl} target='_blank' rel='noopener noreferrer' className='text-blue-500 hover:underline'>
+                        {shortenAddress(event.origin || '')}
+                      </a>
+                    ) : (
+                      shortenAddress(event.origin || '')
+                    )}
                   </td>
                   <td
                     className={`px-4 py-4 whitespace-nowrap text-right text-sm ${
@@ -149,6 +153,7 @@ const EventsTable: React.FC<EventsTableProps> = ({
             const amount0Value = Number(event.amount0 || 0);
             const amount1Value = Number(event.amount1 || 0);
             const isBuy = amount0Value < 0; // token0が減少した場合は購入
+            const originUrl = event.origin ? getExplorerUrl(event.chainId || chainId, 'address', event.origin) : null;
 
             return (
               <tr key={event.id} className='hover:bg-gray-50'>
@@ -156,14 +161,13 @@ const EventsTable: React.FC<EventsTableProps> = ({
                   {formatTimestamp(event.timestamp || '')}
                 </td>
                 <td className='px-4 py-4 whitespace-nowrap text-sm'>
-                  <a
-                    href={`https://etherscan.io/address/${event.origin || ''}`}
-                    target='_blank'
-                    rel='noopener noreferrer'
-                    className='text-blue-500 hover:underline'
-                  >
-                    {shortenAddress(event.origin || '')}
-                  </a>
+                  {originUrl ? (
+                    <a href={originUrl} target='_blank' rel='noopener noreferrer' className='text-blue-500 hover:underline'>
+                      {shortenAddress(event.origin || '')}
+                    </a>
+                  ) : (
+                    shortenAddress(event.origin || '')
+                  )}
                 </td>
                 <td className='px-4 py-4 whitespace-nowrap text-right text-sm'>{formatUSD(event.amountUSD || '0')}</td>
                 <td
@@ -0,0 +1,64 @@
+import React from 'react';
+import { decodeHookPermissions, getHookRiskLevel, hasHook, HookRiskLevel } from '../lib/hookPermissions';
+
+interface HookPermissionBadgesProps {
+  /** Pool.hooks または HookStats.id */
+  hookAddress: string | null | undefined;
+  /** trueの場合は「Hook」とリスクのバッジのみ表示し、パーミッションはツールチップに表示 */
+  compact?: boolean;
+}
+
+const RISK_CLASSES: Record<HookRiskLevel, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+const RISK_LABELS: Record<HookRiskLevel, string> = {
+  high: 'デルタを返す',
+  medium: '要注意',
+  low: '通知のみ',
+};
+
+/**
+ * Hookアドレスから復元したパーミッションをバッジで表示するコンポーネント
+ * Hookがない場合は何も表示しない
+ */
+const HookPermissionBadges: React.FC<HookPermissionBadgesProps> = ({ hookAddress, compact = false }) => {
+  if (!hasHook(hookAddress)) return null;
+
+  const permissions = decodeHookPermissions(hookAddress);
+  const risk = getHookRiskLevel(permissions);
+  const summary = permissions.map((permission) => permission.key).join(', ') || 'パーミッションなし';
+
+  if (compact) {
+    return (
+      <span className='inline-flex items-center' title={summary}>
+        <span className='ml-2 px-2 py-0.5 text-xs bg-purple-100 text-purple-800 rounded-full'>Hook</span>
+        {risk && risk !== 'low' && (
+          <span className={`ml-1 px-2 py-0.5 text-xs rounded-full ${RISK_CLASSES[risk]}`}>{RISK_LABELS[risk]}</span>
+        )}
+      </span>
+    );
+  }
+
+  if (permissions.length === 0) {
+    return <span className='text-xs text-gray-500'>有効なコールバックはありません</span>;
+  }
+
+  return (
+    <span className='inline-flex flex-wrap gap-1'>
+      {permissions.map((permission) => (
+        <span
+          key={permission.key}
+          className={`px-2 py-0.5 text-xs rounded-full ${RISK_CLASSES[permission.risk]}`}
+          title={permission.description}
+        >
+          {permission.key}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default HookPermissionBadges;
@@ -2,6 +2,7 @@ import React, { useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { formatNumber } from '../lib/utils';
 import { calculateLiquidityDelta } from '../lib/liquidityMath';
+import { usePriceFormatter } from '../lib/priceDisplay';
 import { Tick } from '../types';
 
 // GraphQLから取得するTickデータの型
@@ -27,11 +28,8 @@ interface ProcessedTickData {
   liquidityNet: number;
   liquidityGross: number;
   liquidityActive: number;
-  price0: number;
-  price1: number;
   tickLabel: string;
-  price0Label: string;
-  price1Label: string;
+  priceLabel: string;
   positiveLiquidity: number;
   negativeLiquidity: number;
 }
@@ -50,8 +48,6 @@ interface NormalizedTickData {
   tickIdx: number;
   liquidityNet: number;
   liquidityGross: number;
-  price0: number;
-  price1: number;
 }
 
 // Extended tick data after processing with liquidity calculations
@@ -67,20 +63,8 @@ interface FormattedTickData {
   negativeLiquidity: number;
   liquidityGross: number;
   liquidityActive: number;
-  price0: number;
-  price1: number;
   tickLabel: string;
-  price0Label: string;
-  price1Label: string;
-}
-
-// ティックから価格を計算する関数
-function calculatePrice0FromTick(tick: number): number {
-  return Math.pow(1.0001, tick);
-}
-
-function calculatePrice1FromTick(tick: number): number {
-  return 1 / calculatePrice0FromTick(tick);
+  priceLabel: string;
 }
 
 const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
@@ -91,6 +75,12 @@ const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
   tickSpacing = 60,
   maxTicksToShow = 100,
 }) => {
+  // デシマルと表示の向きはPriceDisplayProviderの設定に従う
+  const priceFormatter = usePriceFormatter(
+    { symbol: token0Symbol, decimals: 0 },
+    { symbol: token1Symbol, decimals: 0 },
+  );
+
   // 入力データを数値型に変換（ポジションデータとティックデータの両方に対応）
   const normalizedTickData = useMemo(() => {
     if (!tickData || tickData.length === 0) return [];
@@ -105,8 +95,6 @@ const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
           tickIdx: Number(tickIdx),
           liquidityNet: Number(liquidity), // 下限ティックでは流動性が追加
           liquidityGross: Number(liquidity),
-          price0: calculatePrice0FromTick(Number(tickIdx)),
-          price1: calculatePrice1FromTick(Number(tickIdx)),
         };
       }
       // 通常のティックデータの場合
@@ -114,8 +102,6 @@ const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
         tickIdx: Number(tick.tickIdx),
         liquidityNet: Number(tick.liquidityNet || 0),
         liquidityGross: Number(tick.liquidityGross || 0),
-        price0: Number(tick.price0 || calculatePrice0FromTick(Number(tick.tickIdx))),
-        price1: Number(tick.price1 || calculatePrice1FromTick(Number(tick.tickIdx))),
       };
     });
   }, [tickData]);
@@ -146,15 +132,11 @@ const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
       liquidityGross: tick.liquidityGross,
       // 現在のアクティブな流動性
       liquidityActive: tick.liquidityActive || 0,
-      // 価格情報
-      price0: tick.price0,
-      price1: tick.price1,
       // ラベル用
       tickLabel: `${tick.tickIdx}`,
-      price0Label: `${token0Symbol}: ${Number(tick.price0).toFixed(6)}`,
-      price1Label: `${token1Symbol}: ${Number(tick.price1).toFixed(6)}`,
+      priceLabel: priceFormatter.formatTick(tick.tickIdx),
     })) as FormattedTickData[];
-  }, [normalizedTickData, token0Symbol, token1Symbol]);
+  }, [normalizedTickData, priceFormatter]);
 
   // 現在のtickに最も近いtickを見つけるヘルパー関数
   const closestTickIndex = useMemo(() => {
@@ -201,8 +183,7 @@ const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
       return (
         <div className='bg-white p-3 border border-gray-200 shadow-md rounded'>
           <p className='font-bold mb-1'>Tick: {data.tickIdx}</p>
-          <p className='text-sm'>{data.price0Label}</p>
-          <p className='text-sm'>{data.price1Label}</p>
+          <p className='text-sm'>価格: {data.priceLabel}</p>
           <hr className='my-2' />
           {payload.map((entry: any, index: number) => (
             <p key={`item-${index}`} className='text-sm' style={{ color: entry.color }}>
@@ -243,6 +224,7 @@ const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
               angle={-45}
               textAnchor='end'
               height={60}
+              tickFormatter={(tickIdx) => priceFormatter.format(priceFormatter.fromTick(tickIdx))}
             />
             <YAxis />
             <Tooltip content={<CustomTooltip />} />
@@ -259,7 +241,7 @@ const LiquidityDepthChart: React.FC<LiquidityDepthProps> = ({
       </div>
       <div className='mt-4 text-sm text-gray-500'>
         <p>* 各バーはTickごとの流動性の変化を示します。青は正味の流動性追加、赤は正味の流動性削減を表します。</p>
-        <p>* 赤い垂直線は現在の価格（アクティブなTick）を示します。</p>
+        <p>* 赤い垂直線は現在の価格（アクティブなTick）を示します。横軸の価格の単位は {priceFormatter.unitLabel} です。</p>
         <p>* プール内の流動性はTick境界に集中する傾向があり、これによって価格範囲ごとの流動性の厚さが異なります。</p>
       </div>
     </div>
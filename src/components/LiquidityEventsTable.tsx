@@ -6,7 +6,9 @@ import {
   formatTimestampRelative,
   shortenAddress,
 } from "../lib/utils";
+import { usePriceFormatter } from "../lib/priceDisplay";
 import Link from "next/link";
+import { getExplorerUrl } from "../lib/nativeCurrency";
 import { ModifyLiquidityEvent } from "../types";
 
 interface EventsTableProps {
@@ -16,6 +18,10 @@ interface EventsTableProps {
   loading: boolean;
   error: any;
   type: "liquidity";
+  /** ライブ更新で新たに受信したイベントのID（強調表示する） */
+  highlightIds?: Set<string>;
+  /** エクスプローラーのリンクに使うチェーンID（イベントにchainIdが無い場合） */
+  chainId?: number | string;
 }
 
 const LiquidityEventsTable: React.FC<EventsTableProps> = ({
@@ -24,6 +30,8 @@ const LiquidityEventsTable: React.FC<EventsTableProps> = ({
   token1Symbol,
   loading,
   error,
+  highlightIds,
+  chainId,
 }) => {
   const [sortConfig, setSortConfig] = useState<{
     key: string;
@@ -32,6 +40,11 @@ const LiquidityEventsTable: React.FC<EventsTableProps> = ({
     key: "timestamp",
     direction: "descending",
   });
+  // デシマルと表示の向きはPriceDisplayProviderの設定に従う
+  const priceFormatter = usePriceFormatter(
+    { symbol: token0Symbol, decimals: 0 },
+    { symbol: token1Symbol, decimals: 0 },
+  );
 
   if (loading) {
     return (
@@ -126,7 +139,7 @@ const LiquidityEventsTable: React.FC<EventsTableProps> = ({
               scope="col"
               className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
             >
-              Tick範囲
+              価格範囲（{priceFormatter.unitLabel}）
             </th>
             <th
               scope="col"
@@ -161,9 +174,23 @@ const LiquidityEventsTable: React.FC<EventsTableProps> = ({
               ? "text-green-600"
               : "text-red-600";
             const actionText = isAddLiquidity ? "追加" : "削除";
+            const eventChainId = event.chainId || chainId;
+            const txUrl = getExplorerUrl(
+              eventChainId,
+              "tx",
+              event.transaction,
+            );
+            const senderUrl = getExplorerUrl(
+              eventChainId,
+              "address",
+              event.sender,
+            );
 
             return (
-              <tr key={event.id} className="hover:bg-gray-50">
+              <tr
+                key={event.id}
+                className={`hover:bg-gray-50 ${highlightIds?.has(event.id) ? "bg-green-50" : ""}`}
+              >
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                   <div>{formatTimestamp(Number(event.timestamp))}</div>
                   <div className="text-xs text-gray-500">
@@ -171,24 +198,32 @@ const LiquidityEventsTable: React.FC<EventsTableProps> = ({
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
-                  <a
-                    href={`https://etherscan.io/tx/${event.transaction}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-500 hover:underline"
-                  >
-                    {shortenAddress(event.transaction)}
-                  </a>
+                  {txUrl ? (
+                    <a
+                      href={txUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-500 hover:underline"
+                    >
+                      {shortenAddress(event.transaction)}
+                    </a>
+                  ) : (
+                    shortenAddress(event.transaction)
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
-                  <a
-                    href={`https://etherscan.io/address/${event.sender}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-500 hover:underline"
-                  >
-                    {shortenAddress(event.sender)}
-                  </a>
+                  {senderUrl ? (
+                    <a
+                      href={senderUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-500 hover:underline"
+                    >
+                      {shortenAddress(event.sender)}
+                    </a>
+                  ) : (
+                    shortenAddress(event.sender)
+                  )}
                 </td>
                 <td
                   className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${actionColor}`}
@@ -198,10 +233,13 @@ const LiquidityEventsTable: React.FC<EventsTableProps> = ({
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
                   <div className="flex flex-col">
                     <span>
-                      下限: {Number(event.tickLower).toLocaleString()}
+                      {priceFormatter
+                        .formatTickRange(event.tickLower, event.tickUpper)
+                        .join(" 〜 ")}
                     </span>
-                    <span>
-                      上限: {Number(event.tickUpper).toLocaleString()}
+                    <span className="text-xs text-gray-500">
+                      Tick: {Number(event.tickLower).toLocaleString()} 〜{" "}
+                      {Number(event.tickUpper).toLocaleString()}
                     </span>
                   </div>
                 </td>
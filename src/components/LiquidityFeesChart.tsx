@@ -14,6 +14,7 @@ import {
 } from 'recharts';
 import { formatUSD, formatNumber } from '../lib/utils';
 import { ExtendedChartDataPoint } from '@/types';
+import { isDynamicFeeTier, SwapFeeRates } from '../lib/dynamicFees';
 
 export interface LiquidityFeesChartProps {
   /** チャートに表示するデータポイント配列 */
@@ -28,6 +29,8 @@ export interface LiquidityFeesChartProps {
   onTimeRangeChange?: (range: string) => void;
   /** プールの手数料率 (例: '3000' = 0.3%) */
   feeTier?: string;
+  /** スワップごとの手数料率（動的手数料のプールでは推定値の中央値を表示） */
+  feeRates?: SwapFeeRates;
   /** データがロード中かどうか */
   loading?: boolean;
 }
@@ -59,6 +62,7 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
   timeRange,
   onTimeRangeChange,
   feeTier,
+  feeRates,
   loading = false,
 }) => {
   const [activeDataKeys, setActiveDataKeys] = useState<{
@@ -118,7 +122,7 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
               label = '総流動性 (USD)';
             } else if (entry.dataKey === 'dailyFeeUSD') {
               formattedValue = formatUSD(entry.value);
-              label = '日次手数料 (USD)';
+              label = `日次手数料 (USD)${estimatedLabel}`;
             } else if (entry.dataKey === 'liquidity') {
               // 流動性値は既に10^6単位でスケーリングされている
               formattedValue = `${formatNumber(entry.value)}M`;
@@ -196,6 +200,9 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
 
   // 手数料率を正確に計算 (例: 3000 -> 0.3%)
   const feeRatePercentage = feeTier ? Number(feeTier) / 10000 : 0;
+  // 動的手数料のプールでは手数料はスワップから推定した値
+  const isEstimatedFee = isDynamicFeeTier(feeTier);
+  const estimatedLabel = isEstimatedFee ? '（推定）' : '';
 
   // Y軸のフォーマッター
   const rightAxisFormatter = (value: number) => {
@@ -264,7 +271,7 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
             onClick={() => toggleDataKey('dailyFeeUSD')}
           >
             <div className='w-3 h-3 rounded-full bg-green-500 mr-1'></div>
-            <span className='text-sm'>日次手数料 (USD)</span>
+            <span className='text-sm'>日次手数料 (USD){estimatedLabel}</span>
           </div>
         </div>
 
@@ -335,7 +342,7 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
                 <Bar
                   yAxisId='right'
                   dataKey='dailyFeeUSD'
-                  name='日次手数料 (USD)'
+                  name={`日次手数料 (USD)${estimatedLabel}`}
                   fill='#10B981'
                   isAnimationActive={false}
                   barSize={4}
@@ -360,11 +367,16 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
                   <span className='font-medium'>流動性:</span> {formatNumber(stats.currentLiq) + 'M'}
                 </p>
                 <p>
-                  <span className='font-medium'>期間内総手数料:</span> {formatUSD(stats.totalFees)}
+                  <span className='font-medium'>期間内総手数料{estimatedLabel}:</span> {formatUSD(stats.totalFees)}
                 </p>
                 {feeTier && (
                   <p>
-                    <span className='font-medium'>手数料率:</span> {feeRatePercentage}%
+                    <span className='font-medium'>手数料率:</span>{' '}
+                    {isEstimatedFee
+                      ? feeRates && feeRates.inferredCount > 0
+                        ? `動的（推定中央値 ${(feeRates.defaultRate * 100).toFixed(3)}%）`
+                        : '動的'
+                      : `${feeRatePercentage}%`}
                   </p>
                 )}
               </div>
@@ -375,13 +387,14 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
                 {processedData.length > 1 && (
                   <>
                     <p>
-                      <span className='font-medium'>平均日次手数料:</span> {formatUSD(stats.averageFee)}
+                      <span className='font-medium'>平均日次手数料{estimatedLabel}:</span> {formatUSD(stats.averageFee)}
                     </p>
                     <p>
-                      <span className='font-medium'>年間手数料推定:</span> {formatUSD(stats.estimatedAnnualFees)}
+                      <span className='font-medium'>年間手数料推定{estimatedLabel}:</span>{' '}
+                      {formatUSD(stats.estimatedAnnualFees)}
                     </p>
                     <p>
-                      <span className='font-medium'>推定年率 (APR):</span> {stats.feeAPR.toFixed(2)}%
+                      <span className='font-medium'>推定年率 (APR){estimatedLabel}:</span> {stats.feeAPR.toFixed(2)}%
                     </p>
                     <p>
                       <span className='font-medium'>流動性変化:</span> {formatUSD(stats.liquidityChange)} (
@@ -392,6 +405,12 @@ const LiquidityFeesChart: React.FC<LiquidityFeesChartProps> = ({
               </div>
             </div>
           </div>
+          {isEstimatedFee && (
+            <p className='mt-3 text-xs text-gray-500'>
+              * 動的手数料のプールのため、手数料はスワップ前後の価格と量からスワップごとに推定した値です。
+              推定できないスワップには推定値の中央値を使っています。
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -5,6 +5,14 @@ import {
   formatTimestamp,
   shortenAddress,
 } from "../lib/utils";
+import {
+  formatTokenUnits,
+  getPositionTokenAmounts,
+  PositionTokenAmounts,
+} from "../lib/liquidityMath";
+import { usePriceFormatter } from "../lib/priceDisplay";
+import { PositionFeeEstimate } from "../lib/positionFees";
+import { calculatePositionPnl, PositionPnl } from "../lib/positionPnl";
 import Link from "next/link";
 import { LiquidityPosition, Token } from "../types";
 
@@ -14,9 +22,17 @@ interface LiquidityPositionsTableProps {
   token1: Token;
   ethPrice: string;
   currentTick?: number;
+  /** プールの現在の価格（Q64.96）。指定した場合は各ポジションの現在の保有量を表示 */
+  sqrtPriceX96?: string;
   loading: boolean;
   error: any;
   poolName?: string;
+  /** スワップから推定した各ポジションの手数料（ポジションIDをキーとする） */
+  feeEstimates?: Map<string, PositionFeeEstimate>;
+  /** 詳細を表示中のポジション */
+  selectedPositionId?: string | null;
+  /** 行をクリックしたときに呼ばれる（指定した場合は行を選択できる） */
+  onSelectPosition?: (positionId: string) => void;
 }
 
 const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
@@ -25,9 +41,13 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
   token1,
   ethPrice,
   currentTick,
+  sqrtPriceX96,
   loading,
   error,
   poolName,
+  feeEstimates,
+  selectedPositionId,
+  onSelectPosition,
 }) => {
   const [sortConfig, setSortConfig] = useState<{
     key: string;
@@ -36,6 +56,7 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
     key: "liquidity",
     direction: "descending",
   });
+  const priceFormatter = usePriceFormatter(token0, token1);
 
   if (loading) {
     return (
@@ -103,6 +124,64 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
     return lower <= current && current < upper;
   };
 
+  // 現在のトークン価格でUSDに換算（ETH価格またはトークンのETH建て価格がない場合はnull）
+  const toCurrentUSD = (amount0: number, amount1: number): number | null => {
+    const price0 = Number(token0.derivedETH || 0) * Number(ethPrice || 0);
+    const price1 = Number(token1.derivedETH || 0) * Number(ethPrice || 0);
+    if (price0 === 0 && price1 === 0) return null;
+    return amount0 * price0 + amount1 * price1;
+  };
+
+  // ポジションが現在保有しているトークン量（bigintで厳密に計算）
+  const getCurrentAmounts = (
+    position: LiquidityPosition,
+  ): PositionTokenAmounts | null => {
+    if (currentTick === undefined || !sqrtPriceX96) return null;
+    try {
+      return getPositionTokenAmounts(
+        position.tickLower,
+        position.tickUpper,
+        currentTick,
+        position.liquidity,
+        sqrtPriceX96,
+      );
+    } catch (e) {
+      console.error("保有量の計算エラー:", e);
+      return null;
+    }
+  };
+
+  // HODLと比べた損益（現在の価格がない場合はnull）
+  const getPnl = (
+    position: LiquidityPosition,
+    feeEstimate?: PositionFeeEstimate,
+  ): PositionPnl | null => {
+    if (currentTick === undefined || !sqrtPriceX96) return null;
+    try {
+      return calculatePositionPnl(position, {
+        sqrtPriceX96,
+        currentTick,
+        token0,
+        token1,
+        ethPriceUSD: ethPrice,
+        feeEstimate,
+      });
+    } catch (e) {
+      console.error("損益の計算エラー:", e);
+      return null;
+    }
+  };
+
+  // 損益の符号を分けて表示（formatNumber / formatUSDは負の値に対応しないため）
+  const formatSignedValue = (value: number, usd: boolean): string => {
+    const sign = value > 0 ? "+" : value < 0 ? "-" : "";
+    const abs = Math.abs(value);
+    return `${sign}${usd ? formatUSD(abs) : formatNumber(abs)}`;
+  };
+
+  const signClass = (value: number): string =>
+    value > 0 ? "text-green-600" : value < 0 ? "text-red-600" : "";
+
   return (
     <div className="overflow-x-auto">
       <table className="min-w-full divide-y divide-gray-200">
@@ -126,7 +205,7 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
               scope="col"
               className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
             >
-              Tick範囲
+              価格範囲（{priceFormatter.unitLabel}）
             </th>
             <th
               scope="col"
@@ -135,6 +214,12 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
             >
               流動性 {getSortIndicator("liquidity")}
             </th>
+            <th
+              scope="col"
+              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+            >
+              現在の保有量
+            </th>
             <th
               scope="col"
               className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
@@ -153,6 +238,28 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
             >
               手数料
             </th>
+            {feeEstimates && (
+              <>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  推定獲得手数料
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  推定未回収手数料
+                </th>
+              </>
+            )}
+            <th
+              scope="col"
+              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+            >
+              損益（対HODL）
+            </th>
             <th
               scope="col"
               className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
@@ -168,18 +275,35 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
             const upperTick = Number(position.tickUpper);
             const inRange = isInRange(lowerTick, upperTick, currentTick);
             const rangeStatusClass = inRange ? "bg-green-100" : "bg-gray-100";
+            const currentAmounts = getCurrentAmounts(position);
+            const feeEstimate = feeEstimates?.get(position.id);
+            const uncollectedUSD = feeEstimate
+              ? toCurrentUSD(feeEstimate.uncollected0, feeEstimate.uncollected1)
+              : null;
+            const pnl = getPnl(position, feeEstimate);
+            const isSelected = selectedPositionId === position.id;
+            const [lowerPrice, upperPrice] = priceFormatter.formatTickRange(
+              lowerTick,
+              upperTick,
+            );
 
             return (
-              <tr key={position.id} className="hover:bg-gray-50">
+              <tr
+                key={position.id}
+                className={`hover:bg-gray-50 ${onSelectPosition ? "cursor-pointer" : ""} ${
+                  isSelected ? "bg-blue-50" : ""
+                }`}
+                onClick={() => onSelectPosition?.(position.id)}
+              >
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
-                  <a
-                    href={`https://etherscan.io/address/${position.owner}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
+                  <Link
+                    href={`/address/${position.owner}`}
                     className="text-blue-500 hover:underline"
+                    title="このアドレスのポートフォリオ"
+                    onClick={(e) => e.stopPropagation()}
                   >
                     {shortenAddress(position.owner)}
-                  </a>
+                  </Link>
                 </td>
                 {poolName && (
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
@@ -195,8 +319,13 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
                   className={`px-6 py-4 whitespace-nowrap text-sm ${rangeStatusClass} rounded-lg`}
                 >
                   <div className="flex flex-col">
-                    <span>下限: {lowerTick.toLocaleString()}</span>
-                    <span>上限: {upperTick.toLocaleString()}</span>
+                    <span>
+                      {lowerPrice} 〜 {upperPrice}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      Tick: {lowerTick.toLocaleString()} 〜{" "}
+                      {upperTick.toLocaleString()}
+                    </span>
                     {inRange && (
                       <span className="text-green-600 text-xs">レンジ内</span>
                     )}
@@ -205,6 +334,42 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
                   {Number(position.liquidity).toLocaleString()}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {currentAmounts ? (
+                    <div className="flex flex-col">
+                      <span
+                        title={formatTokenUnits(
+                          currentAmounts.amount0,
+                          token0.decimals,
+                        )}
+                      >
+                        {token0.symbol}:{" "}
+                        {formatNumber(
+                          formatTokenUnits(
+                            currentAmounts.amount0,
+                            token0.decimals,
+                          ),
+                        )}
+                      </span>
+                      <span
+                        title={formatTokenUnits(
+                          currentAmounts.amount1,
+                          token1.decimals,
+                        )}
+                      >
+                        {token1.symbol}:{" "}
+                        {formatNumber(
+                          formatTokenUnits(
+                            currentAmounts.amount1,
+                            token1.decimals,
+                          ),
+                        )}
+                      </span>
+                    </div>
+                  ) : (
+                    "-"
+                  )}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
                   <div className="flex flex-col">
                     <span>
@@ -218,10 +383,10 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
                   <div className="flex flex-col">
                     <span>
-                      {token0.symbol}: {formatNumber(position.withdrawnToken0)}
+                      {token0.symbol}: {formatNumber(position.withdrawnToken0 || "0")}
                     </span>
                     <span>
-                      {token1.symbol}: {formatNumber(position.withdrawnToken1)}
+                      {token1.symbol}: {formatNumber(position.withdrawnToken1 || "0")}
                     </span>
                   </div>
                 </td>
@@ -229,14 +394,93 @@ const LiquidityPositionsTable: React.FC<LiquidityPositionsTableProps> = ({
                   <div className="flex flex-col">
                     <span>
                       {token0.symbol}:{" "}
-                      {formatNumber(position.collectedFeesToken0)}
+                      {formatNumber(position.collectedFeesToken0 || "0")}
                     </span>
                     <span>
                       {token1.symbol}:{" "}
-                      {formatNumber(position.collectedFeesToken1)}
+                      {formatNumber(position.collectedFeesToken1 || "0")}
                     </span>
                   </div>
                 </td>
+                {feeEstimates && (
+                  <>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {feeEstimate ? (
+                        <div className="flex flex-col">
+                          <span>
+                            {token0.symbol}: {formatNumber(feeEstimate.fees0)}
+                          </span>
+                          <span>
+                            {token1.symbol}: {formatNumber(feeEstimate.fees1)}
+                          </span>
+                          <span className="text-gray-500">
+                            {formatUSD(feeEstimate.feesUSD)}
+                          </span>
+                        </div>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {feeEstimate ? (
+                        <div
+                          className="flex flex-col"
+                          title={
+                            feeEstimate.coversFullHistory
+                              ? undefined
+                              : "ポジションの作成が期間より前のため、期間外に得た手数料を含みません"
+                          }
+                        >
+                          <span>
+                            {token0.symbol}:{" "}
+                            {formatNumber(feeEstimate.uncollected0)}
+                          </span>
+                          <span>
+                            {token1.symbol}:{" "}
+                            {formatNumber(feeEstimate.uncollected1)}
+                          </span>
+                          {uncollectedUSD !== null && (
+                            <span className="text-gray-500">
+                              {formatUSD(uncollectedUSD)}
+                            </span>
+                          )}
+                          {!feeEstimate.coversFullHistory && (
+                            <span className="text-yellow-600 text-xs">
+                              期間外を含まない
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                  </>
+                )}
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {pnl ? (
+                    <div className="flex flex-col">
+                      {pnl.netPnl.usd !== null ? (
+                        <span className={signClass(pnl.netPnl.usd)}>
+                          {formatSignedValue(pnl.netPnl.usd, true)}
+                        </span>
+                      ) : (
+                        <span className={signClass(pnl.netPnl.inToken1)}>
+                          {formatSignedValue(pnl.netPnl.inToken1, false)}{" "}
+                          {token1.symbol}
+                        </span>
+                      )}
+                      <span className={`text-xs ${signClass(pnl.netPnlPercent)}`}>
+                        {pnl.netPnlPercent > 0 ? "+" : ""}
+                        {pnl.netPnlPercent.toFixed(2)}%
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        IL: {pnl.impermanentLossPercent.toFixed(2)}%
+                      </span>
+                    </div>
+                  ) : (
+                    "-"
+                  )}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
                   {formatTimestamp(Number(position.createdAtTimestamp))}
                 </td>
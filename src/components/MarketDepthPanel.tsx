@@ -0,0 +1,175 @@
+import React, { useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { formatNumber, formatUSD } from '../lib/utils';
+import { formatTokenUnits } from '../lib/liquidityMath';
+import { usePriceFormatter } from '../lib/priceDisplay';
+import { buildDepthCurve, computeDepthBands, DepthPoolState } from '../lib/marketDepth';
+import { SimulatorTick } from '../lib/swapSimulator';
+
+interface DepthTokenInfo {
+  symbol: string;
+  decimals: string;
+  derivedETH?: string;
+}
+
+interface MarketDepthPanelProps {
+  /** generateTicksFromPositionsで復元したTick */
+  ticks: SimulatorTick[];
+  /** プールの現在の状態（価格・Tick・流動性・手数料） */
+  pool?: Partial<DepthPoolState>;
+  token0: DepthTokenInfo;
+  token1: DepthTokenInfo;
+  /** ETHのUSD価格 */
+  ethPriceUSD: string;
+}
+
+/**
+ * 価格を±x%動かすのに必要なトークン量を、表と累積の深さチャートで表示するコンポーネント
+ */
+const MarketDepthPanel: React.FC<MarketDepthPanelProps> = ({ ticks, pool, token0, token1, ethPriceUSD }) => {
+  const priceFormatter = usePriceFormatter(token0, token1);
+  const poolState = useMemo((): DepthPoolState | null => {
+    if (!pool?.sqrtPriceX96 || pool.tick === undefined || !pool.liquidity || pool.feeTier === undefined) return null;
+    return {
+      sqrtPriceX96: pool.sqrtPriceX96,
+      tick: pool.tick,
+      liquidity: pool.liquidity,
+      feeTier: pool.feeTier,
+    };
+  }, [pool?.sqrtPriceX96, pool?.tick, pool?.liquidity, pool?.feeTier]);
+
+  const { bands, curve, error } = useMemo(() => {
+    if (!poolState || ticks.length === 0) return { bands: [], curve: [] };
+    const depthToken0 = { decimals: token0.decimals, derivedETH: token0.derivedETH };
+    const depthToken1 = { decimals: token1.decimals, derivedETH: token1.derivedETH };
+    try {
+      return {
+        bands: computeDepthBands(ticks, poolState, depthToken0, depthToken1, ethPriceUSD),
+        curve: buildDepthCurve(ticks, poolState, depthToken0, depthToken1, ethPriceUSD),
+      };
+    } catch (e) {
+      return { bands: [], curve: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [ticks, poolState, token0.decimals, token0.derivedETH, token1.decimals, token1.derivedETH, ethPriceUSD]);
+
+  const hasUSDPrice = Number(ethPriceUSD) > 0 && Number(token0.derivedETH) > 0 && Number(token1.derivedETH) > 0;
+
+  // カスタムツールチップ
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      const value = data.percent >= 0 ? data.askUSD : data.bidUSD;
+
+      return (
+        <div className='bg-white p-3 border border-gray-200 shadow-md rounded'>
+          <p className='font-bold mb-1'>
+            {data.percent > 0 ? '+' : ''}
+            {data.percent.toFixed(2)}%
+          </p>
+          <p className='text-sm'>
+            価格: {priceFormatter.format(priceFormatter.fromPrice0(data.price))} {priceFormatter.unitLabel}
+          </p>
+          <p className='text-sm'>必要な量: {formatUSD(value || 0)}</p>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  if (error) {
+    return (
+      <div className='card p-8 text-center'>
+        <p className='text-red-500'>市場の厚さを計算できませんでした: {error}</p>
+      </div>
+    );
+  }
+
+  if (!bands.length) {
+    return (
+      <div className='flex flex-col items-center justify-center h-80 bg-white rounded-lg p-4'>
+        <p className='text-gray-500'>市場の厚さを計算するためのデータがありません</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className='bg-white rounded-lg shadow p-4'>
+      <h2 className='text-xl font-semibold mb-4'>市場の厚さ（±x%）</h2>
+
+      <div className='overflow-x-auto mb-6'>
+        <table className='min-w-full divide-y divide-gray-200 text-sm'>
+          <thead className='bg-gray-50'>
+            <tr>
+              <th className='px-4 py-2 text-left font-medium text-gray-500'>価格変動</th>
+              <th className='px-4 py-2 text-right font-medium text-gray-500'>{token0.symbol}を売却</th>
+              <th className='px-4 py-2 text-right font-medium text-gray-500'>
+                {token1.symbol}で{token0.symbol}を購入
+              </th>
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-gray-200'>
+            {bands.map((band) => (
+              <tr key={band.percent}>
+                <td className='px-4 py-2 font-medium'>±{band.percent}%</td>
+                <td className='px-4 py-2 text-right'>
+                  <div>
+                    {formatNumber(formatTokenUnits(band.bid.amountIn, token0.decimals))} {token0.symbol}
+                  </div>
+                  {hasUSDPrice && <div className='text-gray-500'>{formatUSD(band.bid.amountInUSD)}</div>}
+                </td>
+                <td className='px-4 py-2 text-right'>
+                  <div>
+                    {formatNumber(formatTokenUnits(band.ask.amountIn, token1.decimals))} {token1.symbol}
+                  </div>
+                  {hasUSDPrice && <div className='text-gray-500'>{formatUSD(band.ask.amountInUSD)}</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {hasUSDPrice && (
+        <div className='h-80'>
+          <ResponsiveContainer width='100%' height='100%'>
+            <AreaChart data={curve} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+              <CartesianGrid strokeDasharray='3 3' />
+              <XAxis
+                dataKey='percent'
+                type='number'
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value) => `${value > 0 ? '+' : ''}${value}%`}
+              />
+              <YAxis tickFormatter={(value) => formatUSD(value, 0)} />
+              <Tooltip content={<CustomTooltip />} />
+              <ReferenceLine
+                x={0}
+                stroke='#DC2626'
+                strokeWidth={2}
+                label={{ value: '現在価格', position: 'top', fill: '#DC2626' }}
+              />
+              <Area type='monotone' dataKey='bidUSD' name='売却側' stroke='#10B981' fill='#A7F3D0' connectNulls={false} />
+              <Area type='monotone' dataKey='askUSD' name='購入側' stroke='#EF4444' fill='#FECACA' connectNulls={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className='mt-4 text-sm text-gray-500'>
+        <p>* 必要な量は手数料を含む支払い量で、取得したポジションから復元したTickの流動性で計算しています。</p>
+        <p>
+          * 価格変動率は {token1.symbol}/{token0.symbol} の価格に対する変動です（{token0.symbol}
+          の売却で下落、購入で上昇）。
+        </p>
+        {hasUSDPrice ? (
+          <p>* USD換算はトークンのETH建て価格（derivedETH）とETH価格から算出しています。</p>
+        ) : (
+          <p>* トークンのETH建て価格が取得できないため、USD換算は表示していません。</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarketDepthPanel;
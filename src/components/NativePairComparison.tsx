@@ -0,0 +1,185 @@
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@apollo/client';
+import { GET_COUNTERPART_POOLS } from '../lib/queries';
+import { client } from '../lib/apollo-client';
+import { formatUSD } from '../lib/utils';
+import { sqrtPriceX96ToPrice } from '../lib/liquidityMath';
+import { formatFeeTier } from '../lib/dynamicFees';
+import {
+  buildCounterpartPoolWhere,
+  getCounterpartTokenId,
+  isNativeCurrency,
+  isWrappedNative,
+  resolveToken,
+} from '../lib/nativeCurrency';
+import TokenLabel from './TokenLabel';
+import HookPermissionBadges from './HookPermissionBadges';
+import { Pool, PoolsQueryResult, Token } from '../types';
+
+interface NativePairComparisonProps {
+  /** 表示中のプール */
+  pool: Pool;
+  token0: Partial<Token>;
+  token1: Partial<Token>;
+}
+
+interface ComparisonRow {
+  pool: Pool;
+  isCurrent: boolean;
+  baseSymbol: string;
+  quoteSymbol: string;
+  /** ネイティブ通貨（またはラップ版）1単位あたりの相手トークンの量 */
+  basePrice: number | null;
+  /** 手数料 / TVL（累計） */
+  feesToTvl: number | null;
+}
+
+const formatPrice = (value: number) => value.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+/**
+ * ETH/Xのプールと、ネイティブ通貨をラップ版に入れ替えたWETH/Xのプール（またはその逆）を比較するコンポーネント
+ * 対応するプールが無い組み合わせの場合は何も表示しない
+ */
+const NativePairComparison: React.FC<NativePairComparisonProps> = ({ pool, token0, token1 }) => {
+  const where = useMemo(
+    () => buildCounterpartPoolWhere(pool.token0, pool.token1, pool.chainId),
+    [pool.token0, pool.token1, pool.chainId],
+  );
+  const counterpartTokenIds = useMemo(
+    () => [pool.token0, pool.token1].map((tokenId) => getCounterpartTokenId(tokenId, pool.chainId) ?? tokenId),
+    [pool.token0, pool.token1, pool.chainId],
+  );
+
+  const { loading, error, data } = useQuery<PoolsQueryResult>(GET_COUNTERPART_POOLS, {
+    variables: where ? { where, tokenWhere: { id: { _in: counterpartTokenIds } } } : undefined,
+    skip: !where,
+    client,
+  });
+
+  const rows = useMemo((): ComparisonRow[] => {
+    const tokenMap: Record<string, Partial<Token>> = { [pool.token0]: token0, [pool.token1]: token1 };
+    (data?.Token || []).forEach((token) => {
+      tokenMap[token.id] = token;
+    });
+
+    const toRow = (target: Pool, isCurrent: boolean): ComparisonRow => {
+      const resolved0 = resolveToken(target.token0, tokenMap[target.token0], 'Unknown', target.chainId);
+      const resolved1 = resolveToken(target.token1, tokenMap[target.token1], 'Unknown', target.chainId);
+      const baseIsToken0 = isNativeCurrency(target.token0) || isWrappedNative(target.token0, target.chainId);
+      const [base, quote] = baseIsToken0 ? [resolved0, resolved1] : [resolved1, resolved0];
+
+      let basePrice: number | null = null;
+      if (target.sqrtPrice && resolved0.decimals !== '' && resolved1.decimals !== '') {
+        // token0を基準にした価格（token1/token0）。ネイティブ通貨がtoken1の場合は逆数にする
+        const price = sqrtPriceX96ToPrice(target.sqrtPrice, resolved0.decimals, resolved1.decimals, !baseIsToken0);
+        basePrice = Number.isFinite(price) && price > 0 ? price : null;
+      }
+
+      const tvl = Number(target.totalValueLockedUSD);
+      return {
+        pool: target,
+        isCurrent,
+        baseSymbol: base.symbol,
+        quoteSymbol: quote.symbol,
+        basePrice,
+        feesToTvl: tvl > 0 && target.feesUSD !== undefined ? Number(target.feesUSD) / tvl : null,
+      };
+    };
+
+    return [toRow(pool, true), ...(data?.Pool || []).map((target) => toRow(target, false))];
+  }, [pool, token0, token1, data]);
+
+  if (!where) return null;
+
+  const currentPrice = rows[0].basePrice;
+  const baseToken =
+    isNativeCurrency(pool.token0) || isWrappedNative(pool.token0, pool.chainId)
+      ? resolveToken(pool.token0, token0, '', pool.chainId)
+      : resolveToken(pool.token1, token1, '', pool.chainId);
+  const counterpartLabel = baseToken.isNative ? 'ラップ版' : 'ネイティブ通貨';
+
+  return (
+    <div>
+      <p className='text-sm text-gray-600 mb-3'>
+        <TokenLabel token={baseToken} /> を{counterpartLabel}に入れ替えたプールと比較します。
+        価格差は、このプールの価格を基準にした差です。
+      </p>
+
+      {loading ? (
+        <p className='text-sm text-gray-500'>読み込み中...</p>
+      ) : error ? (
+        <p className='text-sm text-red-500'>エラーが発生しました: {error.message}</p>
+      ) : (
+        <div className='overflow-x-auto'>
+          <table className='min-w-full divide-y divide-gray-200 text-sm'>
+            <thead className='bg-gray-50'>
+              <tr>
+                <th className='px-3 py-2 text-left font-medium text-gray-500'>ペア</th>
+                <th className='px-3 py-2 text-left font-medium text-gray-500'>手数料率</th>
+                <th className='px-3 py-2 text-right font-medium text-gray-500'>TVL</th>
+                <th className='px-3 py-2 text-right font-medium text-gray-500'>出来高</th>
+                <th className='px-3 py-2 text-right font-medium text-gray-500'>手数料</th>
+                <th className='px-3 py-2 text-right font-medium text-gray-500'>手数料 / TVL</th>
+                <th className='px-3 py-2 text-right font-medium text-gray-500'>価格</th>
+                <th className='px-3 py-2 text-right font-medium text-gray-500'>価格差</th>
+              </tr>
+            </thead>
+            <tbody className='bg-white divide-y divide-gray-200'>
+              {rows.map((row) => {
+                const spread =
+                  !row.isCurrent && row.basePrice !== null && currentPrice !== null
+                    ? (row.basePrice / currentPrice - 1) * 100
+                    : null;
+                return (
+                  <tr key={row.pool.id} className={row.isCurrent ? 'bg-blue-50' : undefined}>
+                    <td className='px-3 py-2 whitespace-nowrap'>
+                      {row.isCurrent ? (
+                        <span className='font-medium'>
+                          {row.baseSymbol} / {row.quoteSymbol}
+                          <span className='ml-2 text-xs text-gray-500'>このプール</span>
+                        </span>
+                      ) : (
+                        <Link
+                          href={{ pathname: '/pool/[id]', query: { id: row.pool.id } }}
+                          className='text-blue-500 hover:underline font-medium'
+                        >
+                          {row.baseSymbol} / {row.quoteSymbol}
+                        </Link>
+                      )}
+                      <HookPermissionBadges hookAddress={row.pool.hooks} compact />
+                    </td>
+                    <td className='px-3 py-2 whitespace-nowrap'>{formatFeeTier(row.pool.feeTier)}</td>
+                    <td className='px-3 py-2 whitespace-nowrap text-right'>{formatUSD(row.pool.totalValueLockedUSD)}</td>
+                    <td className='px-3 py-2 whitespace-nowrap text-right'>
+                      {row.pool.volumeUSD !== undefined ? formatUSD(row.pool.volumeUSD) : '-'}
+                    </td>
+                    <td className='px-3 py-2 whitespace-nowrap text-right'>
+                      {row.pool.feesUSD !== undefined ? formatUSD(row.pool.feesUSD) : '-'}
+                    </td>
+                    <td className='px-3 py-2 whitespace-nowrap text-right'>
+                      {row.feesToTvl !== null ? `${(row.feesToTvl * 100).toFixed(2)}%` : '-'}
+                    </td>
+                    <td className='px-3 py-2 whitespace-nowrap text-right'>
+                      {row.basePrice !== null
+                        ? `1 ${row.baseSymbol} = ${formatPrice(row.basePrice)} ${row.quoteSymbol}`
+                        : '-'}
+                    </td>
+                    <td className='px-3 py-2 whitespace-nowrap text-right'>
+                      {spread !== null ? `${spread >= 0 ? '+' : ''}${spread.toFixed(3)}%` : '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {rows.length === 1 && (
+            <p className='mt-2 text-sm text-gray-500'>対応する{counterpartLabel}のプールは見つかりませんでした。</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NativePairComparison;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { formatPoolKeySolidity, formatPoolKeyViem, PoolIdVerification } from '../lib/poolKey';
+
+interface PoolKeyPanelProps {
+  /** インデクサーのプールID */
+  poolId: string;
+  /** verifyPoolIdの結果 */
+  verification: PoolIdVerification;
+}
+
+type SnippetFormat = 'solidity' | 'viem';
+
+/**
+ * プールのPoolKeyと、PoolKeyから再計算したPoolIdの検証結果を表示するコンポーネント
+ * 各フィールドとSolidity / viem用のコードをコピーできる
+ */
+const PoolKeyPanel: React.FC<PoolKeyPanelProps> = ({ poolId, verification }) => {
+  const [snippetFormat, setSnippetFormat] = useState<SnippetFormat>('solidity');
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+
+  const { key, computedPoolId, indexedPoolId, matches } = verification;
+  const snippet = snippetFormat === 'solidity' ? formatPoolKeySolidity(key) : formatPoolKeyViem(key);
+
+  const copy = async (field: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopiedField(field);
+      setTimeout(() => setCopiedField((current) => (current === field ? null : current)), 1500);
+    } catch (e) {
+      console.error('コピーに失敗しました:', e);
+    }
+  };
+
+  const CopyButton = ({ field, value }: { field: string; value: string }) => (
+    <button
+      type='button'
+      onClick={() => copy(field, value)}
+      className='ml-2 px-2 py-0.5 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50'
+    >
+      {copiedField === field ? 'コピーしました' : 'コピー'}
+    </button>
+  );
+
+  const rows: { field: string; value: string }[] = [
+    { field: 'currency0', value: key.currency0 },
+    { field: 'currency1', value: key.currency1 },
+    { field: 'fee', value: String(key.fee) },
+    { field: 'tickSpacing', value: String(key.tickSpacing) },
+    { field: 'hooks', value: key.hooks },
+  ];
+
+  return (
+    <div>
+      <div className={`mb-3 p-3 rounded-md text-sm ${matches ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+        {matches ? (
+          <p>PoolKeyから計算したPoolIdはインデクサーのプールIDと一致します。</p>
+        ) : (
+          <>
+            <p className='font-medium'>PoolKeyから計算したPoolIdがインデクサーのプールIDと一致しません。</p>
+            <p className='mt-1 break-all'>インデクサー: {indexedPoolId ?? poolId}</p>
+            <p className='break-all'>計算結果: {computedPoolId}</p>
+          </>
+        )}
+      </div>
+
+      <table className='min-w-full text-sm'>
+        <tbody className='divide-y divide-gray-200'>
+          {rows.map(({ field, value }) => (
+            <tr key={field}>
+              <td className='py-1 pr-4 font-medium whitespace-nowrap'>{field}</td>
+              <td className='py-1 break-all font-mono'>
+                {value}
+                <CopyButton field={field} value={value} />
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className='py-1 pr-4 font-medium whitespace-nowrap'>PoolId</td>
+            <td className='py-1 break-all font-mono'>
+              {computedPoolId}
+              <CopyButton field='poolId' value={computedPoolId} />
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className='mt-4'>
+        <div className='flex items-center mb-2'>
+          {(['solidity', 'viem'] as SnippetFormat[]).map((format) => (
+            <button
+              key={format}
+              type='button'
+              onClick={() => setSnippetFormat(format)}
+              className={`mr-2 px-2 py-1 text-xs rounded-md border ${
+                snippetFormat === format ? 'bg-blue-500 text-white border-blue-500' : 'border-gray-300 text-gray-700'
+              }`}
+            >
+              {format === 'solidity' ? 'Solidity' : 'viem'}
+            </button>
+          ))}
+          <CopyButton field='snippet' value={snippet} />
+        </div>
+        <pre className='p-3 bg-gray-900 text-gray-100 text-xs rounded-md overflow-x-auto'>{snippet}</pre>
+      </div>
+    </div>
+  );
+};
+
+export default PoolKeyPanel;
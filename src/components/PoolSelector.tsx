@@ -1,9 +1,14 @@
 import React, { useState, useEffect, useRef } from "react";
-import { useQuery } from "@apollo/client";
 import { GET_ALL_POOLS } from "../lib/queries";
-import { client } from "../lib/apollo-client";
+import {
+  chainWhere,
+  mergePoolsResults,
+  useChainFanOutQuery,
+} from "../lib/multiChainQuery";
 import Link from "next/link";
 import { formatUSD, shortenAddress } from "../lib/utils";
+import { resolveToken } from "../lib/nativeCurrency";
+import TokenLabel from "./TokenLabel";
 import { PoolsQueryResult, Pool, Token } from "../types";
 
 interface PoolSelectorProps {
@@ -15,10 +20,15 @@ const PoolSelector: React.FC<PoolSelectorProps> = ({ onSelectPool }) => {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const { loading, error, data } = useQuery<PoolsQueryResult>(GET_ALL_POOLS, {
-    variables: { first: 100 },
-    client,
-  });
+  const { loading, error, data } = useChainFanOutQuery<PoolsQueryResult>(
+    GET_ALL_POOLS,
+    (chainId) => ({
+      first: 100,
+      where: chainWhere(chainId),
+      tokenWhere: chainWhere(chainId),
+    }),
+    (results) => mergePoolsResults(results, 100)
+  );
 
   // トークン情報をIDでマッピング
   const tokenMap: Record<string, Token> = {};
@@ -35,8 +45,18 @@ const PoolSelector: React.FC<PoolSelectorProps> = ({ onSelectPool }) => {
     return data.Pool.filter((pool: Pool) => {
       if (!pool) return false;
       const searchLower = searchTerm.toLowerCase();
-      const token0 = tokenMap[pool.token0] || { symbol: "", name: "" };
-      const token1 = tokenMap[pool.token1] || { symbol: "", name: "" };
+      const token0 = resolveToken(
+        pool.token0,
+        tokenMap[pool.token0],
+        "",
+        pool.chainId,
+      );
+      const token1 = resolveToken(
+        pool.token1,
+        tokenMap[pool.token1],
+        "",
+        pool.chainId,
+      );
 
       return (
         pool.id.toLowerCase().includes(searchLower) ||
@@ -114,14 +134,18 @@ const PoolSelector: React.FC<PoolSelectorProps> = ({ onSelectPool }) => {
             <ul className="py-1">
               {filteredPools.map((pool: Pool) => {
                 if (!pool) return null;
-                const token0 = tokenMap[pool.token0] || {
-                  symbol: "Unknown",
-                  name: "Unknown",
-                };
-                const token1 = tokenMap[pool.token1] || {
-                  symbol: "Unknown",
-                  name: "Unknown",
-                };
+                const token0 = resolveToken(
+                  pool.token0,
+                  tokenMap[pool.token0],
+                  "Unknown",
+                  pool.chainId,
+                );
+                const token1 = resolveToken(
+                  pool.token1,
+                  tokenMap[pool.token1],
+                  "Unknown",
+                  pool.chainId,
+                );
                 const pairName = `${token0.symbol}/${token1.symbol}`;
 
                 return (
@@ -136,7 +160,10 @@ const PoolSelector: React.FC<PoolSelectorProps> = ({ onSelectPool }) => {
                         }}
                       >
                         <div>
-                          <span className="font-medium">{pairName}</span>
+                          <span className="font-medium">
+                            <TokenLabel token={token0} />/
+                            <TokenLabel token={token1} />
+                          </span>
                           <span className="ml-2 text-gray-500 text-xs">
                             {shortenAddress(pool.id)}
                           </span>
@@ -155,7 +182,10 @@ const PoolSelector: React.FC<PoolSelectorProps> = ({ onSelectPool }) => {
                         onClick={() => setIsOpen(false)}
                       >
                         <div>
-                          <span className="font-medium">{pairName}</span>
+                          <span className="font-medium">
+                            <TokenLabel token={token0} />/
+                            <TokenLabel token={token1} />
+                          </span>
                           <span className="ml-2 text-gray-500 text-xs">
                             {shortenAddress(pool.id)}
                           </span>
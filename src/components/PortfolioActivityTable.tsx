@@ -0,0 +1,143 @@
+import React from 'react';
+import Link from 'next/link';
+import { formatNumber, formatTimestamp, formatTimestampRelative, formatUSD, shortenAddress } from '../lib/utils';
+import { createPriceFormatter } from '../lib/priceDisplay';
+import { getExplorerUrl } from '../lib/nativeCurrency';
+import { PortfolioPoolContext } from '../lib/portfolio';
+import { getChainName } from '../utils/chains';
+import { ModifyLiquidityEvent } from '../types';
+
+interface PortfolioActivityTableProps {
+  events: ModifyLiquidityEvent[];
+  /** プールIDをキーとするプールの状態（トークンのシンボルとデシマルに使う） */
+  poolContexts: Map<string, PortfolioPoolContext>;
+}
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-4 py-4 whitespace-nowrap text-sm';
+
+/**
+ * アドレスの流動性変更（ModifyLiquidity）の履歴を、プール・チェーンをまたいで表示するテーブル
+ */
+const PortfolioActivityTable: React.FC<PortfolioActivityTableProps> = ({ events, poolContexts }) => {
+  if (events.length === 0) {
+    return (
+      <div className='p-4 text-center'>
+        <p className='text-gray-500'>流動性の変更履歴がありません</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className='overflow-x-auto'>
+      <table className='min-w-full divide-y divide-gray-200'>
+        <thead className='bg-gray-50'>
+          <tr>
+            <th scope='col' className={headerClass}>
+              日時
+            </th>
+            <th scope='col' className={headerClass}>
+              種類
+            </th>
+            <th scope='col' className={headerClass}>
+              プール
+            </th>
+            <th scope='col' className={headerClass}>
+              価格範囲
+            </th>
+            <th scope='col' className={headerClass}>
+              数量
+            </th>
+            <th scope='col' className={headerClass}>
+              USD
+            </th>
+            <th scope='col' className={headerClass}>
+              トランザクション
+            </th>
+          </tr>
+        </thead>
+        <tbody className='bg-white divide-y divide-gray-200'>
+          {events.map((event) => {
+            const context = event.pool ? poolContexts.get(event.pool) : undefined;
+            const chainId = event.chainId || context?.pool.chainId;
+            const symbol0 = context?.token0.symbol || 'Token0';
+            const symbol1 = context?.token1.symbol || 'Token1';
+            // liquidityDeltaが存在すればそれを使用、そうでなければamount0を使用
+            const isAddLiquidity = event.liquidityDelta ? Number(event.liquidityDelta) > 0 : Number(event.amount0) > 0;
+            const txUrl = getExplorerUrl(chainId, 'tx', event.transaction);
+
+            return (
+              <tr key={event.id} className='hover:bg-gray-50'>
+                <td className={cellClass}>
+                  <div className='flex flex-col'>
+                    <span>{formatTimestamp(event.timestamp)}</span>
+                    <span className='text-xs text-gray-500'>{formatTimestampRelative(event.timestamp)}</span>
+                  </div>
+                </td>
+                <td className={cellClass}>
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded-full ${
+                      isAddLiquidity ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}
+                  >
+                    {isAddLiquidity ? '追加' : '削除'}
+                  </span>
+                </td>
+                <td className={cellClass}>
+                  {event.pool ? (
+                    <Link href={`/pool/${event.pool}`} className='text-blue-500 hover:underline'>
+                      {context ? `${symbol0} / ${symbol1}` : shortenAddress(event.pool)}
+                    </Link>
+                  ) : (
+                    '-'
+                  )}
+                  {chainId && <div className='text-xs text-gray-500'>{getChainName(chainId)}</div>}
+                </td>
+                <td className={cellClass}>
+                  {context ? (
+                    <div className='flex flex-col'>
+                      <span>
+                        {createPriceFormatter(context.token0, context.token1)
+                          .formatTickRange(event.tickLower, event.tickUpper)
+                          .join(' 〜 ')}
+                      </span>
+                      <span className='text-xs text-gray-500'>
+                        Tick: {Number(event.tickLower).toLocaleString()} 〜 {Number(event.tickUpper).toLocaleString()}
+                      </span>
+                    </div>
+                  ) : (
+                    <span>
+                      Tick: {Number(event.tickLower).toLocaleString()} 〜 {Number(event.tickUpper).toLocaleString()}
+                    </span>
+                  )}
+                </td>
+                <td className={cellClass}>
+                  <div className='flex flex-col'>
+                    <span>
+                      {symbol0}: {formatNumber(Math.abs(Number(event.amount0)))}
+                    </span>
+                    <span>
+                      {symbol1}: {formatNumber(Math.abs(Number(event.amount1)))}
+                    </span>
+                  </div>
+                </td>
+                <td className={cellClass}>{formatUSD(Math.abs(Number(event.amountUSD)))}</td>
+                <td className={cellClass}>
+                  {txUrl ? (
+                    <a href={txUrl} target='_blank' rel='noopener noreferrer' className='text-blue-500 hover:underline'>
+                      {shortenAddress(event.transaction)}
+                    </a>
+                  ) : (
+                    shortenAddress(event.transaction)
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PortfolioActivityTable;
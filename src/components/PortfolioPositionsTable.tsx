@@ -0,0 +1,189 @@
+import React from 'react';
+import Link from 'next/link';
+import { formatNumber, formatTimestamp, formatUSD } from '../lib/utils';
+import { createPriceFormatter } from '../lib/priceDisplay';
+import { formatFeeTier } from '../lib/dynamicFees';
+import { PortfolioPosition } from '../lib/portfolio';
+import { getChainName } from '../utils/chains';
+import TokenLabel from './TokenLabel';
+
+interface PortfolioPositionsTableProps {
+  positions: PortfolioPosition[];
+}
+
+// 損益の符号を分けて表示（formatNumber / formatUSDは負の値に対応しないため）
+const formatSignedUSD = (value: number) => `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatUSD(Math.abs(value))}`;
+const signClass = (value: number) => (value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : '');
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-4 py-4 whitespace-nowrap text-sm';
+
+/**
+ * アドレスが保有するポジションを、プール・チェーンをまたいで一覧表示するテーブル
+ */
+const PortfolioPositionsTable: React.FC<PortfolioPositionsTableProps> = ({ positions }) => {
+  if (positions.length === 0) {
+    return (
+      <div className='p-4 text-center'>
+        <p className='text-gray-500'>ポジションがありません</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className='overflow-x-auto'>
+      <table className='min-w-full divide-y divide-gray-200'>
+        <thead className='bg-gray-50'>
+          <tr>
+            <th scope='col' className={headerClass}>
+              プール
+            </th>
+            <th scope='col' className={headerClass}>
+              価格範囲
+            </th>
+            <th scope='col' className={headerClass}>
+              状態
+            </th>
+            <th scope='col' className={headerClass}>
+              現在の保有量
+            </th>
+            <th scope='col' className={headerClass}>
+              価値
+            </th>
+            <th scope='col' className={headerClass}>
+              回収済み手数料
+            </th>
+            <th scope='col' className={headerClass}>
+              損益（対HODL）
+            </th>
+            <th scope='col' className={headerClass}>
+              作成日
+            </th>
+          </tr>
+        </thead>
+        <tbody className='bg-white divide-y divide-gray-200'>
+          {positions.map((item) => {
+            const { position, context, pnl } = item;
+
+            if (!context) {
+              return (
+                <tr key={position.id}>
+                  <td className={cellClass}>
+                    {position.pool ? (
+                      <Link href={`/pool/${position.pool}`} className='text-blue-500 hover:underline'>
+                        {position.pool}
+                      </Link>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className={`${cellClass} text-gray-500`} colSpan={6}>
+                    プールの情報を取得できませんでした（Tick: {Number(position.tickLower).toLocaleString()} 〜{' '}
+                    {Number(position.tickUpper).toLocaleString()}）
+                  </td>
+                  <td className={cellClass}>{formatTimestamp(Number(position.createdAtTimestamp || 0))}</td>
+                </tr>
+              );
+            }
+
+            const { pool, token0, token1 } = context;
+            const priceFormatter = createPriceFormatter(token0, token1);
+            const [lowerPrice, upperPrice] = priceFormatter.formatTickRange(position.tickLower, position.tickUpper);
+
+            return (
+              <tr key={position.id} className='hover:bg-gray-50'>
+                <td className={cellClass}>
+                  <Link href={`/pool/${pool.id}`} className='text-blue-500 hover:underline'>
+                    <TokenLabel token={token0} /> / <TokenLabel token={token1} />
+                  </Link>
+                  <div className='text-xs text-gray-500'>
+                    {getChainName(pool.chainId)}・{formatFeeTier(pool.feeTier)}
+                  </div>
+                </td>
+                <td className={cellClass}>
+                  <div className='flex flex-col'>
+                    <span>
+                      {lowerPrice} 〜 {upperPrice}
+                    </span>
+                    <span className='text-xs text-gray-500'>
+                      {priceFormatter.unitLabel}（Tick: {Number(position.tickLower).toLocaleString()} 〜{' '}
+                      {Number(position.tickUpper).toLocaleString()}）
+                    </span>
+                  </div>
+                </td>
+                <td className={cellClass}>
+                  {item.closed ? (
+                    <span className='px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded-full'>クローズ済み</span>
+                  ) : item.inRange ? (
+                    <span className='px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full'>レンジ内</span>
+                  ) : (
+                    <span className='px-2 py-0.5 text-xs bg-yellow-100 text-yellow-800 rounded-full'>レンジ外</span>
+                  )}
+                </td>
+                <td className={cellClass}>
+                  {item.currentAmount0 !== null && item.currentAmount1 !== null ? (
+                    <div className='flex flex-col'>
+                      <span title={item.currentAmount0}>
+                        {token0.symbol}: {formatNumber(item.currentAmount0)}
+                      </span>
+                      <span title={item.currentAmount1}>
+                        {token1.symbol}: {formatNumber(item.currentAmount1)}
+                      </span>
+                    </div>
+                  ) : (
+                    '-'
+                  )}
+                </td>
+                <td className={cellClass}>{item.currentValueUSD !== null ? formatUSD(item.currentValueUSD) : '-'}</td>
+                <td className={cellClass}>
+                  <div className='flex flex-col'>
+                    <span>
+                      {token0.symbol}: {formatNumber(position.collectedFeesToken0 || '0')}
+                    </span>
+                    <span>
+                      {token1.symbol}: {formatNumber(position.collectedFeesToken1 || '0')}
+                    </span>
+                    {item.collectedFeesUSD !== null && (
+                      <span className='text-gray-500'>{formatUSD(item.collectedFeesUSD)}</span>
+                    )}
+                  </div>
+                </td>
+                <td className={cellClass}>
+                  {pnl ? (
+                    <div className='flex flex-col'>
+                      {pnl.netPnl.usd !== null ? (
+                        <span className={signClass(pnl.netPnl.usd)}>{formatSignedUSD(pnl.netPnl.usd)}</span>
+                      ) : (
+                        <span className={signClass(pnl.netPnl.inToken1)}>
+                          {pnl.netPnl.inToken1 > 0 ? '+' : pnl.netPnl.inToken1 < 0 ? '-' : ''}
+                          {formatNumber(Math.abs(pnl.netPnl.inToken1))} {token1.symbol}
+                        </span>
+                      )}
+                      <span className={`text-xs ${signClass(pnl.netPnlPercent)}`}>
+                        {pnl.netPnlPercent > 0 ? '+' : ''}
+                        {pnl.netPnlPercent.toFixed(2)}%
+                      </span>
+                      <span className='text-xs text-gray-500'>IL: {pnl.impermanentLossPercent.toFixed(2)}%</span>
+                    </div>
+                  ) : (
+                    '-'
+                  )}
+                </td>
+                <td className={cellClass}>
+                  <div className='flex flex-col'>
+                    <span>{formatTimestamp(Number(position.createdAtTimestamp || 0))}</span>
+                    <Link href={`/position/${position.id}`} className='text-xs text-blue-500 hover:underline'>
+                      履歴を見る
+                    </Link>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PortfolioPositionsTable;
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { LiquidityPosition, Token } from '../types';
+import { calculatePositionPnl } from '../lib/positionPnl';
+import { PositionFeeEstimate } from '../lib/positionFees';
+import { usePriceFormatter } from '../lib/priceDisplay';
+import { formatTimestamp, shortenAddress } from '../lib/utils';
+import PositionPnlBreakdown from './PositionPnlBreakdown';
+import PositionFeeTimeline from './PositionFeeTimeline';
+
+interface PositionDetailProps {
+  position: LiquidityPosition;
+  token0: Token;
+  token1: Token;
+  /** プールの現在の価格（Q64.96） */
+  sqrtPriceX96?: string;
+  /** プールの現在のTick */
+  currentTick?: string | number;
+  /** ETHのUSD価格 */
+  ethPrice: string;
+  /** スワップから推定した手数料 */
+  feeEstimate?: PositionFeeEstimate;
+  onClose?: () => void;
+}
+
+/**
+ * 1つのポジションの詳細（価格範囲・損益の内訳・手数料の推移）を表示するコンポーネント
+ */
+const PositionDetail: React.FC<PositionDetailProps> = ({
+  position,
+  token0,
+  token1,
+  sqrtPriceX96,
+  currentTick,
+  ethPrice,
+  feeEstimate,
+  onClose,
+}) => {
+  const priceFormatter = usePriceFormatter(token0, token1);
+  const [lowerPrice, upperPrice] = priceFormatter.formatTickRange(position.tickLower, position.tickUpper);
+
+  const pnl = useMemo(() => {
+    if (!sqrtPriceX96 || currentTick === undefined) return null;
+    try {
+      return calculatePositionPnl(position, {
+        sqrtPriceX96,
+        currentTick,
+        token0,
+        token1,
+        ethPriceUSD: ethPrice,
+        feeEstimate,
+      });
+    } catch (e) {
+      console.error('損益の計算エラー:', e);
+      return null;
+    }
+  }, [position, sqrtPriceX96, currentTick, token0, token1, ethPrice, feeEstimate]);
+
+  return (
+    <div className='bg-white rounded-lg shadow p-4 mt-6'>
+      <div className='flex items-center justify-between mb-4'>
+        <h3 className='text-lg font-semibold'>ポジションの詳細</h3>
+        <div className='flex items-center space-x-4'>
+          <Link href={`/position/${position.id}`} className='text-sm text-blue-500 hover:underline'>
+            全履歴を見る
+          </Link>
+          {onClose && (
+            <button type='button' className='text-sm text-gray-500 hover:text-gray-700' onClick={onClose}>
+              閉じる
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-2 text-sm mb-6'>
+        <p>
+          <span className='font-medium'>所有者:</span>{' '}
+          <Link href={`/address/${position.owner}`} className='text-blue-500 hover:underline'>
+            {shortenAddress(position.owner)}
+          </Link>
+        </p>
+        <p>
+          <span className='font-medium'>作成日:</span> {formatTimestamp(Number(position.createdAtTimestamp || 0))}
+        </p>
+        <p>
+          <span className='font-medium'>価格範囲:</span> {lowerPrice} 〜 {upperPrice} {priceFormatter.unitLabel}
+        </p>
+        <p>
+          <span className='font-medium'>Tick範囲:</span> {Number(position.tickLower).toLocaleString()} 〜{' '}
+          {Number(position.tickUpper).toLocaleString()}
+        </p>
+      </div>
+
+      {pnl ? (
+        <PositionPnlBreakdown pnl={pnl} token0Symbol={token0.symbol} token1Symbol={token1.symbol} />
+      ) : (
+        <p className='text-gray-500'>プールの現在価格が取得できないため、損益を計算できません</p>
+      )}
+
+      {feeEstimate && (
+        <PositionFeeTimeline estimate={feeEstimate} token0Symbol={token0.symbol} token1Symbol={token1.symbol} />
+      )}
+    </div>
+  );
+};
+
+export default PositionDetail;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { format } from 'date-fns';
+import { formatNumber, formatUSD } from '../lib/utils';
+import { PositionFeeEstimate } from '../lib/positionFees';
+
+interface PositionFeeTimelineProps {
+  estimate: PositionFeeEstimate;
+  token0Symbol: string;
+  token1Symbol: string;
+  onClose?: () => void;
+}
+
+/**
+ * 1つのポジションが得た手数料（推定）の日別推移を表示するチャート
+ */
+const PositionFeeTimeline: React.FC<PositionFeeTimelineProps> = ({ estimate, token0Symbol, token1Symbol, onClose }) => {
+  const data = estimate.timeline.map((point) => ({
+    ...point,
+    dateLabel: format(new Date(point.timestamp * 1000), 'MM/dd'),
+  }));
+
+  // カスタムツールチップ
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+
+      return (
+        <div className='bg-white p-3 border border-gray-200 shadow-md rounded'>
+          <p className='font-bold mb-1'>{format(new Date(point.timestamp * 1000), 'yyyy/MM/dd')}</p>
+          <p className='text-sm'>
+            {token0Symbol}: {formatNumber(point.fees0)}
+          </p>
+          <p className='text-sm'>
+            {token1Symbol}: {formatNumber(point.fees1)}
+          </p>
+          <p className='text-sm'>日別: {formatUSD(point.feesUSD)}</p>
+          <p className='text-sm'>累計: {formatUSD(point.cumulativeFeesUSD)}</p>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <div className='bg-white rounded-lg shadow p-4 mt-6'>
+      <div className='flex items-center justify-between mb-4'>
+        <h3 className='text-lg font-semibold'>手数料の推移（推定）</h3>
+        {onClose && (
+          <button type='button' className='text-sm text-gray-500 hover:text-gray-700' onClick={onClose}>
+            閉じる
+          </button>
+        )}
+      </div>
+      <p className='text-sm text-gray-500 mb-4 break-all'>{estimate.positionId}</p>
+
+      {data.length === 0 ? (
+        <p className='text-gray-500 text-center py-8'>期間内にこのポジションが得た手数料はありません</p>
+      ) : (
+        <div className='h-72'>
+          <ResponsiveContainer width='100%' height='100%'>
+            <ComposedChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+              <CartesianGrid strokeDasharray='3 3' />
+              <XAxis dataKey='dateLabel' />
+              <YAxis yAxisId='daily' tickFormatter={(value) => formatUSD(value, 0)} />
+              <YAxis yAxisId='cumulative' orientation='right' tickFormatter={(value) => formatUSD(value, 0)} />
+              <Tooltip content={<CustomTooltip />} />
+              <Legend />
+              <Bar yAxisId='daily' dataKey='feesUSD' name='日別手数料 (USD)' fill='#93C5FD' />
+              <Line
+                yAxisId='cumulative'
+                type='monotone'
+                dataKey='cumulativeFeesUSD'
+                name='累計手数料 (USD)'
+                stroke='#2563EB'
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PositionFeeTimeline;
@@ -0,0 +1,217 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceArea,
+  ReferenceLine,
+} from 'recharts';
+import { format } from 'date-fns';
+import { formatNumber, formatUSD } from '../lib/utils';
+import { usePriceFormatter } from '../lib/priceDisplay';
+import { PositionHistory } from '../lib/positionHistory';
+import PriceInvertToggle from './PriceInvertToggle';
+
+interface PositionHistoryChartsProps {
+  history: PositionHistory;
+  tickLower: string | number;
+  tickUpper: string | number;
+  token0Symbol: string;
+  token1Symbol: string;
+}
+
+const formatDate = (timestamp: number) => format(new Date(timestamp * 1000), 'MM/dd');
+const formatDateTime = (timestamp: number) => format(new Date(timestamp * 1000), 'yyyy/MM/dd HH:mm');
+
+/**
+ * ポジションの価格範囲とプールの価格の推移、ポジションの価値の推移を表示するチャート
+ * 流動性の追加・削除の時点は縦線で示す
+ */
+const PositionHistoryCharts: React.FC<PositionHistoryChartsProps> = ({
+  history,
+  tickLower,
+  tickUpper,
+  token0Symbol,
+  token1Symbol,
+}) => {
+  const priceFormatter = usePriceFormatter();
+  // 逆向きの表示では上限Tickの方が安い価格になる
+  const lowerBound = priceFormatter.fromTick(priceFormatter.inverted ? tickUpper : tickLower);
+  const upperBound = priceFormatter.fromTick(priceFormatter.inverted ? tickLower : tickUpper);
+
+  // USD価格が1点でも無い場合はtoken1建てで表示する
+  const useUSD = history.points.every((point) => point.valueUSD !== null && point.netDepositUSD !== null);
+  const formatValue = (value: number) => (useUSD ? formatUSD(value) : `${formatNumber(value)} ${token1Symbol}`);
+
+  const data = history.points.map((point) => ({
+    ...point,
+    displayPrice: priceFormatter.fromPrice0(point.price),
+    value: useUSD ? point.valueUSD : point.value1,
+    netDeposit: useUSD ? point.netDepositUSD : point.netDeposit1,
+  }));
+  const eventPoints = data.filter((point) => point.event);
+
+  // 範囲が価格の推移から大きく外れていてもチャートが潰れないように、範囲と価格の両方を含める
+  const prices = data.map((point) => point.displayPrice).filter(Number.isFinite);
+  const boundsInView = [lowerBound, upperBound].filter(Number.isFinite);
+  const domainMin = Math.min(...prices, ...boundsInView);
+  const domainMax = Math.max(...prices, ...boundsInView);
+  const margin = (domainMax - domainMin) * 0.05 || domainMax * 0.05;
+  const priceDomain: [number, number] = [Math.max(0, domainMin - margin), domainMax + margin];
+
+  const eventLines = eventPoints.map((point) => (
+    <ReferenceLine
+      key={`${point.timestamp}-${point.event}`}
+      x={point.timestamp}
+      stroke={point.event === 'add' ? '#10B981' : '#EF4444'}
+      strokeDasharray='3 3'
+    />
+  ));
+
+  // カスタムツールチップ
+  const PriceTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+
+      return (
+        <div className='bg-white p-3 border border-gray-200 shadow-md rounded'>
+          <p className='font-bold mb-1'>{formatDateTime(point.timestamp)}</p>
+          <p className='text-sm'>
+            価格: {priceFormatter.format(point.displayPrice)} {priceFormatter.unitLabel}
+          </p>
+          <p className='text-sm'>{point.inRange ? 'レンジ内' : 'レンジ外'}</p>
+          {point.event && <p className='text-sm'>流動性の{point.event === 'add' ? '追加' : '削除'}</p>}
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  const ValueTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+
+      return (
+        <div className='bg-white p-3 border border-gray-200 shadow-md rounded'>
+          <p className='font-bold mb-1'>{formatDateTime(point.timestamp)}</p>
+          <p className='text-sm'>ポジションの価値: {formatValue(point.value)}</p>
+          <p className='text-sm'>HODLの場合の価値: {formatValue(point.netDeposit)}</p>
+          <p className='text-sm'>流動性: {formatNumber(point.liquidity)}</p>
+          {point.event && <p className='text-sm'>流動性の{point.event === 'add' ? '追加' : '削除'}</p>}
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <>
+      <div className='card mb-6'>
+        <div className='flex items-center justify-between mb-4'>
+          <h2 className='card-title mb-0'>価格と範囲の推移</h2>
+          <PriceInvertToggle />
+        </div>
+        {!history.hasPriceHistory && (
+          <p className='text-sm text-gray-500 mb-2'>期間内にスワップが無いため、現在の価格のみを表示しています</p>
+        )}
+        <div className='h-72'>
+          <ResponsiveContainer width='100%' height='100%'>
+            <ComposedChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+              <CartesianGrid strokeDasharray='3 3' stroke='#eee' />
+              <XAxis
+                dataKey='timestamp'
+                type='number'
+                scale='time'
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatDate}
+                tick={{ fontSize: 12 }}
+              />
+              <YAxis
+                domain={priceDomain}
+                tickFormatter={(value) => priceFormatter.format(value)}
+                tick={{ fontSize: 12 }}
+                width={90}
+              />
+              <Tooltip content={<PriceTooltip />} />
+              {Number.isFinite(lowerBound) && Number.isFinite(upperBound) && (
+                <ReferenceArea y1={lowerBound} y2={upperBound} fill='#DBEAFE' fillOpacity={0.6} ifOverflow='hidden' />
+              )}
+              {eventLines}
+              <Line
+                type='stepAfter'
+                dataKey='displayPrice'
+                name={`価格 (${priceFormatter.unitLabel})`}
+                stroke='#2563EB'
+                dot={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <p className='mt-2 text-xs text-gray-500'>
+          青の帯はポジションの価格範囲（{priceFormatter.format(lowerBound)} 〜 {priceFormatter.format(upperBound)}{' '}
+          {priceFormatter.unitLabel}）、緑の線は流動性の追加、赤の線は削除です。
+        </p>
+      </div>
+
+      <div className='card mb-6'>
+        <h2 className='card-title'>価値の推移</h2>
+        <div className='h-72'>
+          <ResponsiveContainer width='100%' height='100%'>
+            <ComposedChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+              <CartesianGrid strokeDasharray='3 3' stroke='#eee' />
+              <XAxis
+                dataKey='timestamp'
+                type='number'
+                scale='time'
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatDate}
+                tick={{ fontSize: 12 }}
+              />
+              <YAxis
+                tickFormatter={(value) => (useUSD ? formatUSD(value, 0) : formatNumber(value))}
+                domain={['auto', 'auto']}
+                tick={{ fontSize: 12 }}
+                width={90}
+              />
+              <Tooltip content={<ValueTooltip />} />
+              <Legend />
+              {eventLines}
+              <Area
+                type='stepAfter'
+                dataKey='value'
+                name={`ポジションの価値 (${useUSD ? 'USD' : token1Symbol})`}
+                stroke='#2563EB'
+                fill='#BFDBFE'
+                isAnimationActive={false}
+              />
+              <Line
+                type='stepAfter'
+                dataKey='netDeposit'
+                name={`HODLの場合の価値 (${useUSD ? 'USD' : token1Symbol})`}
+                stroke='#9CA3AF'
+                strokeDasharray='4 4'
+                dot={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <p className='mt-2 text-xs text-gray-500'>
+          HODLの場合の価値は、預け入れた{token0Symbol}と{token1Symbol}から引き出した分を除いた量をその時点の価格で評価した値です。
+          {!useUSD && 'USD価格が取得できないため、token1建てで表示しています。'}
+        </p>
+      </div>
+    </>
+  );
+};
+
+export default PositionHistoryCharts;
@@ -0,0 +1,281 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { parseUnits } from 'viem';
+import { formatNumber, formatUSD } from '../lib/utils';
+import { usePriceFormatter } from '../lib/priceDisplay';
+import { formatTokenUnits, MAX_TICK, MIN_TICK, nearestUsableTick, priceToTick, toTokenAmount } from '../lib/liquidityMath';
+import { calculateDailyFees } from '../lib/feesProcessor';
+import { estimateFeeApr, getRecentAverageDailyFees, planPosition } from '../lib/positionPlanner';
+import { SwapEvent } from '../types';
+
+interface PlannerTokenInfo {
+  symbol: string;
+  decimals: string;
+  derivedETH?: string;
+}
+
+interface PositionPlannerProps {
+  sqrtPriceX96?: string;
+  currentTick?: string;
+  /** 現在のTickで有効な流動性 */
+  liquidity?: string;
+  tickSpacing: number;
+  /** プールの手数料率（手数料APRの推定に使う） */
+  feeTier: string;
+  /** 最近のスワップイベント（手数料APRの推定に使う） */
+  swapEvents: SwapEvent[];
+  token0: PlannerTokenInfo;
+  token1: PlannerTokenInfo;
+  /** ETHのUSD価格 */
+  ethPriceUSD: string;
+}
+
+// 手数料APRの推定に使う日数
+const FEE_DAYS = 7;
+
+const RANGE_PRESETS = [5, 10, 25, 50];
+
+// 入力欄に入れる価格の文字列（有効数字6桁）
+const toInputValue = (price: number) => (Number.isFinite(price) ? String(Number(price.toPrecision(6))) : '');
+
+/**
+ * 価格範囲と片方のトークンの量から、もう片方のトークンの必要量・流動性・有効な流動性に対する割合と、
+ * 最近の手数料から推定した手数料APRを計算するコンポーネント
+ */
+const PositionPlanner: React.FC<PositionPlannerProps> = ({
+  sqrtPriceX96,
+  currentTick,
+  liquidity,
+  tickSpacing,
+  feeTier,
+  swapEvents,
+  token0,
+  token1,
+  ethPriceUSD,
+}) => {
+  const priceFormatter = usePriceFormatter(token0, token1);
+  const currentPrice = sqrtPriceX96 ? priceFormatter.fromSqrtPriceX96(sqrtPriceX96) : 0;
+
+  // 下限と上限は表示の向きの切り替えで同時に入れ替えるため、まとめて持つ
+  const [priceRange, setPriceRange] = useState(() => ({
+    lower: toInputValue(currentPrice * 0.9),
+    upper: toInputValue(currentPrice * 1.1),
+  }));
+  const { lower: priceLower, upper: priceUpper } = priceRange;
+  const [fullRange, setFullRange] = useState(false);
+  const [depositToken, setDepositToken] = useState<0 | 1>(0);
+  const [amount, setAmount] = useState('1');
+
+  // 価格の表示の向きが変わったら、入力済みの範囲も逆数にする
+  const invertedRef = useRef(priceFormatter.inverted);
+  useEffect(() => {
+    if (invertedRef.current === priceFormatter.inverted) return;
+    invertedRef.current = priceFormatter.inverted;
+    setPriceRange((range) => ({
+      lower: toInputValue(1 / Number(range.upper)),
+      upper: toInputValue(1 / Number(range.lower)),
+    }));
+  }, [priceFormatter.inverted]);
+
+  const applyPreset = (percent: number) => {
+    setFullRange(false);
+    setPriceRange({
+      lower: toInputValue(currentPrice * (1 - percent / 100)),
+      upper: toInputValue(currentPrice * (1 + percent / 100)),
+    });
+  };
+
+  const { plan, error } = useMemo(() => {
+    if (!sqrtPriceX96 || currentTick === undefined || liquidity === undefined) return {};
+    if (!amount || Number(amount) <= 0) return {};
+
+    try {
+      let tickLower: number;
+      let tickUpper: number;
+      if (fullRange) {
+        tickLower = nearestUsableTick(MIN_TICK, tickSpacing);
+        tickUpper = nearestUsableTick(MAX_TICK, tickSpacing);
+      } else {
+        if (!(Number(priceLower) > 0) || !(Number(priceUpper) > 0)) throw new Error('価格範囲を入力してください');
+        // 表示の向きの価格をTickに変換（逆向きの場合は上限と下限が入れ替わる）
+        const ticks = [priceLower, priceUpper].map((price) =>
+          priceToTick(price, token0.decimals, token1.decimals, priceFormatter.inverted),
+        );
+        tickLower = nearestUsableTick(Math.min(...ticks), tickSpacing);
+        tickUpper = nearestUsableTick(Math.max(...ticks), tickSpacing);
+        if (tickLower === tickUpper) tickUpper += tickSpacing;
+      }
+
+      const decimals = depositToken === 0 ? token0.decimals : token1.decimals;
+      return {
+        plan: planPosition(
+          { sqrtPriceX96, tick: currentTick, liquidity },
+          tickLower,
+          tickUpper,
+          depositToken,
+          parseUnits(amount, Number(decimals)),
+        ),
+      };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [
+    sqrtPriceX96,
+    currentTick,
+    liquidity,
+    tickSpacing,
+    fullRange,
+    priceLower,
+    priceUpper,
+    depositToken,
+    amount,
+    token0.decimals,
+    token1.decimals,
+    priceFormatter.inverted,
+  ]);
+
+  const averageDailyFees = useMemo(
+    () => getRecentAverageDailyFees(calculateDailyFees(swapEvents, feeTier), FEE_DAYS),
+    [swapEvents, feeTier],
+  );
+
+  const usdPrice0 = Number(token0.derivedETH) * Number(ethPriceUSD);
+  const usdPrice1 = Number(token1.derivedETH) * Number(ethPriceUSD);
+  const amount0 = plan ? toTokenAmount(plan.amount0, token0.decimals) : 0;
+  const amount1 = plan ? toTokenAmount(plan.amount1, token1.decimals) : 0;
+  const positionValueUSD = usdPrice0 > 0 && usdPrice1 > 0 ? amount0 * usdPrice0 + amount1 * usdPrice1 : null;
+  const feeApr = plan ? estimateFeeApr(averageDailyFees, plan.activeLiquidityShare, positionValueUSD) : null;
+  const [rangeLowerLabel, rangeUpperLabel] = plan ? priceFormatter.formatTickRange(plan.tickLower, plan.tickUpper) : [];
+
+  return (
+    <div className='card p-6'>
+      <h2 className='text-xl font-bold mb-2'>ポジション計算</h2>
+      <p className='text-sm text-gray-600 mb-4'>
+        価格範囲と片方のトークンの量から、もう片方のトークンの必要量と流動性を計算します。
+        現在の価格: {priceFormatter.format(currentPrice)} {priceFormatter.unitLabel}
+      </p>
+
+      <div className='flex flex-wrap items-center gap-2 mb-4'>
+        {RANGE_PRESETS.map((percent) => (
+          <button
+            key={percent}
+            type='button'
+            className='px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50'
+            onClick={() => applyPreset(percent)}
+          >
+            ±{percent}%
+          </button>
+        ))}
+        <button
+          type='button'
+          className={`px-3 py-1 text-sm border rounded-md ${
+            fullRange ? 'bg-blue-500 text-white border-blue-500' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+          onClick={() => setFullRange(!fullRange)}
+        >
+          全範囲
+        </button>
+      </div>
+
+      <div className='grid grid-cols-1 md:grid-cols-4 gap-4 mb-6'>
+        <div>
+          <label className='block text-sm text-gray-600 mb-1'>下限（{priceFormatter.unitLabel}）</label>
+          <input
+            type='number'
+            min='0'
+            step='any'
+            className='w-full border rounded-md px-3 py-2'
+            value={fullRange ? '0' : priceLower}
+            disabled={fullRange}
+            onChange={(e) => setPriceRange({ ...priceRange, lower: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className='block text-sm text-gray-600 mb-1'>上限（{priceFormatter.unitLabel}）</label>
+          <input
+            type={fullRange ? 'text' : 'number'}
+            min='0'
+            step='any'
+            className='w-full border rounded-md px-3 py-2'
+            value={fullRange ? '∞' : priceUpper}
+            disabled={fullRange}
+            onChange={(e) => setPriceRange({ ...priceRange, upper: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className='block text-sm text-gray-600 mb-1'>量を指定するトークン</label>
+          <select
+            className='w-full border rounded-md px-3 py-2'
+            value={depositToken}
+            onChange={(e) => setDepositToken(Number(e.target.value) as 0 | 1)}
+          >
+            <option value={0}>{token0.symbol}</option>
+            <option value={1}>{token1.symbol}</option>
+          </select>
+        </div>
+        <div>
+          <label className='block text-sm text-gray-600 mb-1'>
+            預け入れる量（{depositToken === 0 ? token0.symbol : token1.symbol}）
+          </label>
+          <input
+            type='number'
+            min='0'
+            step='any'
+            className='w-full border rounded-md px-3 py-2'
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <p className='text-red-500'>計算できませんでした: {error}</p>
+      ) : plan ? (
+        <>
+          <div className='grid grid-cols-2 md:grid-cols-4 gap-4 text-sm'>
+            <div>
+              <p className='text-gray-500'>価格範囲（Tickに合わせた値）</p>
+              <p className='font-medium'>
+                {rangeLowerLabel} 〜 {rangeUpperLabel} {priceFormatter.unitLabel}
+              </p>
+              <p className='text-gray-500'>
+                Tick {plan.tickLower} 〜 {plan.tickUpper}
+              </p>
+            </div>
+            <div>
+              <p className='text-gray-500'>必要な量</p>
+              <p className='font-medium'>
+                {formatNumber(formatTokenUnits(plan.amount0, token0.decimals))} {token0.symbol}
+              </p>
+              <p className='font-medium'>
+                {formatNumber(formatTokenUnits(plan.amount1, token1.decimals))} {token1.symbol}
+              </p>
+              {positionValueUSD !== null && <p className='text-gray-500'>{formatUSD(positionValueUSD)}</p>}
+            </div>
+            <div>
+              <p className='text-gray-500'>流動性</p>
+              <p className='font-medium break-all'>{plan.liquidity.toString()}</p>
+              <p className='text-gray-500'>
+                有効な流動性のうち {(plan.activeLiquidityShare * 100).toFixed(4)}%
+                {!plan.inRange && '（範囲外）'}
+              </p>
+            </div>
+            <div>
+              <p className='text-gray-500'>推定手数料APR</p>
+              <p className='font-medium'>{feeApr !== null ? `${feeApr.toFixed(2)}%` : '-'}</p>
+              <p className='text-gray-500'>
+                {averageDailyFees !== null
+                  ? `直近${FEE_DAYS}日の平均手数料 ${formatUSD(averageDailyFees)}/日`
+                  : 'スワップが読み込まれていません'}
+              </p>
+            </div>
+          </div>
+          <p className='mt-4 text-xs text-gray-500'>
+            ※手数料APRは、価格が範囲内にとどまり、プールの流動性と手数料が最近と同じまま続くとみなした推定値です。
+          </p>
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default PositionPlanner;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { formatNumber, formatUSD } from '../lib/utils';
+import { PnlValue, PositionPnl, TokenPair } from '../lib/positionPnl';
+
+interface PositionPnlBreakdownProps {
+  pnl: PositionPnl;
+  token0Symbol: string;
+  token1Symbol: string;
+}
+
+// 損益の符号に応じた文字色
+const signClass = (value: number) => (value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : '');
+
+// formatNumber / formatUSDは負の値の桁区切りに対応しないため、符号を分けて表示する
+const signPrefix = (value: number) => (value > 0 ? '+' : value < 0 ? '-' : '');
+const formatSigned = (value: number) => `${signPrefix(value)}${formatNumber(Math.abs(value))}`;
+const formatSignedUSD = (value: number) => `${signPrefix(value)}${formatUSD(Math.abs(value))}`;
+
+/**
+ * ポジションの損益（HODLとの比較・インパーマネントロス・手数料収入・純損益）を表で表示するコンポーネント
+ */
+const PositionPnlBreakdown: React.FC<PositionPnlBreakdownProps> = ({ pnl, token0Symbol, token1Symbol }) => {
+  const amountRows: { label: string; pair: TokenPair }[] = [
+    { label: '預け入れた量', pair: pnl.deposited },
+    { label: '現在の保有量', pair: pnl.current },
+    { label: '引き出した量', pair: pnl.withdrawn },
+    { label: '回収済みの手数料', pair: pnl.collectedFees },
+    { label: pnl.includesEstimatedFees ? '未回収の手数料（推定）' : '未回収の手数料（未推定）', pair: pnl.uncollectedFees },
+  ];
+
+  const valueRows: { label: string; value: PnlValue; signed?: boolean; percent?: number; emphasis?: boolean }[] = [
+    { label: 'ポジションの価値', value: pnl.positionValue },
+    { label: 'HODLの場合の価値', value: pnl.hodlValue },
+    {
+      label: 'インパーマネントロス',
+      value: pnl.impermanentLoss,
+      signed: true,
+      percent: pnl.impermanentLossPercent,
+    },
+    { label: '手数料収入', value: pnl.feeIncome, signed: true },
+    { label: '純損益（対HODL）', value: pnl.netPnl, signed: true, percent: pnl.netPnlPercent, emphasis: true },
+  ];
+
+  return (
+    <div className='overflow-x-auto'>
+      <table className='min-w-full divide-y divide-gray-200 text-sm'>
+        <thead className='bg-gray-50'>
+          <tr>
+            <th className='px-4 py-2 text-left font-medium text-gray-500'>内訳</th>
+            <th className='px-4 py-2 text-right font-medium text-gray-500'>{token0Symbol}</th>
+            <th className='px-4 py-2 text-right font-medium text-gray-500'>{token1Symbol}</th>
+          </tr>
+        </thead>
+        <tbody className='divide-y divide-gray-200'>
+          {amountRows.map(({ label, pair }) => (
+            <tr key={label}>
+              <td className='px-4 py-2'>{label}</td>
+              <td className='px-4 py-2 text-right'>{formatNumber(pair.amount0)}</td>
+              <td className='px-4 py-2 text-right'>{formatNumber(pair.amount1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className='min-w-full divide-y divide-gray-200 text-sm mt-6'>
+        <thead className='bg-gray-50'>
+          <tr>
+            <th className='px-4 py-2 text-left font-medium text-gray-500'>評価（現在価格）</th>
+            <th className='px-4 py-2 text-right font-medium text-gray-500'>{token0Symbol}建て</th>
+            <th className='px-4 py-2 text-right font-medium text-gray-500'>{token1Symbol}建て</th>
+            <th className='px-4 py-2 text-right font-medium text-gray-500'>USD</th>
+            <th className='px-4 py-2 text-right font-medium text-gray-500'>HODL比</th>
+          </tr>
+        </thead>
+        <tbody className='divide-y divide-gray-200'>
+          {valueRows.map(({ label, value, signed, percent, emphasis }) => (
+            <tr key={label} className={emphasis ? 'font-semibold' : ''}>
+              <td className='px-4 py-2'>{label}</td>
+              <td className={`px-4 py-2 text-right ${signed ? signClass(value.inToken0) : ''}`}>
+                {signed ? formatSigned(value.inToken0) : formatNumber(value.inToken0)}
+              </td>
+              <td className={`px-4 py-2 text-right ${signed ? signClass(value.inToken1) : ''}`}>
+                {signed ? formatSigned(value.inToken1) : formatNumber(value.inToken1)}
+              </td>
+              <td className={`px-4 py-2 text-right ${signed && value.usd !== null ? signClass(value.usd) : ''}`}>
+                {value.usd === null ? '-' : signed ? formatSignedUSD(value.usd) : formatUSD(value.usd)}
+              </td>
+              <td className={`px-4 py-2 text-right ${percent !== undefined ? signClass(percent) : ''}`}>
+                {percent !== undefined ? `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%` : ''}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className='mt-4 text-xs text-gray-500'>
+        * HODLの場合の価値は、預け入れた量をそのまま保有していた場合を現在の価格で評価した値です。
+        {pnl.includesEstimatedFees
+          ? ' 未回収の手数料は選択期間のスワップからの推定値です。'
+          : ' 未回収の手数料はスワップデータを読み込むと推定されます。'}
+      </p>
+    </div>
+  );
+};
+
+export default PositionPnlBreakdown;
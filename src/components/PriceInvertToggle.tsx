@@ -0,0 +1,27 @@
+import React from 'react';
+import { usePriceFormatter, usePriceInvertToggle } from '../lib/priceDisplay';
+
+/**
+ * 価格の表示の向き（token0建て / token1建て）を切り替えるボタン
+ * PriceDisplayProviderの外では何も表示しない
+ */
+const PriceInvertToggle: React.FC = () => {
+  const formatter = usePriceFormatter();
+  const toggleInverted = usePriceInvertToggle();
+
+  if (!toggleInverted) return null;
+
+  return (
+    <button
+      type='button'
+      onClick={toggleInverted}
+      className='inline-flex items-center px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50'
+      title='価格の表示の向きを切り替え'
+    >
+      <span>{formatter.unitLabel}</span>
+      <span className='ml-1'>⇄</span>
+    </button>
+  );
+};
+
+export default PriceInvertToggle;
@@ -8,6 +8,12 @@ import {
 } from "../lib/utils";
 import { ApolloError } from "@apollo/client";
 import { SwapEvent } from "../types";
+import {
+  formatFeeTier,
+  getSwapFeeRate,
+  SwapFeeRates,
+} from "../lib/dynamicFees";
+import { getExplorerUrl } from "../lib/nativeCurrency";
 
 // プロップスの型定義
 interface SwapDetailsTableProps {
@@ -18,6 +24,12 @@ interface SwapDetailsTableProps {
   loading?: boolean;
   error?: ApolloError | null;
   networkName?: string;
+  /** エクスプローラーのリンクに使うチェーンID（イベントにchainIdが無い場合） */
+  chainId?: number | string;
+  /** ライブ更新で新たに受信したスワップのID（強調表示する） */
+  highlightIds?: Set<string>;
+  /** スワップごとの手数料率（動的手数料のプールでは推定値） */
+  feeRates?: SwapFeeRates;
 }
 
 const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
@@ -28,6 +40,9 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
   loading = false,
   error = null,
   networkName = "Ethereum",
+  chainId,
+  highlightIds,
+  feeRates,
 }) => {
   const [isOpen, setIsOpen] = useState(true);
 
@@ -55,8 +70,9 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
     );
   }
 
-  // 手数料率をパーセントで表示（例: 3000 -> 0.3%）
-  const feeRateDisplay = Number(feeTier) / 10000 + "%";
+  // 手数料率をパーセントで表示（例: 3000 -> 0.3%、動的手数料 -> 動的）
+  const feeRateDisplay = formatFeeTier(feeTier);
+  const isEstimatedFee = !!feeRates?.dynamic;
 
   return (
     <div className="w-full mx-auto bg-white rounded-lg shadow-md overflow-hidden border border-gray-200">
@@ -107,7 +123,7 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
                     金額 (USD)
                   </th>
                   <th className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/8">
-                    LP手数料
+                    LP手数料{isEstimatedFee && "（推定）"}
                   </th>
                   <th className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/4">
                     トークン量
@@ -121,16 +137,36 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
                 {swaps.map((swap, index) => {
                   const amountUSD = parseFloat(String(swap.amountUSD));
 
-                  // 手数料計算を修正
-                  const actualFeeTier = Number(feeTier);
-                  const lpFee = Math.abs(amountUSD) * (actualFeeTier / 1000000);
+                  // 動的手数料のプールはスワップごとに推定した手数料率を使う
+                  const feeRate = feeRates
+                    ? getSwapFeeRate(feeRates, swap)
+                    : Number(feeTier) / 1000000;
+                  const lpFee = Math.abs(amountUSD) * feeRate;
 
                   const timestamp = Number(swap.timestamp);
                   const timeAgo = formatTimestampRelative(timestamp);
                   const formattedTime = formatTimestamp(timestamp);
 
+                  const swapChainId = swap.chainId || chainId;
+                  const txUrl = swap.transaction
+                    ? getExplorerUrl(swapChainId, "tx", swap.transaction)
+                    : null;
+                  const senderUrl = getExplorerUrl(
+                    swapChainId,
+                    "address",
+                    swap.sender,
+                  );
+                  const originUrl = getExplorerUrl(
+                    swapChainId,
+                    "address",
+                    swap.origin,
+                  );
+
                   return (
-                    <tr key={swap.id || index} className="hover:bg-gray-50">
+                    <tr
+                      key={swap.id || index}
+                      className={`hover:bg-gray-50 ${highlightIds?.has(swap.id) ? "bg-green-50" : ""}`}
+                    >
                       <td className="px-2 py-3 whitespace-nowrap text-sm">
                         <div className="text-gray-900">{timeAgo}</div>
                         <div className="text-xs text-gray-500">
@@ -139,9 +175,9 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
                       </td>
                       <td className="px-2 py-3 whitespace-nowrap text-sm">
                         <div className="flex items-center">
-                          {swap.transaction ? (
+                          {txUrl ? (
                             <a
-                              href={`https://etherscan.io/tx/${swap.transaction}`}
+                              href={txUrl}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-blue-600 hover:underline flex items-center truncate"
@@ -164,7 +200,9 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
                             </a>
                           ) : (
                             <span className="text-gray-600 truncate">
-                              {swap.id}
+                              {swap.transaction
+                                ? shortenAddress(swap.transaction)
+                                : swap.id}
                             </span>
                           )}
                         </div>
@@ -174,6 +212,19 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
                       </td>
                       <td className="px-2 py-3 whitespace-nowrap text-sm text-gray-900">
                         {formatUSD(lpFee)}
+                        {isEstimatedFee && (
+                          <div
+                            className="text-xs text-gray-500"
+                            title={
+                              feeRates?.rates[swap.id] === undefined
+                                ? "このスワップからは推定できないため、推定値の中央値を使用"
+                                : undefined
+                            }
+                          >
+                            {(feeRate * 100).toFixed(3)}%
+                            {feeRates?.rates[swap.id] === undefined && "*"}
+                          </div>
+                        )}
                       </td>
                       <td className="px-2 py-3 text-sm">
                         <div className="flex flex-col">
@@ -205,53 +256,65 @@ const SwapDetailsTable: React.FC<SwapDetailsTableProps> = ({
                         <div className="flex flex-col">
                           <div className="flex items-center truncate">
                             <span className="text-gray-600">From:</span>
-                            <a
-                              href={`https://etherscan.io/address/${swap.sender}`}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="ml-1 text-blue-600 hover:underline flex items-center"
-                            >
-                              {shortenAddress(swap.sender)}
-                              <svg
-                                className="ml-1 w-4 h-4 text-gray-400"
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
-                                xmlns="http://www.w3.org/2000/svg"
+                            {senderUrl ? (
+                              <a
+                                href={senderUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-1 text-blue-600 hover:underline flex items-center"
                               >
-                                <path
-                                  strokeLinecap="round"
-                                  strokeLinejoin="round"
-                                  strokeWidth="2"
-                                  d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                                ></path>
-                              </svg>
-                            </a>
+                                {shortenAddress(swap.sender)}
+                                <svg
+                                  className="ml-1 w-4 h-4 text-gray-400"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                  xmlns="http://www.w3.org/2000/svg"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth="2"
+                                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                                  ></path>
+                                </svg>
+                              </a>
+                            ) : (
+                              <span className="ml-1 text-gray-600">
+                                {shortenAddress(swap.sender)}
+                              </span>
+                            )}
                           </div>
                           <div className="mt-1 flex items-center truncate">
                             <span className="text-gray-600">To:</span>
-                            <a
-                              href={`https://etherscan.io/address/${swap.origin}`}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="ml-1 text-blue-600 hover:underline flex items-center"
-                            >
-                              {shortenAddress(swap.origin)}
-                              <svg
-                                className="ml-1 w-4 h-4 text-gray-400"
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
-                                xmlns="http://www.w3.org/2000/svg"
+                            {originUrl ? (
+                              <a
+                                href={originUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-1 text-blue-600 hover:underline flex items-center"
                               >
-                                <path
-                                  strokeLinecap="round"
-                                  strokeLinejoin="round"
-                                  strokeWidth="2"
-                                  d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                                ></path>
-                              </svg>
-                            </a>
+                                {shortenAddress(swap.origin)}
+                                <svg
+                                  className="ml-1 w-4 h-4 text-gray-400"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                  xmlns="http://www.w3.org/2000/svg"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth="2"
+                                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                                  ></path>
+                                </svg>
+                              </a>
+                            ) : (
+                              <span className="ml-1 text-gray-600">
+                                {shortenAddress(swap.origin)}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </td>
@@ -0,0 +1,144 @@
+import React, { useMemo } from 'react';
+import { ModifyLiquidityEvent } from '../types';
+import { formatTimestamp } from '../lib/utils';
+
+interface TickTimeTravelSliderProps {
+  /** 時系列順に並んだプール作成以降の流動性変更イベント（未取得の場合はnull） */
+  events: ModifyLiquidityEvent[] | null;
+  /** 履歴を取得中かどうか */
+  loading?: boolean;
+  /** 取得中の進捗メッセージ */
+  progressMessage?: string;
+  /** 取得エラー */
+  error?: string | null;
+  /** 「履歴を読み込む」が押されたときのハンドラ */
+  onLoad: () => void;
+  /** 履歴を最後まで取得できたかどうか（falseの場合は読み込んだ最後のイベントより後を選べないようにする） */
+  complete?: boolean;
+  /** 表示する時点（nullは現在） */
+  value: number | null;
+  onChange: (timestamp: number | null) => void;
+  /** 選択した時点のTickが分かるかどうか（falseの場合は現在のTickを表示していることを注記） */
+  tickAvailable?: boolean;
+}
+
+// スライダーの刻み数
+const SLIDER_STEPS = 1000;
+
+/**
+ * Tick分布を表示する時点を選ぶスライダー
+ * 右端は現在を表し、それより左では流動性変更イベントの履歴から復元した分布を表示する
+ */
+const TickTimeTravelSlider: React.FC<TickTimeTravelSliderProps> = ({
+  events,
+  loading = false,
+  progressMessage,
+  error,
+  onLoad,
+  complete = true,
+  value,
+  onChange,
+  tickAvailable = true,
+}) => {
+  // スライダーの範囲（最初のイベントから履歴を取得した時点まで）
+  // 途中までしか取得できていない場合は、同じ秒のイベントが途中で切れている可能性があるため最後のイベントの1秒前まで
+  const range = useMemo(() => {
+    if (!events || events.length === 0) return null;
+    const start = Number(events[0].timestamp);
+    const lastTimestamp = Number(events[events.length - 1].timestamp);
+    const end = complete ? Math.max(Math.floor(Date.now() / 1000), lastTimestamp) : Math.max(start, lastTimestamp - 1);
+    return { start, end, step: Math.max(1, Math.floor((end - start) / SLIDER_STEPS)) };
+  }, [events, complete]);
+
+  // 選択した時点までに反映されたイベント数
+  const appliedCount = useMemo(() => {
+    if (!events) return 0;
+    if (value === null) return events.length;
+    return events.filter((event) => Number(event.timestamp) <= value).length;
+  }, [events, value]);
+
+  if (!events) {
+    return (
+      <div className='bg-white rounded-lg shadow p-4'>
+        <h2 className='text-xl font-semibold mb-2'>過去のTick分布</h2>
+        <p className='text-sm text-gray-500 mb-3'>
+          プール作成以降の流動性変更イベントを読み込むと、任意の時点の流動性の分布を復元して表示できます。
+        </p>
+        {error && <p className='text-sm text-red-500 mb-3'>{error}</p>}
+        <button
+          type='button'
+          onClick={onLoad}
+          disabled={loading}
+          className='px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+        >
+          {loading ? progressMessage || '履歴を読み込み中...' : '履歴を読み込む'}
+        </button>
+      </div>
+    );
+  }
+
+  if (!range) {
+    return (
+      <div className='bg-white rounded-lg shadow p-4'>
+        <h2 className='text-xl font-semibold mb-2'>過去のTick分布</h2>
+        <p className='text-sm text-gray-500'>このプールの流動性変更イベントはありません</p>
+      </div>
+    );
+  }
+
+  const sliderValue = value === null ? range.end : Math.min(value, range.end);
+
+  return (
+    <div className='bg-white rounded-lg shadow p-4'>
+      <div className='flex items-center justify-between mb-2'>
+        <h2 className='text-xl font-semibold'>過去のTick分布</h2>
+        {value !== null && (
+          <button
+            type='button'
+            onClick={() => onChange(null)}
+            className='px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50'
+          >
+            現在に戻す
+          </button>
+        )}
+      </div>
+      <input
+        type='range'
+        className='w-full'
+        min={range.start}
+        max={range.end}
+        step={range.step}
+        value={sliderValue}
+        onChange={(e) => {
+          const timestamp = Number(e.target.value);
+          // 最後まで取得できている場合のみ、右端を現在として扱う
+          onChange(complete && timestamp >= range.end ? null : timestamp);
+        }}
+      />
+      <div className='flex justify-between text-xs text-gray-500'>
+        <span>{formatTimestamp(range.start)}</span>
+        <span>{complete ? '現在' : formatTimestamp(range.end)}</span>
+      </div>
+      {!complete && (
+        <p className='mt-2 text-xs text-yellow-600'>
+          * 流動性変更イベントが多いため、{formatTimestamp(range.end)}
+          までの履歴のみ読み込みました。それより後の時点は復元できないため選べません（「現在に戻す」で現在の分布を表示します）。
+        </p>
+      )}
+      <p className='mt-2 text-sm'>
+        <span className='font-medium'>表示中の時点: </span>
+        {value === null ? '現在' : formatTimestamp(value)}
+        <span className='ml-2 text-gray-500'>
+          （流動性変更イベント {appliedCount.toLocaleString()} / {events.length.toLocaleString()} 件を反映）
+        </span>
+      </p>
+      {value !== null && !tickAvailable && (
+        <p className='mt-1 text-xs text-yellow-600'>
+          * この時点の価格は読み込み済みのスワップから分からないため、現在価格の線は現在のTickを示します。
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TickTimeTravelSlider;
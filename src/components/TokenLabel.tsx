@@ -0,0 +1,25 @@
+import React from 'react';
+import { ResolvedToken } from '../lib/nativeCurrency';
+
+interface TokenLabelProps {
+  /** resolveTokenで解決したトークン情報 */
+  token: ResolvedToken;
+}
+
+/**
+ * トークンのシンボルを表示するコンポーネント
+ * ネイティブ通貨（ゼロアドレス）とラップ版にはバッジを付けて区別する
+ */
+const TokenLabel: React.FC<TokenLabelProps> = ({ token }) => (
+  <span className='inline-flex items-center' title={token.name}>
+    {token.symbol}
+    {token.isNative && (
+      <span className='ml-1 px-1.5 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full'>ネイティブ</span>
+    )}
+    {token.isWrappedNative && (
+      <span className='ml-1 px-1.5 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full'>ラップ</span>
+    )}
+  </span>
+);
+
+export default TokenLabel;
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from "react";
+import { parseUnits } from "viem";
+import { formatNumber } from "../lib/utils";
+import { formatTokenUnits } from "../lib/liquidityMath";
+import { usePriceFormatter } from "../lib/priceDisplay";
+import {
+  simulateSwap,
+  SimulatorTick,
+  SwapSimulationResult,
+} from "../lib/swapSimulator";
+
+interface SimulatorToken {
+  symbol: string;
+  decimals: string;
+}
+
+interface TradeSimulatorProps {
+  /** generateTicksFromPositionsで復元したTick */
+  ticks: SimulatorTick[];
+  /** プールの現在の価格（Q64.96） */
+  sqrtPriceX96?: string;
+  /** プールの現在のTick */
+  currentTick?: string | number;
+  /** プールの現在の流動性 */
+  liquidity?: string;
+  /** 手数料（100万分率） */
+  feeTier?: string;
+  token0: SimulatorToken;
+  token1: SimulatorToken;
+  loading?: boolean;
+}
+
+/**
+ * 指定した量をスワップした場合の受取量・手数料・価格の変化を計算するパネル
+ * ポジションから復元したTickの流動性を使ってオフチェーンで計算する
+ */
+const TradeSimulator: React.FC<TradeSimulatorProps> = ({
+  ticks,
+  sqrtPriceX96,
+  currentTick,
+  liquidity,
+  feeTier,
+  token0,
+  token1,
+  loading = false,
+}) => {
+  const [zeroForOne, setZeroForOne] = useState(true);
+  const [exactInput, setExactInput] = useState(true);
+  const [amount, setAmount] = useState("1");
+  const priceFormatter = usePriceFormatter(token0, token1);
+
+  const tokenIn = zeroForOne ? token0 : token1;
+  const tokenOut = zeroForOne ? token1 : token0;
+
+  // 入力のたびに再計算（エラーは結果の代わりに表示）
+  const simulation = useMemo((): {
+    result?: SwapSimulationResult;
+    error?: string;
+  } => {
+    if (!sqrtPriceX96 || currentTick === undefined || !liquidity || !feeTier)
+      return {};
+    if (!amount || Number(amount) <= 0) return {};
+
+    try {
+      const decimals = Number(exactInput ? tokenIn.decimals : tokenOut.decimals);
+      const result = simulateSwap({
+        ticks,
+        sqrtPriceX96,
+        tick: currentTick,
+        liquidity,
+        feePips: feeTier,
+        zeroForOne,
+        exactInput,
+        amount: parseUnits(amount, decimals),
+      });
+      return { result };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [
+    ticks,
+    sqrtPriceX96,
+    currentTick,
+    liquidity,
+    feeTier,
+    zeroForOne,
+    exactInput,
+    amount,
+    tokenIn.decimals,
+    tokenOut.decimals,
+  ]);
+
+  if (loading) {
+    return (
+      <div className="card p-8 text-center">
+        <p className="text-gray-500">ポジションデータを読み込み中...</p>
+      </div>
+    );
+  }
+
+  // 価格はPriceDisplayProviderで選択した向きで表示
+  const { result, error } = simulation;
+  const priceBefore = sqrtPriceX96
+    ? priceFormatter.fromSqrtPriceX96(sqrtPriceX96)
+    : 0;
+  const priceAfter = result
+    ? priceFormatter.fromSqrtPriceX96(result.sqrtPriceX96After)
+    : 0;
+
+  // 約定価格（tokenIn 1単位あたりのtokenOut）をtoken0建てに直してから表示の向きに変換
+  const amountInValue = result
+    ? Number(formatTokenUnits(result.amountIn, tokenIn.decimals))
+    : 0;
+  const amountOutValue = result
+    ? Number(formatTokenUnits(result.amountOut, tokenOut.decimals))
+    : 0;
+  const executionPrice =
+    amountInValue > 0 && amountOutValue > 0
+      ? priceFormatter.fromPrice0(
+          zeroForOne
+            ? amountOutValue / amountInValue
+            : amountInValue / amountOutValue,
+        )
+      : 0;
+  const priceImpact =
+    priceBefore > 0 ? ((priceAfter - priceBefore) / priceBefore) * 100 : 0;
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-xl font-bold mb-4">トレードシミュレーター</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">方向</label>
+          <select
+            className="w-full border rounded-md px-3 py-2"
+            value={zeroForOne ? "0to1" : "1to0"}
+            onChange={(e) => setZeroForOne(e.target.value === "0to1")}
+          >
+            <option value="0to1">
+              {token0.symbol} → {token1.symbol}
+            </option>
+            <option value="1to0">
+              {token1.symbol} → {token0.symbol}
+            </option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">指定する量</label>
+          <select
+            className="w-full border rounded-md px-3 py-2"
+            value={exactInput ? "in" : "out"}
+            onChange={(e) => setExactInput(e.target.value === "in")}
+          >
+            <option value="in">支払う量（{tokenIn.symbol}）</option>
+            <option value="out">受け取る量（{tokenOut.symbol}）</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">
+            数量（{exactInput ? tokenIn.symbol : tokenOut.symbol}）
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            className="w-full border rounded-md px-3 py-2"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-red-500">計算できませんでした: {error}</p>
+      ) : result ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">支払う量</p>
+            <p className="font-medium">
+              {formatNumber(formatTokenUnits(result.amountIn, tokenIn.decimals))}{" "}
+              {tokenIn.symbol}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">受け取る量</p>
+            <p className="font-medium">
+              {formatNumber(
+                formatTokenUnits(result.amountOut, tokenOut.decimals),
+              )}{" "}
+              {tokenOut.symbol}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">手数料</p>
+            <p className="font-medium">
+              {formatNumber(
+                formatTokenUnits(result.feeAmount, tokenIn.decimals),
+              )}{" "}
+              {tokenIn.symbol}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">跨いだTick数</p>
+            <p className="font-medium">{result.ticksCrossed}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">約定価格</p>
+            <p className="font-medium">
+              {priceFormatter.format(executionPrice)} {priceFormatter.unitLabel}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">スワップ後の価格</p>
+            <p className="font-medium">
+              {priceFormatter.format(priceAfter)} {priceFormatter.unitLabel}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">価格変動</p>
+            <p
+              className={`font-medium ${
+                Math.abs(priceImpact) >= 1 ? "text-red-600" : ""
+              }`}
+            >
+              {priceImpact.toFixed(4)}%
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">スワップ後のTick</p>
+            <p className="font-medium">{result.tickAfter.toLocaleString()}</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-500">数量を入力してください</p>
+      )}
+
+      {result?.partial && (
+        <p className="mt-4 text-sm text-yellow-700">
+          流動性が不足しているため、指定した量の一部しかスワップできません。
+        </p>
+      )}
+      <p className="mt-4 text-xs text-gray-500">
+        取得したポジションから復元したTickの流動性で計算しています。ポジションの取得件数に上限があるため、実際の結果とは異なる場合があります。
+      </p>
+    </div>
+  );
+};
+
+export default TradeSimulator;
@@ -0,0 +1,32 @@
+import { AggregationRequest, AggregationResponse } from './protocol';
+import { runAggregationTask } from './tasks';
+
+/**
+ * スワップ・流動性イベントの集計を行う専用ワーカー
+ * ジョブは受信順に1つずつ処理する（中断はメインスレッドがワーカーを終了させて行う）
+ */
+
+// tsconfigのlibにwebworkerを含めていないため、使用する部分だけ型を定義する
+interface AggregationWorkerScope {
+  onmessage: ((event: MessageEvent<AggregationRequest>) => void) | null;
+  postMessage(message: AggregationResponse): void;
+}
+
+const workerScope = self as unknown as AggregationWorkerScope;
+
+workerScope.onmessage = (event) => {
+  const { jobId, task } = event.data;
+
+  try {
+    const result = runAggregationTask(task, (percent, message) => {
+      workerScope.postMessage({ type: 'progress', jobId, percent, message });
+    });
+    workerScope.postMessage({ type: 'result', jobId, result });
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'error',
+      jobId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,146 @@
+import { ProgressCallback } from '../progressReporter';
+import { AggregationRequest, AggregationResponse, AggregationResult, AggregationTask } from './protocol';
+import { runAggregationTask } from './tasks';
+
+/**
+ * 集計ワーカーの呼び出し側
+ * Web Workerが使えない環境（SSR・古いブラウザ・ワーカーの読み込み失敗）ではメインスレッドで実行する
+ */
+
+export interface AggregationOptions {
+  /** 進捗報告用コールバック関数 */
+  progressCallback?: ProgressCallback;
+  /** 中断用のシグナル（プールや期間の切り替え時にabortする） */
+  signal?: AbortSignal;
+}
+
+interface PendingJob {
+  task: AggregationTask;
+  resolve: (result: AggregationResult<AggregationTask>) => void;
+  reject: (error: unknown) => void;
+  progressCallback?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+/**
+ * 中断された集計のエラーかどうかを判定する
+ */
+export function isAggregationAborted(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function createAbortError(): Error {
+  const error = new Error('集計を中断しました');
+  error.name = 'AbortError';
+  return error;
+}
+
+function handleWorkerMessage(event: MessageEvent<AggregationResponse>) {
+  const response = event.data;
+  const job = pendingJobs.get(response.jobId);
+  if (!job) return; // 中断済みのジョブ
+
+  if (response.type === 'progress') {
+    job.progressCallback?.(response.percent, response.message);
+    return;
+  }
+
+  pendingJobs.delete(response.jobId);
+  if (response.type === 'result') job.resolve(response.result);
+  else job.reject(new Error(response.message));
+}
+
+// ワーカーを読み込めなかった場合は、残っているジョブをメインスレッドで実行する
+function handleWorkerError(event: ErrorEvent) {
+  console.warn('集計ワーカーを利用できないため、メインスレッドで集計します:', event.message);
+  workerUnavailable = true;
+  worker?.terminate();
+  worker = null;
+
+  const jobs = Array.from(pendingJobs.values());
+  pendingJobs.clear();
+  jobs.forEach((job) => {
+    runOnMainThread(job.task, job).then(job.resolve, job.reject);
+  });
+}
+
+function getWorker(): Worker | null {
+  if (workerUnavailable || typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+  if (worker) return worker;
+
+  try {
+    worker = new Worker(new URL('./aggregation.worker.ts', import.meta.url));
+    worker.onmessage = handleWorkerMessage;
+    worker.onerror = handleWorkerError;
+    return worker;
+  } catch (error) {
+    console.warn('集計ワーカーの作成に失敗しました:', error);
+    workerUnavailable = true;
+    return null;
+  }
+}
+
+function postJob(jobId: number, task: AggregationTask) {
+  const request: AggregationRequest = { type: 'run', jobId, task };
+  getWorker()!.postMessage(request);
+}
+
+// 実行中のジョブを止めるにはワーカーごと終了させるしかないため、他のジョブは新しいワーカーで再実行する
+function cancelJob(jobId: number) {
+  const job = pendingJobs.get(jobId);
+  if (!job) return;
+  pendingJobs.delete(jobId);
+  job.reject(createAbortError());
+
+  worker?.terminate();
+  worker = null;
+  pendingJobs.forEach((pending, pendingJobId) => postJob(pendingJobId, pending.task));
+}
+
+async function runOnMainThread<T extends AggregationTask>(
+  task: T,
+  { progressCallback, signal }: AggregationOptions,
+): Promise<AggregationResult<T>> {
+  // 進捗表示を描画させてから集計を始める
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (signal?.aborted) throw createAbortError();
+
+  const result = runAggregationTask(task, progressCallback);
+  if (signal?.aborted) throw createAbortError();
+  return result;
+}
+
+/**
+ * 集計タスクをワーカーで実行する関数
+ *
+ * @param task 集計タスク
+ * @param options 進捗報告と中断の指定
+ * @returns 集計結果（中断された場合はAbortErrorでreject）
+ */
+export function runAggregation<T extends AggregationTask>(
+  task: T,
+  options: AggregationOptions = {},
+): Promise<AggregationResult<T>> {
+  const { progressCallback, signal } = options;
+  if (signal?.aborted) return Promise.reject(createAbortError());
+  if (!getWorker()) return runOnMainThread(task, options);
+
+  const jobId = nextJobId++;
+  return new Promise<AggregationResult<T>>((resolve, reject) => {
+    pendingJobs.set(jobId, {
+      task,
+      // ワーカーは受け取ったタスクと同じ種類の結果を返す
+      resolve: (result) => resolve(result as AggregationResult<T>),
+      reject,
+      progressCallback,
+      signal,
+    });
+    signal?.addEventListener('abort', () => cancelJob(jobId), { once: true });
+    postJob(jobId, task);
+  });
+}
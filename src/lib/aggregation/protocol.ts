@@ -0,0 +1,64 @@
+import {
+  ChartDataPoint,
+  ExtendedChartDataPoint,
+  LiquidityPosition,
+  ModifyLiquidityEvent,
+  Pool,
+  SwapEvent,
+} from '@/types';
+import { PositionFeeEstimate } from '../positionFees';
+
+/**
+ * 集計ワーカーとメインスレッドの間でやり取りするメッセージの型定義
+ */
+
+/** スワップイベントから日別の取引量・手数料チャートを作成する（createChartDataFromSwapEvents） */
+export interface SwapChartTask {
+  kind: 'swapChart';
+  swapEvents: SwapEvent[];
+  feeTier: string;
+}
+
+/** 流動性イベントとスワップイベントから日別の流動性・手数料履歴を作成する（buildLiquidityHistory） */
+export interface LiquidityHistoryTask {
+  kind: 'liquidityHistory';
+  liquidityEvents: ModifyLiquidityEvent[];
+  swapEvents: SwapEvent[];
+  poolData: Pool;
+  /** 集計の開始タイムスタンプ（省略時は90日前） */
+  startTimestamp?: number;
+}
+
+/** スワップ手数料を各ポジションに按分する（attributeFeesToPositions） */
+export interface PositionFeesTask {
+  kind: 'positionFees';
+  swapEvents: SwapEvent[];
+  positions: LiquidityPosition[];
+  /** 按分の分母に使うプールのすべてのアクティブなポジション */
+  poolPositions: LiquidityPosition[];
+  /** 流動性の再生に使う期間内の流動性変更イベント */
+  liquidityEvents: ModifyLiquidityEvent[];
+  feeTier: string;
+  /** スワップを取得した期間の開始タイムスタンプ */
+  startTimestamp: number;
+}
+
+export type AggregationTask = SwapChartTask | LiquidityHistoryTask | PositionFeesTask;
+
+/** タスクの種類ごとの結果の型 */
+export interface AggregationResultMap {
+  swapChart: ChartDataPoint[];
+  liquidityHistory: ExtendedChartDataPoint[];
+  positionFees: PositionFeeEstimate[];
+}
+
+export type AggregationResult<T extends AggregationTask> = AggregationResultMap[T['kind']];
+
+/** メインスレッド → ワーカー */
+export type AggregationRequest = { type: 'run'; jobId: number; task: AggregationTask };
+
+/** ワーカー → メインスレッド */
+export type AggregationResponse =
+  | { type: 'progress'; jobId: number; percent: number; message: string }
+  | { type: 'result'; jobId: number; result: AggregationResultMap[keyof AggregationResultMap] }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,43 @@
+import { createChartDataFromSwapEvents } from '../swapDataFetcher';
+import { buildLiquidityHistory } from '../liquidityHistoryUtils';
+import { attributeFeesToPositions } from '../positionFees';
+import { ProgressCallback } from '../progressReporter';
+import { AggregationResult, AggregationTask } from './protocol';
+
+/**
+ * 集計タスクを実行する関数
+ * ワーカー内と、ワーカーが使えない場合のメインスレッドの両方から呼ばれる
+ *
+ * @param task 集計タスク
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
+ * @returns タスクの種類に応じた集計結果
+ */
+export function runAggregationTask<T extends AggregationTask>(
+  task: T,
+  progressCallback?: ProgressCallback,
+): AggregationResult<T> {
+  switch (task.kind) {
+    case 'swapChart':
+      return createChartDataFromSwapEvents(task.swapEvents, task.feeTier, [], progressCallback) as AggregationResult<T>;
+    case 'liquidityHistory':
+      return buildLiquidityHistory(
+        task.liquidityEvents,
+        task.swapEvents,
+        task.poolData,
+        task.startTimestamp,
+        progressCallback,
+      ) as AggregationResult<T>;
+    case 'positionFees':
+      return attributeFeesToPositions(
+        task.swapEvents,
+        task.positions,
+        task.poolPositions,
+        task.liquidityEvents,
+        task.feeTier,
+        task.startTimestamp,
+        progressCallback,
+      ) as AggregationResult<T>;
+    default:
+      throw new Error(`未対応の集計タスクです: ${(task as AggregationTask).kind}`);
+  }
+}
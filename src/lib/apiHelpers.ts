@@ -0,0 +1,144 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { KeysetCursor } from './keysetPagination';
+import { getTimeRangeTimestamp } from './utils';
+
+/**
+ * APIルート共通のクエリパラメータ解析とレスポンス処理
+ */
+
+/**
+ * ステータスコード付きのAPIエラー
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface TimeRange {
+  /** 開始タイムスタンプ（秒） */
+  startTime: number;
+  /** 終了タイムスタンプ（秒、省略時は現在まで） */
+  endTime?: number;
+}
+
+export interface OffsetPagination {
+  /** 条件に一致する全件数 */
+  total: number;
+  limit: number;
+  offset: number;
+  /** 次のページのoffset（最後のページではnull） */
+  nextOffset: number | null;
+}
+
+/**
+ * クエリパラメータを1つの文字列として取得する
+ */
+export function getQueryParam(req: NextApiRequest, key: string): string | undefined {
+  const value = req.query[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// 整数のクエリパラメータを解析
+function parseIntegerParam(req: NextApiRequest, key: string): number | undefined {
+  const value = getQueryParam(req, key);
+  if (value === undefined || value === '') return undefined;
+  if (!/^\d+$/.test(value)) throw new ApiError(400, `${key}は0以上の整数で指定してください`);
+  return Number(value);
+}
+
+/**
+ * 時間範囲パラメータを解析する
+ * from / to（Unixタイムスタンプ秒）が優先され、無い場合は range（1h, 24h, 7d, 30d, 90d, 180d, 1y, all）を使う
+ *
+ * @param req リクエスト
+ * @param defaultRange rangeもfromも無い場合の範囲
+ */
+export function parseTimeRange(req: NextApiRequest, defaultRange = '90d'): TimeRange {
+  const from = parseIntegerParam(req, 'from');
+  const to = parseIntegerParam(req, 'to');
+  const range = getQueryParam(req, 'range') || defaultRange;
+
+  const startTime = from ?? getTimeRangeTimestamp(range);
+  if (to !== undefined && to < startTime) throw new ApiError(400, 'toはfrom以降の時刻を指定してください');
+
+  return { startTime, endTime: to };
+}
+
+/**
+ * limitパラメータを解析する
+ * @param defaultLimit 未指定時の値
+ * @param maxLimit 上限（超えた場合は上限に丸める）
+ */
+export function parseLimit(req: NextApiRequest, defaultLimit: number, maxLimit: number): number {
+  const limit = parseIntegerParam(req, 'limit') ?? defaultLimit;
+  if (limit === 0) throw new ApiError(400, 'limitは1以上を指定してください');
+  return Math.min(limit, maxLimit);
+}
+
+/**
+ * offsetパラメータを解析する
+ */
+export function parseOffset(req: NextApiRequest): number {
+  return parseIntegerParam(req, 'offset') ?? 0;
+}
+
+/**
+ * 計算済みの配列をoffset/limitで切り出す
+ */
+export function paginateRows<T>(rows: T[], limit: number, offset: number): { data: T[]; pagination: OffsetPagination } {
+  const nextOffset = offset + limit < rows.length ? offset + limit : null;
+  return {
+    data: rows.slice(offset, offset + limit),
+    pagination: { total: rows.length, limit, offset, nextOffset },
+  };
+}
+
+/**
+ * キーセットカーソルをクエリパラメータ用の文字列にする
+ */
+export function encodeCursor(cursor: KeysetCursor): string {
+  return cursor.join(',');
+}
+
+/**
+ * クエリパラメータのカーソルを解析する
+ * @param fieldCount カーソルに含まれるべきフィールド数
+ */
+export function decodeCursor(value: string | undefined, fieldCount: number): KeysetCursor | null {
+  if (!value) return null;
+  const cursor = value.split(',');
+  if (cursor.length !== fieldCount || cursor.some((part) => part === '')) {
+    throw new ApiError(400, 'cursorの形式が正しくありません');
+  }
+  return cursor;
+}
+
+/**
+ * GETのみを受け付けるAPIハンドラを作成する
+ * ApiErrorはそのステータスで、それ以外のエラーは500で返す
+ */
+export function createGetHandler<T>(handler: (req: NextApiRequest) => Promise<T>) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      res.status(405).json({ error: 'GETのみ対応しています' });
+      return;
+    }
+
+    try {
+      res.status(200).json(await handler(req));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error(`APIエラー (${req.url}):`, error);
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
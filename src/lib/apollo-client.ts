@@ -1,38 +1,73 @@
-import { ApolloClient, InMemoryCache, HttpLink } from '@apollo/client';
+import { ApolloClient, ApolloLink, InMemoryCache, HttpLink, split } from '@apollo/client';
+import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
+import { getMainDefinition } from '@apollo/client/utilities';
+import { createClient } from 'graphql-ws';
+import { typePolicies } from './cachePolicies';
+import { chainRoutingLink, getIndexerEndpoint, resolveOperationChainId } from './indexerRegistry';
 
-// Envioのインデクサーエンドポイントを指定
+// Envioのインデクサーエンドポイントを指定（チェーン別のエンドポイントが無い場合の既定値）
 const ENVIO_API_URL = process.env.NEXT_PUBLIC_ENVIO_API_URL || 'http://localhost:8080/v1/graphql';
 
+// サブスクリプション用のWebSocketエンドポイント（未指定の場合はHTTPのURLから生成）
+const ENVIO_WS_URL = process.env.NEXT_PUBLIC_ENVIO_WS_URL || ENVIO_API_URL.replace(/^http/, 'ws');
+
 const httpLink = new HttpLink({
   uri: ENVIO_API_URL,
 });
 
-export const client = new ApolloClient({
-  link: httpLink,
-  cache: new InMemoryCache({
-    typePolicies: {
-      Query: {
-        fields: {
-          pools: {
-            merge(existing, incoming) {
-              return incoming;
-            },
-          },
-          swaps: {
-            merge(existing, incoming) {
-              return incoming;
-            },
-          },
-        },
+// WebSocketはブラウザでのみ使用可能（NEXT_PUBLIC_ENVIO_WS_URL=off で無効化）
+export const isWebSocketSupported =
+  typeof window !== 'undefined' && typeof WebSocket !== 'undefined' && ENVIO_WS_URL !== 'off';
+
+// エンドポイントごとのWebSocket接続（最初のサブスクリプションで作成）
+const wsLinks = new Map<string, GraphQLWsLink>();
+
+function getWsLink(url: string, headers?: Record<string, string>): GraphQLWsLink {
+  let wsLink = wsLinks.get(url);
+  if (!wsLink) {
+    wsLink = new GraphQLWsLink(
+      createClient({
+        url,
+        connectionParams: headers ? { headers } : undefined,
+        lazy: true, // 最初のサブスクリプションまで接続しない
+        retryAttempts: 3, // 再接続に失敗した場合はエラーを返し、呼び出し側でポーリングに切り替える
+      }),
+    );
+    wsLinks.set(url, wsLink);
+  }
+  return wsLink;
+}
+
+// サブスクリプションもクエリと同じくチェーンごとのエンドポイントに振り分ける
+const wsRoutingLink = new ApolloLink((operation) => {
+  const endpoint = getIndexerEndpoint(resolveOperationChainId(operation));
+  const url = endpoint ? endpoint.wsUrl || endpoint.url.replace(/^http/, 'ws') : ENVIO_WS_URL;
+  return getWsLink(url, endpoint?.headers).request(operation);
+});
+
+// サブスクリプションはWebSocket、それ以外はHTTPで送信
+const link = isWebSocketSupported
+  ? split(
+      ({ query }) => {
+        const definition = getMainDefinition(query);
+        return definition.kind === 'OperationDefinition' && definition.operation === 'subscription';
       },
-    },
-  }),
+      wsRoutingLink,
+      ApolloLink.from([chainRoutingLink, httpLink]),
+    )
+  : ApolloLink.from([chainRoutingLink, httpLink]);
+
+export const client = new ApolloClient({
+  link,
+  // エンティティをidで正規化し、タブやページを切り替えても同じデータを再取得しない
+  // 読み取り結果をメモ化するとTTLの判定が行われないため、resultCachingは無効にする
+  cache: new InMemoryCache({ typePolicies, resultCaching: false }),
   defaultOptions: {
     watchQuery: {
-      fetchPolicy: 'no-cache',
+      fetchPolicy: 'cache-first',
     },
     query: {
-      fetchPolicy: 'no-cache',
+      fetchPolicy: 'cache-first',
     },
   },
 });
@@ -0,0 +1,319 @@
+import { SwapEvent } from '@/types';
+import { getSwapFeeRate, getSwapFeeRates } from './dynamicFees';
+
+/**
+ * LPの価格範囲の戦略を、過去のスワップを再生してバックテストする
+ *
+ * - 価格はスワップ後のsqrtPriceX96、前後のスワップの価格の間を価格が動いたとみなす
+ * - 手数料: 価格が動いた経路のうち自分の範囲と重なる部分で、自分の流動性が受け取った量 × 手数料率
+ *   （自分の流動性は小さく、スワップの価格の動きを変えないとみなす。プール全体の流動性は使わない）
+ * - 価値: 保有量（範囲と現在価格から計算）+ 手数料をtoken1建てで評価し、スワップの金額から求めたUSD価格で換算
+ * - リバランス: 範囲の外に出てから待ち時間が経過したスワップで、現在価格を中心に範囲を作り直す
+ *   ガス代と、新しい範囲の比率に合わせるためのスワップの手数料を資金から差し引く
+ * - HODL: 最初に預け入れたトークンをそのまま保有した場合
+ */
+
+/** 範囲の決め方（symmetric: 現在価格を中心に±幅、fixed: 固定の価格範囲） */
+export type BacktestRangeType = 'symmetric' | 'fixed';
+
+/** リバランスの条件（none: リバランスしない、outOfRange: 範囲の外に出たら） */
+export type BacktestRebalanceTrigger = 'none' | 'outOfRange';
+
+export interface BacktestStrategy {
+  rangeType: BacktestRangeType;
+  /** symmetricの場合の価格の上下の幅（%、例: 5 = ±5%） */
+  widthPercent: number;
+  /** fixedの場合の価格の下限（token0 1単位あたりのtoken1、デシマル考慮済み） */
+  priceLower: number;
+  /** fixedの場合の価格の上限（token0 1単位あたりのtoken1、デシマル考慮済み） */
+  priceUpper: number;
+  /** リバランスの条件（fixedの場合は使わない） */
+  rebalanceTrigger: BacktestRebalanceTrigger;
+  /** 範囲の外に出てからリバランスするまでの待ち時間（秒） */
+  rebalanceDelaySeconds: number;
+  /** リバランス1回あたりのガス代（USD） */
+  gasCostUSD: number;
+  /** 初期資金（USD） */
+  initialCapitalUSD: number;
+}
+
+/** 資産の推移（1時間ごと） */
+export interface BacktestPoint {
+  timestamp: number;
+  /** token0 1単位あたりのtoken1の価格 */
+  price: number;
+  priceLower: number;
+  priceUpper: number;
+  /** ポジションの価値 + 手数料（USD、コストは差し引き済み） */
+  equityUSD: number;
+  /** ポジションの価値（USD） */
+  positionUSD: number;
+  /** 累計の手数料（現在の価格で評価したUSD） */
+  feesUSD: number;
+  /** 最初に預け入れたトークンをそのまま保有した場合の価値（USD） */
+  hodlUSD: number;
+  inRange: boolean;
+}
+
+export interface BacktestRebalance {
+  timestamp: number;
+  price: number;
+  /** 新しい範囲 */
+  priceLower: number;
+  priceUpper: number;
+  /** ガス代 + 比率を合わせるスワップの手数料（USD） */
+  costUSD: number;
+}
+
+export interface BacktestResult {
+  points: BacktestPoint[];
+  rebalances: BacktestRebalance[];
+  startTimestamp: number;
+  endTimestamp: number;
+  initialCapitalUSD: number;
+  finalEquityUSD: number;
+  finalHodlUSD: number;
+  /** 手数料収入（期間の終わりの価格で評価したUSD） */
+  feesUSD: number;
+  /** リバランスのコストの合計（USD） */
+  rebalanceCostUSD: number;
+  /** インパーマネントロス（HODLとの差から手数料とコストを除いたもの、負の値が損失） */
+  impermanentLossUSD: number;
+  /** 初期資金に対する損益の割合（%） */
+  netReturnPercent: number;
+  /** HODLの損益の割合（%） */
+  hodlReturnPercent: number;
+  /** 損益の割合を年率に換算したもの（%） */
+  aprPercent: number;
+  /** 範囲内にあった時間の割合（%） */
+  timeInRangePercent: number;
+  /** 資産の最大下落率（%） */
+  maxDrawdownPercent: number;
+}
+
+const Q96 = 2 ** 96;
+const HOUR = 60 * 60;
+const YEAR = 365 * 24 * HOUR;
+
+// 範囲の境界（√P）
+interface Range {
+  sqrtLower: number;
+  sqrtUpper: number;
+}
+
+function compareSwaps(a: SwapEvent, b: SwapEvent): number {
+  const byTime = Number(a.timestamp) - Number(b.timestamp);
+  if (byTime !== 0) return byTime;
+  return Number(a.logIndex || 0) - Number(b.logIndex || 0);
+}
+
+// 流動性1あたりのトークン量（範囲の外では片方のトークンのみ）
+function amountsPerLiquidity(sqrtPrice: number, range: Range): [number, number] {
+  const sqrt = Math.min(Math.max(sqrtPrice, range.sqrtLower), range.sqrtUpper);
+  return [1 / sqrt - 1 / range.sqrtUpper, sqrt - range.sqrtLower];
+}
+
+function createRange(strategy: BacktestStrategy, price: number): Range {
+  if (strategy.rangeType === 'fixed') {
+    return { sqrtLower: Math.sqrt(strategy.priceLower), sqrtUpper: Math.sqrt(strategy.priceUpper) };
+  }
+  const width = strategy.widthPercent / 100;
+  return { sqrtLower: Math.sqrt(price * (1 - width)), sqrtUpper: Math.sqrt(price * (1 + width)) };
+}
+
+function validateStrategy(strategy: BacktestStrategy): void {
+  if (!(strategy.initialCapitalUSD > 0)) throw new Error('初期資金は0より大きい値を指定してください');
+  if (strategy.rangeType === 'fixed') {
+    if (!(strategy.priceLower > 0) || !(strategy.priceUpper > strategy.priceLower)) {
+      throw new Error('価格の上限は下限より大きい値を指定してください');
+    }
+  } else if (!(strategy.widthPercent > 0 && strategy.widthPercent < 100)) {
+    throw new Error('範囲の幅は0〜100%の間で指定してください');
+  }
+  if (strategy.gasCostUSD < 0 || strategy.rebalanceDelaySeconds < 0) {
+    throw new Error('ガス代と待ち時間は0以上の値を指定してください');
+  }
+}
+
+/**
+ * 戦略を過去のスワップでバックテストする関数
+ *
+ * @param swapEvents 期間内のスワップイベント（順不同）
+ * @param strategy 戦略
+ * @param feeTier プールの手数料率（動的手数料の場合はスワップごとに推定）
+ * @param decimals0 token0のデシマル
+ * @param decimals1 token1のデシマル
+ * @returns バックテストの結果
+ */
+export function runBacktest(
+  swapEvents: SwapEvent[],
+  strategy: BacktestStrategy,
+  feeTier: string,
+  decimals0: string | number,
+  decimals1: string | number,
+): BacktestResult {
+  validateStrategy(strategy);
+
+  const feeRates = getSwapFeeRates(swapEvents, feeTier, decimals0, decimals1);
+  // sqrtPriceX96をデシマル考慮済みの√Pに変換する係数
+  const sqrtScale = Math.sqrt(10 ** (Number(decimals0) - Number(decimals1)));
+  const swaps = [...swapEvents]
+    .sort(compareSwaps)
+    .filter((swap) => swap.sqrtPriceX96 && Number(swap.sqrtPriceX96) > 0);
+
+  // 開始時点: 価格とUSD価格の両方が分かる最初のスワップ
+  const startIndex = swaps.findIndex(
+    (swap) => Number(swap.amountUSD) > 0 && Math.abs(Number(swap.amount1)) > 0,
+  );
+  if (startIndex === -1) throw new Error('USDの金額が分かるスワップがないため、バックテストできません');
+
+  const first = swaps[startIndex];
+  let usdPerToken1 = Number(first.amountUSD) / Math.abs(Number(first.amount1));
+  let sqrtPrice = (Number(first.sqrtPriceX96) / Q96) * sqrtScale;
+  let range = createRange(strategy, sqrtPrice * sqrtPrice);
+
+  // 初期資金をtoken1建てにして流動性に変換
+  const mint = (value1: number): number => {
+    const [x0, x1] = amountsPerLiquidity(sqrtPrice, range);
+    const valuePerLiquidity = x0 * sqrtPrice * sqrtPrice + x1;
+    return valuePerLiquidity > 0 ? Math.max(0, value1) / valuePerLiquidity : 0;
+  };
+  let liquidity = mint(strategy.initialCapitalUSD / usdPerToken1);
+  const [initial0, initial1] = amountsPerLiquidity(sqrtPrice, range).map((amount) => amount * liquidity);
+
+  let fees0 = 0;
+  let fees1 = 0;
+  let rebalanceCostUSD = 0;
+  let outOfRangeSince: number | null = null;
+  let inRangeSeconds = 0;
+  let peakEquity = strategy.initialCapitalUSD;
+  let maxDrawdown = 0;
+  const points: BacktestPoint[] = [];
+  const rebalances: BacktestRebalance[] = [];
+  const startTimestamp = Number(first.timestamp);
+  let previousTimestamp = startTimestamp;
+
+  const isInRange = () => sqrtPrice >= range.sqrtLower && sqrtPrice < range.sqrtUpper;
+
+  const record = (timestamp: number) => {
+    const price = sqrtPrice * sqrtPrice;
+    const [x0, x1] = amountsPerLiquidity(sqrtPrice, range);
+    const positionUSD = (x0 * liquidity * price + x1 * liquidity) * usdPerToken1;
+    const feesUSD = (fees0 * price + fees1) * usdPerToken1;
+    const equityUSD = positionUSD + feesUSD;
+    const point: BacktestPoint = {
+      timestamp,
+      price,
+      priceLower: range.sqrtLower * range.sqrtLower,
+      priceUpper: range.sqrtUpper * range.sqrtUpper,
+      equityUSD,
+      positionUSD,
+      feesUSD,
+      hodlUSD: (initial0 * price + initial1) * usdPerToken1,
+      inRange: isInRange(),
+    };
+
+    peakEquity = Math.max(peakEquity, equityUSD);
+    if (peakEquity > 0) maxDrawdown = Math.max(maxDrawdown, (peakEquity - equityUSD) / peakEquity);
+
+    // 1時間ごとに最後の状態を残す
+    const last = points[points.length - 1];
+    if (last && Math.floor(last.timestamp / HOUR) === Math.floor(timestamp / HOUR)) {
+      points[points.length - 1] = point;
+    } else {
+      points.push(point);
+    }
+  };
+
+  record(startTimestamp);
+
+  for (let i = startIndex + 1; i < swaps.length; i++) {
+    const swap = swaps[i];
+    const timestamp = Number(swap.timestamp);
+    if (isInRange()) inRangeSeconds += timestamp - previousTimestamp;
+    previousTimestamp = timestamp;
+
+    const amountUSD = Number(swap.amountUSD);
+    const amount1 = Math.abs(Number(swap.amount1));
+    if (amountUSD > 0 && amount1 > 0) usdPerToken1 = amountUSD / amount1;
+
+    // 価格が動いた経路のうち、範囲と重なる部分で受け取った手数料
+    const nextSqrtPrice = (Number(swap.sqrtPriceX96) / Q96) * sqrtScale;
+    const lower = Math.max(Math.min(sqrtPrice, nextSqrtPrice), range.sqrtLower);
+    const upper = Math.min(Math.max(sqrtPrice, nextSqrtPrice), range.sqrtUpper);
+    if (upper > lower && liquidity > 0) {
+      const feeRate = getSwapFeeRate(feeRates, swap);
+      // 手数料は支払われた量（手数料を含む）にかかるため、手数料を除いた量から換算する
+      const feeFactor = feeRate < 1 ? feeRate / (1 - feeRate) : 0;
+      if (nextSqrtPrice > sqrtPrice) {
+        fees1 += liquidity * (upper - lower) * feeFactor;
+      } else {
+        fees0 += liquidity * (1 / lower - 1 / upper) * feeFactor;
+      }
+    }
+    sqrtPrice = nextSqrtPrice;
+
+    if (isInRange()) {
+      outOfRangeSince = null;
+    } else if (outOfRangeSince === null) {
+      outOfRangeSince = timestamp;
+    }
+
+    const shouldRebalance =
+      strategy.rangeType === 'symmetric' &&
+      strategy.rebalanceTrigger === 'outOfRange' &&
+      outOfRangeSince !== null &&
+      timestamp - outOfRangeSince >= strategy.rebalanceDelaySeconds;
+
+    if (shouldRebalance) {
+      const price = sqrtPrice * sqrtPrice;
+      const [held0, held1] = amountsPerLiquidity(sqrtPrice, range).map((amount) => amount * liquidity);
+      const value1 = held0 * price + held1;
+
+      range = createRange(strategy, price);
+      const [x0, x1] = amountsPerLiquidity(sqrtPrice, range);
+      // 新しい範囲の比率に合わせるためにスワップする量（token1建て）
+      const target0Share = (x0 * price) / (x0 * price + x1);
+      const swapValue1 = Math.abs(value1 * target0Share - held0 * price);
+      const swapFee1 = swapValue1 * feeRates.defaultRate;
+      const gas1 = strategy.gasCostUSD / usdPerToken1;
+
+      liquidity = mint(value1 - swapFee1 - gas1);
+      const costUSD = (swapFee1 + gas1) * usdPerToken1;
+      rebalanceCostUSD += costUSD;
+      rebalances.push({
+        timestamp,
+        price,
+        priceLower: range.sqrtLower * range.sqrtLower,
+        priceUpper: range.sqrtUpper * range.sqrtUpper,
+        costUSD,
+      });
+      outOfRangeSince = null;
+    }
+
+    record(timestamp);
+  }
+
+  const last = points[points.length - 1];
+  const endTimestamp = last.timestamp;
+  const duration = endTimestamp - startTimestamp;
+  const netReturn = last.equityUSD / strategy.initialCapitalUSD - 1;
+
+  return {
+    points,
+    rebalances,
+    startTimestamp,
+    endTimestamp,
+    initialCapitalUSD: strategy.initialCapitalUSD,
+    finalEquityUSD: last.equityUSD,
+    finalHodlUSD: last.hodlUSD,
+    feesUSD: last.feesUSD,
+    rebalanceCostUSD,
+    impermanentLossUSD: last.equityUSD - last.hodlUSD - last.feesUSD + rebalanceCostUSD,
+    netReturnPercent: netReturn * 100,
+    hodlReturnPercent: (last.hodlUSD / strategy.initialCapitalUSD - 1) * 100,
+    aprPercent: duration > 0 ? (netReturn * YEAR * 100) / duration : 0,
+    timeInRangePercent: duration > 0 ? (inRangeSeconds / duration) * 100 : last.inRange ? 100 : 0,
+    maxDrawdownPercent: maxDrawdown * 100,
+  };
+}
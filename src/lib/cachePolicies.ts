@@ -0,0 +1,152 @@
+import { FieldPolicy, Reference, TypePolicies } from '@apollo/client';
+
+/**
+ * Apollo Clientの正規化キャッシュの設定
+ * エンティティをidで正規化し、リストのページを結合して、TTLを過ぎたフィールドは再取得させる
+ */
+
+/** フィールドの種類ごとのキャッシュ有効期間（ミリ秒） */
+export const CACHE_TTL_MS = {
+  /** プール・トークン・ETH価格などの詳細 */
+  entity: 60 * 1000,
+  /** スワップ・流動性イベント・ポジションのリストと集計 */
+  events: 30 * 1000,
+  /** Hook統計・トークン一覧など変化の遅いデータ */
+  stats: 5 * 60 * 1000,
+};
+
+// Queryフィールド（storeFieldName）ごとの最終書き込み時刻
+const fieldWrittenAt = new Map<string, number>();
+
+/**
+ * フィールドポリシーにTTLを付与する
+ * TTLを過ぎたフィールドはreadでundefinedを返し、cache-firstでもネットワークから再取得させる
+ *
+ * @param ttlMs 有効期間（ミリ秒）
+ * @param policy 元のフィールドポリシー（merge / read / keyArgs）
+ */
+export function withTTL(ttlMs: number, policy: FieldPolicy<any> = {}): FieldPolicy<any> {
+  return {
+    ...policy,
+    merge(existing, incoming, options) {
+      fieldWrittenAt.set(options.storeFieldName, Date.now());
+      if (typeof policy.merge === 'function') return policy.merge(existing, incoming, options);
+      return incoming;
+    },
+    read(existing, options) {
+      if (existing !== undefined) {
+        const writtenAt = fieldWrittenAt.get(options.storeFieldName);
+        if (writtenAt === undefined || Date.now() - writtenAt > ttlMs) return undefined;
+      }
+      return policy.read ? policy.read(existing, options) : existing;
+    },
+  };
+}
+
+// limit/offsetで取得したリストの保存形式
+interface CachedList<T> {
+  /** offsetの位置に格納した行（未取得の位置は空） */
+  items: T[];
+  /** リストの終端（limitより少ない件数が返った位置）。不明な場合はundefined */
+  end?: number;
+}
+
+/**
+ * Hasuraのlimit/offsetで取得するリストのフィールドポリシー
+ * 同じwhere・order_byのページを1つのリストに結合し、すべての行がそろっているページはキャッシュから返す
+ *
+ * @param keyArgs 別のリストとして扱う引数
+ */
+export function offsetLimitList<T = Reference>(
+  keyArgs: string[] = ['where', 'order_by', 'distinct_on'],
+): FieldPolicy<CachedList<T>, T[], T[]> {
+  return {
+    keyArgs,
+    merge(existing, incoming, { args }) {
+      const offset: number = args?.offset ?? 0;
+      const limit: number | undefined = args?.limit ?? undefined;
+      const items = existing ? existing.items.slice(0) : [];
+      let end = existing?.end;
+
+      incoming.forEach((item, index) => {
+        items[offset + index] = item;
+      });
+
+      if (limit === undefined || incoming.length < limit) {
+        // 終端まで取得できたので、それより後ろの古い行は捨てる
+        end = offset + incoming.length;
+        items.length = end;
+      } else if (end !== undefined && offset + incoming.length > end) {
+        // 以前の終端より後ろに行が増えた
+        end = undefined;
+      }
+
+      return { items, end };
+    },
+    read(existing, { args }) {
+      if (!existing) return undefined;
+      const offset: number = args?.offset ?? 0;
+      const limit: number | undefined = args?.limit ?? undefined;
+
+      let stop = limit === undefined ? existing.end : offset + limit;
+      if (stop === undefined) return undefined;
+      if (existing.end !== undefined) stop = Math.min(stop, existing.end);
+
+      // 1行でも欠けていればネットワークから取得する
+      const page: T[] = [];
+      for (let i = offset; i < stop; i++) {
+        if (existing.items[i] === undefined) return undefined;
+        page.push(existing.items[i]);
+      }
+      return page;
+    },
+  };
+}
+
+/**
+ * <Entity>_by_pk をキャッシュ済みのエンティティに向けるフィールドポリシー
+ * リストで取得済みのプールなどを、詳細の取得を待たずに表示できる
+ *
+ * @param typename エンティティの型名
+ */
+export function byPrimaryKey(typename: string): FieldPolicy<Reference | null> {
+  return {
+    read(existing, { args, toReference }) {
+      if (existing !== undefined || !args?.id) return existing;
+      return toReference({ __typename: typename, id: args.id });
+    },
+  };
+}
+
+// スキーマ上のエンティティ（idにチェーンIDの接頭辞が付いているため、idだけで一意）
+const ENTITY_TYPENAMES = ['Pool', 'Token', 'Swap', 'ModifyLiquidity', 'LiquidityPosition', 'Bundle', 'PoolManager'];
+
+/**
+ * InMemoryCacheのtypePolicies
+ */
+export const typePolicies: TypePolicies = {
+  ...Object.fromEntries(ENTITY_TYPENAMES.map((typename) => [typename, { keyFields: ['id'] }])),
+  // HookStatsのidはHookのアドレスのみで、同じアドレスが複数のチェーンに存在しうる
+  HookStats: { keyFields: ['chainId', 'id'] },
+  Query: {
+    fields: {
+      // 詳細
+      Pool_by_pk: withTTL(CACHE_TTL_MS.entity, byPrimaryKey('Pool')),
+      Token_by_pk: withTTL(CACHE_TTL_MS.entity, byPrimaryKey('Token')),
+      Bundle_by_pk: withTTL(CACHE_TTL_MS.entity, byPrimaryKey('Bundle')),
+      HookStats_by_pk: withTTL(CACHE_TTL_MS.stats),
+
+      // リスト
+      Pool: withTTL(CACHE_TTL_MS.entity, offsetLimitList()),
+      Token: withTTL(CACHE_TTL_MS.stats, offsetLimitList()),
+      HookStats: withTTL(CACHE_TTL_MS.stats, offsetLimitList()),
+      Swap: withTTL(CACHE_TTL_MS.events, offsetLimitList()),
+      ModifyLiquidity: withTTL(CACHE_TTL_MS.events, offsetLimitList()),
+      LiquidityPosition: withTTL(CACHE_TTL_MS.events, offsetLimitList()),
+
+      // 集計
+      Pool_aggregate: withTTL(CACHE_TTL_MS.entity),
+      Swap_aggregate: withTTL(CACHE_TTL_MS.events),
+    },
+  },
+};
@@ -0,0 +1,156 @@
+import { SwapEvent } from '@/types';
+
+/**
+ * Uniswap v4の動的手数料プールの判定と、スワップごとの実効手数料率の推定
+ *
+ * 動的手数料プールではPool.feeTierが手数料のフラグ（0x800000）になり、実際の手数料率はHookがスワップごとに決める。
+ * 手数料率はスワップ前後の価格と量から推定する。同じ流動性の区間内のスワップでは
+ *   token0を支払う場合: 受け取るtoken1 = 支払ったtoken0 × (1 - 手数料率) × √(P前 × P後)
+ *   token1を支払う場合: 受け取るtoken0 = 支払ったtoken1 × (1 - 手数料率) / √(P前 × P後)
+ * が成り立つため、流動性の値を使わずに手数料率を求められる（Tickをまたぐ場合は近似値）。
+ * スワップ前の価格は直前のスワップ後の価格を使う。
+ */
+
+/** 動的手数料を表すfeeTierの値（LPFeeLibrary.DYNAMIC_FEE_FLAG） */
+export const DYNAMIC_FEE_FLAG = 0x800000;
+
+const Q96 = 2 ** 96;
+
+/** スワップごとの手数料率 */
+export interface SwapFeeRates {
+  /** 動的手数料プールかどうか（trueの場合、手数料率は推定値） */
+  dynamic: boolean;
+  /** 個別に推定できなかったスワップに使う手数料率（動的手数料の場合は推定値の中央値） */
+  defaultRate: number;
+  /** スワップIDごとの推定手数料率（0〜1） */
+  rates: Record<string, number>;
+  /** 手数料率を推定できたスワップ数 */
+  inferredCount: number;
+}
+
+/**
+ * feeTierが動的手数料を表すかを返す関数
+ *
+ * @param feeTier Pool.feeTier
+ */
+export function isDynamicFeeTier(feeTier: string | number | null | undefined): boolean {
+  return feeTier !== null && feeTier !== undefined && Number(feeTier) === DYNAMIC_FEE_FLAG;
+}
+
+/**
+ * 手数料率を表示用の文字列にする関数（例: 3000 -> "0.3%"、動的手数料 -> "動的"）
+ *
+ * @param feeTier Pool.feeTier
+ */
+export function formatFeeTier(feeTier: string | number): string {
+  return isDynamicFeeTier(feeTier) ? '動的' : `${Number(feeTier) / 10000}%`;
+}
+
+function compareSwaps(a: SwapEvent, b: SwapEvent): number {
+  const byTime = Number(a.timestamp) - Number(b.timestamp);
+  if (byTime !== 0) return byTime;
+  return Number(a.logIndex || 0) - Number(b.logIndex || 0);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// 推定に使うスワップ（支払った量・受け取った量・前後の価格の幾何平均（最小単位同士））
+interface FeeSample {
+  id: string;
+  token0In: boolean;
+  amountIn: number;
+  amountOut: number;
+  rawPrice: number;
+}
+
+/**
+ * スワップごとの実効手数料率を推定する関数
+ *
+ * @param swapEvents スワップイベント（順不同、期間内のすべてのスワップを渡すこと）
+ * @param decimals0 token0のデシマル（省略時はスワップから推定）
+ * @param decimals1 token1のデシマル（省略時はスワップから推定）
+ * @returns スワップごとの推定手数料率
+ */
+export function inferSwapFeeRates(
+  swapEvents: SwapEvent[],
+  decimals0?: string | number,
+  decimals1?: string | number,
+): SwapFeeRates {
+  const samples: FeeSample[] = [];
+  let previousSqrtPrice: number | null = null;
+
+  [...swapEvents].sort(compareSwaps).forEach((swap) => {
+    const sqrtPrice = Number(swap.sqrtPriceX96 || 0) / Q96;
+    const before = previousSqrtPrice;
+    previousSqrtPrice = sqrtPrice > 0 ? sqrtPrice : previousSqrtPrice;
+    // 価格が動いていないスワップ（Hookが独自に処理したものなど）からは推定できない
+    if (before === null || !(sqrtPrice > 0) || before === sqrtPrice) return;
+
+    const amount0 = Number(swap.amount0 || 0);
+    const amount1 = Number(swap.amount1 || 0);
+    const rawPrice = before * sqrtPrice;
+    if (amount0 > 0 && amount1 < 0) {
+      samples.push({ id: swap.id, token0In: true, amountIn: amount0, amountOut: -amount1, rawPrice });
+    } else if (amount1 > 0 && amount0 < 0) {
+      samples.push({ id: swap.id, token0In: false, amountIn: amount1, amountOut: -amount0, rawPrice });
+    }
+  });
+
+  // 量はデシマル考慮済みのため、価格の桁（10^(decimals0 - decimals1)）を合わせる
+  // デシマルが不明な場合は、各スワップの比率を10の累乗に丸めた値の中央値を使う（手数料率が約68%未満なら正確）
+  const ratio = (sample: FeeSample) =>
+    sample.token0In
+      ? sample.amountOut / (sample.amountIn * sample.rawPrice)
+      : (sample.amountOut * sample.rawPrice) / sample.amountIn;
+  const exponent =
+    decimals0 !== undefined && decimals0 !== '' && decimals1 !== undefined && decimals1 !== ''
+      ? Number(decimals0) - Number(decimals1)
+      : Math.round(
+          median(samples.map((sample) => (sample.token0In ? 1 : -1) * Math.round(Math.log10(ratio(sample))))),
+        );
+  const scale = 10 ** exponent;
+
+  const rates: Record<string, number> = {};
+  samples.forEach((sample) => {
+    const rate = 1 - (sample.token0In ? ratio(sample) / scale : ratio(sample) * scale);
+    if (rate >= 0 && rate < 1) rates[sample.id] = rate;
+  });
+
+  const inferred = Object.values(rates);
+  return { dynamic: true, defaultRate: median(inferred), rates, inferredCount: inferred.length };
+}
+
+/**
+ * プールの手数料率からスワップごとの手数料率を求める関数
+ * 固定手数料のプールはすべてのスワップに同じ手数料率を使い、動的手数料のプールはスワップから推定する
+ *
+ * @param swapEvents スワップイベント
+ * @param feeTier Pool.feeTier (例: 3000 = 0.3%)
+ * @param decimals0 token0のデシマル（省略時はスワップから推定）
+ * @param decimals1 token1のデシマル（省略時はスワップから推定）
+ * @returns スワップごとの手数料率
+ */
+export function getSwapFeeRates(
+  swapEvents: SwapEvent[],
+  feeTier: string | number,
+  decimals0?: string | number,
+  decimals1?: string | number,
+): SwapFeeRates {
+  if (isDynamicFeeTier(feeTier)) return inferSwapFeeRates(swapEvents, decimals0, decimals1);
+  return { dynamic: false, defaultRate: Number(feeTier) / 1000000, rates: {}, inferredCount: 0 };
+}
+
+/**
+ * スワップの手数料率（0〜1）を返す関数
+ *
+ * @param feeRates getSwapFeeRatesの結果
+ * @param swap スワップイベント
+ */
+export function getSwapFeeRate(feeRates: SwapFeeRates, swap: SwapEvent): number {
+  return feeRates.rates[swap.id] ?? feeRates.defaultRate;
+}
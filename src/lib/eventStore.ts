@@ -0,0 +1,384 @@
+import { ApolloClient } from '@apollo/client';
+import {
+  fetchAllByKeyset,
+  KeysetCursor,
+  KeysetSource,
+  MODIFY_LIQUIDITY_KEYSET_SOURCE,
+  SWAP_KEYSET_SOURCE,
+} from './keysetPagination';
+import { ModifyLiquidityEvent, SwapEvent } from '../types';
+
+/**
+ * ブラウザ内（IndexedDB）にプールごとのイベントを保存するストア
+ * 一度取得したSwap/ModifyLiquidityを保持し、次回以降は保存済みの最終カーソル
+ * （ハイウォーターマーク）より新しい行だけを取得する
+ */
+
+const DB_NAME = 'v4-liq-tracker-events';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+
+/** デフォルトで保持するプール数（超えた分は最終アクセスが古い順に削除） */
+export const DEFAULT_MAX_CACHED_POOLS = 10;
+const MAX_POOLS_STORAGE_KEY = 'eventStore.maxPools';
+
+export type EventKind = 'swaps' | 'modifyLiquidity';
+
+type EventOfKind<K extends EventKind> = K extends 'swaps' ? SwapEvent : ModifyLiquidityEvent;
+
+// 保存時に付与するフィールド（プールIDと数値タイムスタンプで範囲検索する）
+type StoredEvent<T> = T & { pool: string; ts: number };
+
+const SOURCES: { [K in EventKind]: KeysetSource<EventOfKind<K>> } = {
+  swaps: SWAP_KEYSET_SOURCE,
+  modifyLiquidity: MODIFY_LIQUIDITY_KEYSET_SOURCE,
+} as { [K in EventKind]: KeysetSource<EventOfKind<K>> };
+
+/**
+ * イベント種別ごとの同期状態
+ */
+export interface EventSyncState {
+  /** この時刻以降のイベントはすべて保存済み */
+  syncedFrom: number;
+  /** 保存済みの最後の行のカーソル（ハイウォーターマーク） */
+  cursor: KeysetCursor | null;
+  /** 保存済みの件数 */
+  count: number;
+}
+
+/**
+ * プールごとのキャッシュメタデータ
+ */
+export interface PoolCacheMeta {
+  poolId: string;
+  swaps?: EventSyncState;
+  modifyLiquidity?: EventSyncState;
+  /** 最後に同期した時刻 (ミリ秒) */
+  updatedAt: number;
+  /** 最後に参照した時刻 (ミリ秒) - 削除順の決定に使用 */
+  lastAccessedAt: number;
+}
+
+/**
+ * キャッシュ全体の統計情報
+ */
+export interface EventCacheStats {
+  pools: PoolCacheMeta[];
+  /** ブラウザが報告するストレージ使用量 (バイト、取得できない場合はnull) */
+  usageBytes: number | null;
+  /** ブラウザが報告するストレージ上限 (バイト、取得できない場合はnull) */
+  quotaBytes: number | null;
+}
+
+export interface SyncResult {
+  /** 今回新たに保存した件数 */
+  added: number;
+  /** 最後まで同期できた場合はtrue */
+  complete: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * IndexedDBが使える環境か（SSRやプライベートモードでは使えない）
+ */
+export function isEventStoreAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isEventStoreAvailable()) {
+    return Promise.reject(new Error('IndexedDBが利用できません'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(SOURCES) as EventKind[]).forEach((kind) => {
+          if (!db.objectStoreNames.contains(kind)) {
+            const store = db.createObjectStore(kind, { keyPath: 'id' });
+            store.createIndex('byPoolTime', ['pool', 'ts']);
+            store.createIndex('byPool', 'pool');
+          }
+        });
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'poolId' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function getMeta(db: IDBDatabase, poolId: string): Promise<PoolCacheMeta | undefined> {
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise<PoolCacheMeta | undefined>(tx.objectStore(META_STORE).get(poolId));
+}
+
+/**
+ * イベントとメタデータを1つのトランザクションで保存する
+ * 途中で中断しても保存済みのカーソルから再開できる
+ */
+async function putEvents<K extends EventKind>(
+  db: IDBDatabase,
+  kind: K,
+  poolId: string,
+  rows: EventOfKind<K>[],
+  updateMeta: (meta: PoolCacheMeta) => void,
+): Promise<number> {
+  const tx = db.transaction([kind, META_STORE], 'readwrite');
+  const store = tx.objectStore(kind);
+  const metaStore = tx.objectStore(META_STORE);
+
+  // 既存の行を数えて件数を正確に保つ
+  const existing = await Promise.all(rows.map((row) => requestToPromise(store.getKey(row.id))));
+  const added = existing.filter((key) => key === undefined).length;
+
+  rows.forEach((row) => {
+    const stored: StoredEvent<EventOfKind<K>> = { ...row, pool: poolId, ts: Number(row.timestamp) };
+    store.put(stored);
+  });
+
+  const now = Date.now();
+  const meta: PoolCacheMeta = (await requestToPromise<PoolCacheMeta | undefined>(metaStore.get(poolId))) || {
+    poolId,
+    updatedAt: now,
+    lastAccessedAt: now,
+  };
+  updateMeta(meta);
+  const state = meta[kind];
+  if (state) state.count += added;
+  meta.updatedAt = now;
+  meta.lastAccessedAt = now;
+  metaStore.put(meta);
+
+  await transactionDone(tx);
+  return added;
+}
+
+/**
+ * 指定したプールのイベントをIndexedDBに同期する
+ * - 初回: startTime以降を全件取得
+ * - 保存済みより古い期間が要求された場合: 足りない期間だけを取得
+ * - 2回目以降: 保存済みの最終カーソルより新しい行だけを取得
+ *
+ * @param client ApolloClientインスタンス
+ * @param poolId プールID
+ * @param kind イベント種別
+ * @param startTime 必要な期間の開始タイムスタンプ
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
+ * @returns 追加件数と同期完了フラグ
+ */
+export async function syncPoolEvents<K extends EventKind>(
+  client: ApolloClient<any>,
+  poolId: string,
+  kind: K,
+  startTime: number,
+  progressCallback?: (percent: number, message: string) => void,
+): Promise<SyncResult> {
+  const db = await openDatabase();
+  const source = SOURCES[kind] as KeysetSource<EventOfKind<K>>;
+  const state = (await getMeta(db, poolId))?.[kind];
+  let added = 0;
+
+  // 保存済みの期間より前が必要な場合は、その差分だけを埋める
+  if (state && startTime < state.syncedFrom) {
+    const backfill = await fetchAllByKeyset(
+      client,
+      source,
+      { pool: { _eq: poolId }, timestamp: { _gte: startTime, _lt: state.syncedFrom } },
+      { progressCallback },
+    );
+    if (!backfill.complete) {
+      throw new Error('過去データの取得がバッチ上限に達しました。期間を短くしてください');
+    }
+    added += await putEvents(db, kind, poolId, backfill.rows, (meta) => {
+      meta[kind] = { ...(meta[kind] as EventSyncState), syncedFrom: startTime };
+    });
+  }
+
+  const syncedFrom = state ? Math.min(state.syncedFrom, startTime) : startTime;
+
+  // ハイウォーターマークより新しい行を取得（バッチごとに保存）
+  const forward = await fetchAllByKeyset(
+    client,
+    source,
+    { pool: { _eq: poolId }, timestamp: { _gte: syncedFrom } },
+    {
+      after: state?.cursor ?? null,
+      progressCallback,
+      onBatch: async (rows, cursor) => {
+        added += await putEvents(db, kind, poolId, rows, (meta) => {
+          meta[kind] = { syncedFrom, cursor, count: meta[kind]?.count ?? 0 };
+        });
+      },
+    },
+  );
+
+  // 新しい行が無かった場合も初回はメタデータを作成しておく
+  if (!state && forward.rows.length === 0) {
+    await putEvents(db, kind, poolId, [], (meta) => {
+      meta[kind] = { syncedFrom, cursor: null, count: 0 };
+    });
+  }
+
+  return { added, complete: forward.complete };
+}
+
+/**
+ * 保存済みのイベントを期間指定で読み出す
+ *
+ * @param poolId プールID
+ * @param kind イベント種別
+ * @param startTime 開始タイムスタンプ
+ * @param endTime 終了タイムスタンプ (省略時は最新まで)
+ * @returns (timestamp, logIndex) 順に並んだイベント
+ */
+export async function loadPoolEvents<K extends EventKind>(
+  poolId: string,
+  kind: K,
+  startTime: number,
+  endTime = Number.MAX_SAFE_INTEGER,
+): Promise<EventOfKind<K>[]> {
+  const db = await openDatabase();
+  const tx = db.transaction([kind, META_STORE], 'readwrite');
+  const index = tx.objectStore(kind).index('byPoolTime');
+  const rows = await requestToPromise<StoredEvent<EventOfKind<K>>[]>(
+    index.getAll(IDBKeyRange.bound([poolId, startTime], [poolId, endTime])),
+  );
+
+  // 参照時刻を更新（削除順の決定に使用）
+  const metaStore = tx.objectStore(META_STORE);
+  const meta = await requestToPromise<PoolCacheMeta | undefined>(metaStore.get(poolId));
+  if (meta) {
+    meta.lastAccessedAt = Date.now();
+    metaStore.put(meta);
+  }
+  await transactionDone(tx);
+
+  return rows
+    .sort((a, b) => a.ts - b.ts || Number(a.logIndex || 0) - Number(b.logIndex || 0))
+    .map(({ ts, ...row }) => row as unknown as EventOfKind<K>);
+}
+
+/**
+ * 保存済みデータが指定期間をカバーしているかを返す
+ * trueの場合は同期を待たずにキャッシュから表示できる
+ */
+export async function isPoolCached(poolId: string, kind: EventKind, startTime: number): Promise<boolean> {
+  const db = await openDatabase();
+  const state = (await getMeta(db, poolId))?.[kind];
+  return !!state && state.syncedFrom <= startTime;
+}
+
+/**
+ * キャッシュの統計情報（プールごとの件数とストレージ使用量）を取得する
+ */
+export async function getEventCacheStats(): Promise<EventCacheStats> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const pools = await requestToPromise<PoolCacheMeta[]>(tx.objectStore(META_STORE).getAll());
+
+  let usageBytes: number | null = null;
+  let quotaBytes: number | null = null;
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usageBytes = estimate.usage ?? null;
+    quotaBytes = estimate.quota ?? null;
+  }
+
+  return {
+    pools: pools.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt),
+    usageBytes,
+    quotaBytes,
+  };
+}
+
+/**
+ * 指定したプールのキャッシュをすべて削除する
+ * @param poolId プールID
+ */
+export async function evictPool(poolId: string): Promise<void> {
+  const db = await openDatabase();
+  const kinds = Object.keys(SOURCES) as EventKind[];
+  const tx = db.transaction([...kinds, META_STORE], 'readwrite');
+
+  await Promise.all(
+    kinds.map(async (kind) => {
+      const store = tx.objectStore(kind);
+      const keys = await requestToPromise(store.index('byPool').getAllKeys(poolId));
+      keys.forEach((key) => store.delete(key));
+    }),
+  );
+  tx.objectStore(META_STORE).delete(poolId);
+
+  await transactionDone(tx);
+}
+
+/**
+ * 保持するプール数の設定を取得する（localStorageに保存）
+ */
+export function getMaxCachedPools(): number {
+  if (typeof window === 'undefined') return DEFAULT_MAX_CACHED_POOLS;
+  const stored = Number(window.localStorage.getItem(MAX_POOLS_STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_MAX_CACHED_POOLS;
+}
+
+/**
+ * 保持するプール数の設定を保存する
+ * @param maxPools 保持するプール数
+ */
+export function setMaxCachedPools(maxPools: number): void {
+  window.localStorage.setItem(MAX_POOLS_STORAGE_KEY, String(maxPools));
+}
+
+/**
+ * 最終アクセスが古いプールから削除し、保持するプール数をmaxPools以下にする
+ * @param maxPools 保持するプール数
+ * @returns 削除したプールIDの配列
+ */
+export async function enforceCacheLimit(maxPools = getMaxCachedPools()): Promise<string[]> {
+  const { pools } = await getEventCacheStats();
+  const evicted = pools.slice(Math.max(0, maxPools)).map((meta) => meta.poolId);
+
+  for (const poolId of evicted) {
+    await evictPool(poolId);
+  }
+  return evicted;
+}
+
+/**
+ * すべてのキャッシュを削除する
+ */
+export async function clearEventStore(): Promise<void> {
+  const db = await openDatabase();
+  const stores = [...(Object.keys(SOURCES) as EventKind[]), META_STORE];
+  const tx = db.transaction(stores, 'readwrite');
+  stores.forEach((name) => tx.objectStore(name).clear());
+  await transactionDone(tx);
+}
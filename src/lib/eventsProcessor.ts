@@ -1,4 +1,5 @@
 import { ModifyLiquidityEvent, SwapEvent, Pool, LiquidityDataPoint, Token } from '@/types';
+import { createProgressReporter, ProgressCallback } from './progressReporter';
 
 /**
  * 流動性イベントを処理してデータポイントマップを生成する関数
@@ -7,19 +8,19 @@ import { ModifyLiquidityEvent, SwapEvent, Pool, LiquidityDataPoint, Token } from
  * @param liquidityEvents 流動性変更イベントの配列
  * @param swapEvents スワップイベントの配列
  * @param poolData プールデータ
+ * @param startTimestamp 集計の開始タイムスタンプ（省略時は90日前）
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
  * @returns 日付ごとのデータポイントマップ
  */
 export function processEventsIntoMap(
   liquidityEvents: ModifyLiquidityEvent[],
   swapEvents: SwapEvent[],
   poolData: Pool,
+  startTimestamp: number = Math.floor(Date.now() / 1000) - 90 * 24 * 60 * 60,
+  progressCallback?: ProgressCallback,
 ): Map<string, LiquidityDataPoint> {
   const dateMap = new Map<string, LiquidityDataPoint>();
 
-  // 90日前の開始タイムスタンプを計算
-  const now = Math.floor(Date.now() / 1000);
-  const startTimestamp = now - 90 * 24 * 60 * 60;
-
   // 時間範囲内の関連するイベントをフィルタリング
   const relevantLiquidityEvents = liquidityEvents
     .filter((event) => Number(event.timestamp) >= startTimestamp)
@@ -62,8 +63,17 @@ export function processEventsIntoMap(
     sqrtPrice: currentSqrtPrice,
   });
 
+  const reportProgress = createProgressReporter(
+    relevantLiquidityEvents.length + relevantSwapEvents.length,
+    progressCallback,
+    'イベントを処理中',
+  );
+  let processed = 0;
+
   // 期間内の流動性イベントをすべて処理
   for (const event of relevantLiquidityEvents) {
+    reportProgress(++processed);
+
     // liquidityDeltaがある場合のみ処理（GraphQLスキーマに合わせて確認）
     if (event.liquidityDelta) {
       // liquidityDeltaの値が正か負かで流動性の追加/削除を判断
@@ -122,6 +132,7 @@ export function processEventsIntoMap(
 
   // スワップイベントからティックと価格の最新情報を更新
   for (const swap of relevantSwapEvents) {
+    reportProgress(++processed);
     const timestamp = Number(swap.timestamp);
     const date = new Date(timestamp * 1000);
     const dateKey = getDateKey(date);
@@ -1,4 +1,6 @@
 import { SwapEvent } from '@/types';
+import { createProgressReporter, ProgressCallback } from './progressReporter';
+import { getSwapFeeRate, getSwapFeeRates } from './dynamicFees';
 
 /**
  * 日別の手数料データを表す型定義
@@ -19,20 +21,28 @@ export interface DailyFeeData {
  * GraphQLスキーマのBigDecimal、BigIntに対応
  *
  * @param swapEvents スワップイベントの配列
- * @param feeTier プールの手数料率 (例: 3000 = 0.3%)
+ * @param feeTier プールの手数料率 (例: 3000 = 0.3%、動的手数料の場合はスワップごとに推定)
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
  * @returns 日別の手数料データの配列
  */
-export function calculateDailyFees(swapEvents: SwapEvent[] | undefined, feeTier: string): DailyFeeData[] {
+export function calculateDailyFees(
+  swapEvents: SwapEvent[] | undefined,
+  feeTier: string,
+  progressCallback?: ProgressCallback,
+): DailyFeeData[] {
   if (!swapEvents || swapEvents.length === 0) return [];
 
   // 手数料レート計算 (例: 3000 -> 0.003 -> 0.3%)
-  // GraphQLスキーマのBigIntからNumberに変換
-  const feeRate = Number(feeTier) / 1000000;
+  // 動的手数料のプールはスワップ前後の価格と量から推定
+  const feeRates = getSwapFeeRates(swapEvents, feeTier);
 
   // 日付ごとのマップを作成
   const dailyFeesMap = new Map<string, DailyFeeData>();
+  const reportProgress = createProgressReporter(swapEvents.length, progressCallback, '手数料を集計中');
+
+  swapEvents.forEach((swap, index) => {
+    reportProgress(index + 1);
 
-  swapEvents.forEach((swap) => {
     // timestampをNumberに変換（GraphQLのBigIntから）
     const timestamp = Number(swap.timestamp || 0);
     if (timestamp === 0) return; // 無効なタイムスタンプをスキップ
@@ -47,7 +57,7 @@ export function calculateDailyFees(swapEvents: SwapEvent[] | undefined, feeTier:
     if (swapAmountUSD === 0) return; // 無効な金額をスキップ
 
     // スワップ額からその日の手数料を計算
-    const feeAmount = swapAmountUSD * feeRate;
+    const feeAmount = swapAmountUSD * getSwapFeeRate(feeRates, swap);
 
     if (dailyFeesMap.has(dateKey)) {
       const dayData = dailyFeesMap.get(dateKey)!;
@@ -76,12 +86,12 @@ export function calculateDailyFees(swapEvents: SwapEvent[] | undefined, feeTier:
  * 複数のAPIコールの結果を統合して手数料を計算
  *
  * @param swapEventsBatches スワップイベントの複数のバッチ (ページネーション結果)
- * @param feeTier プールの手数料率
+ * @param feeTier プールの手数料率（動的手数料の場合はスワップごとに推定）
  * @returns 日別の手数料データの配列
  */
 export function calculateDailyFeesFromBatches(swapEventsBatches: SwapEvent[][], feeTier: string): DailyFeeData[] {
-  // 手数料レート計算
-  const feeRate = Number(feeTier) / 1000000;
+  // 手数料レート計算（動的手数料の推定にはすべてのバッチのスワップを使う）
+  const feeRates = getSwapFeeRates(swapEventsBatches.flat(), feeTier);
 
   // 日付ごとのマップを作成
   const dailyFeesMap = new Map<string, DailyFeeData>();
@@ -103,7 +113,7 @@ export function calculateDailyFeesFromBatches(swapEventsBatches: SwapEvent[][],
       if (swapAmountUSD === 0) return; // 無効な金額をスキップ
 
       // スワップ額からその日の手数料を計算
-      const feeAmount = swapAmountUSD * feeRate;
+      const feeAmount = swapAmountUSD * getSwapFeeRate(feeRates, swap);
 
       if (dailyFeesMap.has(dateKey)) {
         const dayData = dailyFeesMap.get(dateKey)!;
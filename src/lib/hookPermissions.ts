@@ -0,0 +1,154 @@
+/**
+ * Uniswap v4のHookアドレスから、有効なコールバック（パーミッション）を復元する
+ *
+ * v4ではHookが呼び出されるコールバックはHookアドレスの下位14ビットで決まる（Hooks.solのフラグ定義）。
+ * PoolManagerはアドレスのビットだけを見てコールバックを呼ぶため、コントラクトを読まずに判定できる。
+ */
+
+export type HookPermissionKey =
+  | 'beforeInitialize'
+  | 'afterInitialize'
+  | 'beforeAddLiquidity'
+  | 'afterAddLiquidity'
+  | 'beforeRemoveLiquidity'
+  | 'afterRemoveLiquidity'
+  | 'beforeSwap'
+  | 'afterSwap'
+  | 'beforeDonate'
+  | 'afterDonate'
+  | 'beforeSwapReturnsDelta'
+  | 'afterSwapReturnsDelta'
+  | 'afterAddLiquidityReturnsDelta'
+  | 'afterRemoveLiquidityReturnsDelta';
+
+/**
+ * パーミッションのリスクの目安
+ * - high: 利用者が支払う・受け取る量をHookが変更できる（デルタを返す）
+ * - medium: スワップや流動性の引き出しをHookが止めたり、手数料を変更したりできる
+ * - low: 通知のみで影響が限られる
+ */
+export type HookRiskLevel = 'high' | 'medium' | 'low';
+
+export interface HookPermission {
+  key: HookPermissionKey;
+  /** Hookアドレスのビット */
+  flag: number;
+  /** 説明 */
+  description: string;
+  risk: HookRiskLevel;
+}
+
+// Hooks.solと同じ順（上位ビットから）
+export const HOOK_PERMISSIONS: HookPermission[] = [
+  { key: 'beforeInitialize', flag: 1 << 13, description: 'プールの初期化前に呼ばれる', risk: 'low' },
+  { key: 'afterInitialize', flag: 1 << 12, description: 'プールの初期化後に呼ばれる', risk: 'low' },
+  { key: 'beforeAddLiquidity', flag: 1 << 11, description: '流動性の追加前に呼ばれる', risk: 'low' },
+  { key: 'afterAddLiquidity', flag: 1 << 10, description: '流動性の追加後に呼ばれる', risk: 'low' },
+  {
+    key: 'beforeRemoveLiquidity',
+    flag: 1 << 9,
+    description: '流動性の削除前に呼ばれる（引き出しを止められる）',
+    risk: 'medium',
+  },
+  {
+    key: 'afterRemoveLiquidity',
+    flag: 1 << 8,
+    description: '流動性の削除後に呼ばれる（引き出しを止められる）',
+    risk: 'medium',
+  },
+  {
+    key: 'beforeSwap',
+    flag: 1 << 7,
+    description: 'スワップ前に呼ばれる（スワップを止めたり、動的手数料を変更したりできる）',
+    risk: 'medium',
+  },
+  { key: 'afterSwap', flag: 1 << 6, description: 'スワップ後に呼ばれる（スワップを止められる）', risk: 'medium' },
+  { key: 'beforeDonate', flag: 1 << 5, description: '寄付の前に呼ばれる', risk: 'low' },
+  { key: 'afterDonate', flag: 1 << 4, description: '寄付の後に呼ばれる', risk: 'low' },
+  {
+    key: 'beforeSwapReturnsDelta',
+    flag: 1 << 3,
+    description: 'スワップの前に量を差し替えられる（独自の価格計算でプールを迂回できる）',
+    risk: 'high',
+  },
+  {
+    key: 'afterSwapReturnsDelta',
+    flag: 1 << 2,
+    description: 'スワップで受け取る量を変更できる',
+    risk: 'high',
+  },
+  {
+    key: 'afterAddLiquidityReturnsDelta',
+    flag: 1 << 1,
+    description: '流動性の追加で支払う量を変更できる',
+    risk: 'high',
+  },
+  {
+    key: 'afterRemoveLiquidityReturnsDelta',
+    flag: 1 << 0,
+    description: '流動性の削除で受け取る量を変更できる',
+    risk: 'high',
+  },
+];
+
+// パーミッションを表すビットのマスク
+const ALL_HOOK_MASK = (1 << 14) - 1;
+
+const RISK_ORDER: Record<HookRiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Hookアドレスからアドレス部分を取り出す
+ * HookStats.idのように `chainId_address` 形式の場合も末尾のアドレスを使う
+ */
+function extractAddress(hookAddress: string | null | undefined): string | null {
+  const match = hookAddress?.match(/0x[0-9a-fA-F]{40}$/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Hookが設定されているか（ゼロアドレスでないか）を返す関数
+ *
+ * @param hookAddress Pool.hooks または HookStats.id
+ */
+export function hasHook(hookAddress: string | null | undefined): boolean {
+  const address = extractAddress(hookAddress);
+  return !!address && BigInt(address) !== BigInt(0);
+}
+
+/**
+ * Hookアドレスから有効なパーミッションの一覧を復元する関数
+ *
+ * @param hookAddress Pool.hooks または HookStats.id
+ * @returns 有効なパーミッション（Hookがない場合は空配列）
+ */
+export function decodeHookPermissions(hookAddress: string | null | undefined): HookPermission[] {
+  const address = extractAddress(hookAddress);
+  if (!address) return [];
+
+  const bits = parseInt(address.slice(-4), 16) & ALL_HOOK_MASK;
+  return HOOK_PERMISSIONS.filter((permission) => (bits & permission.flag) !== 0);
+}
+
+/**
+ * Hookが指定したパーミッションを持つかを返す関数
+ *
+ * @param hookAddress Pool.hooks または HookStats.id
+ * @param key パーミッション
+ */
+export function hasHookPermission(hookAddress: string | null | undefined, key: HookPermissionKey): boolean {
+  return decodeHookPermissions(hookAddress).some((permission) => permission.key === key);
+}
+
+/**
+ * パーミッションの中で最も高いリスクを返す関数
+ *
+ * @param permissions decodeHookPermissionsの結果
+ * @returns 最も高いリスク（パーミッションがない場合はnull）
+ */
+export function getHookRiskLevel(permissions: HookPermission[]): HookRiskLevel | null {
+  return permissions.reduce<HookRiskLevel | null>(
+    (highest, permission) =>
+      highest === null || RISK_ORDER[permission.risk] > RISK_ORDER[highest] ? permission.risk : highest,
+    null,
+  );
+}
@@ -0,0 +1,132 @@
+import { ApolloLink, Operation } from '@apollo/client';
+
+/**
+ * チェーンごとのEnvioインデクサーのエンドポイント管理と、クエリのルーティング
+ *
+ * NEXT_PUBLIC_ENVIO_ENDPOINTS にJSONで指定する:
+ *   {"1": "https://.../v1/graphql", "8453": {"url": "https://...", "headers": {"Authorization": "Bearer ..."}}}
+ * 指定されていないチェーンは既定のエンドポイント（NEXT_PUBLIC_ENVIO_API_URL）に送られる
+ * サーバーとブラウザで同じチェーンの一覧になるよう、このモジュールはNEXT_PUBLIC_の変数のみを読む
+ * （サーバー専用の ENVIO_ENDPOINTS は serverClient で読み込む）
+ */
+
+export interface IndexerEndpoint {
+  chainId: number;
+  /** GraphQL (HTTP) のURL */
+  url: string;
+  /** サブスクリプション用のURL（省略時はurlから生成） */
+  wsUrl?: string;
+  /** 認証などの追加ヘッダー */
+  headers?: Record<string, string>;
+}
+
+type EndpointConfig = string | Omit<IndexerEndpoint, 'chainId'>;
+
+// チェーンIDの接頭辞付きID（例: 1_0xabc...）
+const CHAIN_SCOPED_ID_PATTERN = /^(\d+)_(0x[0-9a-fA-F]+)$/;
+
+/**
+ * チェーンIDの接頭辞付きIDを分解する
+ * @param id エンティティID（例: 8453_0xabc...）
+ * @returns チェーンIDとアドレス（接頭辞が無い場合はchainIdがnull）
+ */
+export function parseChainScopedId(id: string): { chainId: number | null; address: string } {
+  const match = CHAIN_SCOPED_ID_PATTERN.exec(id);
+  if (!match) return { chainId: null, address: id };
+  return { chainId: Number(match[1]), address: match[2] };
+}
+
+/**
+ * エンドポイントの設定（JSON）を解析する
+ * @param raw ENVIO_ENDPOINTS / NEXT_PUBLIC_ENVIO_ENDPOINTS の値
+ */
+export function parseEndpoints(raw: string | undefined): Map<number, IndexerEndpoint> {
+  const endpoints = new Map<number, IndexerEndpoint>();
+  if (!raw) return endpoints;
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, EndpointConfig>;
+    Object.entries(parsed).forEach(([chainId, config]) => {
+      const endpoint = typeof config === 'string' ? { url: config } : config;
+      if (!endpoint.url) throw new Error(`チェーン ${chainId} のurlが指定されていません`);
+      endpoints.set(Number(chainId), { ...endpoint, chainId: Number(chainId) });
+    });
+  } catch (error) {
+    console.error('ENVIO_ENDPOINTSの解析エラー:', error);
+  }
+  return endpoints;
+}
+
+const endpointRegistry = parseEndpoints(process.env.NEXT_PUBLIC_ENVIO_ENDPOINTS);
+
+/**
+ * 専用のエンドポイントが設定されているチェーンIDの一覧
+ * 空の場合は既定のエンドポイント1つだけで動作している
+ */
+export function getConfiguredChainIds(): number[] {
+  return Array.from(endpointRegistry.keys());
+}
+
+/**
+ * チェーンの専用エンドポイントを取得する
+ * @returns 設定されていない場合はundefined（既定のエンドポイントを使う）
+ */
+export function getIndexerEndpoint(chainId: number | null | undefined): IndexerEndpoint | undefined {
+  if (chainId === null || chainId === undefined) return undefined;
+  return endpointRegistry.get(Number(chainId));
+}
+
+// 変数の中からチェーンIDの接頭辞付きIDを探す（where条件の中も含む）
+function findChainIdInValue(value: unknown, depth = 0): number | null {
+  if (depth > 5 || value === null || value === undefined) return null;
+  if (typeof value === 'string') return parseChainScopedId(value).chainId;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const chainId = findChainIdInValue(item, depth + 1);
+      if (chainId !== null) return chainId;
+    }
+    return null;
+  }
+  if (typeof value === 'object') {
+    for (const item of Object.values(value as Record<string, unknown>)) {
+      const chainId = findChainIdInValue(item, depth + 1);
+      if (chainId !== null) return chainId;
+    }
+  }
+  return null;
+}
+
+/**
+ * オペレーションの送信先チェーンを決める
+ * 優先順位: context.chainId → variables.chainId → 変数に含まれるプール・トークンなどのIDの接頭辞
+ */
+export function resolveOperationChainId(operation: Operation): number | null {
+  const contextChainId = operation.getContext().chainId;
+  if (contextChainId !== undefined && contextChainId !== null) return Number(contextChainId);
+
+  const { chainId, ...rest } = operation.variables || {};
+  if (chainId !== undefined && chainId !== null && /^\d+$/.test(String(chainId))) return Number(chainId);
+
+  return findChainIdInValue(rest);
+}
+
+/**
+ * チェーンごとのエンドポイントにクエリを振り分けるリンクを作る
+ * HttpLinkの前に置くと、context.uri と context.headers を設定する
+ */
+export function createChainRoutingLink(endpoints: Map<number, IndexerEndpoint>): ApolloLink {
+  return new ApolloLink((operation, forward) => {
+    const chainId = resolveOperationChainId(operation);
+    const endpoint = chainId === null ? undefined : endpoints.get(chainId);
+    if (endpoint) {
+      operation.setContext(({ headers = {} }: { headers?: Record<string, string> }) => ({
+        uri: endpoint.url,
+        headers: { ...headers, ...endpoint.headers },
+      }));
+    }
+    return forward(operation);
+  });
+}
+
+// ブラウザとサーバーのApolloClientで共通のリンク（NEXT_PUBLIC_ENVIO_ENDPOINTS のみ）
+export const chainRoutingLink = createChainRoutingLink(endpointRegistry);
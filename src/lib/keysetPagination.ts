@@ -0,0 +1,237 @@
+import { ApolloClient, DocumentNode } from '@apollo/client';
+import { GET_LIQUIDITY_POSITIONS_PAGE, GET_MODIFY_LIQUIDITY_EVENTS_PAGE, GET_SWAP_EVENTS_PAGE } from './queries';
+import { LiquidityPosition, ModifyLiquidityEvent, SwapEvent } from '../types';
+
+/**
+ * キーセットページネーションのカーソル
+ * cursorFieldsと同じ順序で、最後に取得した行の値を保持する
+ */
+export type KeysetCursor = string[];
+
+/**
+ * キーセットで走査するエンティティの定義
+ */
+export interface KeysetSource<T> {
+  /** $where: <Entity>_bool_exp と $first: Int を受け取るクエリ */
+  query: DocumentNode;
+  /** レスポンスのルートフィールド名 */
+  field: string;
+  /** 並び順とカーソルに使うフィールド（最後は一意なidであること） */
+  cursorFields: (keyof T & string)[];
+}
+
+export const SWAP_KEYSET_SOURCE: KeysetSource<SwapEvent> = {
+  query: GET_SWAP_EVENTS_PAGE,
+  field: 'Swap',
+  cursorFields: ['timestamp', 'logIndex', 'id'],
+};
+
+export const MODIFY_LIQUIDITY_KEYSET_SOURCE: KeysetSource<ModifyLiquidityEvent> = {
+  query: GET_MODIFY_LIQUIDITY_EVENTS_PAGE,
+  field: 'ModifyLiquidity',
+  cursorFields: ['timestamp', 'logIndex', 'id'],
+};
+
+export const LIQUIDITY_POSITION_KEYSET_SOURCE: KeysetSource<LiquidityPosition> = {
+  query: GET_LIQUIDITY_POSITIONS_PAGE,
+  field: 'LiquidityPosition',
+  cursorFields: ['createdAtTimestamp', 'id'],
+};
+
+export interface KeysetFetchOptions<T> {
+  /** 1回あたりの取得数（デフォルト: 1000） */
+  batchSize?: number;
+  /** 最大バッチ数（デフォルト: 100） */
+  maxBatches?: number;
+  /** このカーソルより後の行から取得を再開する */
+  after?: KeysetCursor | null;
+  /** 進捗報告用コールバック関数 */
+  progressCallback?: (percent: number, message: string) => void;
+  /** バッチごとに呼ばれるコールバック（逐次保存などに使用） */
+  onBatch?: (rows: T[], cursor: KeysetCursor) => void | Promise<void>;
+  /** falseの場合は取得した行を結果に残さない（onBatchで間引く場合など、デフォルト: true） */
+  keepRows?: boolean;
+}
+
+export interface KeysetFetchResult<T> {
+  /** 取得したすべての行（カーソル順） */
+  rows: T[];
+  /** 最後に取得した行のカーソル（1件も無い場合は開始時のカーソル） */
+  cursor: KeysetCursor | null;
+  /** 最後まで取得できた場合はtrue（maxBatchesで打ち切った場合はfalse） */
+  complete: boolean;
+}
+
+/**
+ * 行からカーソル値を取り出す
+ * @param row 取得した行
+ * @param cursorFields カーソルに使うフィールド
+ */
+export function getKeysetCursor<T>(row: T, cursorFields: (keyof T & string)[]): KeysetCursor {
+  return cursorFields.map((field) => {
+    const value = row[field];
+    if (value === undefined || value === null) {
+      throw new Error(`カーソルフィールド ${field} が取得結果に含まれていません`);
+    }
+    return String(value);
+  });
+}
+
+/**
+ * 複合カーソルより後ろの行だけを返すHasuraのwhere条件を生成する
+ * (a, b, c) > (x, y, z) を
+ *   a > x OR (a = x AND b > y) OR (a = x AND b = y AND c > z)
+ * に展開する
+ *
+ * @param cursorFields カーソルに使うフィールド
+ * @param cursor 直前のバッチの最後の行のカーソル
+ */
+export function buildKeysetWhere(cursorFields: string[], cursor: KeysetCursor): Record<string, unknown> {
+  const branches = cursorFields.map((field, index) => {
+    const branch: Record<string, unknown> = {};
+    for (let i = 0; i < index; i++) {
+      branch[cursorFields[i]] = { _eq: cursor[i] };
+    }
+    branch[field] = { _gt: cursor[index] };
+    return branch;
+  });
+
+  return { _or: branches };
+}
+
+/**
+ * 複合カーソル同士を比較する（数値文字列は数値として比較）
+ * @returns a < b なら負、a = b なら0、a > b なら正
+ */
+export function compareKeysetCursors(a: KeysetCursor, b: KeysetCursor): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    const isNumeric = /^-?\d+$/.test(a[i]) && /^-?\d+$/.test(b[i]);
+    if (isNumeric) {
+      return BigInt(a[i]) < BigInt(b[i]) ? -1 : 1;
+    }
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * キーセット（複合カーソル）でエンティティを最後まで走査する汎用フェッチャー
+ * timestampだけで次のバッチを決める方法と違い、同じ秒に複数のイベントがあっても
+ * バッチ境界で欠落や重複が発生しない
+ *
+ * @param client ApolloClientインスタンス
+ * @param source 走査するエンティティの定義
+ * @param where 基本のフィルタ条件（pool、期間など）
+ * @param options 取得オプション
+ * @returns 取得した行と最終カーソル
+ */
+export async function fetchAllByKeyset<T>(
+  client: ApolloClient<any>,
+  source: KeysetSource<T>,
+  where: Record<string, unknown>,
+  options: KeysetFetchOptions<T> = {},
+): Promise<KeysetFetchResult<T>> {
+  const { batchSize = 1000, maxBatches = 100, after = null, progressCallback, onBatch, keepRows = true } = options;
+
+  const rows: T[] = [];
+  let cursor: KeysetCursor | null = after;
+  let batchCount = 0;
+  let fetchedCount = 0;
+  let complete = false;
+
+  progressCallback?.(0, 'データ取得を開始します');
+
+  while (batchCount < maxBatches) {
+    progressCallback?.(
+      Math.min(90, (batchCount / maxBatches) * 100),
+      `データバッチ ${batchCount + 1}/${maxBatches} を処理中...`,
+    );
+
+    const batchWhere = cursor ? { _and: [where, buildKeysetWhere(source.cursorFields, cursor)] } : where;
+
+    const result = await client.query({
+      query: source.query,
+      variables: { where: batchWhere, first: batchSize },
+      fetchPolicy: 'no-cache', // 大量の行をキャッシュに載せない
+    });
+
+    const batch: T[] = result.data?.[source.field] || [];
+    batchCount++;
+
+    if (batch.length === 0) {
+      complete = true;
+      break;
+    }
+
+    const nextCursor = getKeysetCursor(batch[batch.length - 1], source.cursorFields);
+
+    // カーソルが進まない場合は並び順が壊れているので無限ループを防ぐ
+    if (cursor && compareKeysetCursors(nextCursor, cursor) <= 0) {
+      throw new Error(`${source.field}のカーソルが前進しませんでした: ${nextCursor.join(', ')}`);
+    }
+
+    if (keepRows) rows.push(...batch);
+    fetchedCount += batch.length;
+    cursor = nextCursor;
+    await onBatch?.(batch, nextCursor);
+
+    console.log(`${source.field}: ${batch.length}件を取得（合計${fetchedCount}件）`);
+
+    // 取得件数がバッチサイズ未満ならこれ以上データは無い
+    if (batch.length < batchSize) {
+      complete = true;
+      break;
+    }
+
+    // API制限を考慮して少し待機
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  progressCallback?.(100, `取得完了: ${fetchedCount}件のデータ`);
+  return { rows, cursor, complete };
+}
+
+/**
+ * maxBatchesで打ち切られた場合に、最後のカーソルから続けて取得する関数
+ * maxRounds回取得しても終わらない場合は、そこまでの行をcomplete: falseで返す
+ *
+ * @param client ApolloClientインスタンス
+ * @param source 走査するエンティティの定義
+ * @param where 基本のフィルタ条件
+ * @param options 取得オプション（maxBatchesは1回あたり）
+ * @param maxRounds 続けて取得する最大回数（デフォルト: 10 = 最大100万件）
+ * @returns 取得した行と最終カーソル
+ */
+export async function fetchAllByKeysetInRounds<T>(
+  client: ApolloClient<any>,
+  source: KeysetSource<T>,
+  where: Record<string, unknown>,
+  options: KeysetFetchOptions<T> = {},
+  maxRounds = 10,
+): Promise<KeysetFetchResult<T>> {
+  const { progressCallback } = options;
+  const rows: T[] = [];
+  let cursor = options.after ?? null;
+
+  for (let round = 0; round < maxRounds; round++) {
+    // 回ごとに0%から始まらないよう、全体（maxRounds回分）に対する割合で報告する
+    const roundProgress =
+      progressCallback &&
+      ((percent: number, message: string) =>
+        progressCallback(((round + percent / 100) / maxRounds) * 100, `${round + 1}回目: ${message}`));
+    const result = await fetchAllByKeyset(client, source, where, {
+      ...options,
+      after: cursor,
+      progressCallback: roundProgress,
+    });
+    rows.push(...result.rows);
+    cursor = result.cursor;
+    if (result.complete) {
+      progressCallback?.(100, '取得完了');
+      return { rows, cursor, complete: true };
+    }
+  }
+
+  return { rows, cursor, complete: false };
+}
@@ -0,0 +1,123 @@
+import { ApolloClient } from '@apollo/client';
+import {
+  fetchAllByKeyset,
+  fetchAllByKeysetInRounds,
+  KeysetFetchOptions,
+  LIQUIDITY_POSITION_KEYSET_SOURCE,
+  MODIFY_LIQUIDITY_KEYSET_SOURCE,
+} from './keysetPagination';
+import { LiquidityPosition, ModifyLiquidityEvent } from '../types';
+
+/**
+ * 指定した期間のすべての流動性変更イベントを取得する関数
+ * (timestamp, logIndex, id) のキーセットページネーションで欠落なく取得する
+ *
+ * @param client ApolloClientインスタンス
+ * @param poolId プールID
+ * @param startTime 開始タイムスタンプ（0で全期間）
+ * @param options 取得オプション
+ * @returns Promise<ModifyLiquidityEvent[]> すべての流動性変更イベント
+ */
+export async function fetchAllModifyLiquidityEvents(
+  client: ApolloClient<any>,
+  poolId: string,
+  startTime = 0,
+  options: KeysetFetchOptions<ModifyLiquidityEvent> = {},
+): Promise<ModifyLiquidityEvent[]> {
+  const { rows } = await fetchAllByKeyset(
+    client,
+    MODIFY_LIQUIDITY_KEYSET_SOURCE,
+    { pool: { _eq: poolId }, timestamp: { _gte: startTime } },
+    options,
+  );
+  return rows;
+}
+
+/**
+ * 指定した時点以降の流動性変更イベントを取得する関数（Tick分布の復元ではプール作成以降）
+ * maxBatchesで打ち切られた場合は最後のカーソルから続けて取得し、maxRounds回で止める
+ *
+ * @param client ApolloClientインスタンス
+ * @param poolId プールID
+ * @param startTime 開始タイムスタンプ（0でプール作成以降）
+ * @param options 取得オプション
+ * @param maxRounds 続けて取得する最大回数（デフォルト: 10 = 最大100万件）
+ * @returns 古い順の流動性変更イベントと、最後まで取得できたかどうか
+ */
+export async function fetchModifyLiquidityHistory(
+  client: ApolloClient<any>,
+  poolId: string,
+  startTime = 0,
+  options: KeysetFetchOptions<ModifyLiquidityEvent> = {},
+  maxRounds = 10,
+): Promise<{ events: ModifyLiquidityEvent[]; complete: boolean }> {
+  const { rows, complete } = await fetchAllByKeysetInRounds(
+    client,
+    MODIFY_LIQUIDITY_KEYSET_SOURCE,
+    { pool: { _eq: poolId }, timestamp: { _gte: startTime } },
+    options,
+    maxRounds,
+  );
+  return { events: rows, complete };
+}
+
+/**
+ * プールのすべての流動性ポジションを取得する関数
+ * GET_ACTIVE_POOL_LIQUIDITY_POSITIONSの100件制限を受けずに全件を取得する
+ *
+ * @param client ApolloClientインスタンス
+ * @param poolId プールID
+ * @param activeOnly trueの場合は流動性が0より大きいポジションのみ
+ * @param options 取得オプション
+ * @returns Promise<LiquidityPosition[]> すべての流動性ポジション
+ */
+export async function fetchAllLiquidityPositions(
+  client: ApolloClient<any>,
+  poolId: string,
+  activeOnly = true,
+  options: KeysetFetchOptions<LiquidityPosition> = {},
+): Promise<LiquidityPosition[]> {
+  const where: Record<string, unknown> = { pool: { _eq: poolId } };
+  if (activeOnly) where.liquidity = { _gt: '0' };
+
+  const { rows } = await fetchAllByKeyset(client, LIQUIDITY_POSITION_KEYSET_SOURCE, where, options);
+  return rows;
+}
+
+/**
+ * アドレスが送信した流動性変更イベントを絞り込むwhere条件
+ * v4ではPoolManagerを呼んだコントラクトがsenderになるため、トランザクションの送信者（origin）も対象にする
+ *
+ * @param owner アドレス（小文字）
+ */
+export function ownerModifyLiquidityWhere(owner: string): Record<string, unknown> {
+  return { _or: [{ sender: { _eq: owner } }, { origin: { _eq: owner } }] };
+}
+
+/**
+ * ポジションに対する流動性変更イベントをすべて取得する関数
+ * ModifyLiquidityにはポジションIDが無いため、所有者（sender / origin）・プール・Tick範囲が一致するイベントを集める
+ *
+ * @param client ApolloClientインスタンス
+ * @param position 流動性ポジション
+ * @param options 取得オプション
+ * @returns Promise<ModifyLiquidityEvent[]> 古い順の流動性変更イベント
+ */
+export async function fetchPositionModifyLiquidityEvents(
+  client: ApolloClient<any>,
+  position: LiquidityPosition,
+  options: KeysetFetchOptions<ModifyLiquidityEvent> = {},
+): Promise<ModifyLiquidityEvent[]> {
+  const { rows } = await fetchAllByKeyset(
+    client,
+    MODIFY_LIQUIDITY_KEYSET_SOURCE,
+    {
+      ...ownerModifyLiquidityWhere(position.owner.toLowerCase()),
+      pool: { _eq: position.pool },
+      tickLower: { _eq: position.tickLower },
+      tickUpper: { _eq: position.tickUpper },
+    },
+    options,
+  );
+  return rows;
+}
@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import { calculateDailyFees, DailyFeeData } from './feesProcessor';
 import { processEventsIntoMap } from './eventsProcessor';
+import { ProgressCallback } from './progressReporter';
 import { ModifyLiquidityEvent, SwapEvent, Pool, ExtendedChartDataPoint, LiquidityDataPoint } from '@/types';
 
 /**
@@ -21,32 +22,62 @@ export function useLiquidityHistory(
 ): ExtendedChartDataPoint[] {
   return useMemo(() => {
     if (!liquidityEvents || !swapEvents || !poolData) return [];
-
-    // 時系列順にイベントをソート
-    const sortedLiquidityEvents = [...liquidityEvents].sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
-
-    // 時系列順にスワップイベントをソート
-    const sortedSwapEvents = [...swapEvents].sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
-
-    // GraphQLスキーマに合わせた流動性イベント処理
-    const dateMap = processEventsIntoMap(sortedLiquidityEvents, sortedSwapEvents, poolData);
-
-    // 日付でソートした配列に変換
-    const sortedDataPoints = Array.from(dateMap.values()).sort((a, b) => a.timestamp - b.timestamp);
-
-    // 日別の手数料データを計算
-    const dailyFees = calculateDailyFees(sortedSwapEvents, poolData.feeTier);
-
-    // 日別のデータポイントを結合
-    const dailyDataPoints = combineDataWithFees(sortedDataPoints, dailyFees);
-
-    // 日付が抜けている場合は補完する
-    const completeDataPoints = fillMissingDates(dailyDataPoints);
-
-    return completeDataPoints;
+    return buildLiquidityHistory(liquidityEvents, swapEvents, poolData);
   }, [liquidityEvents, swapEvents, poolData, timeRange]);
 }
 
+/**
+ * 流動性イベントとスワップイベントから日別の流動性・手数料データを構築する関数
+ * Reactに依存しないため、APIルートなどサーバー側からも利用できる
+ *
+ * @param liquidityEvents 流動性変更イベントの配列
+ * @param swapEvents スワップイベントの配列
+ * @param poolData プールデータ
+ * @param startTimestamp 集計の開始タイムスタンプ（省略時は90日前）
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
+ * @returns 集約されたチャートデータの配列
+ */
+export function buildLiquidityHistory(
+  liquidityEvents: ModifyLiquidityEvent[],
+  swapEvents: SwapEvent[],
+  poolData: Pool,
+  startTimestamp?: number,
+  progressCallback?: ProgressCallback,
+): ExtendedChartDataPoint[] {
+  // 時系列順にイベントをソート
+  const sortedLiquidityEvents = [...liquidityEvents].sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+
+  // 時系列順にスワップイベントをソート
+  const sortedSwapEvents = [...swapEvents].sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+
+  // GraphQLスキーマに合わせた流動性イベント処理
+  // 進捗はイベント処理を0〜60%、手数料の集計を60〜90%に割り当てる
+  const dateMap = processEventsIntoMap(
+    sortedLiquidityEvents,
+    sortedSwapEvents,
+    poolData,
+    startTimestamp,
+    progressCallback && ((percent, message) => progressCallback(percent * 0.6, message)),
+  );
+
+  // 日付でソートした配列に変換
+  const sortedDataPoints = Array.from(dateMap.values()).sort((a, b) => a.timestamp - b.timestamp);
+
+  // 日別の手数料データを計算
+  const dailyFees = calculateDailyFees(
+    sortedSwapEvents,
+    poolData.feeTier,
+    progressCallback && ((percent, message) => progressCallback(60 + percent * 0.3, message)),
+  );
+  progressCallback?.(90, '日別データを結合中...');
+
+  // 日別のデータポイントを結合
+  const dailyDataPoints = combineDataWithFees(sortedDataPoints, dailyFees);
+
+  // 日付が抜けている場合は補完する
+  return fillMissingDates(dailyDataPoints);
+}
+
 /**
  * データポイントに手数料情報を結合する関数
  * @param dataPoints 元のデータポイント配列
@@ -1,12 +1,15 @@
-import { BigNumber } from 'ethers';
+import { formatUnits } from 'viem';
+import { BigDecimal } from '@/types/generated';
+import { TickMath } from '@/utils/liquidityMath/tickMath';
+import { getAmount0 as getRawAmount0, getAmount1 as getRawAmount1 } from '@/utils/liquidityMath/liquidityAmounts';
 
 // 数値型に変換済みのTickデータの型定義
 interface NormalizedTickData {
   tickIdx: number;
   liquidityNet: number;
   liquidityGross: number;
-  price0: number;
-  price1: number;
+  price0?: number;
+  price1?: number;
 }
 
 // 処理済みのTickデータの型定義
@@ -15,87 +18,195 @@ interface ProcessedTickData extends NormalizedTickData {
   liquidityDelta: number;
 }
 
-// Tick値から価格を計算
-export function tickToPrice(tick: number): number {
-  return Math.pow(1.0001, tick);
+const Q192 = BigInt(2) ** BigInt(192);
+
+// 有効なTickの範囲
+export const MIN_TICK = Number(TickMath.MIN_TICK);
+export const MAX_TICK = Number(TickMath.MAX_TICK);
+
+// bigintの平方根（切り捨て）
+function sqrtBigInt(value: bigint): bigint {
+  if (value < BigInt(2)) return value;
+  let x = value;
+  let y = (x + BigInt(1)) / BigInt(2);
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / BigInt(2);
+  }
+  return x;
+}
+
+// 価格（10進数）を分数に変換
+function toFraction(value: number | string): { numerator: bigint; denominator: bigint } {
+  const [whole, fraction = ''] = new BigDecimal(value).toString().split('.');
+  return { numerator: BigInt(`${whole}${fraction}`), denominator: BigInt(10) ** BigInt(fraction.length) };
+}
+
+// sqrtPriceX96から価格をBigDecimalで計算
+// invert=falseはtoken0 1単位あたりのtoken1の量、invert=trueはtoken1 1単位あたりのtoken0の量
+function sqrtPriceX96ToPriceDecimal(
+  sqrtPriceX96: bigint,
+  decimals0: number | string,
+  decimals1: number | string,
+  invert: boolean,
+): BigDecimal {
+  // 最小単位同士の価格にデシマルの差を掛けて、トークン単位の価格にする
+  const numerator = sqrtPriceX96 * sqrtPriceX96 * BigInt(10) ** BigInt(decimals0);
+  const denominator = Q192 * BigInt(10) ** BigInt(decimals1);
+  return invert
+    ? new BigDecimal(denominator).div(new BigDecimal(numerator))
+    : new BigDecimal(numerator).div(new BigDecimal(denominator));
+}
+
+// sqrtPriceX96から価格を計算（デシマルを指定するとトークン単位の価格）
+export function sqrtPriceX96ToPrice(
+  sqrtPriceX96: number | string | bigint,
+  decimals0: number | string = 0,
+  decimals1: number | string = 0,
+  invert = false,
+): number {
+  return sqrtPriceX96ToPriceDecimal(toBigInt(sqrtPriceX96), decimals0, decimals1, invert).toNumber();
 }
 
-// 価格からTick値を計算（最も近いTick値を見つける）
-export function priceToTick(price: number): number {
-  return Math.floor(Math.log(price) / Math.log(1.0001));
+// Tick値から価格を計算（TickMathによる厳密な計算、デシマルを指定するとトークン単位の価格）
+export function tickToPrice(
+  tick: number | string,
+  decimals0: number | string = 0,
+  decimals1: number | string = 0,
+  invert = false,
+): number {
+  return sqrtPriceX96ToPriceDecimal(getSqrtRatioAtTick(tick), decimals0, decimals1, invert).toNumber();
+}
+
+// 価格からsqrtPriceX96を計算（Tickの範囲内に収める）
+export function priceToSqrtPriceX96(
+  price: number | string,
+  decimals0: number | string = 0,
+  decimals1: number | string = 0,
+  invert = false,
+): bigint {
+  const { numerator, denominator } = toFraction(price);
+  if (numerator <= BigInt(0)) throw new Error(`価格は正の値である必要があります: ${price}`);
+
+  // 最小単位同士の価格（token0の最小単位あたりのtoken1の最小単位）
+  const scale0 = BigInt(10) ** BigInt(decimals0);
+  const scale1 = BigInt(10) ** BigInt(decimals1);
+  const [rawNumerator, rawDenominator] = invert
+    ? [denominator * scale1, numerator * scale0]
+    : [numerator * scale1, denominator * scale0];
+
+  const sqrtPriceX96 = sqrtBigInt((rawNumerator * Q192) / rawDenominator);
+  if (sqrtPriceX96 < TickMath.MIN_SQRT_RATIO) return TickMath.MIN_SQRT_RATIO;
+  if (sqrtPriceX96 >= TickMath.MAX_SQRT_RATIO) return TickMath.MAX_SQRT_RATIO - BigInt(1);
+  return sqrtPriceX96;
+}
+
+// sqrtPriceX96から、その価格を含むTick値を計算（getSqrtRatioAtTick(tick) <= sqrtPriceX96 となる最大のTick）
+export function getTickAtSqrtRatio(sqrtPriceX96: number | string | bigint): number {
+  return Number(TickMath.getTickAtSqrtRatio(toBigInt(sqrtPriceX96)));
+}
+
+// 価格から最も近いTick値を計算（tickToPriceの結果を渡すと元のTickに戻る）
+export function priceToTick(
+  price: number | string,
+  decimals0: number | string = 0,
+  decimals1: number | string = 0,
+  invert = false,
+): number {
+  const sqrtPriceX96 = priceToSqrtPriceX96(price, decimals0, decimals1, invert);
+  const tick = TickMath.getTickAtSqrtRatio(sqrtPriceX96);
+  if (tick >= TickMath.MAX_TICK) return Number(tick);
+
+  // 下のTickと上のTickのうち、sqrtPriceが近い方を選ぶ
+  const lowerDistance = sqrtPriceX96 - TickMath.getSqrtRatioAtTick(tick);
+  const upperDistance = TickMath.getSqrtRatioAtTick(tick + BigInt(1)) - sqrtPriceX96;
+  return Number(upperDistance < lowerDistance ? tick + BigInt(1) : tick);
 }
 
-// sqrt(1.0001^tick)の計算（Q64.96形式）
-export function getSqrtRatioAtTick(tick: number): BigNumber {
-  // 実際の実装では、より正確な計算方法を使用する必要がある
-  // これは簡略化されたバージョン
-  const price = Math.pow(1.0001, tick);
-  const sqrtPrice = Math.sqrt(price);
+// プールのtickSpacingで使用可能な最も近いTick値
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+  if (!Number.isInteger(tickSpacing) || tickSpacing <= 0) throw new Error(`無効なtickSpacingです: ${tickSpacing}`);
 
-  // Q64.96形式に変換
-  return BigNumber.from(Math.floor(sqrtPrice * 2 ** 96));
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing || 0; // -0を0にそろえる
+  if (rounded < MIN_TICK) return rounded + tickSpacing;
+  if (rounded > MAX_TICK) return rounded - tickSpacing;
+  return rounded;
 }
 
-// Tick範囲と流動性から計算したToken0の量
+// sqrt(1.0001^tick)の計算（Q64.96形式、TickMathによる厳密な計算）
+export function getSqrtRatioAtTick(tick: number | string): bigint {
+  return TickMath.getSqrtRatioAtTick(BigInt(tick));
+}
+
+// GraphQLのBigInt（文字列）や数値をbigintに変換
+function toBigInt(value: number | string | bigint): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return BigInt(Math.trunc(value));
+  const [integerPart] = value.trim().split('.');
+  return BigInt(integerPart || '0');
+}
+
+// ポジションが保有するトークン量（最小単位）
+export interface PositionTokenAmounts {
+  amount0: bigint;
+  amount1: bigint;
+}
+
+// Tick範囲・流動性・現在の価格からポジションが保有するトークン量を計算（最小単位）
+// 引き出した場合に受け取れる量と一致するよう切り捨てで計算する
+export function getPositionTokenAmounts(
+  tickLower: number | string,
+  tickUpper: number | string,
+  currentTick: number | string,
+  liquidity: number | string | bigint,
+  sqrtPriceX96: number | string | bigint,
+): PositionTokenAmounts {
+  const lower = BigInt(tickLower);
+  const upper = BigInt(tickUpper);
+  const current = BigInt(currentTick);
+  const liquidityBI = toBigInt(liquidity);
+  const sqrtPriceBI = toBigInt(sqrtPriceX96);
+
+  return {
+    amount0: getRawAmount0(lower, upper, current, liquidityBI, sqrtPriceBI, false),
+    amount1: getRawAmount1(lower, upper, current, liquidityBI, sqrtPriceBI, false),
+  };
+}
+
+// 最小単位のトークン量をデシマルを考慮して表示用の10進数文字列に変換（誤差なし）
+export function formatTokenUnits(amount: bigint, decimals: number | string): string {
+  return formatUnits(amount, Number(decimals));
+}
+
+// 最小単位のトークン量をデシマルを考慮して数値に変換（チャートなど表示用）
+export function toTokenAmount(amount: bigint, decimals: number | string): number {
+  return Number(formatTokenUnits(amount, decimals));
+}
+
+// Tick範囲と流動性から計算したToken0の量（decimalsを指定するとトークン単位、省略時は最小単位）
 export function getAmount0(
   tickLower: number | string,
   tickUpper: number | string,
   currentTick: number | string,
   liquidity: number | string,
   sqrtPriceX96: number | string,
+  decimals: number | string = 0,
 ): number {
-  const tickLowerNum = Number(tickLower);
-  const tickUpperNum = Number(tickUpper);
-  const currentTickNum = Number(currentTick);
-  const liquidityNum = Number(liquidity);
-
-  // tick範囲外の場合は0を返す
-  if (currentTickNum >= tickUpperNum) return 0;
-
-  if (currentTickNum < tickLowerNum) {
-    // 範囲下限以下の場合はToken0のみ
-    const sqrtRatioA = Math.sqrt(Math.pow(1.0001, tickLowerNum));
-    const sqrtRatioB = Math.sqrt(Math.pow(1.0001, tickUpperNum));
-
-    return liquidityNum * (1 / sqrtRatioA - 1 / sqrtRatioB);
-  } else {
-    // 範囲内の場合
-    const sqrtRatioA = Math.sqrt(Math.pow(1.0001, currentTickNum));
-    const sqrtRatioB = Math.sqrt(Math.pow(1.0001, tickUpperNum));
-
-    return liquidityNum * (1 / sqrtRatioA - 1 / sqrtRatioB);
-  }
+  const { amount0 } = getPositionTokenAmounts(tickLower, tickUpper, currentTick, liquidity, sqrtPriceX96);
+  return toTokenAmount(amount0, decimals);
 }
 
-// Tick範囲と流動性から計算したToken1の量
+// Tick範囲と流動性から計算したToken1の量（decimalsを指定するとトークン単位、省略時は最小単位）
 export function getAmount1(
   tickLower: number | string,
   tickUpper: number | string,
   currentTick: number | string,
   liquidity: number | string,
   sqrtPriceX96: number | string,
+  decimals: number | string = 0,
 ): number {
-  const tickLowerNum = Number(tickLower);
-  const tickUpperNum = Number(tickUpper);
-  const currentTickNum = Number(currentTick);
-  const liquidityNum = Number(liquidity);
-
-  // tick範囲外の場合は0を返す
-  if (currentTickNum <= tickLowerNum) return 0;
-
-  if (currentTickNum >= tickUpperNum) {
-    // 範囲上限以上の場合はToken1のみ
-    const sqrtRatioA = Math.sqrt(Math.pow(1.0001, tickLowerNum));
-    const sqrtRatioB = Math.sqrt(Math.pow(1.0001, tickUpperNum));
-
-    return liquidityNum * (sqrtRatioB - sqrtRatioA);
-  } else {
-    // 範囲内の場合
-    const sqrtRatioA = Math.sqrt(Math.pow(1.0001, tickLowerNum));
-    const sqrtRatioB = Math.sqrt(Math.pow(1.0001, currentTickNum));
-
-    return liquidityNum * (sqrtRatioB - sqrtRatioA);
-  }
+  const { amount1 } = getPositionTokenAmounts(tickLower, tickUpper, currentTick, liquidity, sqrtPriceX96);
+  return toTokenAmount(amount1, decimals);
 }
 
 // 流動性の厚さを計算
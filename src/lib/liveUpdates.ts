@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useSubscription } from '@apollo/client';
+import { client, isWebSocketSupported } from './apollo-client';
+import {
+  POLL_NEW_MODIFY_LIQUIDITY_EVENTS,
+  POLL_NEW_SWAPS,
+  POLL_POOL_STATE,
+  SUBSCRIBE_NEW_MODIFY_LIQUIDITY_EVENTS,
+  SUBSCRIBE_NEW_SWAPS,
+  SUBSCRIBE_POOL_STATE,
+} from './queries';
+import {
+  LivePoolState,
+  LivePoolStateQueryResult,
+  ModifyLiquidityEvent,
+  ModifyLiquidityEventsQueryResult,
+  SwapEvent,
+  SwapEventsQueryResult,
+} from '@/types';
+
+/** ライブ更新の方式 */
+export type LiveUpdateMode = 'websocket' | 'polling' | 'off';
+
+/** WebSocketが使えない場合のポーリング間隔（ミリ秒） */
+export const LIVE_POLL_INTERVAL_MS = 15000;
+
+export interface LivePoolUpdates {
+  /** ページを開いた後に発生したスワップ（新しい順） */
+  swaps: SwapEvent[];
+  /** ページを開いた後に発生した流動性変更イベント（新しい順） */
+  liquidityEvents: ModifyLiquidityEvent[];
+  /** プールの最新状態（まだ受信していない場合はnull） */
+  poolState: LivePoolState | null;
+  /** 現在の更新方式 */
+  mode: LiveUpdateMode;
+}
+
+type LiveEvent = { id: string; timestamp: string; logIndex?: string };
+
+/**
+ * イベントをidで重複排除して結合し、新しい順（timestamp, logIndex の降順）に並べる
+ *
+ * @param current 既存のイベント
+ * @param incoming 新たに受信したイベント
+ * @returns 結合したイベントの配列
+ */
+export function mergeEventsById<T extends LiveEvent>(current: T[], incoming: T[]): T[] {
+  const merged = new Map<string, T>();
+  current.forEach((event) => merged.set(event.id, event));
+  incoming.forEach((event) => merged.set(event.id, event));
+
+  return Array.from(merged.values()).sort(
+    (a, b) =>
+      Number(b.timestamp) - Number(a.timestamp) || Number(b.logIndex || 0) - Number(a.logIndex || 0),
+  );
+}
+
+/**
+ * プールの新しいスワップ・流動性変更イベントと現在のTickをリアルタイムに受信するカスタムフック
+ * Hasuraのサブスクリプション（WebSocket）を使用し、接続できない場合は自動的にポーリングに切り替える
+ *
+ * @param poolId プールID
+ * @param enabled falseの場合は受信しない
+ * @returns 受信したイベントとプールの状態
+ */
+export function useLivePoolUpdates(poolId: string | undefined, enabled = true): LivePoolUpdates {
+  const [mode, setMode] = useState<LiveUpdateMode>(isWebSocketSupported ? 'websocket' : 'polling');
+  const [swaps, setSwaps] = useState<SwapEvent[]>([]);
+  const [liquidityEvents, setLiquidityEvents] = useState<ModifyLiquidityEvent[]>([]);
+  const [poolState, setPoolState] = useState<LivePoolState | null>(null);
+
+  // 初期表示のデータに含まれる時点以降のイベントだけを受信する
+  const since = useMemo(() => Math.floor(Date.now() / 1000), [poolId]);
+
+  useEffect(() => {
+    setSwaps([]);
+    setLiquidityEvents([]);
+    setPoolState(null);
+  }, [poolId]);
+
+  const active = enabled && !!poolId;
+  const eventVariables = { poolId, since, first: 100 };
+  const subscribing = active && mode === 'websocket';
+  const polling = active && mode === 'polling';
+
+  const swapSubscription = useSubscription<SwapEventsQueryResult>(SUBSCRIBE_NEW_SWAPS, {
+    variables: eventVariables,
+    skip: !subscribing,
+    client,
+  });
+  const liquiditySubscription = useSubscription<ModifyLiquidityEventsQueryResult>(
+    SUBSCRIBE_NEW_MODIFY_LIQUIDITY_EVENTS,
+    { variables: eventVariables, skip: !subscribing, client },
+  );
+  const poolSubscription = useSubscription<LivePoolStateQueryResult>(SUBSCRIBE_POOL_STATE, {
+    variables: { poolId },
+    skip: !subscribing,
+    client,
+  });
+
+  const swapPoll = useQuery<SwapEventsQueryResult>(POLL_NEW_SWAPS, {
+    variables: eventVariables,
+    skip: !polling,
+    pollInterval: LIVE_POLL_INTERVAL_MS,
+    fetchPolicy: 'network-only',
+    client,
+  });
+  const liquidityPoll = useQuery<ModifyLiquidityEventsQueryResult>(POLL_NEW_MODIFY_LIQUIDITY_EVENTS, {
+    variables: eventVariables,
+    skip: !polling,
+    pollInterval: LIVE_POLL_INTERVAL_MS,
+    fetchPolicy: 'network-only',
+    client,
+  });
+  const poolPoll = useQuery<LivePoolStateQueryResult>(POLL_POOL_STATE, {
+    variables: { poolId },
+    skip: !polling,
+    pollInterval: LIVE_POLL_INTERVAL_MS,
+    fetchPolicy: 'network-only',
+    client,
+  });
+
+  // WebSocketでエラーが発生した場合（接続不可・サブスクリプション非対応など）はポーリングに切り替える
+  const subscriptionError = swapSubscription.error || liquiditySubscription.error || poolSubscription.error;
+  useEffect(() => {
+    if (mode === 'websocket' && subscriptionError) {
+      console.warn('サブスクリプションを利用できないため、ポーリングに切り替えます:', subscriptionError.message);
+      setMode('polling');
+    }
+  }, [mode, subscriptionError]);
+
+  const swapBatch = (subscribing ? swapSubscription.data : swapPoll.data)?.Swap;
+  const liquidityBatch = (subscribing ? liquiditySubscription.data : liquidityPoll.data)?.ModifyLiquidity;
+  const poolBatch = (subscribing ? poolSubscription.data : poolPoll.data)?.Pool_by_pk;
+
+  useEffect(() => {
+    if (swapBatch && swapBatch.length > 0) setSwaps((current) => mergeEventsById(current, swapBatch));
+  }, [swapBatch]);
+
+  useEffect(() => {
+    if (liquidityBatch && liquidityBatch.length > 0) {
+      setLiquidityEvents((current) => mergeEventsById(current, liquidityBatch));
+    }
+  }, [liquidityBatch]);
+
+  useEffect(() => {
+    if (poolBatch) setPoolState(poolBatch);
+  }, [poolBatch]);
+
+  return { swaps, liquidityEvents, poolState, mode: active ? mode : 'off' };
+}
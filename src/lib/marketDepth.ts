@@ -0,0 +1,179 @@
+import { TickMath } from '@/utils/liquidityMath/tickMath';
+import { formatTokenUnits, sqrtPriceX96ToPrice } from './liquidityMath';
+import { simulateSwap, SimulatorTick } from './swapSimulator';
+
+/**
+ * Tickの流動性分布から、価格を±x%動かすのに必要なトークン量（市場の厚さ）を計算する
+ * 価格はtoken0 1単位あたりのtoken1で、上方向（ask）はtoken1でtoken0を買う、下方向（bid）はtoken0を売る場合
+ */
+
+/** 深さを表示する価格変動幅（%） */
+export const DEPTH_BAND_PERCENTS = [0.5, 1, 2, 5];
+
+export interface DepthPoolState {
+  sqrtPriceX96: string | bigint;
+  tick: string | number;
+  liquidity: string | bigint;
+  feeTier: string | number;
+}
+
+/** USD換算に使うトークンの情報 */
+export interface DepthToken {
+  decimals: string | number;
+  /** 1トークンあたりのETH価格 */
+  derivedETH?: string;
+}
+
+/** 片側（上方向または下方向）の深さ */
+export interface DepthSide {
+  /** 価格を動かすのに必要な支払い量（手数料を含む、最小単位） */
+  amountIn: bigint;
+  /** プールから引き出される量（最小単位） */
+  amountOut: bigint;
+  /** 支払い量のUSD換算値 */
+  amountInUSD: number;
+}
+
+export interface DepthBand {
+  /** 価格変動幅（%） */
+  percent: number;
+  /** 価格を上げる方向（token1を支払いtoken0を受け取る） */
+  ask: DepthSide;
+  /** 価格を下げる方向（token0を支払いtoken1を受け取る） */
+  bid: DepthSide;
+}
+
+/** 累積の深さチャートの1点（下方向は負の変動率） */
+export interface DepthCurvePoint {
+  /** 現在価格からの変動率（%） */
+  percent: number;
+  /** 変動後の価格（token0 1単位あたりのtoken1、デシマル考慮済み） */
+  price: number;
+  askUSD: number | null;
+  bidUSD: number | null;
+}
+
+// 目標の価格まで到達させるための十分に大きい量（実際には価格の上限で止まる）
+const UNLIMITED_AMOUNT = BigInt(2) ** BigInt(200);
+
+// sqrtPriceの計算に使う固定小数点の桁数
+const RATIO_PRECISION = BigInt(10) ** BigInt(18);
+
+// 価格をpercent%動かした場合のsqrtPrice（価格の比率の平方根を掛ける）
+function getTargetSqrtPrice(sqrtPriceX96: bigint, percent: number): bigint {
+  const ratio = Math.sqrt(1 + percent / 100);
+  const target = (sqrtPriceX96 * BigInt(Math.round(ratio * 1e18))) / RATIO_PRECISION;
+
+  if (target <= TickMath.MIN_SQRT_RATIO) return TickMath.MIN_SQRT_RATIO + BigInt(1);
+  if (target >= TickMath.MAX_SQRT_RATIO) return TickMath.MAX_SQRT_RATIO - BigInt(1);
+  return target;
+}
+
+/**
+ * トークン量をUSDに換算する関数
+ *
+ * @param amount 最小単位のトークン量
+ * @param token トークンのデシマルとETH価格
+ * @param ethPriceUSD ETHのUSD価格
+ */
+export function tokenAmountToUSD(amount: bigint, token: DepthToken, ethPriceUSD: string | number): number {
+  const value = Number(formatTokenUnits(amount, token.decimals));
+  return value * Number(token.derivedETH || 0) * Number(ethPriceUSD || 0);
+}
+
+function computeDepthSide(
+  ticks: SimulatorTick[],
+  pool: DepthPoolState,
+  percent: number,
+  tokenIn: DepthToken,
+  ethPriceUSD: string | number,
+): DepthSide {
+  const zeroForOne = percent < 0;
+  const sqrtPriceX96 = BigInt(pool.sqrtPriceX96);
+  const sqrtPriceLimitX96 = getTargetSqrtPrice(sqrtPriceX96, percent);
+  const result = simulateSwap({
+    ticks,
+    sqrtPriceX96,
+    tick: pool.tick,
+    liquidity: pool.liquidity,
+    feePips: pool.feeTier,
+    zeroForOne,
+    amount: UNLIMITED_AMOUNT,
+    exactInput: true,
+    sqrtPriceLimitX96,
+  });
+
+  return {
+    amountIn: result.amountIn,
+    amountOut: result.amountOut,
+    amountInUSD: tokenAmountToUSD(result.amountIn, tokenIn, ethPriceUSD),
+  };
+}
+
+/**
+ * 価格を±percent%動かすのに必要なトークン量を計算する関数
+ *
+ * @param ticks Tickごとの正味の流動性
+ * @param pool プールの現在の状態
+ * @param token0 token0のデシマルとETH価格
+ * @param token1 token1のデシマルとETH価格
+ * @param ethPriceUSD ETHのUSD価格
+ * @param percents 価格変動幅（%）の一覧
+ * @returns 変動幅ごとの上方向・下方向の深さ
+ */
+export function computeDepthBands(
+  ticks: SimulatorTick[],
+  pool: DepthPoolState,
+  token0: DepthToken,
+  token1: DepthToken,
+  ethPriceUSD: string | number,
+  percents: number[] = DEPTH_BAND_PERCENTS,
+): DepthBand[] {
+  return percents.map((percent) => ({
+    percent,
+    ask: computeDepthSide(ticks, pool, percent, token1, ethPriceUSD),
+    bid: computeDepthSide(ticks, pool, -percent, token0, ethPriceUSD),
+  }));
+}
+
+/**
+ * 累積の深さチャート用のデータを作成する関数
+ *
+ * @param ticks Tickごとの正味の流動性
+ * @param pool プールの現在の状態
+ * @param token0 token0のデシマルとETH価格
+ * @param token1 token1のデシマルとETH価格
+ * @param ethPriceUSD ETHのUSD価格
+ * @param maxPercent チャートに表示する最大の変動率（%）
+ * @param steps 片側の点の数
+ * @returns 変動率の昇順に並べた点（下方向はbidUSD、上方向はaskUSDのみ値を持つ）
+ */
+export function buildDepthCurve(
+  ticks: SimulatorTick[],
+  pool: DepthPoolState,
+  token0: DepthToken,
+  token1: DepthToken,
+  ethPriceUSD: string | number,
+  maxPercent = 10,
+  steps = 40,
+): DepthCurvePoint[] {
+  const currentPrice = sqrtPriceX96ToPrice(pool.sqrtPriceX96, token0.decimals, token1.decimals);
+
+  const points: DepthCurvePoint[] = [{ percent: 0, price: currentPrice, askUSD: 0, bidUSD: 0 }];
+  for (let i = 1; i <= steps; i++) {
+    const percent = (maxPercent * i) / steps;
+    points.push({
+      percent,
+      price: currentPrice * (1 + percent / 100),
+      askUSD: computeDepthSide(ticks, pool, percent, token1, ethPriceUSD).amountInUSD,
+      bidUSD: null,
+    });
+    points.unshift({
+      percent: -percent,
+      price: currentPrice * (1 - percent / 100),
+      askUSD: null,
+      bidUSD: computeDepthSide(ticks, pool, -percent, token0, ethPriceUSD).amountInUSD,
+    });
+  }
+  return points;
+}
@@ -0,0 +1,494 @@
+import {
+  parse,
+  valueFromASTUntyped,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+} from 'graphql';
+
+/**
+ * Envio (Hasura) のGraphQL APIを記録済みフィクスチャで再現する実行エンジン
+ * src/lib/queries.ts で使用している where / order_by / limit / offset / _by_pk / _aggregate に対応する
+ */
+
+export type FixtureRow = Record<string, unknown>;
+export type FixtureTables = Record<string, FixtureRow[]>;
+
+/** エンティティごとのフィールド型（schema.graphqlから取得） */
+export type EntityTypes = Record<string, Record<string, string>>;
+
+export interface GraphQLRequestBody {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+export interface GraphQLResponseBody {
+  data?: Record<string, unknown> | null;
+  errors?: { message: string }[];
+}
+
+// 数値として比較するスカラー型
+const NUMERIC_SCALARS = new Set(['BigInt', 'BigDecimal', 'Int', 'Float', 'numeric']);
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * schema.graphqlからエンティティとフィールドの型を取り出す
+ * @param sdl schema.graphqlの内容
+ */
+export function parseEntityTypes(sdl: string): EntityTypes {
+  const types: EntityTypes = {};
+  const document = parse(sdl);
+
+  document.definitions.forEach((definition) => {
+    if (definition.kind !== Kind.OBJECT_TYPE_DEFINITION) return;
+    const fields: Record<string, string> = {};
+    definition.fields?.forEach((field) => {
+      let type = field.type;
+      while (type.kind !== Kind.NAMED_TYPE) type = type.type;
+      fields[field.name.value] = type.name.value;
+    });
+    types[definition.name.value] = fields;
+  });
+
+  return types;
+}
+
+/**
+ * 10進数文字列を丸めずに比較する（BigInt/BigDecimalの値は2^53を超えるため）
+ * @returns a < b なら負、a = b なら0、a > b なら正
+ */
+export function compareDecimalStrings(a: string, b: string): number {
+  const normalize = (value: string): [bigint, number] => {
+    const [mantissa, exponentPart] = value.toLowerCase().split('e');
+    const exponent = Number(exponentPart || 0);
+    const negative = mantissa.startsWith('-');
+    const [whole, fraction = ''] = mantissa.replace('-', '').split('.');
+    const digits = BigInt(whole + fraction) * (negative ? -1n : 1n);
+    return [digits, fraction.length - exponent];
+  };
+
+  const [digitsA, scaleA] = normalize(a);
+  const [digitsB, scaleB] = normalize(b);
+  const scale = Math.max(scaleA, scaleB);
+  const scaledA = scale - scaleA >= 0 ? digitsA * 10n ** BigInt(scale - scaleA) : digitsA;
+  const scaledB = scale - scaleB >= 0 ? digitsB * 10n ** BigInt(scale - scaleB) : digitsB;
+
+  if (scaledA === scaledB) return 0;
+  return scaledA < scaledB ? -1 : 1;
+}
+
+/**
+ * Hasuraと同じ規則で2つの値を比較する
+ * @param fieldType schema上のフィールド型（不明な場合はundefined）
+ */
+function compareValues(a: unknown, b: unknown, fieldType?: string): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : -1;
+  if (b === null || b === undefined) return 1;
+
+  const stringA = String(a);
+  const stringB = String(b);
+  const numeric =
+    fieldType !== undefined
+      ? NUMERIC_SCALARS.has(fieldType)
+      : NUMERIC_PATTERN.test(stringA) && NUMERIC_PATTERN.test(stringB);
+
+  if (numeric && NUMERIC_PATTERN.test(stringA) && NUMERIC_PATTERN.test(stringB)) {
+    return compareDecimalStrings(stringA, stringB);
+  }
+  if (stringA === stringB) return 0;
+  return stringA < stringB ? -1 : 1;
+}
+
+// SQLのLIKEパターンを正規表現に変換
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, caseInsensitive ? 'i' : '');
+}
+
+/**
+ * Hasuraの <Entity>_bool_exp を評価する
+ * @param row 評価する行
+ * @param where where条件
+ * @param fieldTypes エンティティのフィールド型
+ */
+export function matchesWhere(
+  row: FixtureRow,
+  where: Record<string, unknown> | null | undefined,
+  fieldTypes: Record<string, string> = {},
+): boolean {
+  if (!where) return true;
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '_and') return (condition as Record<string, unknown>[]).every((sub) => matchesWhere(row, sub, fieldTypes));
+    if (key === '_or') return (condition as Record<string, unknown>[]).some((sub) => matchesWhere(row, sub, fieldTypes));
+    if (key === '_not') return !matchesWhere(row, condition as Record<string, unknown>, fieldTypes);
+
+    const value = row[key];
+    const fieldType = fieldTypes[key];
+
+    return Object.entries(condition as Record<string, unknown>).every(([operator, operand]) => {
+      switch (operator) {
+        case '_eq':
+          return compareValues(value, operand, fieldType) === 0;
+        case '_neq':
+          return compareValues(value, operand, fieldType) !== 0;
+        case '_gt':
+          return value != null && compareValues(value, operand, fieldType) > 0;
+        case '_gte':
+          return value != null && compareValues(value, operand, fieldType) >= 0;
+        case '_lt':
+          return value != null && compareValues(value, operand, fieldType) < 0;
+        case '_lte':
+          return value != null && compareValues(value, operand, fieldType) <= 0;
+        case '_in':
+          return (operand as unknown[]).some((item) => compareValues(value, item, fieldType) === 0);
+        case '_nin':
+          return !(operand as unknown[]).some((item) => compareValues(value, item, fieldType) === 0);
+        case '_is_null':
+          return (value === null || value === undefined) === operand;
+        case '_like':
+          return likeToRegExp(String(operand), false).test(String(value ?? ''));
+        case '_ilike':
+          return likeToRegExp(String(operand), true).test(String(value ?? ''));
+        default:
+          throw new Error(`未対応の比較演算子です: ${operator}`);
+      }
+    });
+  });
+}
+
+/**
+ * Hasuraの order_by（オブジェクトまたは配列）で並べ替える
+ */
+export function sortRows(rows: FixtureRow[], orderBy: unknown, fieldTypes: Record<string, string> = {}): FixtureRow[] {
+  if (!orderBy) return rows;
+
+  const clauses: [string, string][] = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap((clause) =>
+    Object.entries(clause as Record<string, string>),
+  );
+
+  return [...rows].sort((a, b) => {
+    for (const [field, direction] of clauses) {
+      const nullsFirst = direction.includes('nulls_first') || (direction === 'desc' && !direction.includes('nulls'));
+      const aNull = a[field] === null || a[field] === undefined;
+      const bNull = b[field] === null || b[field] === undefined;
+      if (aNull !== bNull) return aNull === nullsFirst ? -1 : 1;
+
+      const result = compareValues(a[field], b[field], fieldTypes[field]);
+      if (result !== 0) return direction.startsWith('desc') ? -result : result;
+    }
+    return 0;
+  });
+}
+
+interface ExecutionContext {
+  tables: FixtureTables;
+  types: EntityTypes;
+  variables: Record<string, unknown>;
+  fragments: Record<string, FragmentDefinitionNode>;
+}
+
+// フラグメントを展開してフィールドの一覧にする
+function collectFields(selectionSet: SelectionSetNode, context: ExecutionContext): FieldNode[] {
+  return selectionSet.selections.flatMap((selection) => {
+    if (selection.kind === Kind.FIELD) return [selection];
+    if (selection.kind === Kind.INLINE_FRAGMENT) return collectFields(selection.selectionSet, context);
+    const fragment = context.fragments[selection.name.value];
+    if (!fragment) throw new Error(`フラグメント ${selection.name.value} が見つかりません`);
+    return collectFields(fragment.selectionSet, context);
+  });
+}
+
+function getArguments(field: FieldNode, context: ExecutionContext): Record<string, any> {
+  const args: Record<string, any> = {};
+  field.arguments?.forEach((arg) => {
+    args[arg.name.value] = valueFromASTUntyped(arg.value, context.variables);
+  });
+  return args;
+}
+
+// 行から選択されたフィールドだけを取り出す（エンティティ参照は参照先の行に展開する）
+function projectRow(
+  row: FixtureRow,
+  entity: string,
+  selectionSet: SelectionSetNode,
+  context: ExecutionContext,
+): FixtureRow {
+  const result: FixtureRow = {};
+
+  collectFields(selectionSet, context).forEach((field) => {
+    const key = field.alias?.value ?? field.name.value;
+    const name = field.name.value;
+
+    if (name === '__typename') {
+      result[key] = entity;
+      return;
+    }
+
+    const value = row[name];
+    const fieldType = context.types[entity]?.[name];
+
+    if (field.selectionSet && fieldType && context.tables[fieldType]) {
+      // エンティティ参照（例: Swap.token0 -> Token）
+      const referenced = context.tables[fieldType].find((candidate) => candidate.id === value);
+      result[key] = referenced ? projectRow(referenced, fieldType, field.selectionSet, context) : null;
+      return;
+    }
+
+    result[key] = value === undefined ? null : value;
+  });
+
+  return result;
+}
+
+// where / order_by / offset / limit を適用して行を選ぶ
+function selectRows(entity: string, args: Record<string, any>, context: ExecutionContext): FixtureRow[] {
+  const fieldTypes = context.types[entity] || {};
+  const filtered = (context.tables[entity] || []).filter((row) => matchesWhere(row, args.where, fieldTypes));
+  const sorted = sortRows(filtered, args.order_by, fieldTypes);
+  const offset = Number(args.offset || 0);
+  const limit = args.limit === undefined || args.limit === null ? undefined : Number(args.limit);
+  return sorted.slice(offset, limit === undefined ? undefined : offset + limit);
+}
+
+// <Entity>_aggregate の aggregate { count sum avg max min } を計算する
+function aggregateRows(
+  rows: FixtureRow[],
+  entity: string,
+  selectionSet: SelectionSetNode,
+  context: ExecutionContext,
+): FixtureRow {
+  const result: FixtureRow = {};
+  const fieldTypes = context.types[entity] || {};
+
+  collectFields(selectionSet, context).forEach((field) => {
+    const key = field.alias?.value ?? field.name.value;
+    const name = field.name.value;
+
+    if (name === '__typename') {
+      result[key] = `${entity}_aggregate_fields`;
+    } else if (name === 'count') {
+      result[key] = rows.length;
+    } else if (field.selectionSet) {
+      const values: FixtureRow = {};
+      collectFields(field.selectionSet, context).forEach((sub) => {
+        const subKey = sub.alias?.value ?? sub.name.value;
+        const column = sub.name.value;
+        if (column === '__typename') {
+          values[subKey] = `${entity}_${name}_fields`;
+          return;
+        }
+
+        const present = rows.map((row) => row[column]).filter((value) => value !== null && value !== undefined);
+        if (present.length === 0) {
+          values[subKey] = null;
+        } else if (name === 'sum' || name === 'avg') {
+          const sum = present.reduce<number>((total, value) => total + Number(value), 0);
+          values[subKey] = name === 'sum' ? sum : sum / present.length;
+        } else if (name === 'max' || name === 'min') {
+          const sorted = [...present].sort((a, b) => compareValues(a, b, fieldTypes[column]));
+          values[subKey] = name === 'max' ? sorted[sorted.length - 1] : sorted[0];
+        } else {
+          throw new Error(`未対応の集計関数です: ${name}`);
+        }
+      });
+      result[key] = values;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * ルートフィールド名からエンティティ名と種類を判定する
+ * 例: Pool_by_pk -> { entity: 'Pool', kind: 'by_pk' }
+ */
+export function resolveRootField(name: string): { entity: string; kind: 'list' | 'by_pk' | 'aggregate' } {
+  if (name.endsWith('_by_pk')) return { entity: name.slice(0, -'_by_pk'.length), kind: 'by_pk' };
+  if (name.endsWith('_aggregate')) return { entity: name.slice(0, -'_aggregate'.length), kind: 'aggregate' };
+  return { entity: name, kind: 'list' };
+}
+
+function executeRootField(field: FieldNode, context: ExecutionContext): unknown {
+  const { entity, kind } = resolveRootField(field.name.value);
+  if (!context.types[entity] && !context.tables[entity]) {
+    throw new Error(`エンティティ ${entity} はスキーマにもフィクスチャにも存在しません`);
+  }
+
+  const args = getArguments(field, context);
+  const selectionSet = field.selectionSet;
+  if (!selectionSet) throw new Error(`${field.name.value} にはフィールドの選択が必要です`);
+
+  if (kind === 'by_pk') {
+    const row = (context.tables[entity] || []).find((candidate) => String(candidate.id) === String(args.id));
+    return row ? projectRow(row, entity, selectionSet, context) : null;
+  }
+
+  const rows = selectRows(entity, args, context);
+
+  if (kind === 'aggregate') {
+    const result: FixtureRow = {};
+    collectFields(selectionSet, context).forEach((sub) => {
+      const key = sub.alias?.value ?? sub.name.value;
+      if (sub.name.value === '__typename') result[key] = `${entity}_aggregate`;
+      if (sub.name.value === 'aggregate' && sub.selectionSet) {
+        result[key] = aggregateRows(rows, entity, sub.selectionSet, context);
+      }
+      if (sub.name.value === 'nodes' && sub.selectionSet) {
+        const nodeSelection = sub.selectionSet;
+        result[key] = rows.map((row) => projectRow(row, entity, nodeSelection, context));
+      }
+    });
+    return result;
+  }
+
+  return rows.map((row) => projectRow(row, entity, selectionSet, context));
+}
+
+/**
+ * 実行するオペレーションを選び、変数のデフォルト値を適用する
+ */
+export function prepareOperation(
+  document: DocumentNode,
+  body: GraphQLRequestBody,
+): { operation: OperationDefinitionNode; variables: Record<string, unknown> } {
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION,
+  );
+  const operation = body.operationName
+    ? operations.find((candidate) => candidate.name?.value === body.operationName)
+    : operations[0];
+  if (!operation) throw new Error('実行するオペレーションが見つかりません');
+
+  const variables: Record<string, unknown> = { ...(body.variables || {}) };
+  operation.variableDefinitions?.forEach((definition) => {
+    const name = definition.variable.name.value;
+    if (variables[name] === undefined && definition.defaultValue) {
+      variables[name] = valueFromASTUntyped(definition.defaultValue);
+    }
+  });
+
+  return { operation, variables };
+}
+
+/**
+ * GraphQLリクエストをフィクスチャに対して実行する
+ *
+ * @param body GraphQLリクエスト（query, variables, operationName）
+ * @param tables エンティティごとのフィクスチャ行
+ * @param types schema.graphqlから取得したフィールド型
+ * @returns GraphQLレスポンス
+ */
+export function executeMockQuery(
+  body: GraphQLRequestBody,
+  tables: FixtureTables,
+  types: EntityTypes,
+): GraphQLResponseBody {
+  try {
+    const document = parse(body.query);
+    const { operation, variables } = prepareOperation(document, body);
+
+    if (operation.operation !== 'query') {
+      return { errors: [{ message: `モックサーバーは ${operation.operation} に対応していません` }] };
+    }
+
+    const fragments: Record<string, FragmentDefinitionNode> = {};
+    document.definitions.forEach((definition) => {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments[definition.name.value] = definition;
+    });
+
+    const context: ExecutionContext = { tables, types, variables, fragments };
+    const data: Record<string, unknown> = {};
+    collectFields(operation.selectionSet, context).forEach((field) => {
+      const key = field.alias?.value ?? field.name.value;
+      data[key] = field.name.value === '__typename' ? 'query_root' : executeRootField(field, context);
+    });
+
+    return { data };
+  } catch (error) {
+    return { data: null, errors: [{ message: error instanceof Error ? error.message : String(error) }] };
+  }
+}
+
+/**
+ * 実際のレスポンスから行を取り出してフィクスチャに統合する（レコーダーモード用）
+ * 同じidの行はフィールド単位でマージするため、異なるクエリで取得した列も蓄積される
+ *
+ * @param body 送信したGraphQLリクエスト
+ * @param data 実際のAPIが返したdata
+ * @param tables 統合先のフィクスチャ（直接更新する）
+ * @param types schema.graphqlから取得したフィールド型
+ * @returns 更新されたエンティティ名の一覧
+ */
+export function recordResponse(
+  body: GraphQLRequestBody,
+  data: Record<string, unknown>,
+  tables: FixtureTables,
+  types: EntityTypes,
+): string[] {
+  const document = parse(body.query);
+  const { operation, variables } = prepareOperation(document, body);
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  document.definitions.forEach((definition) => {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments[definition.name.value] = definition;
+  });
+  const context: ExecutionContext = { tables, types, variables, fragments };
+  const touched = new Set<string>();
+
+  const storeRow = (entity: string, value: FixtureRow, selectionSet: SelectionSetNode, fallbackId?: unknown) => {
+    const row: FixtureRow = {};
+    collectFields(selectionSet, context).forEach((field) => {
+      const key = field.alias?.value ?? field.name.value;
+      const name = field.name.value;
+      if (name === '__typename' || !(key in value)) return;
+
+      const fieldType = types[entity]?.[name];
+      const nested = value[key];
+      if (field.selectionSet && fieldType && types[fieldType] && nested && typeof nested === 'object') {
+        // 参照先のエンティティも記録し、親にはidだけを保存する
+        const nestedId = storeRow(fieldType, nested as FixtureRow, field.selectionSet);
+        row[name] = nestedId;
+        return;
+      }
+      row[name] = nested;
+    });
+
+    if (row.id === undefined && fallbackId !== undefined) row.id = String(fallbackId);
+    if (row.id === undefined) return undefined;
+
+    const table = (tables[entity] = tables[entity] || []);
+    const existing = table.find((candidate) => candidate.id === row.id);
+    if (existing) Object.assign(existing, row);
+    else table.push(row);
+    touched.add(entity);
+    return row.id;
+  };
+
+  collectFields(operation.selectionSet, context).forEach((field) => {
+    const key = field.alias?.value ?? field.name.value;
+    const value = data[key];
+    if (!value || !field.selectionSet || field.name.value === '__typename') return;
+
+    const { entity, kind } = resolveRootField(field.name.value);
+    if (kind === 'by_pk') {
+      storeRow(entity, value as FixtureRow, field.selectionSet, getArguments(field, context).id);
+    } else if (kind === 'list') {
+      const selectionSet = field.selectionSet;
+      (value as FixtureRow[]).forEach((row) => storeRow(entity, row, selectionSet));
+    } else {
+      const nodesField = collectFields(field.selectionSet, context).find((sub) => sub.name.value === 'nodes');
+      const nodes = nodesField && (value as FixtureRow)[nodesField.alias?.value ?? 'nodes'];
+      if (nodesField?.selectionSet && Array.isArray(nodes)) {
+        const selectionSet = nodesField.selectionSet;
+        nodes.forEach((row) => storeRow(entity, row as FixtureRow, selectionSet));
+      }
+    }
+  });
+
+  return Array.from(touched);
+}
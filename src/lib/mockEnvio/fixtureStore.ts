@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { EntityTypes, FixtureRow, FixtureTables, parseEntityTypes } from './engine';
+
+/**
+ * モックEnvioサーバーのフィクスチャ（fixtures/envio/<Entity>.json）の読み書き
+ * サーバーサイド専用（fsを使用）
+ */
+
+// フィクスチャの保存先（MOCK_ENVIO_FIXTURES_DIRで変更可能）
+export const FIXTURES_DIR = path.resolve(
+  process.cwd(),
+  process.env.MOCK_ENVIO_FIXTURES_DIR || path.join('fixtures', 'envio'),
+);
+
+const SCHEMA_PATH = path.resolve(process.cwd(), 'schema.graphql');
+
+// 時刻を表すフィールド（MOCK_ENVIO_REBASE_TIMEで現在時刻基準にずらす対象）
+const TIME_FIELDS = ['timestamp', 'createdAtTimestamp', 'updatedAtTimestamp', 'firstPoolCreatedAt', 'date'];
+
+let tablesCache: FixtureTables | null = null;
+let typesCache: EntityTypes | null = null;
+
+/**
+ * schema.graphqlのフィールド型を取得する
+ */
+export function getEntityTypes(): EntityTypes {
+  if (!typesCache) {
+    typesCache = parseEntityTypes(fs.readFileSync(SCHEMA_PATH, 'utf8'));
+  }
+  return typesCache;
+}
+
+/**
+ * フィクスチャの最新時刻が現在時刻になるよう、すべての時刻フィールドをずらす
+ * 記録したデータが「過去90日」などの期間フィルタから外れないようにするため
+ */
+function rebaseTimestamps(tables: FixtureTables): void {
+  let latest = 0;
+  Object.values(tables).forEach((rows) =>
+    rows.forEach((row) =>
+      TIME_FIELDS.forEach((field) => {
+        if (row[field] !== undefined && row[field] !== null) latest = Math.max(latest, Number(row[field]));
+      }),
+    ),
+  );
+  if (latest === 0) return;
+
+  // 日次データの境界を保つため1日単位でずらす
+  const shift = Math.floor((Math.floor(Date.now() / 1000) - latest) / 86400) * 86400;
+  Object.values(tables).forEach((rows) =>
+    rows.forEach((row) =>
+      TIME_FIELDS.forEach((field) => {
+        if (row[field] === undefined || row[field] === null) return;
+        const shifted = Number(row[field]) + shift;
+        row[field] = typeof row[field] === 'string' ? String(shifted) : shifted;
+      }),
+    ),
+  );
+}
+
+/**
+ * すべてのフィクスチャを読み込む（初回のみディスクから読み、以降はメモリ上のものを返す）
+ */
+export function loadFixtures(): FixtureTables {
+  if (tablesCache) return tablesCache;
+
+  const tables: FixtureTables = {};
+  if (fs.existsSync(FIXTURES_DIR)) {
+    fs.readdirSync(FIXTURES_DIR)
+      .filter((file) => file.endsWith('.json'))
+      .forEach((file) => {
+        const entity = path.basename(file, '.json');
+        const rows = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+        if (!Array.isArray(rows)) throw new Error(`フィクスチャ ${file} は配列である必要があります`);
+        tables[entity] = rows as FixtureRow[];
+      });
+  }
+
+  // 記録中にずらした時刻を書き戻さないよう、レコーダーモードでは行わない
+  if (process.env.MOCK_ENVIO_REBASE_TIME === '1' && process.env.MOCK_ENVIO_MODE !== 'record') {
+    rebaseTimestamps(tables);
+  }
+
+  tablesCache = tables;
+  return tables;
+}
+
+/**
+ * 指定したエンティティのフィクスチャをディスクに書き出す
+ * 差分が見やすいようにidでソートして保存する
+ *
+ * @param entities 書き出すエンティティ名
+ */
+export function saveFixtures(entities: string[]): void {
+  const tables = loadFixtures();
+  fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+
+  entities.forEach((entity) => {
+    const rows = [...(tables[entity] || [])].sort((a, b) => String(a.id).localeCompare(String(b.id)));
+    fs.writeFileSync(path.join(FIXTURES_DIR, `${entity}.json`), JSON.stringify(rows, null, 2) + '\n');
+  });
+}
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { DocumentNode, OperationVariables } from '@apollo/client';
+import { client } from './apollo-client';
+import { getConfiguredChainIds } from './indexerRegistry';
+import {
+  HookStatsQueryResult,
+  LiquidityPositionsQueryResult,
+  ModifyLiquidityEventsQueryResult,
+  PoolsQueryResult,
+} from '@/types';
+
+export interface ChainFanOutResult<TData> {
+  /** 全チェーンの結果を結合したデータ（取得中はundefined） */
+  data: TData | undefined;
+  loading: boolean;
+  /** すべてのチェーンで失敗した場合のみ設定される */
+  error: Error | undefined;
+  /** 取得に失敗したチェーンID */
+  failedChainIds: number[];
+}
+
+/**
+ * チェーンIDで絞り込むwhere条件
+ * @param chainId 対象のチェーン（nullの場合は絞り込まない）
+ */
+export function chainWhere(chainId: number | null): Record<string, unknown> {
+  return chainId === null ? {} : { chainId: { _eq: chainId } };
+}
+
+// 数値文字列のフィールドで降順に並べる
+function sortByNumberDesc<T>(rows: T[], field: keyof T): T[] {
+  return rows.slice(0).sort((a, b) => Number(b[field]) - Number(a[field]));
+}
+
+/**
+ * チェーンごとの GET_ALL_POOLS の結果を結合する
+ * プールはTVLの降順に並べ直してlimit件に切り詰める
+ *
+ * @param results チェーンごとの結果
+ * @param limit 最大件数
+ */
+export function mergePoolsResults(results: PoolsQueryResult[], limit: number): PoolsQueryResult {
+  const pools = results.flatMap((result) => result.Pool || []);
+  const tokens = results.flatMap((result) => result.Token || []);
+  return {
+    Pool: sortByNumberDesc(pools, 'totalValueLockedUSD').slice(0, limit),
+    Token: tokens,
+  };
+}
+
+/**
+ * チェーンごとの GET_HOOKS_STATS の結果を結合する
+ *
+ * @param results チェーンごとの結果
+ * @param limit 最大件数
+ */
+export function mergeHookStatsResults(results: HookStatsQueryResult[], limit: number): HookStatsQueryResult {
+  const hookStats = results.flatMap((result) => result.HookStats || []);
+  return { HookStats: sortByNumberDesc(hookStats, 'totalValueLockedUSD').slice(0, limit) };
+}
+
+// 同じインデクサーが複数のチェーンを扱う場合に重複する行を除く
+function uniqueById<T extends { id: string }>(rows: T[]): T[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    if (seen.has(row.id)) return false;
+    seen.add(row.id);
+    return true;
+  });
+}
+
+/**
+ * チェーンごとの GET_USER_LIQUIDITY_POSITIONS の結果を結合する
+ * ポジションは作成日時の降順に並べ直してlimit件に切り詰める
+ *
+ * @param results チェーンごとの結果
+ * @param limit 最大件数
+ */
+export function mergeLiquidityPositionsResults(
+  results: LiquidityPositionsQueryResult[],
+  limit: number,
+): LiquidityPositionsQueryResult {
+  const positions = uniqueById(results.flatMap((result) => result.LiquidityPosition || []));
+  return { LiquidityPosition: sortByNumberDesc(positions, 'createdAtTimestamp').slice(0, limit) };
+}
+
+/**
+ * チェーンごとの GET_USER_MODIFY_LIQUIDITY_EVENTS の結果を結合する
+ * イベントは新しい順に並べ直してlimit件に切り詰める
+ *
+ * @param results チェーンごとの結果
+ * @param limit 最大件数
+ */
+export function mergeModifyLiquidityEventsResults(
+  results: ModifyLiquidityEventsQueryResult[],
+  limit: number,
+): ModifyLiquidityEventsQueryResult {
+  const events = uniqueById(results.flatMap((result) => result.ModifyLiquidity || []));
+  return { ModifyLiquidity: sortByNumberDesc(events, 'timestamp').slice(0, limit) };
+}
+
+/**
+ * 設定されているすべてのチェーンのインデクサーに同じクエリを送り、結果を結合するカスタムフック
+ * チェーン別のエンドポイントが無い場合は既定のエンドポイントに1回だけ送る
+ * 一部のチェーンで失敗しても、取得できたチェーンの結果を返す
+ *
+ * @param query GraphQLクエリ
+ * @param variablesForChain チェーンごとの変数（chainIdがnullの場合は既定のエンドポイント）
+ * @param mergeResults チェーンごとの結果を結合する関数
+ * @param options skipがtrueの場合はクエリを送らない（useQueryのskipと同じ）
+ * @returns 結合した結果と取得状態
+ */
+export function useChainFanOutQuery<TData>(
+  query: DocumentNode,
+  variablesForChain: (chainId: number | null) => OperationVariables,
+  mergeResults: (results: TData[]) => TData,
+  { skip = false }: { skip?: boolean } = {},
+): ChainFanOutResult<TData> {
+  const [result, setResult] = useState<ChainFanOutResult<TData>>({
+    data: undefined,
+    loading: !skip,
+    error: undefined,
+    failedChainIds: [],
+  });
+
+  const configured = getConfiguredChainIds();
+  const chainIds: (number | null)[] = configured.length > 0 ? configured : [null];
+  // 変数が変わったときだけ再取得する（effectの中ではキーから復元する）
+  const requestsKey = JSON.stringify(
+    chainIds.map((chainId) => ({ chainId, variables: variablesForChain(chainId) })),
+  );
+  // 結合する関数は毎回作り直されることが多いため、再取得のきっかけにせず最新のものを使う
+  const mergeResultsRef = useRef(mergeResults);
+  mergeResultsRef.current = mergeResults;
+
+  useEffect(() => {
+    if (skip) {
+      setResult({ data: undefined, loading: false, error: undefined, failedChainIds: [] });
+      return;
+    }
+
+    let cancelled = false;
+    const requests: { chainId: number | null; variables: OperationVariables }[] = JSON.parse(requestsKey);
+    setResult((current) => ({ ...current, loading: true }));
+
+    Promise.allSettled(
+      requests.map(({ chainId, variables }) =>
+        client.query<TData>({ query, variables, context: chainId === null ? undefined : { chainId } }),
+      ),
+    ).then((settled) => {
+      if (cancelled) return;
+
+      const succeeded: TData[] = [];
+      const failedChainIds: number[] = [];
+      let lastError: Error | undefined;
+
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          succeeded.push(outcome.value.data);
+        } else {
+          const chainId = requests[index].chainId;
+          console.error(`チェーン ${chainId ?? '(既定)'} の取得エラー:`, outcome.reason);
+          if (chainId !== null) failedChainIds.push(chainId);
+          lastError = outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason));
+        }
+      });
+
+      setResult({
+        data: succeeded.length > 0 ? mergeResultsRef.current(succeeded) : undefined,
+        loading: false,
+        error: succeeded.length > 0 ? undefined : lastError,
+        failedChainIds,
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, requestsKey, skip]);
+
+  return result;
+}
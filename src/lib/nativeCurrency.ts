@@ -0,0 +1,211 @@
+import { CHAIN_CONFIGS, ChainId, NativeTokenDetails } from '@/utils/chains';
+import { ADDRESS_ZERO } from '@/utils/constants';
+import { parseChainScopedId } from './indexerRegistry';
+import { Token } from '@/types';
+
+/**
+ * ネイティブ通貨（ETHなど）の扱い
+ *
+ * v4ではネイティブ通貨をラップせずにプールで使え、currencyのアドレスはゼロアドレス（ADDRESS_ZERO）になる。
+ * シンボルなどはチェーンごとのnativeTokenDetails（CHAIN_CONFIGS）から解決し、ラップ版（WETHなど）と対応付ける。
+ */
+
+// 既定のチェーン（IDにチェーンIDの接頭辞が無い場合）
+const DEFAULT_CHAIN_ID = ChainId.MAINNET;
+
+// インデクサーの設定でwrappedNativeAddressがネイティブ通貨になっているチェーンのラップ版（OP Stackの既定のWETH）
+const WRAPPED_NATIVE_OVERRIDES: Record<number, string> = {
+  [ChainId.UNICHAIN]: '0x4200000000000000000000000000000000000006',
+  [ChainId.SONEIUM]: '0x4200000000000000000000000000000000000006',
+};
+
+// チェーンごとのブロックエクスプローラー
+const EXPLORER_URLS: Record<number, string> = {
+  [ChainId.MAINNET]: 'https://etherscan.io',
+  [ChainId.ARBITRUM_ONE]: 'https://arbiscan.io',
+  [ChainId.OPTIMISM]: 'https://optimistic.etherscan.io',
+  [ChainId.BASE]: 'https://basescan.org',
+  [ChainId.MATIC]: 'https://polygonscan.com',
+  [ChainId.BSC]: 'https://bscscan.com',
+  [ChainId.AVALANCHE]: 'https://snowtrace.io',
+  [ChainId.BLAST]: 'https://blastscan.io',
+  [ChainId.ZORA]: 'https://explorer.zora.energy',
+  [ChainId.WORLD]: 'https://worldscan.org',
+  [ChainId.UNICHAIN]: 'https://uniscan.xyz',
+  [ChainId.SONEIUM]: 'https://soneium.blockscout.com',
+};
+
+/** 表示用に解決したトークン情報 */
+export interface ResolvedToken {
+  id: string;
+  symbol: string;
+  name: string;
+  decimals: string;
+  derivedETH?: string;
+  /** ネイティブ通貨（ゼロアドレス）かどうか */
+  isNative: boolean;
+  /** ネイティブ通貨のラップ版（WETHなど）かどうか */
+  isWrappedNative: boolean;
+}
+
+function resolveChainId(tokenId: string, chainId?: number | string | null): number {
+  const parsed = parseChainScopedId(tokenId).chainId;
+  if (parsed !== null) return parsed;
+  return chainId !== null && chainId !== undefined && chainId !== '' ? Number(chainId) : DEFAULT_CHAIN_ID;
+}
+
+// 元のIDと同じ形式（チェーンIDの接頭辞の有無）でIDを作る
+function toTokenId(tokenId: string, address: string): string {
+  const { chainId } = parseChainScopedId(tokenId);
+  return chainId !== null ? `${chainId}_${address}` : address;
+}
+
+/**
+ * トークンIDがネイティブ通貨（ゼロアドレス）かを返す関数
+ *
+ * @param tokenId トークンID（`chainId_address` 形式でもよい）
+ */
+export function isNativeCurrency(tokenId: string | null | undefined): boolean {
+  if (!tokenId) return false;
+  return parseChainScopedId(tokenId).address.toLowerCase() === ADDRESS_ZERO;
+}
+
+/**
+ * チェーンのネイティブ通貨の情報を返す関数
+ *
+ * @param chainId チェーンID
+ * @returns 設定されていないチェーンの場合はnull
+ */
+export function getNativeTokenDetails(chainId: number | string): NativeTokenDetails | null {
+  return CHAIN_CONFIGS[Number(chainId)]?.nativeTokenDetails ?? null;
+}
+
+/**
+ * チェーンのネイティブ通貨のラップ版のアドレスを返す関数
+ *
+ * @param chainId チェーンID
+ * @returns 小文字のアドレス（設定されていないチェーンの場合はnull）
+ */
+export function getWrappedNativeAddress(chainId: number | string): string | null {
+  const override = WRAPPED_NATIVE_OVERRIDES[Number(chainId)];
+  if (override) return override;
+  const address = CHAIN_CONFIGS[Number(chainId)]?.wrappedNativeAddress;
+  return address && address !== ADDRESS_ZERO ? address.toLowerCase() : null;
+}
+
+/**
+ * トークンIDがネイティブ通貨のラップ版かを返す関数
+ *
+ * @param tokenId トークンID（`chainId_address` 形式でもよい）
+ * @param chainId チェーンID（IDに接頭辞が無い場合に使う）
+ */
+export function isWrappedNative(tokenId: string | null | undefined, chainId?: number | string | null): boolean {
+  if (!tokenId) return false;
+  const wrapped = getWrappedNativeAddress(resolveChainId(tokenId, chainId));
+  return wrapped !== null && parseChainScopedId(tokenId).address.toLowerCase() === wrapped;
+}
+
+/**
+ * 表示用のトークン情報を解決する関数
+ * ネイティブ通貨はインデクサーのTokenより、チェーンのnativeTokenDetailsを優先する
+ *
+ * @param tokenId トークンID（Pool.token0 / token1）
+ * @param token インデクサーのToken（取得できていない場合はnull）
+ * @param fallbackSymbol トークン情報が無い場合のシンボル
+ * @param chainId チェーンID（IDに接頭辞が無い場合に使う）
+ */
+export function resolveToken(
+  tokenId: string,
+  token?: Partial<Token> | null,
+  fallbackSymbol = 'Unknown',
+  chainId?: number | string | null,
+): ResolvedToken {
+  const resolvedChainId = resolveChainId(tokenId, chainId);
+  const native = isNativeCurrency(tokenId) ? getNativeTokenDetails(resolvedChainId) : null;
+
+  if (native) {
+    return {
+      id: tokenId,
+      symbol: native.symbol,
+      name: native.name,
+      decimals: native.decimals.toString(),
+      derivedETH: token?.derivedETH,
+      isNative: true,
+      isWrappedNative: false,
+    };
+  }
+
+  return {
+    id: tokenId,
+    symbol: token?.symbol || fallbackSymbol,
+    name: token?.name || fallbackSymbol,
+    decimals: token?.decimals ?? '',
+    derivedETH: token?.derivedETH,
+    isNative: isNativeCurrency(tokenId),
+    isWrappedNative: isWrappedNative(tokenId, resolvedChainId),
+  };
+}
+
+/**
+ * ネイティブ通貨とラップ版を入れ替えたトークンIDを返す関数（ETH <-> WETH）
+ *
+ * @param tokenId トークンID
+ * @param chainId チェーンID（IDに接頭辞が無い場合に使う）
+ * @returns 対応するトークンID（ネイティブ通貨でもラップ版でもない場合はnull）
+ */
+export function getCounterpartTokenId(tokenId: string, chainId?: number | string | null): string | null {
+  const resolvedChainId = resolveChainId(tokenId, chainId);
+  const wrapped = getWrappedNativeAddress(resolvedChainId);
+  if (!wrapped) return null;
+  if (isNativeCurrency(tokenId)) return toTokenId(tokenId, wrapped);
+  if (isWrappedNative(tokenId, resolvedChainId)) return toTokenId(tokenId, ADDRESS_ZERO);
+  return null;
+}
+
+/**
+ * ETH/XのプールとWETH/Xのプールのように、ネイティブ通貨とラップ版を入れ替えたプールを探す条件を作る関数
+ *
+ * @param token0Id Pool.token0
+ * @param token1Id Pool.token1
+ * @param chainId チェーンID（IDに接頭辞が無い場合に使う）
+ * @returns Pool_bool_exp（対応するプールが無い組み合わせの場合はnull）
+ */
+export function buildCounterpartPoolWhere(
+  token0Id: string,
+  token1Id: string,
+  chainId?: number | string | null,
+): Record<string, unknown> | null {
+  const counterpart0 = getCounterpartTokenId(token0Id, chainId);
+  const counterpart1 = getCounterpartTokenId(token1Id, chainId);
+  // ETH/WETHのプールは入れ替えても同じ組み合わせになるため対象外
+  if ((counterpart0 === null) === (counterpart1 === null)) return null;
+
+  const [a, b] = counterpart0 !== null ? [counterpart0, token1Id] : [token0Id, counterpart1 as string];
+  // currency0 < currency1 の順に並ぶため、入れ替えると順番が変わる場合がある
+  return {
+    _or: [
+      { token0: { _eq: a }, token1: { _eq: b } },
+      { token0: { _eq: b }, token1: { _eq: a } },
+    ],
+  };
+}
+
+/**
+ * ブロックエクスプローラーのURLを返す関数
+ * ネイティブ通貨にはトークンのページが無いため、type='token'の場合はnullを返す
+ *
+ * @param chainId チェーンID
+ * @param type ページの種類
+ * @param value アドレスまたはトランザクションハッシュ（`chainId_address` 形式でもよい）
+ * @returns URL（エクスプローラーが不明な場合やネイティブ通貨の場合はnull）
+ */
+export function getExplorerUrl(
+  chainId: number | string | null | undefined,
+  type: 'token' | 'address' | 'tx',
+  value: string,
+): string | null {
+  if (type === 'token' && isNativeCurrency(value)) return null;
+  const resolvedChainId = resolveChainId(value, chainId);
+  const baseUrl = EXPLORER_URLS[resolvedChainId];
+  return baseUrl ? `${baseUrl}/${type}/${parseChainScopedId(value).address}` : null;
+}
@@ -0,0 +1,128 @@
+import { encodeAbiParameters, getAddress, keccak256, type Address, type Hex } from 'viem';
+import { Pool } from '@/types';
+
+/**
+ * Uniswap v4のPoolKeyの復元とPoolIdの検証
+ *
+ * v4のPoolIdは PoolKey（currency0, currency1, fee, tickSpacing, hooks）をABIエンコードしたもののkeccak256。
+ * インデクサーのPool.idは `chainId_poolId` 形式のため、チェーンIDを除いた部分と比較する。
+ */
+
+export interface PoolKey {
+  currency0: Address;
+  currency1: Address;
+  /** 手数料率（動的手数料の場合は0x800000） */
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+}
+
+export interface PoolIdVerification {
+  key: PoolKey;
+  /** PoolKeyから計算したPoolId */
+  computedPoolId: Hex;
+  /** インデクサーのPool.idから取り出したPoolId（取り出せない場合はnull） */
+  indexedPoolId: Hex | null;
+  /** 計算したPoolIdとインデクサーのPoolIdが一致するか */
+  matches: boolean;
+}
+
+const POOL_KEY_ABI = [
+  { name: 'currency0', type: 'address' },
+  { name: 'currency1', type: 'address' },
+  { name: 'fee', type: 'uint24' },
+  { name: 'tickSpacing', type: 'int24' },
+  { name: 'hooks', type: 'address' },
+] as const;
+
+// `chainId_0x...` 形式のIDから末尾の16進数部分を取り出す
+function extractHex(value: string, length: number): Hex | null {
+  const match = value.match(new RegExp(`0x[0-9a-fA-F]{${length}}$`));
+  return match ? (match[0].toLowerCase() as Hex) : null;
+}
+
+function toAddress(value: string, field: string): Address {
+  const hex = extractHex(value, 40);
+  if (!hex) throw new Error(`${field}がアドレスではありません: ${value}`);
+  return getAddress(hex);
+}
+
+/**
+ * PoolのフィールドからPoolKeyを復元する関数
+ *
+ * @param pool インデクサーのPool（token0/token1は `chainId_address` 形式でもよい）
+ * @returns PoolKey
+ */
+export function buildPoolKey(pool: Pick<Pool, 'token0' | 'token1' | 'feeTier' | 'tickSpacing' | 'hooks'>): PoolKey {
+  return {
+    currency0: toAddress(pool.token0, 'token0'),
+    currency1: toAddress(pool.token1, 'token1'),
+    fee: Number(pool.feeTier),
+    tickSpacing: Number(pool.tickSpacing),
+    hooks: toAddress(pool.hooks, 'hooks'),
+  };
+}
+
+/**
+ * PoolKeyからPoolIdを計算する関数（PoolIdLibrary.toIdと同じ）
+ *
+ * @param key PoolKey
+ * @returns PoolId（bytes32）
+ */
+export function computePoolId(key: PoolKey): Hex {
+  return keccak256(
+    encodeAbiParameters(POOL_KEY_ABI, [key.currency0, key.currency1, key.fee, key.tickSpacing, key.hooks]),
+  );
+}
+
+/**
+ * PoolKeyを復元してPoolIdを再計算し、インデクサーのPool.idと比較する関数
+ *
+ * @param pool インデクサーのPool
+ * @returns 復元したPoolKeyと検証結果
+ */
+export function verifyPoolId(
+  pool: Pick<Pool, 'id' | 'token0' | 'token1' | 'feeTier' | 'tickSpacing' | 'hooks'>,
+): PoolIdVerification {
+  const key = buildPoolKey(pool);
+  const computedPoolId = computePoolId(key);
+  const indexedPoolId = extractHex(pool.id, 64);
+
+  return { key, computedPoolId, indexedPoolId, matches: indexedPoolId === computedPoolId };
+}
+
+/**
+ * PoolKeyをSolidityのコードとして整形する関数
+ *
+ * @param key PoolKey
+ * @returns `PoolKey memory key = PoolKey({...});` 形式の文字列
+ */
+export function formatPoolKeySolidity(key: PoolKey): string {
+  return [
+    'PoolKey memory key = PoolKey({',
+    `    currency0: Currency.wrap(${key.currency0}),`,
+    `    currency1: Currency.wrap(${key.currency1}),`,
+    `    fee: ${key.fee},`,
+    `    tickSpacing: ${key.tickSpacing},`,
+    `    hooks: IHooks(${key.hooks})`,
+    '});',
+  ].join('\n');
+}
+
+/**
+ * PoolKeyをviemの呼び出しで使えるオブジェクトとして整形する関数
+ *
+ * @param key PoolKey
+ * @returns `const poolKey = {...} as const;` 形式の文字列
+ */
+export function formatPoolKeyViem(key: PoolKey): string {
+  return [
+    'const poolKey = {',
+    `  currency0: '${key.currency0}',`,
+    `  currency1: '${key.currency1}',`,
+    `  fee: ${key.fee},`,
+    `  tickSpacing: ${key.tickSpacing},`,
+    `  hooks: '${key.hooks}',`,
+    '} as const;',
+  ].join('\n');
+}
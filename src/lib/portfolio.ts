@@ -0,0 +1,245 @@
+import { ApolloClient } from '@apollo/client';
+import { GET_POOLS_BY_IDS, GET_TOKENS_WITH_BUNDLE } from './queries';
+import { parseChainScopedId } from './indexerRegistry';
+import { resolveToken, ResolvedToken } from './nativeCurrency';
+import { getPositionTokenAmounts, formatTokenUnits, toTokenAmount } from './liquidityMath';
+import { calculatePositionPnl, PositionPnl } from './positionPnl';
+import { LiquidityPosition, Pool, PoolsQueryResult, TokensWithBundleQueryResult } from '@/types';
+
+/**
+ * アドレスが保有するポジションを、プール・チェーンをまたいで集計する（ポートフォリオ）
+ *
+ * ポジションのプールをチェーンごとにまとめて取得し、トークン情報とチェーンのETH価格で
+ * 現在の保有量・USDの価値・回収済みの手数料・HODLと比べた損益を計算する。
+ * 手数料は回収済みの分のみで、未回収の手数料（スワップからの推定）は含まない。
+ */
+
+/** ポジションの評価に使うプールの状態 */
+export interface PortfolioPoolContext {
+  pool: Pool;
+  token0: ResolvedToken;
+  token1: ResolvedToken;
+  /** チェーンのETHのUSD価格（取得できない場合は'0'） */
+  ethPriceUSD: string;
+}
+
+export interface PortfolioPosition {
+  position: LiquidityPosition;
+  /** ポジションのチェーン（プールIDから判断できない場合はnull） */
+  chainId: number | null;
+  /** プールの状態（取得できない場合はnull） */
+  context: PortfolioPoolContext | null;
+  /** 流動性が0（すべて引き出し済み） */
+  closed: boolean;
+  /** 現在の価格が範囲内（プールが取得できない場合やクローズ済みの場合はfalse） */
+  inRange: boolean;
+  /** 現在の保有量（TickMathによる厳密な計算、デシマル考慮済みの10進数文字列） */
+  currentAmount0: string | null;
+  currentAmount1: string | null;
+  /** 現在の保有量のUSDの価値 */
+  currentValueUSD: number | null;
+  /** 回収済みの手数料のUSDの価値 */
+  collectedFeesUSD: number | null;
+  /** HODLと比べた損益（回収済みの手数料のみ） */
+  pnl: PositionPnl | null;
+}
+
+export interface PortfolioSummary {
+  positionCount: number;
+  /** 流動性が残っているポジションの数 */
+  openCount: number;
+  inRangeCount: number;
+  /** 以下のUSDの合計は、USD価格があるポジションのみ */
+  currentValueUSD: number;
+  collectedFeesUSD: number;
+  netPnlUSD: number;
+  /** USD価格が無く、合計に含まれないポジションの数 */
+  unpricedCount: number;
+}
+
+// IDをチェーンごとにまとめる（接頭辞が無いIDはnullのグループ）
+function groupByChain<T>(items: T[], getChainId: (item: T) => number | null): Map<number | null, T[]> {
+  const groups = new Map<number | null, T[]>();
+  items.forEach((item) => {
+    const chainId = getChainId(item);
+    groups.set(chainId, [...(groups.get(chainId) || []), item]);
+  });
+  return groups;
+}
+
+// トークンのUSD価格
+function tokenPriceUSD(token: ResolvedToken, ethPriceUSD: string): number {
+  return Number(token.derivedETH || 0) * Number(ethPriceUSD || 0);
+}
+
+// トークンの量をUSDに換算（どちらのトークンにもUSD価格がない場合はnull）
+function toUSD(context: PortfolioPoolContext, amount0: number, amount1: number): number | null {
+  const price0 = tokenPriceUSD(context.token0, context.ethPriceUSD);
+  const price1 = tokenPriceUSD(context.token1, context.ethPriceUSD);
+  if (price0 === 0 && price1 === 0) return null;
+  return amount0 * price0 + amount1 * price1;
+}
+
+/**
+ * ポジションのプール・トークン・ETH価格をチェーンごとに取得する関数
+ * 一部のチェーンで失敗しても、取得できたプールの結果を返す
+ *
+ * @param client ApolloClientインスタンス
+ * @param poolIds ポジションのプールID
+ * @returns プールIDをキーとするプールの状態
+ */
+export async function fetchPortfolioPoolContexts(
+  client: ApolloClient<any>,
+  poolIds: string[],
+): Promise<Map<string, PortfolioPoolContext>> {
+  const uniquePoolIds = Array.from(new Set(poolIds));
+
+  // プールIDの接頭辞からチェーンを判断し、チェーンのインデクサーに送る
+  const poolResults = await Promise.allSettled(
+    Array.from(groupByChain(uniquePoolIds, (id) => parseChainScopedId(id).chainId)).map(([chainId, ids]) =>
+      client.query<PoolsQueryResult>({
+        query: GET_POOLS_BY_IDS,
+        variables: { poolIds: ids },
+        context: chainId === null ? undefined : { chainId },
+      }),
+    ),
+  );
+  const pools = poolResults.flatMap((outcome) => {
+    if (outcome.status === 'fulfilled') return outcome.value.data.Pool || [];
+    console.error('ポートフォリオのプールの取得エラー:', outcome.reason);
+    return [];
+  });
+
+  // トークンとETH価格はプールのチェーンごとに取得する
+  const contexts = new Map<string, PortfolioPoolContext>();
+  await Promise.all(
+    Array.from(groupByChain(pools, (pool) => (pool.chainId ? Number(pool.chainId) : null))).map(
+      async ([chainId, chainPools]) => {
+        const tokenIds = Array.from(new Set(chainPools.flatMap((pool) => [pool.token0, pool.token1])));
+        let data: TokensWithBundleQueryResult = {};
+        try {
+          const result = await client.query<TokensWithBundleQueryResult>({
+            query: GET_TOKENS_WITH_BUNDLE,
+            variables: { tokenIds, chainId: String(chainId ?? '') },
+            context: chainId === null ? undefined : { chainId },
+          });
+          data = result.data;
+        } catch (error) {
+          console.error(`チェーン ${chainId ?? '(既定)'} のトークンの取得エラー:`, error);
+        }
+
+        const tokensById = new Map((data.Token || []).map((token) => [token.id, token]));
+        chainPools.forEach((pool) => {
+          contexts.set(pool.id, {
+            pool,
+            token0: resolveToken(pool.token0, tokensById.get(pool.token0), 'Token0', pool.chainId),
+            token1: resolveToken(pool.token1, tokensById.get(pool.token1), 'Token1', pool.chainId),
+            ethPriceUSD: data.Bundle_by_pk?.ethPriceUSD || '0',
+          });
+        });
+      },
+    ),
+  );
+
+  return contexts;
+}
+
+/**
+ * ポジションを現在のプールの状態で評価する関数
+ *
+ * @param position 流動性ポジション
+ * @param context プールの状態（取得できない場合はnull）
+ * @returns 保有量・価値・手数料・損益
+ */
+export function evaluatePortfolioPosition(
+  position: LiquidityPosition,
+  context: PortfolioPoolContext | null,
+): PortfolioPosition {
+  const chainId = position.pool
+    ? parseChainScopedId(position.pool).chainId ?? (context ? Number(context.pool.chainId) : null)
+    : null;
+  const closed = BigInt(position.liquidity.split('.')[0] || '0') === BigInt(0);
+  const evaluation: PortfolioPosition = {
+    position,
+    chainId,
+    context,
+    closed,
+    inRange: false,
+    currentAmount0: null,
+    currentAmount1: null,
+    currentValueUSD: null,
+    collectedFeesUSD: null,
+    pnl: null,
+  };
+  if (!context) return evaluation;
+
+  const { pool, token0, token1 } = context;
+  const currentTick = Number(pool.tick);
+  evaluation.inRange = !closed && Number(position.tickLower) <= currentTick && currentTick < Number(position.tickUpper);
+  evaluation.collectedFeesUSD = toUSD(
+    context,
+    Number(position.collectedFeesToken0 || 0),
+    Number(position.collectedFeesToken1 || 0),
+  );
+
+  try {
+    const raw = getPositionTokenAmounts(
+      position.tickLower,
+      position.tickUpper,
+      pool.tick,
+      position.liquidity || '0',
+      pool.sqrtPrice,
+    );
+    evaluation.currentAmount0 = formatTokenUnits(raw.amount0, token0.decimals);
+    evaluation.currentAmount1 = formatTokenUnits(raw.amount1, token1.decimals);
+    evaluation.currentValueUSD = toUSD(
+      context,
+      toTokenAmount(raw.amount0, token0.decimals),
+      toTokenAmount(raw.amount1, token1.decimals),
+    );
+    evaluation.pnl = calculatePositionPnl(position, {
+      sqrtPriceX96: pool.sqrtPrice,
+      currentTick: pool.tick,
+      token0,
+      token1,
+      ethPriceUSD: context.ethPriceUSD,
+    });
+  } catch (e) {
+    console.error('ポジションの評価エラー:', e);
+  }
+
+  return evaluation;
+}
+
+/**
+ * ポートフォリオ全体の合計を計算する関数
+ *
+ * @param positions 評価済みのポジション
+ * @returns ポジション数と、USDの価値・手数料・損益の合計
+ */
+export function summarizePortfolio(positions: PortfolioPosition[]): PortfolioSummary {
+  return positions.reduce<PortfolioSummary>(
+    (summary, item) => {
+      const netPnlUSD = item.pnl?.netPnl.usd ?? null;
+      const priced = item.currentValueUSD !== null && netPnlUSD !== null;
+      return {
+        positionCount: summary.positionCount + 1,
+        openCount: summary.openCount + (item.closed ? 0 : 1),
+        inRangeCount: summary.inRangeCount + (item.inRange ? 1 : 0),
+        currentValueUSD: summary.currentValueUSD + (priced ? item.currentValueUSD! : 0),
+        collectedFeesUSD: summary.collectedFeesUSD + (priced ? item.collectedFeesUSD ?? 0 : 0),
+        netPnlUSD: summary.netPnlUSD + (priced ? netPnlUSD! : 0),
+        unpricedCount: summary.unpricedCount + (priced ? 0 : 1),
+      };
+    },
+    {
+      positionCount: 0,
+      openCount: 0,
+      inRangeCount: 0,
+      currentValueUSD: 0,
+      collectedFeesUSD: 0,
+      netPnlUSD: 0,
+      unpricedCount: 0,
+    },
+  );
+}
@@ -0,0 +1,315 @@
+import { LiquidityPosition, ModifyLiquidityEvent, SwapEvent } from '@/types';
+import { createProgressReporter, ProgressCallback } from './progressReporter';
+import { getSwapFeeRate, getSwapFeeRates } from './dynamicFees';
+
+/**
+ * 過去のスワップを再生して、各ポジションが得た手数料を推定する
+ *
+ * スワップごとに、直前のスワップ後のTickからこのスワップ後のTickまでの経路を価格が通過したとみなし、
+ * 経路上で各ポジションが提供していた流動性の割合（流動性 × 経路と重なる区間の幅）で手数料を按分する。
+ * 区間の幅は支払われたトークンの量に比例する値（token1なら√P、token0なら1/√Pの差）を使う。
+ *
+ * 流動性はスワップと同じ順に流動性変更イベントのliquidityDeltaを再生して、スワップ時点の値を使う。
+ * - 各ポジション: 現在の流動性から期間内の変化を差し引いた値を期間の開始時点とし、そこから積み上げる
+ * - 分母（範囲ごとの合計）: 期間中にクローズ・減少したポジションも含めるため、イベントに現れた範囲もすべて数える。
+ *   渡されたポジションに含まれない範囲は現在の流動性が分からないため、期間の開始を0として積み上げた値と比べて大きい方を使う
+ */
+
+/** 日別の手数料 */
+export interface PositionFeeTimelinePoint {
+  /** 日の始まりのUnix タイムスタンプ (秒単位) */
+  timestamp: number;
+  /** その日に得たtoken0の手数料 */
+  fees0: number;
+  /** その日に得たtoken1の手数料 */
+  fees1: number;
+  /** その日に得た手数料 (スワップ時点のUSD) */
+  feesUSD: number;
+  /** 期間の開始からの累計手数料 (USD) */
+  cumulativeFeesUSD: number;
+}
+
+/** ポジションごとの手数料の推定値 */
+export interface PositionFeeEstimate {
+  positionId: string;
+  /** 期間内に得たtoken0の手数料 */
+  fees0: number;
+  /** 期間内に得たtoken1の手数料 */
+  fees1: number;
+  /** 期間内に得た手数料 (スワップ時点のUSD) */
+  feesUSD: number;
+  /** 未回収の手数料（得た手数料 - 回収済みの手数料、0未満は0） */
+  uncollected0: number;
+  uncollected1: number;
+  /** ポジションの作成以降のスワップをすべて含む（falseの場合、未回収の手数料は参考値） */
+  coversFullHistory: boolean;
+  /** 日別の手数料 */
+  timeline: PositionFeeTimelinePoint[];
+}
+
+// 按分の計算用に数値へ変換したポジション
+interface FeePosition {
+  id: string;
+  tickLower: number;
+  tickUpper: number;
+  /** 再生中の時点の流動性 */
+  liquidity: number;
+  createdAt: number;
+  fees0: number;
+  fees1: number;
+  feesUSD: number;
+  daily: Map<number, PositionFeeTimelinePoint>;
+}
+
+// 範囲ごとの流動性の合計（按分の分母）
+interface RangeLiquidity {
+  tickLower: number;
+  tickUpper: number;
+  /** 現在の流動性から遡った値 */
+  fromCurrent: number;
+  /** 期間の開始を0として積み上げた値 */
+  fromStart: number;
+}
+
+// 再生する変化（スワップまたは流動性変更）
+interface FeeChange {
+  timestamp: number;
+  logIndex: number;
+  swap?: SwapEvent;
+  event?: ModifyLiquidityEvent;
+}
+
+const LOG_SQRT_BASE = Math.log(1.0001) / 2;
+
+// Tickでの√P（token1の量の変化に比例）
+function sqrtPriceAtTick(tick: number): number {
+  return Math.exp(tick * LOG_SQRT_BASE);
+}
+
+// 経路[lower, upper]の幅（支払ったトークンの量に比例する値）
+function pathWidth(lower: number, upper: number, token0In: boolean): number {
+  if (upper <= lower) return 0;
+  return token0In
+    ? 1 / sqrtPriceAtTick(lower) - 1 / sqrtPriceAtTick(upper)
+    : sqrtPriceAtTick(upper) - sqrtPriceAtTick(lower);
+}
+
+// 日の始まり（00:00:00）のタイムスタンプ
+function getDayStart(timestamp: number): number {
+  const date = new Date(timestamp * 1000);
+  return Math.floor(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / 1000);
+}
+
+function compareChanges(a: FeeChange, b: FeeChange): number {
+  return a.timestamp - b.timestamp || a.logIndex - b.logIndex;
+}
+
+const rangeKey = (tickLower: number | string, tickUpper: number | string) => `${tickLower}_${tickUpper}`;
+
+// 範囲の現在の流動性（どちらの値も実際の流動性以下になるため大きい方を使う）
+const rangeLiquidity = (range: RangeLiquidity) => Math.max(range.fromCurrent, range.fromStart, 0);
+
+/**
+ * スワップ手数料をポジションに按分する関数
+ *
+ * @param swapEvents 期間内のスワップイベント（順不同）
+ * @param positions 手数料を推定する流動性ポジション
+ * @param poolPositions 按分の分母に使うプールのすべてのアクティブなポジション（表示していないものも含める）
+ * @param liquidityEvents 期間内のプールの流動性変更イベント（順不同）
+ * @param feeTier プールの手数料率 (例: 3000 = 0.3%、動的手数料の場合はスワップごとに推定)
+ * @param startTimestamp 期間の開始タイムスタンプ（これより前に作成されたポジションは未回収額が参考値になる）
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
+ * @returns ポジションごとの手数料の推定値
+ */
+export function attributeFeesToPositions(
+  swapEvents: SwapEvent[],
+  positions: LiquidityPosition[],
+  poolPositions: LiquidityPosition[],
+  liquidityEvents: ModifyLiquidityEvent[],
+  feeTier: string,
+  startTimestamp: number,
+  progressCallback?: ProgressCallback,
+): PositionFeeEstimate[] {
+  const feeRates = getSwapFeeRates(swapEvents, feeTier);
+  const feePositions: FeePosition[] = positions
+    .map((position) => ({
+      id: position.id,
+      tickLower: Number(position.tickLower),
+      tickUpper: Number(position.tickUpper),
+      liquidity: Number(position.liquidity),
+      createdAt: Number(position.createdAtTimestamp || 0),
+      fees0: 0,
+      fees1: 0,
+      feesUSD: 0,
+      daily: new Map<number, PositionFeeTimelinePoint>(),
+    }))
+    .filter((position) => position.tickLower < position.tickUpper);
+
+  // 流動性変更イベントのポジションは、所有者（sender / origin）とTick範囲で判断する
+  const feePositionsById = new Map(feePositions.map((position) => [position.id, position]));
+  const positionsByKey = new Map<string, FeePosition>();
+  positions.forEach((position) => {
+    const feePosition = feePositionsById.get(position.id);
+    const key = `${position.owner.toLowerCase()}_${rangeKey(position.tickLower, position.tickUpper)}`;
+    if (feePosition) positionsByKey.set(key, feePosition);
+  });
+  const findPosition = (event: ModifyLiquidityEvent) => {
+    const range = rangeKey(event.tickLower, event.tickUpper);
+    return (
+      positionsByKey.get(`${event.sender.toLowerCase()}_${range}`) ||
+      (event.origin ? positionsByKey.get(`${event.origin.toLowerCase()}_${range}`) : undefined)
+    );
+  };
+
+  // 範囲ごとの現在の流動性
+  const ranges = new Map<string, RangeLiquidity>();
+  const getRange = (tickLower: number, tickUpper: number) => {
+    const key = rangeKey(tickLower, tickUpper);
+    let range = ranges.get(key);
+    if (!range) {
+      range = { tickLower, tickUpper, fromCurrent: 0, fromStart: 0 };
+      ranges.set(key, range);
+    }
+    return range;
+  };
+  // 推定対象のポジションが分母に含まれていない場合も数える（IDで重複を除く）
+  const denominatorPositions = new Map<string, { tickLower: number; tickUpper: number; liquidity: number }>();
+  [...poolPositions, ...positions].forEach((position) => {
+    denominatorPositions.set(position.id, {
+      tickLower: Number(position.tickLower),
+      tickUpper: Number(position.tickUpper),
+      liquidity: Number(position.liquidity),
+    });
+  });
+  denominatorPositions.forEach((position) => {
+    if (position.tickLower < position.tickUpper) {
+      getRange(position.tickLower, position.tickUpper).fromCurrent += position.liquidity;
+    }
+  });
+
+  const replayedEvents = liquidityEvents.filter(
+    (event) => event.liquidityDelta && Number(event.tickLower) < Number(event.tickUpper),
+  );
+
+  // 現在の流動性から期間内の変化を差し引いて、期間の開始時点の流動性に戻す
+  replayedEvents.forEach((event) => {
+    const delta = Number(event.liquidityDelta);
+    getRange(Number(event.tickLower), Number(event.tickUpper)).fromCurrent -= delta;
+    const position = findPosition(event);
+    if (position) position.liquidity -= delta;
+  });
+
+  const changes: FeeChange[] = [
+    ...swapEvents.map((swap) => ({ timestamp: Number(swap.timestamp), logIndex: Number(swap.logIndex || 0), swap })),
+    ...replayedEvents.map((event) => ({
+      timestamp: Number(event.timestamp),
+      logIndex: Number(event.logIndex || 0),
+      event,
+    })),
+  ].sort(compareChanges);
+  const reportProgress = createProgressReporter(changes.length, progressCallback, '手数料をポジションに按分中');
+  let previousTick: number | null = null;
+
+  changes.forEach((change, index) => {
+    reportProgress(index + 1);
+
+    if (change.event) {
+      const delta = Number(change.event.liquidityDelta);
+      const range = getRange(Number(change.event.tickLower), Number(change.event.tickUpper));
+      range.fromCurrent += delta;
+      range.fromStart += delta;
+      const position = findPosition(change.event);
+      if (position) position.liquidity += delta;
+      return;
+    }
+
+    const swap = change.swap!;
+    const tick = Number(swap.tick);
+    if (swap.tick === undefined || isNaN(tick)) return;
+
+    const fromTick: number = previousTick ?? tick;
+    previousTick = tick;
+
+    const amount0 = Number(swap.amount0 || 0);
+    const amount1 = Number(swap.amount1 || 0);
+    // 正の量がプールに支払われた側（手数料はその量に対してかかる）
+    const token0In = amount0 > 0;
+    const feeRate = getSwapFeeRate(feeRates, swap);
+    const feeAmount = (token0In ? amount0 : amount1) * feeRate;
+    const feeUSD = Number(swap.amountUSD || 0) * feeRate;
+    if (!(feeAmount > 0)) return;
+
+    const timestamp = change.timestamp;
+    const lower = Math.min(fromTick, tick);
+    const upper = Math.max(fromTick, tick);
+
+    // 経路と重なる区間の幅で重み付けし、経路がない（Tickが変わらない）場合は現在のTickで有効な流動性で按分
+    const weightOf = (liquidity: number, tickLower: number, tickUpper: number) =>
+      lower === upper
+        ? tickLower <= tick && tick < tickUpper
+          ? liquidity
+          : 0
+        : liquidity * pathWidth(Math.max(lower, tickLower), Math.min(upper, tickUpper), token0In);
+
+    let totalWeight = 0;
+    ranges.forEach((range) => {
+      const liquidity = rangeLiquidity(range);
+      if (liquidity > 0) totalWeight += weightOf(liquidity, range.tickLower, range.tickUpper);
+    });
+    if (!(totalWeight > 0)) return;
+
+    const weights: [FeePosition, number][] = [];
+    feePositions.forEach((position) => {
+      if (position.createdAt > timestamp || position.liquidity <= 0) return;
+      const weight = weightOf(position.liquidity, position.tickLower, position.tickUpper);
+      if (weight > 0) weights.push([position, weight]);
+    });
+
+    const dayStart = getDayStart(timestamp);
+    weights.forEach(([position, weight]) => {
+      const share = weight / totalWeight;
+      const fees0 = token0In ? feeAmount * share : 0;
+      const fees1 = token0In ? 0 : feeAmount * share;
+
+      position.fees0 += fees0;
+      position.fees1 += fees1;
+      position.feesUSD += feeUSD * share;
+
+      const day = position.daily.get(dayStart) || {
+        timestamp: dayStart,
+        fees0: 0,
+        fees1: 0,
+        feesUSD: 0,
+        cumulativeFeesUSD: 0,
+      };
+      day.fees0 += fees0;
+      day.fees1 += fees1;
+      day.feesUSD += feeUSD * share;
+      position.daily.set(dayStart, day);
+    });
+  });
+
+  const positionsById = new Map(positions.map((position) => [position.id, position]));
+
+  return feePositions.map((position) => {
+    const source = positionsById.get(position.id)!;
+    let cumulativeFeesUSD = 0;
+    const timeline = Array.from(position.daily.values())
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((day) => {
+        cumulativeFeesUSD += day.feesUSD;
+        return { ...day, cumulativeFeesUSD };
+      });
+
+    return {
+      positionId: position.id,
+      fees0: position.fees0,
+      fees1: position.fees1,
+      feesUSD: position.feesUSD,
+      uncollected0: Math.max(0, position.fees0 - Number(source.collectedFeesToken0 || 0)),
+      uncollected1: Math.max(0, position.fees1 - Number(source.collectedFeesToken1 || 0)),
+      coversFullHistory: position.createdAt >= startTimestamp,
+      timeline,
+    };
+  });
+}
@@ -0,0 +1,317 @@
+import { LiquidityPosition, ModifyLiquidityEvent, SwapEvent } from '@/types';
+import { parseChainScopedId } from './indexerRegistry';
+import { TokenPair } from './positionPnl';
+
+/**
+ * 1つのポジションの履歴（流動性の変更とプールの価格の推移）を再生する
+ *
+ * - 流動性: ポジションに一致する流動性変更イベントのliquidityDeltaを積み上げる（イベントが無い場合は現在の流動性のまま）
+ * - 価格: スワップ後のsqrtPriceX96とTick。最初のスワップより前は最初のスワップの価格、スワップが無い場合は現在の価格とみなす
+ * - 価値: その時点の流動性・範囲・価格から計算した保有量をtoken1建てで評価し、スワップの金額から求めたUSD価格で換算
+ * - 純預入量: それまでに預け入れた量から引き出した量を除いたトークンを、その時点の価格で評価した値（HODLとの比較用）
+ * - 範囲内の時間: 流動性がある間のうち、Tickが範囲内だった時間
+ *
+ * スワップを途中までしか取得できなかった場合は、最後に取得したスワップの時点で再生を止める
+ * （それ以降の価格が分からないため、現在までの時間を古いTickのまま数えない）
+ */
+
+/** 履歴の点（1時間ごと、流動性変更イベントの時点は必ず残す） */
+export interface PositionHistoryPoint {
+  timestamp: number;
+  /** token0 1単位あたりのtoken1の価格（デシマル考慮済み） */
+  price: number;
+  /** ポジションの流動性 */
+  liquidity: number;
+  inRange: boolean;
+  /** ポジションの価値（token1建て） */
+  value1: number;
+  /** ポジションの価値（USD、USD価格が分からない場合はnull） */
+  valueUSD: number | null;
+  /** 純預入量の価値（token1建て） */
+  netDeposit1: number;
+  /** 純預入量の価値（USD、USD価格が分からない場合はnull） */
+  netDepositUSD: number | null;
+  /** この時点の流動性変更（add: 追加、remove: 削除） */
+  event: 'add' | 'remove' | null;
+}
+
+export interface PositionHistory {
+  points: PositionHistoryPoint[];
+  startTimestamp: number;
+  endTimestamp: number;
+  /** 流動性があった時間（秒） */
+  activeSeconds: number;
+  /** 流動性があり、範囲内だった時間（秒） */
+  inRangeSeconds: number;
+  /** 流動性があった時間のうち範囲内だった割合（%、流動性があった時間が無い場合はnull） */
+  timeInRangePercent: number | null;
+  /** イベントから集計した預け入れた量（デシマル考慮済み） */
+  deposited: TokenPair;
+  /** イベントから集計した引き出した量（デシマル考慮済み） */
+  withdrawn: TokenPair;
+  /** 価格の推移にスワップを使えたか（falseの場合は現在の価格のみ） */
+  hasPriceHistory: boolean;
+  /** スワップを途中までしか取得できず、endTimestampで再生を止めたか */
+  truncated: boolean;
+}
+
+export interface PositionHistoryContext {
+  decimals0: string | number;
+  decimals1: string | number;
+  /** プールの現在の価格（Q64.96） */
+  currentSqrtPriceX96: string;
+  /** プールの現在のTick */
+  currentTick: string | number;
+  /** 履歴の終わり（Unix タイムスタンプ、秒） */
+  endTimestamp: number;
+  /** スワップからUSD価格が分からない場合に使うtoken1のUSD価格 */
+  fallbackUSDPerToken1?: number;
+  /** スワップを最後まで取得できたか（falseの場合は最後のスワップの時点で止める） */
+  swapsComplete?: boolean;
+}
+
+/** ポジションIDを分解したもの */
+export interface ParsedPositionId {
+  poolId: string;
+  chainId: number | null;
+  owner: string;
+  tickLower: number;
+  tickUpper: number;
+}
+
+const Q96 = 2 ** 96;
+const HOUR = 60 * 60;
+
+// IDは `プールID_所有者_tickLower_tickUpper`（プールIDはチェーンIDの接頭辞付きの場合がある）
+const POSITION_ID_PATTERN = /^(?:(\d+)_)?(0x[0-9a-fA-F]+)_(0x[0-9a-fA-F]+)_(-?\d+)_(-?\d+)$/;
+
+/**
+ * ポジションIDを分解する関数
+ *
+ * @param positionId LiquidityPositionのID
+ * @returns プールID・チェーンID・所有者・Tick範囲（形式が違う場合はnull）
+ */
+export function parsePositionId(positionId: string): ParsedPositionId | null {
+  const match = POSITION_ID_PATTERN.exec(positionId);
+  if (!match) return null;
+  const poolId = match[1] ? `${match[1]}_${match[2]}` : match[2];
+  return {
+    poolId,
+    chainId: parseChainScopedId(poolId).chainId,
+    owner: match[3].toLowerCase(),
+    tickLower: Number(match[4]),
+    tickUpper: Number(match[5]),
+  };
+}
+
+/** 取得したスワップを履歴の再生に必要な分だけに間引くもの */
+export interface SwapSampler {
+  /** 古い順のスワップのバッチを追加する */
+  add: (swaps: SwapEvent[]) => void;
+  /** 間引いた後のスワップ（古い順） */
+  swaps: () => SwapEvent[];
+}
+
+/**
+ * スワップを間引きながら溜める関数
+ * 1時間ごとの最後のスワップと、ポジションの範囲の内外が切り替わったスワップだけを残すため、
+ * 大量のスワップを取得してもメモリを使わず、範囲内の時間は間引く前と同じになる
+ *
+ * @param tickLower ポジションのTick下限
+ * @param tickUpper ポジションのTick上限
+ * @returns バッチごとに追加するためのサンプラー
+ */
+export function createSwapSampler(tickLower: string | number, tickUpper: string | number): SwapSampler {
+  const lower = Number(tickLower);
+  const upper = Number(tickUpper);
+  const sampled: SwapEvent[] = [];
+  let lastInRange: boolean | null = null;
+  // 最後に残したスワップが範囲の切り替わりの時点か（上書きしない）
+  let lastPinned = false;
+
+  const add = (swaps: SwapEvent[]) => {
+    swaps.forEach((swap) => {
+      // 価格の無いスワップは再生でも使わない
+      if (!swap.sqrtPriceX96 || !(Number(swap.sqrtPriceX96) > 0)) return;
+      const inRange = swap.tick === undefined ? lastInRange : lower <= Number(swap.tick) && Number(swap.tick) < upper;
+      const changed = inRange !== lastInRange;
+      lastInRange = inRange;
+
+      const last = sampled[sampled.length - 1];
+      const sameHour = last && Math.floor(Number(last.timestamp) / HOUR) === Math.floor(Number(swap.timestamp) / HOUR);
+      if (last && sameHour && !changed && !lastPinned) {
+        sampled[sampled.length - 1] = swap;
+      } else {
+        sampled.push(swap);
+        lastPinned = changed;
+      }
+    });
+  };
+
+  return { add, swaps: () => sampled };
+}
+
+interface HistoryChange {
+  timestamp: number;
+  logIndex: number;
+  swap?: SwapEvent;
+  event?: ModifyLiquidityEvent;
+}
+
+function compareChanges(a: HistoryChange, b: HistoryChange): number {
+  return a.timestamp - b.timestamp || a.logIndex - b.logIndex;
+}
+
+/**
+ * ポジションの履歴を再生する関数
+ *
+ * @param position 流動性ポジション
+ * @param events ポジションに一致する流動性変更イベント（順不同）
+ * @param swapEvents ポジションの作成以降のプールのスワップイベント（順不同）
+ * @param context トークンのデシマルとプールの現在の状態
+ * @returns 価格・流動性・価値の推移と、範囲内の時間
+ */
+export function buildPositionHistory(
+  position: LiquidityPosition,
+  events: ModifyLiquidityEvent[],
+  swapEvents: SwapEvent[],
+  context: PositionHistoryContext,
+): PositionHistory {
+  const tickLower = Number(position.tickLower);
+  const tickUpper = Number(position.tickUpper);
+  const decimalsScale = 10 ** (Number(context.decimals0) - Number(context.decimals1));
+  const sqrtLower = Math.pow(1.0001, tickLower / 2);
+  const sqrtUpper = Math.pow(1.0001, tickUpper / 2);
+
+  const changes: HistoryChange[] = [
+    ...events.map((event) => ({
+      timestamp: Number(event.timestamp),
+      logIndex: Number(event.logIndex || 0),
+      event,
+    })),
+    ...swapEvents
+      .filter((swap) => swap.sqrtPriceX96 && Number(swap.sqrtPriceX96) > 0)
+      .map((swap) => ({ timestamp: Number(swap.timestamp), logIndex: Number(swap.logIndex || 0), swap })),
+  ].sort(compareChanges);
+
+  const lastSwapTimestamp = swapEvents.reduce((latest, swap) => Math.max(latest, Number(swap.timestamp)), 0);
+  const truncated = context.swapsComplete === false && lastSwapTimestamp > 0;
+  const endTimestamp = truncated ? Math.min(context.endTimestamp, lastSwapTimestamp) : context.endTimestamp;
+
+  const firstEventTimestamp = changes.find((change) => change.event)?.timestamp;
+  const startTimestamp = Math.min(
+    firstEventTimestamp ?? Number(position.createdAtTimestamp || endTimestamp),
+    endTimestamp,
+  );
+  const firstSwap = changes.find((change) => change.swap && change.timestamp >= startTimestamp)?.swap;
+
+  // 生のsqrtPrice（Q96で割った値）とTick
+  let sqrtPrice = Number(firstSwap?.sqrtPriceX96 ?? context.currentSqrtPriceX96) / Q96;
+  let tick = Number(firstSwap?.tick ?? context.currentTick);
+  let usdPerToken1: number | null = context.fallbackUSDPerToken1 || null;
+  // イベントが無い場合は作成時から現在の流動性と、ポジションに記録された預け入れ・引き出しの量のままとみなす
+  const hasEvents = events.length > 0;
+  let liquidity = hasEvents ? 0 : Number(position.liquidity);
+  const deposited = hasEvents
+    ? { amount0: 0, amount1: 0 }
+    : { amount0: Number(position.depositedToken0 || 0), amount1: Number(position.depositedToken1 || 0) };
+  const withdrawn = hasEvents
+    ? { amount0: 0, amount1: 0 }
+    : { amount0: Number(position.withdrawnToken0 || 0), amount1: Number(position.withdrawnToken1 || 0) };
+  let activeSeconds = 0;
+  let inRangeSeconds = 0;
+  const points: PositionHistoryPoint[] = [];
+
+  const isInRange = () => tickLower <= tick && tick < tickUpper;
+
+  const record = (timestamp: number, event: PositionHistoryPoint['event']) => {
+    const price = sqrtPrice * sqrtPrice * decimalsScale;
+    const clamped = Math.min(Math.max(sqrtPrice, sqrtLower), sqrtUpper);
+    const amount0 = (liquidity * (1 / clamped - 1 / sqrtUpper)) / 10 ** Number(context.decimals0);
+    const amount1 = (liquidity * (clamped - sqrtLower)) / 10 ** Number(context.decimals1);
+    const value1 = amount0 * price + amount1;
+    const netDeposit1 = (deposited.amount0 - withdrawn.amount0) * price + (deposited.amount1 - withdrawn.amount1);
+    const point: PositionHistoryPoint = {
+      timestamp,
+      price,
+      liquidity,
+      inRange: isInRange(),
+      value1,
+      valueUSD: usdPerToken1 === null ? null : value1 * usdPerToken1,
+      netDeposit1,
+      netDepositUSD: usdPerToken1 === null ? null : netDeposit1 * usdPerToken1,
+      event,
+    };
+
+    // 1時間ごとに最後の状態を残す（流動性変更の時点は上書きしない）
+    const last = points[points.length - 1];
+    if (last && !last.event && Math.floor(last.timestamp / HOUR) === Math.floor(timestamp / HOUR)) {
+      points[points.length - 1] = point;
+    } else {
+      points.push(point);
+    }
+  };
+
+  let previousTimestamp = startTimestamp;
+  const advance = (timestamp: number) => {
+    const elapsed = Math.max(0, timestamp - previousTimestamp);
+    if (liquidity > 0) {
+      activeSeconds += elapsed;
+      if (isInRange()) inRangeSeconds += elapsed;
+    }
+    previousTimestamp = Math.max(previousTimestamp, timestamp);
+  };
+
+  record(startTimestamp, null);
+
+  changes.forEach((change) => {
+    if (change.timestamp < startTimestamp || change.timestamp > endTimestamp) return;
+    advance(change.timestamp);
+
+    if (change.swap) {
+      const amountUSD = Number(change.swap.amountUSD);
+      const amount1 = Math.abs(Number(change.swap.amount1));
+      if (amountUSD > 0 && amount1 > 0) usdPerToken1 = amountUSD / amount1;
+      sqrtPrice = Number(change.swap.sqrtPriceX96) / Q96;
+      if (change.swap.tick !== undefined) tick = Number(change.swap.tick);
+      record(change.timestamp, null);
+      return;
+    }
+
+    const event = change.event!;
+    const amount0 = Number(event.amount0 || 0);
+    const amount1 = Number(event.amount1 || 0);
+    const isAdd = event.liquidityDelta ? Number(event.liquidityDelta) > 0 : amount0 > 0 || amount1 > 0;
+    // 追加の量は正、削除の量は負で記録されている
+    if (isAdd) {
+      deposited.amount0 += Math.abs(amount0);
+      deposited.amount1 += Math.abs(amount1);
+    } else {
+      withdrawn.amount0 += Math.abs(amount0);
+      withdrawn.amount1 += Math.abs(amount1);
+    }
+    liquidity = Math.max(0, liquidity + Number(event.liquidityDelta || 0));
+    record(change.timestamp, isAdd ? 'add' : 'remove');
+  });
+
+  // 最後は現在のプールの状態で締める（途中で止めた場合は最後のスワップの状態のまま）
+  advance(endTimestamp);
+  if (!truncated) {
+    sqrtPrice = Number(context.currentSqrtPriceX96) / Q96;
+    tick = Number(context.currentTick);
+  }
+  record(Math.max(endTimestamp, previousTimestamp), null);
+
+  return {
+    points,
+    startTimestamp,
+    endTimestamp: points[points.length - 1].timestamp,
+    activeSeconds,
+    inRangeSeconds,
+    timeInRangePercent: activeSeconds > 0 ? (inRangeSeconds / activeSeconds) * 100 : null,
+    deposited,
+    withdrawn,
+    hasPriceHistory: Boolean(firstSwap),
+    truncated,
+  };
+}
@@ -0,0 +1,145 @@
+import { TickMath } from '@/utils/liquidityMath/tickMath';
+import {
+  getAmount0,
+  getAmount1,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+} from '@/utils/liquidityMath/liquidityAmounts';
+import { DailyFeeData } from './feesProcessor';
+
+/**
+ * 仮想のポジションの計算（ポジションを作る前の試算）
+ *
+ * 価格範囲と片方のトークンの預け入れ量から、もう片方のトークンの必要量と流動性を求め（LiquidityAmounts.sol）、
+ * 現在のTickで有効な流動性に対する割合から、最近の日別手数料をもとに手数料APRを推定する。
+ * APRは価格が範囲内にとどまり、プールの流動性と手数料が最近と同じまま続くとみなした値。
+ */
+
+/** 計算に使うプールの状態 */
+export interface PlannerPoolState {
+  sqrtPriceX96: string | bigint;
+  tick: string | number;
+  /** 現在のTickで有効な流動性 */
+  liquidity: string | bigint;
+}
+
+export interface PositionPlan {
+  tickLower: number;
+  tickUpper: number;
+  /** 必要なtoken0の量（最小単位、切り上げ） */
+  amount0: bigint;
+  /** 必要なtoken1の量（最小単位、切り上げ） */
+  amount1: bigint;
+  /** ポジションの流動性 */
+  liquidity: bigint;
+  /** 現在の価格が範囲内かどうか */
+  inRange: boolean;
+  /** 追加後に現在のTickで有効な流動性のうち、このポジションの割合（0〜1、範囲外の場合は0） */
+  activeLiquidityShare: number;
+}
+
+const DAY = 24 * 60 * 60;
+
+// GraphQLのBigInt（文字列）をbigintに変換
+function toBigInt(value: string | bigint): bigint {
+  if (typeof value === 'bigint') return value;
+  const [integerPart] = value.trim().split('.');
+  return BigInt(integerPart || '0');
+}
+
+/**
+ * 価格範囲と片方のトークンの預け入れ量から、ポジションを計算する関数
+ *
+ * @param pool プールの現在の状態
+ * @param tickLower 範囲の下限のTick
+ * @param tickUpper 範囲の上限のTick
+ * @param depositToken 量を指定するトークン（0または1）
+ * @param amount 預け入れる量（最小単位）
+ * @returns ポジションの計算結果
+ */
+export function planPosition(
+  pool: PlannerPoolState,
+  tickLower: number,
+  tickUpper: number,
+  depositToken: 0 | 1,
+  amount: bigint,
+): PositionPlan {
+  if (tickLower >= tickUpper) throw new Error('範囲の上限は下限より大きくしてください');
+  if (amount <= BigInt(0)) throw new Error('預け入れる量は0より大きくしてください');
+
+  const sqrtPriceX96 = toBigInt(pool.sqrtPriceX96);
+  const currentTick = BigInt(pool.tick);
+  const lower = BigInt(tickLower);
+  const upper = BigInt(tickUpper);
+  const sqrtRatioA = TickMath.getSqrtRatioAtTick(lower);
+  const sqrtRatioB = TickMath.getSqrtRatioAtTick(upper);
+
+  // LiquidityAmounts.getLiquidityForAmountsと同じく、Tickではなく価格で判断する
+  // （価格がちょうど下限にある場合、Tickは範囲内でもtoken1は預け入れられない）
+  let liquidity: bigint;
+  if (depositToken === 0) {
+    // 現在の価格が範囲の上限以上の場合、ポジションはtoken1のみになる
+    if (sqrtPriceX96 >= sqrtRatioB) throw new Error('現在の価格が範囲の上限以上のため、token1のみ預け入れられます');
+    const from = sqrtPriceX96 <= sqrtRatioA ? sqrtRatioA : sqrtPriceX96;
+    liquidity = getLiquidityForAmount0(from, sqrtRatioB, amount);
+  } else {
+    // 現在の価格が範囲の下限以下の場合、ポジションはtoken0のみになる
+    if (sqrtPriceX96 <= sqrtRatioA) throw new Error('現在の価格が範囲の下限以下のため、token0のみ預け入れられます');
+    const to = sqrtPriceX96 >= sqrtRatioB ? sqrtRatioB : sqrtPriceX96;
+    liquidity = getLiquidityForAmount1(sqrtRatioA, to, amount);
+  }
+
+  const inRange = currentTick >= lower && currentTick < upper;
+  const activeLiquidity = toBigInt(pool.liquidity);
+  const activeLiquidityShare =
+    inRange && liquidity > BigInt(0) ? Number(liquidity) / (Number(activeLiquidity) + Number(liquidity)) : 0;
+
+  return {
+    tickLower,
+    tickUpper,
+    // 預け入れ（mint）で必要な量のため切り上げる
+    amount0: getAmount0(lower, upper, currentTick, liquidity, sqrtPriceX96, true),
+    amount1: getAmount1(lower, upper, currentTick, liquidity, sqrtPriceX96, true),
+    liquidity,
+    inRange,
+    activeLiquidityShare,
+  };
+}
+
+/**
+ * 最近の1日あたりの手数料（USD）の平均を求める関数
+ * 最後にスワップがあった日から遡ってdays日間の手数料を合計し、日数で割る（スワップが無い日は0として数える）
+ *
+ * @param dailyFees calculateDailyFeesの結果
+ * @param days 平均する日数
+ * @returns 1日あたりの手数料（データが無い場合はnull）
+ */
+export function getRecentAverageDailyFees(dailyFees: DailyFeeData[], days = 7): number | null {
+  if (dailyFees.length === 0) return null;
+
+  const lastDay = dailyFees[dailyFees.length - 1].timestamp;
+  const firstDay = Math.max(lastDay - (days - 1) * DAY, dailyFees[0].timestamp);
+  const total = dailyFees
+    .filter((day) => day.timestamp >= firstDay)
+    .reduce((sum, day) => sum + day.feeUSD, 0);
+  // データの期間がdaysより短い場合は、データのある期間で平均する
+  const coveredDays = Math.round((lastDay - firstDay) / DAY) + 1;
+  return total / coveredDays;
+}
+
+/**
+ * ポジションの手数料APRを推定する関数
+ *
+ * @param averageDailyFeesUSD プール全体の1日あたりの手数料（USD）
+ * @param activeLiquidityShare 有効な流動性のうちポジションの割合
+ * @param positionValueUSD ポジションの価値（USD）
+ * @returns APR（%、推定できない場合はnull）
+ */
+export function estimateFeeApr(
+  averageDailyFeesUSD: number | null,
+  activeLiquidityShare: number,
+  positionValueUSD: number | null,
+): number | null {
+  if (averageDailyFeesUSD === null || positionValueUSD === null || !(positionValueUSD > 0)) return null;
+  return ((averageDailyFeesUSD * activeLiquidityShare * 365) / positionValueUSD) * 100;
+}
@@ -0,0 +1,165 @@
+import { LiquidityPosition } from '@/types';
+import { getPositionTokenAmounts, sqrtPriceX96ToPrice, toTokenAmount } from './liquidityMath';
+import { PositionFeeEstimate } from './positionFees';
+
+/**
+ * LPポジションの損益を、預け入れたトークンをそのまま保有していた場合（HODL）と比較して計算する
+ *
+ * - ポジションの価値 = 現在の保有量 + 引き出した量（手数料を除く）
+ * - HODLの価値 = 預け入れた量を現在の価格で評価した値
+ * - インパーマネントロス = ポジションの価値 - HODLの価値
+ * - 手数料収入 = 回収済みの手数料 + 未回収の手数料（スワップからの推定値）
+ * - 純損益 = インパーマネントロス + 手数料収入
+ *
+ * 価値はすべて現在のプール価格でtoken0建て・token1建てに換算し、USDはトークンの現在のUSD価格で換算する
+ */
+
+/** トークンの量の組（デシマル考慮済み） */
+export interface TokenPair {
+  amount0: number;
+  amount1: number;
+}
+
+/** 同じ価値をtoken0建て・token1建て・USDで表したもの */
+export interface PnlValue {
+  /** token0建ての価値 */
+  inToken0: number;
+  /** token1建ての価値 */
+  inToken1: number;
+  /** USDの価値（トークンのUSD価格がない場合はnull） */
+  usd: number | null;
+}
+
+export interface PositionPnl {
+  /** 預け入れた量 */
+  deposited: TokenPair;
+  /** 現在の保有量（TickMathによる厳密な計算） */
+  current: TokenPair;
+  /** 引き出した量（手数料を除く） */
+  withdrawn: TokenPair;
+  /** 回収済みの手数料 */
+  collectedFees: TokenPair;
+  /** 未回収の手数料（推定値、推定していない場合は0） */
+  uncollectedFees: TokenPair;
+  /** 現在の保有量 + 引き出した量 */
+  positionValue: PnlValue;
+  /** 預け入れた量をそのまま保有していた場合の価値 */
+  hodlValue: PnlValue;
+  /** インパーマネントロス（負の値が損失） */
+  impermanentLoss: PnlValue;
+  /** HODLの価値に対するインパーマネントロスの割合（%） */
+  impermanentLossPercent: number;
+  /** 手数料収入 */
+  feeIncome: PnlValue;
+  /** HODLと比べた純損益 */
+  netPnl: PnlValue;
+  /** HODLの価値に対する純損益の割合（%） */
+  netPnlPercent: number;
+  /** 未回収の手数料の推定値を含むかどうか */
+  includesEstimatedFees: boolean;
+}
+
+export interface PositionPnlContext {
+  /** プールの現在の価格（Q64.96） */
+  sqrtPriceX96: string | bigint;
+  /** プールの現在のTick */
+  currentTick: string | number;
+  token0: { decimals: string | number; derivedETH?: string };
+  token1: { decimals: string | number; derivedETH?: string };
+  /** ETHのUSD価格 */
+  ethPriceUSD?: string | number;
+  /** スワップから推定した手数料（省略時は回収済みの手数料のみ） */
+  feeEstimate?: PositionFeeEstimate;
+}
+
+function sumPairs(...pairs: TokenPair[]): TokenPair {
+  return pairs.reduce((sum, pair) => ({ amount0: sum.amount0 + pair.amount0, amount1: sum.amount1 + pair.amount1 }), {
+    amount0: 0,
+    amount1: 0,
+  });
+}
+
+function percentOf(value: number, base: number): number {
+  return base === 0 ? 0 : (value / base) * 100;
+}
+
+/**
+ * ポジションの損益を計算する関数
+ *
+ * @param position 流動性ポジション
+ * @param context プールの現在の状態・トークン価格・手数料の推定値
+ * @returns HODLとの比較・インパーマネントロス・手数料収入・純損益
+ */
+export function calculatePositionPnl(position: LiquidityPosition, context: PositionPnlContext): PositionPnl {
+  const { token0, token1, feeEstimate } = context;
+
+  // token0 1単位あたりのtoken1（デシマル考慮済み）
+  const price = sqrtPriceX96ToPrice(context.sqrtPriceX96, token0.decimals, token1.decimals);
+  const ethPriceUSD = Number(context.ethPriceUSD || 0);
+  const price0USD = Number(token0.derivedETH || 0) * ethPriceUSD;
+  const price1USD = Number(token1.derivedETH || 0) * ethPriceUSD;
+  const hasUSDPrice = price0USD > 0 || price1USD > 0;
+
+  const toValue = ({ amount0, amount1 }: TokenPair): PnlValue => {
+    const inToken1 = amount0 * price + amount1;
+    return {
+      inToken0: price === 0 ? 0 : inToken1 / price,
+      inToken1,
+      usd: hasUSDPrice ? amount0 * price0USD + amount1 * price1USD : null,
+    };
+  };
+  const difference = (a: PnlValue, b: PnlValue): PnlValue => ({
+    inToken0: a.inToken0 - b.inToken0,
+    inToken1: a.inToken1 - b.inToken1,
+    usd: a.usd === null || b.usd === null ? null : a.usd - b.usd,
+  });
+
+  const rawAmounts = getPositionTokenAmounts(
+    position.tickLower,
+    position.tickUpper,
+    context.currentTick,
+    position.liquidity || '0',
+    context.sqrtPriceX96,
+  );
+
+  const deposited = { amount0: Number(position.depositedToken0 || 0), amount1: Number(position.depositedToken1 || 0) };
+  const current = {
+    amount0: toTokenAmount(rawAmounts.amount0, token0.decimals),
+    amount1: toTokenAmount(rawAmounts.amount1, token1.decimals),
+  };
+  const withdrawn = { amount0: Number(position.withdrawnToken0 || 0), amount1: Number(position.withdrawnToken1 || 0) };
+  const collectedFees = {
+    amount0: Number(position.collectedFeesToken0 || 0),
+    amount1: Number(position.collectedFeesToken1 || 0),
+  };
+  const uncollectedFees = {
+    amount0: feeEstimate?.uncollected0 || 0,
+    amount1: feeEstimate?.uncollected1 || 0,
+  };
+
+  const positionValue = toValue(sumPairs(current, withdrawn));
+  const hodlValue = toValue(deposited);
+  const feeIncome = toValue(sumPairs(collectedFees, uncollectedFees));
+  const impermanentLoss = difference(positionValue, hodlValue);
+  const netPnl = {
+    inToken0: impermanentLoss.inToken0 + feeIncome.inToken0,
+    inToken1: impermanentLoss.inToken1 + feeIncome.inToken1,
+    usd: impermanentLoss.usd === null || feeIncome.usd === null ? null : impermanentLoss.usd + feeIncome.usd,
+  };
+
+  return {
+    deposited,
+    current,
+    withdrawn,
+    collectedFees,
+    uncollectedFees,
+    positionValue,
+    hodlValue,
+    impermanentLoss,
+    impermanentLossPercent: percentOf(impermanentLoss.inToken1, hodlValue.inToken1),
+    feeIncome,
+    netPnl,
+    netPnlPercent: percentOf(netPnl.inToken1, hodlValue.inToken1),
+    includesEstimatedFees: Boolean(feeEstimate),
+  };
+}
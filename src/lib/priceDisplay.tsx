@@ -0,0 +1,135 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { sqrtPriceX96ToPrice, tickToPrice } from './liquidityMath';
+
+/**
+ * 価格表示の共通処理
+ * トークンのデシマルを考慮した価格に変換し、表示する向き（token0建て / token1建て）をページ全体で切り替えられるようにする
+ */
+
+export interface PriceToken {
+  symbol: string;
+  decimals: string | number;
+}
+
+export interface PriceFormatter {
+  /** trueの場合はtoken1 1単位あたりのtoken0で表示 */
+  inverted: boolean;
+  /** 価格の基準となるトークン（1単位あたりの価格を表示する側） */
+  baseSymbol: string;
+  /** 価格を表すトークン */
+  quoteSymbol: string;
+  /** 価格の単位（例: USDC/WETH） */
+  unitLabel: string;
+  /** Tickから表示用の価格を計算する */
+  fromTick: (tick: number | string) => number;
+  /** sqrtPriceX96から表示用の価格を計算する */
+  fromSqrtPriceX96: (sqrtPriceX96: number | string | bigint) => number;
+  /** token0 1単位あたりのtoken1の価格（デシマル考慮済み）を表示の向きに変換する */
+  fromPrice0: (price: number) => number;
+  /** 価格を文字列に変換する（単位なし） */
+  format: (price: number) => string;
+  /** Tickを単位付きの価格の文字列に変換する */
+  formatTick: (tick: number | string) => string;
+  /** Tickの範囲を価格の範囲（安い順）に変換する */
+  formatTickRange: (tickLower: number | string, tickUpper: number | string) => [string, string];
+}
+
+/**
+ * 価格を有効数字6桁程度で表示用の文字列に変換する関数
+ * 極端に大きい・小さい価格は指数表記にする
+ */
+export function formatPriceValue(price: number): string {
+  if (!Number.isFinite(price)) return '∞';
+  if (price === 0) return '0';
+
+  const abs = Math.abs(price);
+  if (abs >= 1e15 || abs < 1e-8) return price.toExponential(4);
+  return price.toLocaleString('en-US', { maximumSignificantDigits: 6 });
+}
+
+/**
+ * 価格表示用の関数をまとめて作成する
+ *
+ * @param token0 token0のシンボルとデシマル
+ * @param token1 token1のシンボルとデシマル
+ * @param inverted trueの場合はtoken1 1単位あたりのtoken0で表示
+ */
+export function createPriceFormatter(token0: PriceToken, token1: PriceToken, inverted = false): PriceFormatter {
+  const decimals0 = Number(token0.decimals || 0);
+  const decimals1 = Number(token1.decimals || 0);
+  const baseSymbol = inverted ? token1.symbol : token0.symbol;
+  const quoteSymbol = inverted ? token0.symbol : token1.symbol;
+  const unitLabel = `${quoteSymbol}/${baseSymbol}`;
+
+  const fromTick = (tick: number | string) => tickToPrice(Number(tick), decimals0, decimals1, inverted);
+
+  return {
+    inverted,
+    baseSymbol,
+    quoteSymbol,
+    unitLabel,
+    fromTick,
+    fromSqrtPriceX96: (sqrtPriceX96) => sqrtPriceX96ToPrice(sqrtPriceX96, decimals0, decimals1, inverted),
+    fromPrice0: (price) => (inverted ? (price === 0 ? Infinity : 1 / price) : price),
+    format: formatPriceValue,
+    formatTick: (tick) => `${formatPriceValue(fromTick(tick))} ${unitLabel}`,
+    // 逆向きの表示では上限Tickの方が安い価格になる
+    formatTickRange: (tickLower, tickUpper) => {
+      const lower = formatPriceValue(fromTick(inverted ? tickUpper : tickLower));
+      const upper = formatPriceValue(fromTick(inverted ? tickLower : tickUpper));
+      return [lower, upper];
+    },
+  };
+}
+
+interface PriceDisplayContextValue {
+  formatter: PriceFormatter;
+  toggleInverted: () => void;
+}
+
+const PriceDisplayContext = createContext<PriceDisplayContextValue | null>(null);
+
+interface PriceDisplayProviderProps {
+  token0: PriceToken;
+  token1: PriceToken;
+  children: React.ReactNode;
+}
+
+/**
+ * 配下のコンポーネントで価格の表示の向きを共有するプロバイダー
+ */
+export const PriceDisplayProvider: React.FC<PriceDisplayProviderProps> = ({ token0, token1, children }) => {
+  const [inverted, setInverted] = useState(false);
+  const toggleInverted = useCallback(() => setInverted((value) => !value), []);
+
+  const formatter = useMemo(
+    () => createPriceFormatter(token0, token1, inverted),
+    [token0.symbol, token0.decimals, token1.symbol, token1.decimals, inverted],
+  );
+  const value = useMemo(() => ({ formatter, toggleInverted }), [formatter, toggleInverted]);
+
+  return <PriceDisplayContext.Provider value={value}>{children}</PriceDisplayContext.Provider>;
+};
+
+/**
+ * 価格表示用の関数を取得するフック
+ * PriceDisplayProviderの外で使う場合は、渡したトークンで常にtoken0建ての表示にする
+ *
+ * @param token0 プロバイダーがない場合に使うtoken0
+ * @param token1 プロバイダーがない場合に使うtoken1
+ */
+export function usePriceFormatter(token0?: PriceToken, token1?: PriceToken): PriceFormatter {
+  const context = useContext(PriceDisplayContext);
+  const fallback = useMemo(
+    () => createPriceFormatter(token0 || { symbol: '', decimals: 0 }, token1 || { symbol: '', decimals: 0 }),
+    [token0?.symbol, token0?.decimals, token1?.symbol, token1?.decimals],
+  );
+  return context ? context.formatter : fallback;
+}
+
+/**
+ * 価格の表示の向きを切り替える関数を取得するフック（プロバイダーの外ではnull）
+ */
+export function usePriceInvertToggle(): (() => void) | null {
+  return useContext(PriceDisplayContext)?.toggleInverted ?? null;
+}
@@ -0,0 +1,31 @@
+/** 進捗報告用コールバック関数（percentは0〜100） */
+export type ProgressCallback = (percent: number, message: string) => void;
+
+/**
+ * ループの進捗を間引いて報告する関数を作成する
+ * 全体のうち from〜to(%) の区間に換算し、1%以上進んだときだけコールバックを呼ぶ
+ *
+ * @param total 処理する件数
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
+ * @param message 進捗メッセージ
+ * @param from 区間の開始(%)
+ * @param to 区間の終了(%)
+ * @returns 処理済みの件数を受け取る関数
+ */
+export function createProgressReporter(
+  total: number,
+  progressCallback: ProgressCallback | undefined,
+  message: string,
+  from = 0,
+  to = 100,
+): (processed: number) => void {
+  if (!progressCallback || total === 0) return () => {};
+
+  let lastPercent = -1;
+  return (processed: number) => {
+    const percent = Math.floor(from + ((to - from) * Math.min(processed, total)) / total);
+    if (percent <= lastPercent) return;
+    lastPercent = percent;
+    progressCallback(percent, `${message} (${processed.toLocaleString()}/${total.toLocaleString()})`);
+  };
+}
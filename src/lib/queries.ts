@@ -19,8 +19,10 @@ export const GET_ALL_POOLS = gql`
     $skip: Int = 0
     $orderBy: String = "totalValueLockedUSD"
     $orderDirection: String = "desc"
+    $where: Pool_bool_exp = {}
+    $tokenWhere: Token_bool_exp = {}
   ) {
-    Pool(limit: $first, offset: $skip, order_by: { totalValueLockedUSD: desc }) {
+    Pool(where: $where, limit: $first, offset: $skip, order_by: { totalValueLockedUSD: desc }) {
       id
       chainId
       name
@@ -36,7 +38,37 @@ export const GET_ALL_POOLS = gql`
       liquidityProviderCount
       txCount
     }
-    Token {
+    Token(where: $tokenWhere) {
+      id
+      symbol
+      name
+      decimals
+    }
+  }
+`;
+
+// ネイティブ通貨とラップ版を入れ替えたプール（ETH/X と WETH/X）を比較用に取得するクエリ
+export const GET_COUNTERPART_POOLS = gql`
+  query GetCounterpartPools($where: Pool_bool_exp!, $tokenWhere: Token_bool_exp!) {
+    Pool(where: $where, order_by: { totalValueLockedUSD: desc }) {
+      id
+      chainId
+      name
+      token0
+      token1
+      feeTier
+      sqrtPrice
+      tick
+      tickSpacing
+      hooks
+      totalValueLockedUSD
+      volumeUSD
+      feesUSD
+      txCount
+      createdAtTimestamp
+      liquidityProviderCount
+    }
+    Token(where: $tokenWhere) {
       id
       symbol
       name
@@ -150,8 +182,8 @@ export const GET_POOL_SWAP_EVENTS_WITH_END = gql`
 
 // Uniswap v4のHooks統計を取得するクエリ
 export const GET_HOOKS_STATS = gql`
-  query GetHooksStats($first: Int = 20) {
-    HookStats(limit: $first, order_by: { totalValueLockedUSD: desc }) {
+  query GetHooksStats($first: Int = 20, $where: HookStats_bool_exp = {}) {
+    HookStats(where: $where, limit: $first, order_by: { totalValueLockedUSD: desc }) {
       id
       chainId
       numberOfPools
@@ -267,6 +299,90 @@ export const GET_USER_LIQUIDITY_POSITIONS = gql`
   }
 `;
 
+// IDを指定して流動性ポジションを取得するクエリ
+export const GET_LIQUIDITY_POSITION = gql`
+  query GetLiquidityPosition($positionId: String!) {
+    LiquidityPosition_by_pk(id: $positionId) {
+      id
+      owner
+      pool
+      tickLower
+      tickUpper
+      liquidity
+      depositedToken0
+      depositedToken1
+      withdrawnToken0
+      withdrawnToken1
+      collectedFeesToken0
+      collectedFeesToken1
+      createdAtTimestamp
+      createdAtBlockNumber
+    }
+  }
+`;
+
+// 特定のユーザーの流動性変更イベントを取得するクエリ（$whereにsender / originの条件を含めて渡す）
+export const GET_USER_MODIFY_LIQUIDITY_EVENTS = gql`
+  query GetUserModifyLiquidityEvents($where: ModifyLiquidity_bool_exp!, $first: Int!) {
+    ModifyLiquidity(where: $where, order_by: [{ timestamp: desc }, { logIndex: desc }], limit: $first) {
+      id
+      chainId
+      transaction
+      timestamp
+      pool
+      sender
+      origin
+      amount0
+      amount1
+      amountUSD
+      tickLower
+      tickUpper
+      liquidityDelta
+      logIndex
+    }
+  }
+`;
+
+// IDを指定して複数のプールを取得するクエリ（ポートフォリオ用）
+export const GET_POOLS_BY_IDS = gql`
+  query GetPoolsByIds($poolIds: [String!]!) {
+    Pool(where: { id: { _in: $poolIds } }) {
+      id
+      chainId
+      name
+      token0
+      token1
+      feeTier
+      liquidity
+      sqrtPrice
+      tick
+      tickSpacing
+      hooks
+      totalValueLockedUSD
+      createdAtTimestamp
+      liquidityProviderCount
+      txCount
+    }
+  }
+`;
+
+// IDを指定して複数のトークンと、そのチェーンのETH価格を取得するクエリ（ポートフォリオ用）
+export const GET_TOKENS_WITH_BUNDLE = gql`
+  query GetTokensWithBundle($tokenIds: [String!]!, $chainId: String!) {
+    Token(where: { id: { _in: $tokenIds } }) {
+      id
+      symbol
+      name
+      decimals
+      derivedETH
+    }
+    Bundle_by_pk(id: $chainId) {
+      id
+      ethPriceUSD
+    }
+  }
+`;
+
 // プールの流動性ポジションを取得するクエリ
 export const GET_POOL_LIQUIDITY_POSITIONS = gql`
   query GetPoolLiquidityPositions($poolId: String!, $first: Int!) {
@@ -364,12 +480,178 @@ export const GET_FEE_DATA_BY_DAYS = gql`
   }
 `;
 
-// カーソルベースのページネーション用スワップイベントクエリ
-export const GET_POOL_SWAP_EVENTS_WITH_CURSOR = gql`
-  query GetPoolSwapEventsWithCursor($poolId: String!, $startTime: numeric!, $first: Int = 1000, $cursor: Int = 0) {
+// キーセットページネーション用スワップイベントクエリ
+// (timestamp, logIndex, id) の複合キーで並べ、$whereにカーソル条件を含めて渡す
+export const GET_SWAP_EVENTS_PAGE = gql`
+  query GetSwapEventsPage($where: Swap_bool_exp!, $first: Int = 1000) {
+    Swap(where: $where, order_by: [{ timestamp: asc }, { logIndex: asc }, { id: asc }], limit: $first) {
+      id
+      timestamp
+      transaction
+      sender
+      origin
+      amount0
+      amount1
+      amountUSD
+      sqrtPriceX96
+      tick
+      logIndex
+    }
+  }
+`;
+
+// キーセットページネーション用流動性変更イベントクエリ
+export const GET_MODIFY_LIQUIDITY_EVENTS_PAGE = gql`
+  query GetModifyLiquidityEventsPage($where: ModifyLiquidity_bool_exp!, $first: Int = 1000) {
+    ModifyLiquidity(where: $where, order_by: [{ timestamp: asc }, { logIndex: asc }, { id: asc }], limit: $first) {
+      id
+      transaction
+      timestamp
+      pool
+      sender
+      origin
+      amount0
+      amount1
+      amountUSD
+      tickLower
+      tickUpper
+      liquidityDelta
+      logIndex
+    }
+  }
+`;
+
+// キーセットページネーション用流動性ポジションクエリ
+// (createdAtTimestamp, id) の複合キーで並べる
+export const GET_LIQUIDITY_POSITIONS_PAGE = gql`
+  query GetLiquidityPositionsPage($where: LiquidityPosition_bool_exp!, $first: Int = 1000) {
+    LiquidityPosition(where: $where, order_by: [{ createdAtTimestamp: asc }, { id: asc }], limit: $first) {
+      id
+      owner
+      pool
+      tickLower
+      tickUpper
+      liquidity
+      depositedToken0
+      depositedToken1
+      withdrawnToken0
+      withdrawnToken1
+      collectedFeesToken0
+      collectedFeesToken1
+      createdAtTimestamp
+      createdAtBlockNumber
+    }
+  }
+`;
+
+// Hookの統計と、そのHookを使用しているプールの一覧を取得するクエリ
+export const GET_HOOK_DETAILS = gql`
+  query GetHookDetails($hookId: String!, $poolWhere: Pool_bool_exp!, $first: Int!, $skip: Int!) {
+    HookStats_by_pk(id: $hookId) {
+      id
+      chainId
+      numberOfPools
+      numberOfSwaps
+      firstPoolCreatedAt
+      totalValueLockedUSD
+      totalVolumeUSD
+      untrackedVolumeUSD
+      totalFeesUSD
+    }
+    Pool(where: $poolWhere, order_by: [{ totalValueLockedUSD: desc }, { id: asc }], limit: $first, offset: $skip) {
+      id
+      chainId
+      name
+      token0
+      token1
+      feeTier
+      tickSpacing
+      liquidity
+      tick
+      totalValueLockedUSD
+      volumeUSD
+      feesUSD
+      txCount
+      createdAtTimestamp
+    }
+    Pool_aggregate(where: $poolWhere) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+// ライブ更新用: 指定時刻以降のスワップ（Hasuraのライブクエリ型サブスクリプション）
+export const SUBSCRIBE_NEW_SWAPS = gql`
+  subscription SubscribeNewSwaps($poolId: String!, $since: numeric!, $first: Int = 100) {
+    Swap(
+      where: { pool: { _eq: $poolId }, timestamp: { _gte: $since } }
+      order_by: [{ timestamp: desc }, { logIndex: desc }]
+      limit: $first
+    ) {
+      id
+      timestamp
+      transaction
+      sender
+      origin
+      amount0
+      amount1
+      amountUSD
+      sqrtPriceX96
+      tick
+      logIndex
+    }
+  }
+`;
+
+// ライブ更新用: 指定時刻以降の流動性変更イベント
+export const SUBSCRIBE_NEW_MODIFY_LIQUIDITY_EVENTS = gql`
+  subscription SubscribeNewModifyLiquidityEvents($poolId: String!, $since: numeric!, $first: Int = 100) {
+    ModifyLiquidity(
+      where: { pool: { _eq: $poolId }, timestamp: { _gte: $since } }
+      order_by: [{ timestamp: desc }, { logIndex: desc }]
+      limit: $first
+    ) {
+      id
+      transaction
+      timestamp
+      pool
+      sender
+      origin
+      amount0
+      amount1
+      amountUSD
+      tickLower
+      tickUpper
+      liquidityDelta
+      logIndex
+    }
+  }
+`;
+
+// ライブ更新用: プールの現在の状態（Tick・価格・流動性）
+export const SUBSCRIBE_POOL_STATE = gql`
+  subscription SubscribePoolState($poolId: String!) {
+    Pool_by_pk(id: $poolId) {
+      id
+      tick
+      sqrtPrice
+      liquidity
+      token0Price
+      token1Price
+      totalValueLockedUSD
+      txCount
+    }
+  }
+`;
+
+// WebSocketが使えない場合のポーリング用（SUBSCRIBE_NEW_SWAPSと同じ条件）
+export const POLL_NEW_SWAPS = gql`
+  query PollNewSwaps($poolId: String!, $since: numeric!, $first: Int = 100) {
     Swap(
-      where: { pool: { _eq: $poolId }, timestamp: { _gte: $startTime }, id: { _gt: $cursor } }
-      order_by: { id: asc }
+      where: { pool: { _eq: $poolId }, timestamp: { _gte: $since } }
+      order_by: [{ timestamp: desc }, { logIndex: desc }]
       limit: $first
     ) {
       id
@@ -386,3 +668,44 @@ export const GET_POOL_SWAP_EVENTS_WITH_CURSOR = gql`
     }
   }
 `;
+
+// WebSocketが使えない場合のポーリング用（SUBSCRIBE_NEW_MODIFY_LIQUIDITY_EVENTSと同じ条件）
+export const POLL_NEW_MODIFY_LIQUIDITY_EVENTS = gql`
+  query PollNewModifyLiquidityEvents($poolId: String!, $since: numeric!, $first: Int = 100) {
+    ModifyLiquidity(
+      where: { pool: { _eq: $poolId }, timestamp: { _gte: $since } }
+      order_by: [{ timestamp: desc }, { logIndex: desc }]
+      limit: $first
+    ) {
+      id
+      transaction
+      timestamp
+      pool
+      sender
+      origin
+      amount0
+      amount1
+      amountUSD
+      tickLower
+      tickUpper
+      liquidityDelta
+      logIndex
+    }
+  }
+`;
+
+// WebSocketが使えない場合のポーリング用（SUBSCRIBE_POOL_STATEと同じ内容）
+export const POLL_POOL_STATE = gql`
+  query PollPoolState($poolId: String!) {
+    Pool_by_pk(id: $poolId) {
+      id
+      tick
+      sqrtPrice
+      liquidity
+      token0Price
+      token1Price
+      totalValueLockedUSD
+      txCount
+    }
+  }
+`;
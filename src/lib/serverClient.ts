@@ -0,0 +1,33 @@
+import { ApolloClient, ApolloLink, HttpLink, InMemoryCache, NormalizedCacheObject } from '@apollo/client';
+import { createChainRoutingLink, parseEndpoints } from './indexerRegistry';
+
+// サーバー側ではNEXT_PUBLIC_でない変数も参照できるため、ENVIO_API_URLを優先する
+const ENVIO_API_URL =
+  process.env.ENVIO_API_URL || process.env.NEXT_PUBLIC_ENVIO_API_URL || 'http://localhost:8080/v1/graphql';
+
+// チェーン別のエンドポイントも、秘密のヘッダーを含められるサーバー専用のENVIO_ENDPOINTSを優先する
+// （ブラウザと共有するindexerRegistryはNEXT_PUBLIC_ENVIO_ENDPOINTSのみを読む）
+const serverEndpoints = parseEndpoints(process.env.ENVIO_ENDPOINTS || process.env.NEXT_PUBLIC_ENVIO_ENDPOINTS);
+
+let serverClient: ApolloClient<NormalizedCacheObject> | null = null;
+
+/**
+ * APIルート用のApolloClientを取得する
+ * リクエスト間でデータを共有しないよう、キャッシュは使用しない
+ */
+export function getServerClient(): ApolloClient<NormalizedCacheObject> {
+  if (!serverClient) {
+    serverClient = new ApolloClient({
+      ssrMode: true,
+      // プールIDなどのチェーン接頭辞に応じてチェーン別のエンドポイントに振り分ける
+      link: ApolloLink.from([createChainRoutingLink(serverEndpoints), new HttpLink({ uri: ENVIO_API_URL })]),
+      cache: new InMemoryCache(),
+      defaultOptions: {
+        query: {
+          fetchPolicy: 'no-cache',
+        },
+      },
+    });
+  }
+  return serverClient;
+}
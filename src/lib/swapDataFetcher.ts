@@ -1,10 +1,12 @@
 import { ApolloClient } from '@apollo/client';
-import { GET_POOL_SWAP_EVENTS } from './queries';
+import { fetchAllByKeyset, fetchAllByKeysetInRounds, KeysetFetchOptions, SWAP_KEYSET_SOURCE } from './keysetPagination';
+import { createProgressReporter, ProgressCallback } from './progressReporter';
+import { getSwapFeeRate, getSwapFeeRates } from './dynamicFees';
 import { SwapEvent, ChartDataPoint } from '../types';
 
 /**
  * 指定した期間のすべてのスワップイベントを取得する関数
- * ページネーションを使って10万件以上のデータも取得可能
+ * (timestamp, logIndex, id) のキーセットページネーションで10万件以上のデータも欠落なく取得可能
  *
  * @param client ApolloClientインスタンス
  * @param poolId プールID
@@ -12,6 +14,7 @@ import { SwapEvent, ChartDataPoint } from '../types';
  * @param maxBatches 最大バッチ数（デフォルト: 100 = 最大10万件）
  * @param batchSize 1回あたりの取得数（デフォルト: 1000）
  * @param progressCallback 進捗報告用コールバック関数 (オプション)
+ * @param endTime 終了タイムスタンプ (オプション)
  * @returns Promise<SwapEvent[]> すべてのスワップイベント
  */
 export async function fetchAllSwapEvents(
@@ -21,91 +24,66 @@ export async function fetchAllSwapEvents(
   maxBatches = 100,
   batchSize = 1000,
   progressCallback?: (percent: number, message: string) => void,
+  endTime?: number,
 ): Promise<SwapEvent[]> {
-  let allEvents: SwapEvent[] = [];
-  let currentStartTime = startTime;
-  let hasMoreData = true;
-  let batchCount = 0;
-
-  // 最後に取得したイベントのタイムスタンプを記録
-  let lastTimestamp = 0;
-
   console.log(`データ取得開始: ${new Date(startTime * 1000).toLocaleDateString()}`);
-  progressCallback?.(0, 'データ取得を開始します');
-
-  while (hasMoreData && batchCount < maxBatches) {
-    try {
-      console.log(
-        `バッチ ${batchCount + 1}: ${new Date(currentStartTime * 1000).toLocaleDateString()}以降のデータを取得中...`,
-      );
-      progressCallback?.(
-        Math.min(90, (batchCount / maxBatches) * 100),
-        `データバッチ ${batchCount + 1}/${maxBatches} を処理中...`,
-      );
-
-      // クエリ実行
-      const result = await client.query({
-        query: GET_POOL_SWAP_EVENTS,
-        variables: {
-          poolId,
-          startTime: currentStartTime,
-          first: batchSize,
-          orderDirection: 'asc', // 昇順で取得し、次のバッチの開始点を決定しやすくする
-        },
-        fetchPolicy: 'network-only', // キャッシュを使わず必ず新しいデータを取得
-      });
-
-      // 取得したデータ
-      const fetchedEvents: SwapEvent[] = result.data?.Swap || [];
-      console.log(`${fetchedEvents.length}件のデータを取得しました`);
-
-      // データがない場合は終了
-      if (fetchedEvents.length === 0) {
-        hasMoreData = false;
-        break;
-      }
-
-      // 前回と同じデータを取得してしまった場合（安全装置）
-      if (lastTimestamp === Number(fetchedEvents[fetchedEvents.length - 1].timestamp)) {
-        console.log('前回と同じデータを取得したため終了します');
-        hasMoreData = false;
-        break;
-      }
-
-      // 結果を追加
-      allEvents = [...allEvents, ...fetchedEvents];
-
-      // 次のバッチの開始時間を設定
-      const lastEvent = fetchedEvents[fetchedEvents.length - 1];
-      lastTimestamp = Number(lastEvent.timestamp);
-
-      // 次のバッチの開始時間は、最後のイベントのタイムスタンプ + 1秒
-      currentStartTime = lastTimestamp + 1;
-
-      // 取得したデータが指定した量より少ない場合はもうデータがない
-      if (fetchedEvents.length < batchSize) {
-        hasMoreData = false;
-      }
-
-      batchCount++;
 
-      // 進捗状況をログに出力
-      console.log(
-        `現在の合計: ${allEvents.length}件, 次の開始時間: ${new Date(currentStartTime * 1000).toLocaleDateString()}`,
-      );
+  try {
+    const { rows } = await fetchAllByKeyset(client, SWAP_KEYSET_SOURCE, buildSwapWhere(poolId, startTime, endTime), {
+      batchSize,
+      maxBatches,
+      progressCallback,
+    });
 
-      // API制限を考慮して少し待機（必要に応じて）
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    } catch (error) {
-      console.error('スワップイベント取得エラー:', error);
-      progressCallback?.(100, `エラーが発生しました: ${error}`);
-      throw error; // エラーを上位に伝播
-    }
+    console.log(`取得完了: 合計${rows.length}件のデータを取得しました`);
+    return rows;
+  } catch (error) {
+    console.error('スワップイベント取得エラー:', error);
+    progressCallback?.(100, `エラーが発生しました: ${error}`);
+    throw error; // エラーを上位に伝播
   }
+}
 
-  console.log(`取得完了: 合計${allEvents.length}件のデータを取得しました`);
-  progressCallback?.(100, `取得完了: ${allEvents.length}件のデータ`);
-  return allEvents;
+/**
+ * 指定した期間のスワップイベントを、バッチ上限で打ち切られた場合も続きから取得する関数
+ * maxRounds回取得しても終わらない場合は、そこまでのスワップを返す
+ *
+ * @param client ApolloClientインスタンス
+ * @param poolId プールID
+ * @param startTime 開始タイムスタンプ
+ * @param options 取得オプション
+ * @param maxRounds 続けて取得する最大回数（デフォルト: 10 = 最大100万件）
+ * @returns 古い順のスワップイベント（options.keepRowsがfalseの場合は空）と、最後まで取得できたかどうか
+ */
+export async function fetchSwapHistory(
+  client: ApolloClient<any>,
+  poolId: string,
+  startTime: number,
+  options: KeysetFetchOptions<SwapEvent> = {},
+  maxRounds = 10,
+): Promise<{ swaps: SwapEvent[]; complete: boolean }> {
+  const { rows, complete } = await fetchAllByKeysetInRounds(
+    client,
+    SWAP_KEYSET_SOURCE,
+    buildSwapWhere(poolId, startTime),
+    options,
+    maxRounds,
+  );
+  return { swaps: rows, complete };
+}
+
+/**
+ * スワップイベント取得用のwhere条件を生成する関数
+ *
+ * @param poolId プールID
+ * @param startTime 開始タイムスタンプ
+ * @param endTime 終了タイムスタンプ (オプション)
+ * @returns Hasuraのwhere条件
+ */
+export function buildSwapWhere(poolId: string, startTime: number, endTime?: number): Record<string, unknown> {
+  const timestamp: Record<string, number> = { _gte: startTime };
+  if (endTime !== undefined) timestamp._lte = endTime;
+  return { pool: { _eq: poolId }, timestamp };
 }
 
 /**
@@ -113,23 +91,29 @@ export async function fetchAllSwapEvents(
  * LiquidityFeesChartコンポーネントで使用可能なデータ形式に変換
  *
  * @param swapEvents スワップイベント配列
- * @param feeTier 手数料率
+ * @param feeTier 手数料率（動的手数料の場合はスワップごとに推定）
  * @param poolLiquidityData プールの流動性データ（オプション）
+ * @param progressCallback 進捗報告用コールバック関数 (オプション)
  * @returns ChartDataPoint[] チャート用データポイント
  */
 export function createChartDataFromSwapEvents(
   swapEvents: SwapEvent[],
   feeTier: string,
   poolLiquidityData?: any[],
+  progressCallback?: ProgressCallback,
 ): ChartDataPoint[] {
   // 日別データへの集計
   const dailyData: { [key: string]: any } = {};
 
-  // 手数料率の計算
-  const feeRate = Number(feeTier) / 1000000;
+  // 手数料率の計算（動的手数料のプールはスワップ前後の価格と量から推定）
+  const feeRates = getSwapFeeRates(swapEvents, feeTier);
+
+  const reportProgress = createProgressReporter(swapEvents.length, progressCallback, 'スワップを集計中');
 
   // 日付でグループ化
-  swapEvents.forEach((event) => {
+  swapEvents.forEach((event, index) => {
+    reportProgress(index + 1);
+
     const timestamp = Number(event.timestamp || 0);
     if (timestamp === 0) return;
 
@@ -143,7 +127,7 @@ export function createChartDataFromSwapEvents(
 
     // 金額の計算
     const amountUSD = Number(event.amountUSD || 0);
-    const feeUSD = amountUSD * feeRate;
+    const feeUSD = amountUSD * getSwapFeeRate(feeRates, event);
 
     if (!dailyData[dateKey]) {
       dailyData[dateKey] = {
@@ -224,12 +208,6 @@ export async function fetchSwapEventsByDateRange(
   const startTime = Math.floor(startDate.getTime() / 1000);
   const endTime = Math.floor(endDate.getTime() / 1000);
 
-  // データ取得
-  const events = await fetchAllSwapEvents(client, poolId, startTime, 100, 1000, progressCallback);
-
-  // 終了日で絞り込み
-  return events.filter((event) => {
-    const eventTime = Number(event.timestamp || 0);
-    return eventTime <= endTime;
-  });
+  // データ取得（終了日での絞り込みもクエリ側で行う）
+  return fetchAllSwapEvents(client, poolId, startTime, 100, 1000, progressCallback, endTime);
 }
@@ -0,0 +1,181 @@
+import { SwapMath } from '@/utils/liquidityMath/swapMath';
+import { TickMath } from '@/utils/liquidityMath/tickMath';
+
+/**
+ * 復元したTickの流動性をたどって、プールでのスワップをオフチェーンで再現する
+ * v4のPoolManager.swapと同じ手順（computeSwapStepを繰り返し、Tickを跨ぐたびに流動性を更新）で計算する
+ */
+
+/** スワップの計算に使うTick（generateTicksFromPositionsの結果をそのまま渡せる） */
+export interface SimulatorTick {
+  tickIdx: string | number;
+  liquidityNet: string | number;
+}
+
+export interface SwapSimulationParams {
+  /** Tickごとの正味の流動性 */
+  ticks: SimulatorTick[];
+  /** プールの現在の価格（Q64.96） */
+  sqrtPriceX96: string | bigint;
+  /** プールの現在のTick */
+  tick: string | number;
+  /** 現在の価格で有効な流動性 */
+  liquidity: string | bigint;
+  /** 手数料（100万分率、例: 3000 = 0.3%） */
+  feePips: string | number;
+  /** trueはtoken0を売ってtoken1を受け取る */
+  zeroForOne: boolean;
+  /** exactInputは支払う量、exactOutputは受け取りたい量（最小単位） */
+  amount: string | bigint;
+  exactInput: boolean;
+  /** 価格の上限・下限（省略時はTickの範囲の端まで） */
+  sqrtPriceLimitX96?: bigint;
+}
+
+export interface SwapSimulationResult {
+  /** 支払う量（手数料を含む、最小単位） */
+  amountIn: bigint;
+  /** 受け取る量（最小単位） */
+  amountOut: bigint;
+  /** 手数料（入力トークンの最小単位） */
+  feeAmount: bigint;
+  /** スワップ後の価格（Q64.96） */
+  sqrtPriceX96After: bigint;
+  /** スワップ後のTick */
+  tickAfter: number;
+  /** スワップ後の有効な流動性 */
+  liquidityAfter: bigint;
+  /** 跨いだ初期化済みTickの数 */
+  ticksCrossed: number;
+  /** 流動性が足りず、指定した量を最後までスワップできなかった */
+  partial: boolean;
+}
+
+// 無限ループを防ぐための上限（1ステップで最低1つのTickを跨ぐ）
+const MAX_SWAP_STEPS = 10000;
+
+const MAX_FEE_PIPS = BigInt(1000000);
+
+// 初期化済みTick（liquidityNetが0でないもの）をTick順に並べる
+function buildTickList(ticks: SimulatorTick[]): { tick: bigint; liquidityNet: bigint }[] {
+  const merged = new Map<string, bigint>();
+  ticks.forEach(({ tickIdx, liquidityNet }) => {
+    const key = String(tickIdx);
+    merged.set(key, (merged.get(key) || BigInt(0)) + BigInt(String(liquidityNet)));
+  });
+
+  return Array.from(merged.entries())
+    .filter(([, liquidityNet]) => liquidityNet !== BigInt(0))
+    .map(([tick, liquidityNet]) => ({ tick: BigInt(tick), liquidityNet }))
+    .sort((a, b) => (a.tick < b.tick ? -1 : a.tick > b.tick ? 1 : 0));
+}
+
+// 次の初期化済みTickを探す（zeroForOneは現在のTick以下、それ以外は現在のTickより大きいTick）
+function nextInitializedTick(
+  tickList: { tick: bigint; liquidityNet: bigint }[],
+  tick: bigint,
+  zeroForOne: boolean,
+): { tickNext: bigint; liquidityNet: bigint | null } {
+  if (zeroForOne) {
+    for (let i = tickList.length - 1; i >= 0; i--) {
+      if (tickList[i].tick <= tick) return { tickNext: tickList[i].tick, liquidityNet: tickList[i].liquidityNet };
+    }
+    return { tickNext: TickMath.MIN_TICK, liquidityNet: null };
+  }
+
+  for (const entry of tickList) {
+    if (entry.tick > tick) return { tickNext: entry.tick, liquidityNet: entry.liquidityNet };
+  }
+  return { tickNext: TickMath.MAX_TICK, liquidityNet: null };
+}
+
+/**
+ * スワップをシミュレーションする関数
+ *
+ * @param params プールの状態とスワップの指定
+ * @returns 入出力量・手数料・スワップ後の価格と、跨いだTickの数
+ */
+export function simulateSwap(params: SwapSimulationParams): SwapSimulationResult {
+  const { zeroForOne, exactInput } = params;
+  const feePips = BigInt(params.feePips);
+  const amount = BigInt(params.amount);
+
+  if (amount <= BigInt(0)) throw new Error('スワップする量は正の値である必要があります');
+  if (feePips < BigInt(0) || feePips >= MAX_FEE_PIPS) throw new Error(`無効な手数料です: ${params.feePips}`);
+
+  const sqrtPriceLimitX96 =
+    params.sqrtPriceLimitX96 ??
+    (zeroForOne ? TickMath.MIN_SQRT_RATIO + BigInt(1) : TickMath.MAX_SQRT_RATIO - BigInt(1));
+
+  const tickList = buildTickList(params.ticks);
+  let sqrtPriceX96 = BigInt(params.sqrtPriceX96);
+  let tick = BigInt(params.tick);
+  let liquidity = BigInt(params.liquidity);
+
+  if (zeroForOne ? sqrtPriceLimitX96 >= sqrtPriceX96 : sqrtPriceLimitX96 <= sqrtPriceX96) {
+    throw new Error('価格の上限・下限がスワップの方向と一致しません');
+  }
+
+  // exactInputは正、exactOutputは負の残量として扱う（computeSwapStepの規約）
+  let amountSpecifiedRemaining = exactInput ? amount : -amount;
+  let amountIn = BigInt(0);
+  let amountOut = BigInt(0);
+  let feeAmount = BigInt(0);
+  let ticksCrossed = 0;
+
+  for (let step = 0; step < MAX_SWAP_STEPS; step++) {
+    if (amountSpecifiedRemaining === BigInt(0) || sqrtPriceX96 === sqrtPriceLimitX96) break;
+
+    const sqrtPriceStartX96 = sqrtPriceX96;
+    const next = nextInitializedTick(tickList, tick, zeroForOne);
+    const tickNext =
+      next.tickNext < TickMath.MIN_TICK
+        ? TickMath.MIN_TICK
+        : next.tickNext > TickMath.MAX_TICK
+          ? TickMath.MAX_TICK
+          : next.tickNext;
+    const sqrtPriceNextX96 = TickMath.getSqrtRatioAtTick(tickNext);
+    const beyondLimit = zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96;
+    const sqrtPriceTargetX96 = beyondLimit ? sqrtPriceLimitX96 : sqrtPriceNextX96;
+
+    const [sqrtPriceAfterStep, stepAmountIn, stepAmountOut, stepFeeAmount] = SwapMath.computeSwapStep(
+      sqrtPriceX96,
+      sqrtPriceTargetX96,
+      liquidity,
+      amountSpecifiedRemaining,
+      feePips,
+    );
+    sqrtPriceX96 = sqrtPriceAfterStep;
+
+    amountIn += stepAmountIn + stepFeeAmount;
+    amountOut += stepAmountOut;
+    feeAmount += stepFeeAmount;
+    amountSpecifiedRemaining = exactInput
+      ? amountSpecifiedRemaining - (stepAmountIn + stepFeeAmount)
+      : amountSpecifiedRemaining + stepAmountOut;
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      // 初期化済みのTickを跨いだので流動性を更新（左向きに跨ぐ場合は符号が逆）
+      if (next.liquidityNet !== null) {
+        liquidity += zeroForOne ? -next.liquidityNet : next.liquidityNet;
+        // ポジションの取得件数に上限があるため、復元した流動性が負になる場合がある
+        if (liquidity < BigInt(0)) liquidity = BigInt(0);
+        ticksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - BigInt(1) : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = TickMath.getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: Number(tick),
+    liquidityAfter: liquidity,
+    ticksCrossed,
+    partial: amountSpecifiedRemaining !== BigInt(0),
+  };
+}
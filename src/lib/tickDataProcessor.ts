@@ -1,4 +1,5 @@
 import { BigNumber } from "ethers";
+import { tickToPrice } from "./liquidityMath";
 
 interface Position {
   id: string;
@@ -13,6 +14,9 @@ interface PoolInfo {
   tickSpacing?: string | number;
   token0Price?: string | number;
   token1Price?: string | number;
+  /** 指定した場合はprice0/price1をデシマルを考慮した価格にする */
+  token0Decimals?: string | number;
+  token1Decimals?: string | number;
 }
 
 interface TickData {
@@ -41,6 +45,8 @@ export function generateTicksFromPositions(
   const tickSpacing = poolInfo?.tickSpacing
     ? parseInt(String(poolInfo.tickSpacing))
     : 60;
+  const decimals0 = poolInfo?.token0Decimals || 0;
+  const decimals1 = poolInfo?.token1Decimals || 0;
 
   // 現在の価格を基準にティック範囲を生成
   const rangeSize = 50;
@@ -54,8 +60,8 @@ export function generateTicksFromPositions(
       tickIdx: tickIdx.toString(),
       liquidityGross: "0",
       liquidityNet: "0",
-      price0: calculatePrice0FromTick(tickIdx).toString(),
-      price1: calculatePrice1FromTick(tickIdx).toString(),
+      price0: calculatePrice0FromTick(tickIdx, decimals0, decimals1).toString(),
+      price1: calculatePrice1FromTick(tickIdx, decimals0, decimals1).toString(),
     });
   }
 
@@ -74,8 +80,16 @@ export function generateTicksFromPositions(
         tickIdx: tickLower,
         liquidityGross: "0",
         liquidityNet: "0",
-        price0: calculatePrice0FromTick(parseInt(tickLower)).toString(),
-        price1: calculatePrice1FromTick(parseInt(tickLower)).toString(),
+        price0: calculatePrice0FromTick(
+          parseInt(tickLower),
+          decimals0,
+          decimals1,
+        ).toString(),
+        price1: calculatePrice1FromTick(
+          parseInt(tickLower),
+          decimals0,
+          decimals1,
+        ).toString(),
       });
     }
 
@@ -113,8 +127,16 @@ export function generateTicksFromPositions(
         tickIdx: tickUpper,
         liquidityGross: "0",
         liquidityNet: "0",
-        price0: calculatePrice0FromTick(parseInt(tickUpper)).toString(),
-        price1: calculatePrice1FromTick(parseInt(tickUpper)).toString(),
+        price0: calculatePrice0FromTick(
+          parseInt(tickUpper),
+          decimals0,
+          decimals1,
+        ).toString(),
+        price1: calculatePrice1FromTick(
+          parseInt(tickUpper),
+          decimals0,
+          decimals1,
+        ).toString(),
       });
     }
 
@@ -155,17 +177,29 @@ export function generateTicksFromPositions(
 /**
  * ティックからtoken0の価格を計算
  * @param tick - ティックインデックス
+ * @param decimals0 - token0のデシマル
+ * @param decimals1 - token1のデシマル
  * @returns token0の価格
  */
-function calculatePrice0FromTick(tick: number): number {
-  return Math.pow(1.0001, tick);
+function calculatePrice0FromTick(
+  tick: number,
+  decimals0: string | number,
+  decimals1: string | number,
+): number {
+  return tickToPrice(tick, decimals0, decimals1);
 }
 
 /**
  * ティックからtoken1の価格を計算
  * @param tick - ティックインデックス
+ * @param decimals0 - token0のデシマル
+ * @param decimals1 - token1のデシマル
  * @returns token1の価格
  */
-function calculatePrice1FromTick(tick: number): number {
-  return 1 / calculatePrice0FromTick(tick);
+function calculatePrice1FromTick(
+  tick: number,
+  decimals0: string | number,
+  decimals1: string | number,
+): number {
+  return tickToPrice(tick, decimals0, decimals1, true);
 }
@@ -0,0 +1,106 @@
+import { ModifyLiquidityEvent, SwapEvent } from '@/types';
+import { tickToPrice } from './liquidityMath';
+
+/**
+ * ModifyLiquidityイベントを順に畳み込んで、任意の時点のTickごとの流動性を復元する
+ *
+ * GET_POOL_TICKSは現在の流動性しか返さないため、過去の分布はイベントの履歴から再構築する。
+ * 各イベントは下限Tickの liquidityNet に +liquidityDelta、上限Tickに -liquidityDelta を加え、
+ * liquidityGross には両方のTickに liquidityDelta を加える（liquidityDeltaは削除時に負）。
+ * 正しい分布を得るにはプールの作成以降のイベントをすべて渡す必要がある。
+ */
+
+/** 復元したTickデータ（generateTicksFromPositionsの出力と同じ形式） */
+export interface ReplayTickData {
+  id: string;
+  tickIdx: string;
+  liquidityNet: string;
+  liquidityGross: string;
+  price0: string;
+  price1: string;
+}
+
+export interface ReplayPoolInfo {
+  id: string;
+  token0Decimals?: string | number;
+  token1Decimals?: string | number;
+}
+
+function compareEvents(a: { timestamp: string; logIndex?: string }, b: { timestamp: string; logIndex?: string }) {
+  const byTime = Number(a.timestamp) - Number(b.timestamp);
+  if (byTime !== 0) return byTime;
+  return Number(a.logIndex || 0) - Number(b.logIndex || 0);
+}
+
+/**
+ * 流動性変更イベントを (timestamp, logIndex) 順に並べ替える関数
+ *
+ * @param events 流動性変更イベント（順不同）
+ * @returns 時系列順に並んだイベント
+ */
+export function sortLiquidityEvents(events: ModifyLiquidityEvent[]): ModifyLiquidityEvent[] {
+  return [...events].sort(compareEvents);
+}
+
+/**
+ * 指定した時点のTickごとの流動性を復元する関数
+ *
+ * @param sortedEvents 時系列順に並んだ流動性変更イベント（sortLiquidityEventsの出力）
+ * @param asOf 復元する時点のUnixタイムスタンプ（秒、この時刻のイベントを含む）
+ * @param poolInfo プールIDとトークンのデシマル（価格の計算に使用）
+ * @returns 初期化済み（liquidityGross > 0）のTickデータ（Tick順）
+ */
+export function replayTicksAt(
+  sortedEvents: ModifyLiquidityEvent[],
+  asOf: number,
+  poolInfo?: ReplayPoolInfo,
+): ReplayTickData[] {
+  const net = new Map<number, bigint>();
+  const gross = new Map<number, bigint>();
+
+  for (const event of sortedEvents) {
+    if (Number(event.timestamp) > asOf) break;
+    if (!event.liquidityDelta) continue;
+
+    const delta = BigInt(event.liquidityDelta);
+    if (delta === BigInt(0)) continue;
+
+    const tickLower = Number(event.tickLower);
+    const tickUpper = Number(event.tickUpper);
+    net.set(tickLower, (net.get(tickLower) || BigInt(0)) + delta);
+    net.set(tickUpper, (net.get(tickUpper) || BigInt(0)) - delta);
+    gross.set(tickLower, (gross.get(tickLower) || BigInt(0)) + delta);
+    gross.set(tickUpper, (gross.get(tickUpper) || BigInt(0)) + delta);
+  }
+
+  const decimals0 = poolInfo?.token0Decimals || 0;
+  const decimals1 = poolInfo?.token1Decimals || 0;
+
+  return Array.from(gross.entries())
+    .filter(([, liquidityGross]) => liquidityGross > BigInt(0))
+    .sort(([a], [b]) => a - b)
+    .map(([tickIdx, liquidityGross]) => ({
+      id: poolInfo?.id ? `${poolInfo.id}-${tickIdx}` : `tick-${tickIdx}`,
+      tickIdx: tickIdx.toString(),
+      liquidityNet: (net.get(tickIdx) || BigInt(0)).toString(),
+      liquidityGross: liquidityGross.toString(),
+      price0: tickToPrice(tickIdx, decimals0, decimals1).toString(),
+      price1: tickToPrice(tickIdx, decimals0, decimals1, true).toString(),
+    }));
+}
+
+/**
+ * 指定した時点のプールのTickを、その時点以前の最後のスワップから求める関数
+ *
+ * @param swapEvents スワップイベント（順不同）
+ * @param asOf Unixタイムスタンプ（秒）
+ * @returns その時点のTick（その時点以前のスワップがない場合はnull）
+ */
+export function getTickAt(swapEvents: SwapEvent[], asOf: number): number | null {
+  let latest: SwapEvent | null = null;
+  for (const swap of swapEvents) {
+    if (swap.tick === undefined || Number(swap.timestamp) > asOf) continue;
+    if (!latest || compareEvents(swap, latest) > 0) latest = swap;
+  }
+  return latest ? Number(latest.tick) : null;
+}
@@ -1,5 +1,6 @@
 import { format, formatDistance } from 'date-fns';
-import { BigNumber } from 'ethers';
+import { formatUnits } from 'viem';
+import { tickToPrice as exactTickToPrice } from './liquidityMath';
 
 // Unix timestamp を日付文字列に変換
 export const formatTimestamp = (timestamp: number | string): string => {
@@ -53,9 +54,9 @@ export const formatNumber = (value: number | string, decimals = 4): string => {
   return num.toFixed(decimals);
 };
 
-// Uniswap v3のtickから価格を計算
-export const tickToPrice = (tick: number): number => {
-  return Math.pow(1.0001, tick);
+// Uniswap v3のtickから価格を計算（TickMathによる厳密な計算、デシマルを指定した場合は人が読む単位の価格）
+export const tickToPrice = (tick: number, decimals0: number | string = 0, decimals1: number | string = 0): number => {
+  return exactTickToPrice(tick, decimals0, decimals1);
 };
 
 // トークンの量をデシマルを考慮して変換
@@ -63,9 +64,9 @@ export const formatTokenAmount = (amount: string | number, decimals: number | st
   const decimalValue = typeof decimals === 'string' ? parseInt(decimals) : decimals;
   const value = typeof amount === 'string' ? amount : amount.toString();
 
-  // BigNumberを使って計算精度を保つ
+  // bigintのまま小数点を移動して計算精度を保つ（整数除算で小数部を失わない）
   try {
-    return parseFloat(BigNumber.from(value).div(BigNumber.from(10).pow(decimalValue)).toString());
+    return Number(formatUnits(BigInt(value), decimalValue));
   } catch (e) {
     // エラーの場合は単純に割り算で対応
     return Number(value) / Math.pow(10, decimalValue);
@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { isAddress } from 'viem';
+import { GET_USER_LIQUIDITY_POSITIONS, GET_USER_MODIFY_LIQUIDITY_EVENTS } from '../../lib/queries';
+import {
+  chainWhere,
+  mergeLiquidityPositionsResults,
+  mergeModifyLiquidityEventsResults,
+  useChainFanOutQuery,
+} from '../../lib/multiChainQuery';
+import {
+  evaluatePortfolioPosition,
+  fetchPortfolioPoolContexts,
+  PortfolioPoolContext,
+  summarizePortfolio,
+} from '../../lib/portfolio';
+import { ownerModifyLiquidityWhere } from '../../lib/liquidityDataFetcher';
+import { getExplorerUrl } from '../../lib/nativeCurrency';
+import { formatUSD, shortenAddress } from '../../lib/utils';
+import { getChainName } from '../../utils/chains';
+import { client } from '../../lib/apollo-client';
+import PortfolioPositionsTable from '../../components/PortfolioPositionsTable';
+import PortfolioActivityTable from '../../components/PortfolioActivityTable';
+import { LiquidityPositionsQueryResult, ModifyLiquidityEventsQueryResult } from '../../types';
+
+// 取得するポジションと流動性変更イベントの最大件数
+const POSITION_LIMIT = 500;
+const EVENT_LIMIT = 500;
+
+const formatSignedUSD = (value: number) => `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatUSD(Math.abs(value))}`;
+const signClass = (value: number) => (value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : '');
+
+export default function AddressPortfolio() {
+  const router = useRouter();
+  const owner = typeof router.query.owner === 'string' ? router.query.owner.toLowerCase() : '';
+  const validOwner = isAddress(owner);
+  const [activeTab, setActiveTab] = useState('positions');
+  const [poolContexts, setPoolContexts] = useState<Map<string, PortfolioPoolContext>>(new Map());
+  const [poolContextsLoading, setPoolContextsLoading] = useState(false);
+
+  // アドレスのポジションを取得（チェーンごとに取得して結合）
+  const {
+    loading: positionsLoading,
+    error: positionsError,
+    data: positionsData,
+    failedChainIds: positionsFailedChainIds,
+  } = useChainFanOutQuery<LiquidityPositionsQueryResult>(
+    GET_USER_LIQUIDITY_POSITIONS,
+    () => ({ owner, first: POSITION_LIMIT }),
+    (results) => mergeLiquidityPositionsResults(results, POSITION_LIMIT),
+    { skip: !validOwner },
+  );
+
+  // アドレスの流動性変更イベントを取得（チェーンごとに取得して結合）
+  const {
+    loading: eventsLoading,
+    error: eventsError,
+    data: eventsData,
+    failedChainIds: eventsFailedChainIds,
+  } = useChainFanOutQuery<ModifyLiquidityEventsQueryResult>(
+    GET_USER_MODIFY_LIQUIDITY_EVENTS,
+    (chainId) => ({ where: { ...ownerModifyLiquidityWhere(owner), ...chainWhere(chainId) }, first: EVENT_LIMIT }),
+    (results) => mergeModifyLiquidityEventsResults(results, EVENT_LIMIT),
+    { skip: !validOwner },
+  );
+
+  const positions = positionsData?.LiquidityPosition || [];
+  const events = eventsData?.ModifyLiquidity || [];
+
+  // ポジションと履歴のプールの状態（価格・トークン・ETH価格）を取得
+  const poolIdsKey = Array.from(
+    new Set([...positions.map((position) => position.pool), ...events.map((event) => event.pool)]),
+  )
+    .filter((poolId): poolId is string => Boolean(poolId))
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    if (!poolIdsKey) {
+      setPoolContexts(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    setPoolContextsLoading(true);
+    fetchPortfolioPoolContexts(client, poolIdsKey.split(','))
+      .then((contexts) => {
+        if (!cancelled) setPoolContexts(contexts);
+      })
+      .catch((error) => console.error('ポートフォリオのプールの取得エラー:', error))
+      .finally(() => {
+        if (!cancelled) setPoolContextsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [poolIdsKey]);
+
+  const portfolio = useMemo(
+    () =>
+      positions.map((position) =>
+        evaluatePortfolioPosition(position, (position.pool && poolContexts.get(position.pool)) || null),
+      ),
+    [positions, poolContexts],
+  );
+  const summary = useMemo(() => summarizePortfolio(portfolio), [portfolio]);
+
+  const failedChainIds = Array.from(new Set([...positionsFailedChainIds, ...eventsFailedChainIds]));
+  const chainCount = new Set(portfolio.map((item) => item.chainId)).size;
+  const ownerUrl = getExplorerUrl(portfolio[0]?.chainId ?? null, 'address', owner);
+
+  if (!router.isReady)
+    return (
+      <div className='container mx-auto p-4'>
+        <div className='max-w-6xl mx-auto py-8 text-center'>
+          <p className='text-gray-500'>読み込み中...</p>
+        </div>
+      </div>
+    );
+
+  if (!validOwner)
+    return (
+      <div className='container mx-auto p-4'>
+        <div className='max-w-6xl mx-auto py-8 text-center'>
+          <p className='text-red-500'>無効なアドレスです: {router.query.owner}</p>
+        </div>
+      </div>
+    );
+
+  return (
+    <div className='container mx-auto px-4 py-8'>
+      <div className='max-w-6xl mx-auto'>
+        <div className='flex items-center mb-6'>
+          <Link href='/' className='text-blue-500 hover:underline mr-4 flex items-center'>
+            <svg
+              xmlns='http://www.w3.org/2000/svg'
+              className='h-5 w-5 mr-1'
+              fill='none'
+              viewBox='0 0 24 24'
+              stroke='currentColor'
+            >
+              <path strokeLinecap='round' strokeLinejoin='round' strokeWidth={2} d='M10 19l-7-7m0 0l7-7m-7 7h18' />
+            </svg>
+            戻る
+          </Link>
+          <h1 className='text-2xl font-bold'>
+            ポートフォリオ{' '}
+            {ownerUrl ? (
+              <a
+                href={ownerUrl}
+                target='_blank'
+                rel='noopener noreferrer'
+                className='text-blue-500 hover:underline'
+                title={owner}
+              >
+                {shortenAddress(owner)}
+              </a>
+            ) : (
+              <span title={owner}>{shortenAddress(owner)}</span>
+            )}
+          </h1>
+        </div>
+
+        {failedChainIds.length > 0 && (
+          <div className='mb-4 p-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg'>
+            一部のチェーンのデータを取得できませんでした:{' '}
+            {failedChainIds.map((chainId) => getChainName(chainId)).join(', ')}
+          </div>
+        )}
+
+        <div className='card mb-6'>
+          <h2 className='card-title'>合計</h2>
+          {positionsLoading || poolContextsLoading ? (
+            <p className='text-gray-500'>読み込み中...</p>
+          ) : (
+            <>
+              <div className='grid grid-cols-2 md:grid-cols-4 gap-4 text-sm'>
+                <div>
+                  <p className='text-gray-500'>ポジション</p>
+                  <p className='text-xl font-semibold'>{summary.positionCount.toLocaleString()}</p>
+                  <p className='text-gray-500'>
+                    保有中 {summary.openCount.toLocaleString()}・レンジ内 {summary.inRangeCount.toLocaleString()}
+                    {chainCount > 1 && `・${chainCount}チェーン`}
+                  </p>
+                </div>
+                <div>
+                  <p className='text-gray-500'>現在の価値</p>
+                  <p className='text-xl font-semibold'>{formatUSD(summary.currentValueUSD)}</p>
+                </div>
+                <div>
+                  <p className='text-gray-500'>回収済み手数料</p>
+                  <p className='text-xl font-semibold'>{formatUSD(summary.collectedFeesUSD)}</p>
+                </div>
+                <div>
+                  <p className='text-gray-500'>損益（対HODL）</p>
+                  <p className={`text-xl font-semibold ${signClass(summary.netPnlUSD)}`}>
+                    {formatSignedUSD(summary.netPnlUSD)}
+                  </p>
+                </div>
+              </div>
+              <p className='mt-4 text-xs text-gray-500'>
+                ※価値と損益は現在のプール価格とトークンのUSD価格で計算し、手数料は回収済みの分のみを含みます。
+                {summary.unpricedCount > 0 &&
+                  `USD価格が取得できない${summary.unpricedCount.toLocaleString()}件のポジションは合計に含みません。`}
+                {positions.length >= POSITION_LIMIT && `ポジションは新しい順に${POSITION_LIMIT}件まで表示します。`}
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className='mb-4 border-b'>
+          <ul className='flex flex-wrap -mb-px'>
+            <li className='mr-2'>
+              <button
+                className={`tab-button ${activeTab === 'positions' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                onClick={() => setActiveTab('positions')}
+              >
+                ポジション
+              </button>
+            </li>
+            <li className='mr-2'>
+              <button
+                className={`tab-button ${activeTab === 'activity' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                onClick={() => setActiveTab('activity')}
+              >
+                流動性の変更履歴
+              </button>
+            </li>
+          </ul>
+        </div>
+
+        {activeTab === 'positions' && (
+          <div className='card fade-in'>
+            {positionsLoading ? (
+              <p className='p-4 text-center text-gray-500'>ポジションデータを読み込み中...</p>
+            ) : positionsError ? (
+              <p className='p-4 text-center text-red-500'>エラーが発生しました: {positionsError.message}</p>
+            ) : (
+              <PortfolioPositionsTable positions={portfolio} />
+            )}
+          </div>
+        )}
+
+        {activeTab === 'activity' && (
+          <div className='card fade-in'>
+            {eventsLoading ? (
+              <p className='p-4 text-center text-gray-500'>イベントデータを読み込み中...</p>
+            ) : eventsError ? (
+              <p className='p-4 text-center text-red-500'>エラーが発生しました: {eventsError.message}</p>
+            ) : (
+              <>
+                <PortfolioActivityTable events={events} poolContexts={poolContexts} />
+                {events.length >= EVENT_LIMIT && (
+                  <p className='mt-2 text-xs text-gray-500'>新しい順に{EVENT_LIMIT}件まで表示します。</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { getServerClient } from '../../../lib/serverClient';
+import { GET_HOOK_DETAILS } from '../../../lib/queries';
+import { ApiError, createGetHandler, getQueryParam, parseLimit, parseOffset, parseTimeRange } from '../../../lib/apiHelpers';
+
+/**
+ * GET /api/hooks/[address]
+ * Hookの統計と、そのHookを使用しているプールの一覧（TVL順）を返す
+ *
+ * クエリパラメータ: from, to, range（プールの作成日時で絞り込み、デフォルト: all）, limit（デフォルト: 50）, offset
+ */
+export default createGetHandler(async (req) => {
+  const address = getQueryParam(req, 'address')!;
+  const { startTime, endTime } = parseTimeRange(req, 'all');
+  const limit = parseLimit(req, 50, 1000);
+  const offset = parseOffset(req);
+
+  const createdAtTimestamp: Record<string, number> = { _gte: startTime };
+  if (endTime !== undefined) createdAtTimestamp._lte = endTime;
+
+  const { data } = await getServerClient().query({
+    query: GET_HOOK_DETAILS,
+    variables: {
+      hookId: address,
+      poolWhere: { hooks: { _eq: address }, createdAtTimestamp },
+      first: limit,
+      skip: offset,
+    },
+  });
+  if (!data?.HookStats_by_pk) throw new ApiError(404, `Hook ${address} が見つかりません`);
+
+  const total = Number(data.Pool_aggregate?.aggregate?.count ?? 0);
+
+  return {
+    hook: data.HookStats_by_pk,
+    startTime,
+    endTime: endTime ?? null,
+    data: data.Pool || [],
+    pagination: { total, limit, offset, nextOffset: offset + limit < total ? offset + limit : null },
+  };
+});
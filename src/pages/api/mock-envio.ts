@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { executeMockQuery, GraphQLRequestBody, recordResponse } from '../../lib/mockEnvio/engine';
+import { getEntityTypes, loadFixtures, saveFixtures } from '../../lib/mockEnvio/fixtureStore';
+
+/**
+ * オフライン開発・CI用のEnvio代替GraphQLエンドポイント
+ *
+ * MOCK_ENVIO_MODE=replay（デフォルト）: fixtures/envio のデータでクエリに応答する
+ * MOCK_ENVIO_MODE=record: MOCK_ENVIO_UPSTREAM_URL に転送し、返ってきた行をフィクスチャに保存する
+ *
+ * 本番ビルドでは MOCK_ENVIO_ENABLED=1 を指定しない限り無効
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (process.env.NODE_ENV === 'production' && process.env.MOCK_ENVIO_ENABLED !== '1') {
+    res.status(404).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ errors: [{ message: 'POSTのみ対応しています' }] });
+    return;
+  }
+
+  const body = req.body as GraphQLRequestBody;
+  if (!body || typeof body.query !== 'string') {
+    res.status(400).json({ errors: [{ message: 'queryが指定されていません' }] });
+    return;
+  }
+
+  if (process.env.MOCK_ENVIO_MODE === 'record') {
+    const upstream = process.env.MOCK_ENVIO_UPSTREAM_URL;
+    if (!upstream) {
+      res.status(500).json({ errors: [{ message: 'MOCK_ENVIO_UPSTREAM_URLが設定されていません' }] });
+      return;
+    }
+
+    try {
+      const response = await fetch(upstream, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (result?.data) {
+        const touched = recordResponse(body, result.data, loadFixtures(), getEntityTypes());
+        saveFixtures(touched);
+      }
+
+      res.status(response.status).json(result);
+    } catch (error) {
+      console.error('記録モードでの転送エラー:', error);
+      res.status(502).json({ errors: [{ message: `上流への転送に失敗しました: ${String(error)}` }] });
+    }
+    return;
+  }
+
+  res.status(200).json(executeMockQuery(body, loadFixtures(), getEntityTypes()));
+}
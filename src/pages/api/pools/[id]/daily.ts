@@ -0,0 +1,57 @@
+import { getServerClient } from '../../../../lib/serverClient';
+import { fetchAllSwapEvents } from '../../../../lib/swapDataFetcher';
+import { fetchAllModifyLiquidityEvents } from '../../../../lib/liquidityDataFetcher';
+import { buildLiquidityHistory } from '../../../../lib/liquidityHistoryUtils';
+import { GET_POOL_DETAILS } from '../../../../lib/queries';
+import {
+  ApiError,
+  createGetHandler,
+  getQueryParam,
+  paginateRows,
+  parseLimit,
+  parseOffset,
+  parseTimeRange,
+} from '../../../../lib/apiHelpers';
+
+/**
+ * GET /api/pools/[id]/daily
+ * プールの日別の流動性・TVL・手数料・取引量を返す（useLiquidityHistoryと同じ処理）
+ *
+ * クエリパラメータ: from, to, range（デフォルト: 90d）, limit（デフォルト: 366）, offset
+ */
+export default createGetHandler(async (req) => {
+  const poolId = getQueryParam(req, 'id')!;
+  const { startTime, endTime } = parseTimeRange(req);
+  const limit = parseLimit(req, 366, 3660);
+  const offset = parseOffset(req);
+  const client = getServerClient();
+
+  const { data } = await client.query({
+    query: GET_POOL_DETAILS,
+    variables: { poolId, token0Id: '0', token1Id: '0' },
+  });
+  const pool = data?.Pool_by_pk;
+  if (!pool) throw new ApiError(404, `プール ${poolId} が見つかりません`);
+
+  // range=allなどで開始時刻がプール作成前の場合は作成日時から集計する
+  const historyStart = Math.max(startTime, Number(pool.createdAtTimestamp || 0));
+
+  const [swapEvents, liquidityEvents] = await Promise.all([
+    fetchAllSwapEvents(client, poolId, startTime, 100, 1000, undefined, endTime),
+    fetchAllModifyLiquidityEvents(client, poolId, startTime),
+  ]);
+
+  const history = buildLiquidityHistory(
+    endTime === undefined ? liquidityEvents : liquidityEvents.filter((event) => Number(event.timestamp) <= endTime),
+    swapEvents,
+    pool,
+    historyStart,
+  ).filter((point) => endTime === undefined || point.timestamp <= endTime);
+
+  return {
+    poolId,
+    startTime,
+    endTime: endTime ?? null,
+    ...paginateRows(history, limit, offset),
+  };
+});
@@ -0,0 +1,49 @@
+import { getServerClient } from '../../../../lib/serverClient';
+import { buildSwapWhere } from '../../../../lib/swapDataFetcher';
+import { buildKeysetWhere, getKeysetCursor, SWAP_KEYSET_SOURCE } from '../../../../lib/keysetPagination';
+import { SwapEvent } from '../../../../types';
+import {
+  createGetHandler,
+  decodeCursor,
+  encodeCursor,
+  getQueryParam,
+  parseLimit,
+  parseTimeRange,
+} from '../../../../lib/apiHelpers';
+
+/**
+ * GET /api/pools/[id]/swaps
+ * プールのスワップイベントを (timestamp, logIndex, id) の昇順で返す
+ *
+ * クエリパラメータ: from, to, range（デフォルト: 7d）, limit（デフォルト: 100、最大1000）,
+ * cursor（前のレスポンスのnextCursor）
+ */
+export default createGetHandler(async (req) => {
+  const poolId = getQueryParam(req, 'id')!;
+  const { startTime, endTime } = parseTimeRange(req, '7d');
+  const limit = parseLimit(req, 100, 1000);
+  const cursor = decodeCursor(getQueryParam(req, 'cursor'), SWAP_KEYSET_SOURCE.cursorFields.length);
+
+  const baseWhere = buildSwapWhere(poolId, startTime, endTime);
+  const where = cursor ? { _and: [baseWhere, buildKeysetWhere(SWAP_KEYSET_SOURCE.cursorFields, cursor)] } : baseWhere;
+
+  const { data } = await getServerClient().query({
+    query: SWAP_KEYSET_SOURCE.query,
+    variables: { where, first: limit },
+  });
+  const swaps: SwapEvent[] = data?.[SWAP_KEYSET_SOURCE.field] || [];
+
+  // 取得件数がlimitと同じ場合のみ次のページがある可能性がある
+  const nextCursor =
+    swaps.length === limit
+      ? encodeCursor(getKeysetCursor(swaps[swaps.length - 1], SWAP_KEYSET_SOURCE.cursorFields))
+      : null;
+
+  return {
+    poolId,
+    startTime,
+    endTime: endTime ?? null,
+    data: swaps,
+    pagination: { limit, nextCursor },
+  };
+});
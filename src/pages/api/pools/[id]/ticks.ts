@@ -0,0 +1,32 @@
+import { getServerClient } from '../../../../lib/serverClient';
+import { generateTicksFromPositions } from '../../../../lib/tickDataProcessor';
+import { GET_POOL_TICKS } from '../../../../lib/queries';
+import { ApiError, createGetHandler, getQueryParam, paginateRows, parseLimit, parseOffset } from '../../../../lib/apiHelpers';
+
+/**
+ * GET /api/pools/[id]/ticks
+ * アクティブなポジションから再構成したティックごとの流動性分布を返す（generateTicksFromPositionsと同じ処理）
+ * ティックは現在の流動性から計算するため、時間範囲の指定には対応しない
+ *
+ * クエリパラメータ: limit（デフォルト: 500）, offset
+ */
+export default createGetHandler(async (req) => {
+  const poolId = getQueryParam(req, 'id')!;
+  const limit = parseLimit(req, 500, 5000);
+  const offset = parseOffset(req);
+
+  const { data } = await getServerClient().query({
+    query: GET_POOL_TICKS,
+    variables: { poolId },
+  });
+  if (!data?.pool) throw new ApiError(404, `プール ${poolId} が見つかりません`);
+
+  const ticks = generateTicksFromPositions(data.positions || [], data.pool);
+
+  return {
+    poolId,
+    currentTick: data.pool.tick,
+    tickSpacing: data.pool.tickSpacing,
+    ...paginateRows(ticks, limit, offset),
+  };
+});
@@ -1,7 +1,13 @@
 import { useState } from "react";
-import { useQuery } from "@apollo/client";
-import { client } from "../lib/apollo-client";
 import { GET_ALL_POOLS, GET_HOOKS_STATS } from "../lib/queries";
+import {
+  chainWhere,
+  mergeHookStatsResults,
+  mergePoolsResults,
+  useChainFanOutQuery,
+} from "../lib/multiChainQuery";
+import { getConfiguredChainIds } from "../lib/indexerRegistry";
+import { getChainName } from "../utils/chains";
 import Link from "next/link";
 import {
   formatUSD,
@@ -9,6 +15,15 @@ import {
   shortenAddress,
 } from "../lib/utils";
 import PoolSelector from "../components/PoolSelector";
+import HookPermissionBadges from "../components/HookPermissionBadges";
+import {
+  decodeHookPermissions,
+  hasHook,
+  HOOK_PERMISSIONS,
+} from "../lib/hookPermissions";
+import { formatFeeTier } from "../lib/dynamicFees";
+import { getExplorerUrl, resolveToken } from "../lib/nativeCurrency";
+import TokenLabel from "../components/TokenLabel";
 import {
   PoolsQueryResult,
   HookStatsQueryResult,
@@ -17,34 +32,57 @@ import {
   HookStats,
 } from "../types";
 
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Hookの有無はクエリの条件で絞り込む（パーミッションはアドレスのビットで決まるため取得後に絞り込む）
+const hookWhere = (hookFilter: string): Record<string, unknown> => {
+  switch (hookFilter) {
+    case "none":
+      return { hooks: { _eq: ZERO_ADDRESS } };
+    case "any":
+      return { hooks: { _neq: ZERO_ADDRESS } };
+    default:
+      return {};
+  }
+};
+
 export default function Home() {
   const [sortField, setSortField] = useState("totalValueLockedUSD");
   const [sortDirection, setSortDirection] = useState("desc");
   const [activeTab, setActiveTab] = useState("pools");
+  // Hookによる絞り込み（all / none / any / returnsDelta / パーミッション名）
+  const [hookFilter, setHookFilter] = useState("all");
+
+  // 複数チェーンのインデクサーを使う場合はチェーン名を表示する
+  const isMultiChain = getConfiguredChainIds().length > 1;
 
-  // プール一覧を取得
-  const { loading, error, data } = useQuery<PoolsQueryResult>(GET_ALL_POOLS, {
-    variables: {
-      first: 100,
-      orderBy: sortField,
-      orderDirection: sortDirection,
-    },
-    client,
-  });
+  // プール一覧を取得（チェーンごとに取得して結合）
+  const { loading, error, data, failedChainIds } =
+    useChainFanOutQuery<PoolsQueryResult>(
+      GET_ALL_POOLS,
+      (chainId) => ({
+        first: 100,
+        orderBy: sortField,
+        orderDirection: sortDirection,
+        where: { ...chainWhere(chainId), ...hookWhere(hookFilter) },
+        tokenWhere: chainWhere(chainId),
+      }),
+      (results) => mergePoolsResults(results, 100)
+    );
 
-  // Hooks統計を取得
+  // Hooks統計を取得（チェーンごとに取得して結合）
   const {
     loading: hooksLoading,
     error: hooksError,
     data: hooksData,
-  } = useQuery<HookStatsQueryResult>(GET_HOOKS_STATS, {
-    variables: {
+  } = useChainFanOutQuery<HookStatsQueryResult>(
+    GET_HOOKS_STATS,
+    (chainId) => ({
       first: 50,
-      orderBy: "totalValueLockedUSD",
-      orderDirection: "desc",
-    },
-    client,
-  });
+      where: chainWhere(chainId),
+    }),
+    (results) => mergeHookStatsResults(results, 50)
+  );
 
   // トークン情報をIDでマッピング
   const tokenMap: Record<string, Token> = {};
@@ -54,6 +92,35 @@ export default function Home() {
     });
   }
 
+  // Hookの条件に合うプールかを判定
+  const matchesHookFilter = (pool: Pool): boolean => {
+    switch (hookFilter) {
+      case "all":
+        return true;
+      case "none":
+        return !hasHook(pool.hooks);
+      case "any":
+        return hasHook(pool.hooks);
+      case "returnsDelta":
+        return decodeHookPermissions(pool.hooks).some(
+          (permission) => permission.risk === "high",
+        );
+      default:
+        return decodeHookPermissions(pool.hooks).some(
+          (permission) => permission.key === hookFilter,
+        );
+    }
+  };
+
+  // Hookの有無以外の条件は取得済みのTVL上位のプールだけが対象になる
+  const filtersLoadedPoolsOnly =
+    hookFilter !== "all" && !hookWhere(hookFilter).hooks;
+
+  const filteredPools =
+    data?.Pool && Array.isArray(data.Pool)
+      ? data.Pool.filter((pool: Pool) => pool && matchesHookFilter(pool))
+      : null;
+
   // ソート処理
   const handleSort = (field: string) => {
     if (field === sortField) {
@@ -115,6 +182,43 @@ export default function Home() {
 
         {activeTab === "pools" && (
           <>
+            {!loading && !error && failedChainIds.length > 0 && (
+              <div className="mb-4 p-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg">
+                一部のチェーンのデータを取得できませんでした:{" "}
+                {failedChainIds.map((chainId) => getChainName(chainId)).join(", ")}
+              </div>
+            )}
+            <div className="mb-4 flex items-center text-sm">
+              <label htmlFor="hook-filter" className="mr-2 text-gray-600">
+                Hook:
+              </label>
+              <select
+                id="hook-filter"
+                value={hookFilter}
+                onChange={(e) => setHookFilter(e.target.value)}
+                className="border border-gray-300 rounded-md px-2 py-1"
+              >
+                <option value="all">すべて</option>
+                <option value="none">Hookなし</option>
+                <option value="any">Hookあり</option>
+                <option value="returnsDelta">デルタを返すHook</option>
+                {HOOK_PERMISSIONS.map((permission) => (
+                  <option key={permission.key} value={permission.key}>
+                    {permission.key}
+                  </option>
+                ))}
+              </select>
+              {hookFilter !== "all" && filteredPools && (
+                <span className="ml-2 text-gray-500">
+                  {filteredPools.length.toLocaleString()}件
+                </span>
+              )}
+              {filtersLoadedPoolsOnly && (
+                <span className="ml-2 text-xs text-gray-500">
+                  ※TVL上位100件のプールのうち条件に合うものを表示しています
+                </span>
+              )}
+            </div>
             {loading ? (
               <div className="card p-8 text-center">
                 <p className="text-gray-500">読み込み中...</p>
@@ -163,40 +267,42 @@ export default function Home() {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {data?.Pool && Array.isArray(data.Pool)
-                      ? data.Pool.map((pool: Pool) => {
-                          if (!pool) return null;
-
-                          const token0 = tokenMap[pool.token0] || {
-                            symbol: "Unknown",
-                            name: "Unknown",
-                          };
-                          const token1 = tokenMap[pool.token1] || {
-                            symbol: "Unknown",
-                            name: "Unknown",
-                          };
-                          const hasHooks =
-                            pool.hooks &&
-                            pool.hooks !==
-                              "0x0000000000000000000000000000000000000000";
-
+                    {filteredPools
+                      ? filteredPools.map((pool: Pool) => {
+                          const token0 = resolveToken(
+                            pool.token0,
+                            tokenMap[pool.token0],
+                            "Unknown",
+                            pool.chainId,
+                          );
+                          const token1 = resolveToken(
+                            pool.token1,
+                            tokenMap[pool.token1],
+                            "Unknown",
+                            pool.chainId,
+                          );
                           return (
                             <tr key={pool.id} className="hover:bg-gray-50">
                               <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
                                 {shortenAddress(pool.id)}
-                                {hasHooks && (
-                                  <span className="ml-2 px-2 py-0.5 text-xs bg-purple-100 text-purple-800 rounded-full">
-                                    Hook
+                                {isMultiChain && (
+                                  <span className="ml-2 px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">
+                                    {getChainName(pool.chainId)}
                                   </span>
                                 )}
+                                <HookPermissionBadges
+                                  hookAddress={pool.hooks}
+                                  compact
+                                />
                               </td>
                               <td className="px-4 py-4 whitespace-nowrap">
                                 <div className="flex items-center">
                                   <span className="font-medium">
-                                    {token0.symbol} / {token1.symbol}
+                                    <TokenLabel token={token0} /> /{" "}
+                                    <TokenLabel token={token1} />
                                   </span>
                                   <span className="ml-2 text-xs text-gray-500">
-                                    Fee: {Number(pool.feeTier) / 10000}%
+                                    Fee: {formatFeeTier(pool.feeTier)}
                                   </span>
                                 </div>
                               </td>
@@ -256,6 +362,9 @@ export default function Home() {
                       <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Hook
                       </th>
+                      <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        パーミッション
+                      </th>
                       <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                         プール数
                       </th>
@@ -276,16 +385,30 @@ export default function Home() {
                   <tbody className="bg-white divide-y divide-gray-200">
                     {hooksData?.HookStats && Array.isArray(hooksData.HookStats)
                       ? hooksData.HookStats.map((hook: HookStats) => (
-                          <tr key={hook.id} className="hover:bg-gray-50">
+                          <tr
+                            key={`${hook.chainId}-${hook.id}`}
+                            className="hover:bg-gray-50"
+                          >
                             <td className="px-4 py-4 whitespace-nowrap text-sm">
                               <a
-                                href={`https://etherscan.io/address/${hook.id}`}
+                                href={
+                                  getExplorerUrl(hook.chainId, "address", hook.id) ??
+                                  undefined
+                                }
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-500 hover:underline"
                               >
                                 {shortenAddress(hook.id)}
                               </a>
+                              {isMultiChain && (
+                                <span className="ml-2 px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">
+                                  {getChainName(hook.chainId)}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-4 py-4 text-sm">
+                              <HookPermissionBadges hookAddress={hook.id} />
                             </td>
                             <td className="px-4 py-4 whitespace-nowrap text-right text-sm">
                               {Number(hook.numberOfPools).toLocaleString()}
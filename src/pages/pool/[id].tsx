@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/router';
 import { useQuery, useApolloClient } from '@apollo/client';
 import Link from 'next/link';
@@ -19,16 +19,47 @@ import {
   getTimeRangeTimestamp,
   shortenAddress,
 } from '../../lib/utils';
-import { fetchAllSwapEvents, createChartDataFromSwapEvents } from '../../lib/swapDataFetcher';
+import { fetchSwapHistory } from '../../lib/swapDataFetcher';
+import { fetchAllLiquidityPositions, fetchModifyLiquidityHistory } from '../../lib/liquidityDataFetcher';
+import {
+  enforceCacheLimit,
+  EventKind,
+  evictPool,
+  isEventStoreAvailable,
+  isPoolCached,
+  loadPoolEvents,
+  syncPoolEvents,
+} from '../../lib/eventStore';
 import LiquidityFeesChart from '../../components/LiquidityFeesChart';
 import LiquidityDepthChart from '../../components/LiquidityDepthChart';
 import LiquidityEventsTable from '../../components/LiquidityEventsTable';
 import LiquidityPositionsTable from '../../components/LiquidityPositionsTable';
 import SwapDetailsTable from '../../components/SwapDetailsTable';
 import ActiveTickRangeChart from '../../components/ActiveTickRangeChart';
-import { useLiquidityHistory } from '../../lib/liquidityHistoryUtils';
+import EventCacheControls from '../../components/EventCacheControls';
+import TradeSimulator from '../../components/TradeSimulator';
+import MarketDepthPanel from '../../components/MarketDepthPanel';
+import CurrentPrice from '../../components/CurrentPrice';
+import PositionDetail from '../../components/PositionDetail';
+import TickTimeTravelSlider from '../../components/TickTimeTravelSlider';
+import HookPermissionBadges from '../../components/HookPermissionBadges';
+import PoolKeyPanel from '../../components/PoolKeyPanel';
+import TokenLabel from '../../components/TokenLabel';
+import NativePairComparison from '../../components/NativePairComparison';
+import BacktestPanel from '../../components/BacktestPanel';
+import PositionPlanner from '../../components/PositionPlanner';
+import { isAggregationAborted, runAggregation } from '../../lib/aggregation/client';
+import { mergeEventsById, useLivePoolUpdates } from '../../lib/liveUpdates';
 import { generateTicksFromPositions } from '../../lib/tickDataProcessor';
+import { getTickAt, replayTicksAt, sortLiquidityEvents } from '../../lib/tickReplay';
+import { PriceDisplayProvider } from '../../lib/priceDisplay';
+import { PositionFeeEstimate } from '../../lib/positionFees';
+import { hasHook } from '../../lib/hookPermissions';
+import { formatFeeTier, getSwapFeeRates } from '../../lib/dynamicFees';
+import { verifyPoolId } from '../../lib/poolKey';
+import { buildCounterpartPoolWhere, getExplorerUrl, resolveToken } from '../../lib/nativeCurrency';
 import { client } from '../../lib/apollo-client';
+import { getChainName } from '../../utils/chains';
 import {
   PoolDetailsQueryResult,
   SwapEventsQueryResult,
@@ -38,9 +69,16 @@ import {
   BundleQueryResult,
   ChartDataPoint,
   SwapEvent,
+  ModifyLiquidityEvent,
   ExtendedChartDataPoint,
+  LiquidityPosition,
 } from '../../types';
 
+// 過去のTick分布の復元で、バッチ上限に達したときに続けて取得する最大回数（1回あたり最大10万件）
+const TICK_HISTORY_MAX_ROUNDS = 10;
+// チャート用のイベントはすべてメモリに載せるため、続けて取得するのは3回（最大30万件）までにする
+const SWAP_DATA_MAX_ROUNDS = 3;
+
 export default function PoolDetail() {
   const router = useRouter();
   const apolloClient = useApolloClient();
@@ -55,8 +93,32 @@ export default function PoolDetail() {
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [allSwapEvents, setAllSwapEvents] = useState<SwapEvent[]>([]);
+  const [allLiquidityEvents, setAllLiquidityEvents] = useState<ModifyLiquidityEvent[]>([]);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [liquidityHistoryData, setLiquidityHistoryData] = useState<ExtendedChartDataPoint[]>([]);
   const [dataError, setDataError] = useState<string | null>(null);
+  // 件数が多く途中までしか読み込めなかった場合、読み込めた最後の時点（すべて読み込めた場合はnull）
+  const [swapDataPartialUntil, setSwapDataPartialUntil] = useState<number | null>(null);
+  const [cacheVersion, setCacheVersion] = useState(0);
+  const [positionFeeEstimates, setPositionFeeEstimates] = useState<Map<string, PositionFeeEstimate> | null>(null);
+  const [feeEstimateProgress, setFeeEstimateProgress] = useState<number | null>(null);
+  // 手数料の按分の分母に使うプールのすべてのアクティブなポジション（一覧は上位100件のみのため別に取得）
+  const [poolPositions, setPoolPositions] = useState<LiquidityPosition[] | null>(null);
+  const [poolPositionsError, setPoolPositionsError] = useState<string | null>(null);
+  const [selectedPositionId, setSelectedPositionId] = useState<string | null>(null);
+  // 過去のTick分布の復元用（プール作成以降の流動性変更イベントと表示する時点）
+  const [tickHistory, setTickHistory] = useState<ModifyLiquidityEvent[] | null>(null);
+  const [tickHistoryLoading, setTickHistoryLoading] = useState(false);
+  const [tickHistoryMessage, setTickHistoryMessage] = useState('');
+  const [tickHistoryError, setTickHistoryError] = useState<string | null>(null);
+  const [tickHistoryComplete, setTickHistoryComplete] = useState(true);
+  const [tickTime, setTickTime] = useState<number | null>(null);
+  // 履歴を取得中のプール（取得中にプールを切り替えた場合に古い結果を捨てるため）
+  const tickHistoryPoolRef = useRef<string | null>(null);
+  // 実行中の取得処理を識別する（古い結果で状態を上書きしないため）
+  const loadRunRef = useRef(0);
+  // 実行中の集計ワーカーのジョブを中断するためのコントローラー
+  const aggregationAbortRef = useRef<AbortController | null>(null);
 
   // プールの詳細データを取得 - 単独のクエリ（TokenInfoは別に取得）
   const {
@@ -123,49 +185,245 @@ export default function PoolDetail() {
   // 時間範囲に基づいたタイムスタンプを取得
   const startTimestamp = useMemo(() => getTimeRangeTimestamp(timeRange), [timeRange]);
 
-  // 大量データを取得する関数 (改良版)
-  const fetchLargeSwapDataset = async () => {
+  // 取得したイベントを状態に反映し、チャートデータを集計ワーカーで作成
+  // 中断された場合（プールや期間の切り替え）はfalseを返す
+  const applySwapDataset = async (
+    events: SwapEvent[],
+    liquidityEvents: ModifyLiquidityEvent[],
+    feeTier: string,
+    progressCallback: (percent: number, message: string) => void,
+  ): Promise<boolean> => {
+    aggregationAbortRef.current?.abort();
+    const controller = new AbortController();
+    aggregationAbortRef.current = controller;
+
+    setAllSwapEvents(events);
+    setAllLiquidityEvents(liquidityEvents);
+
+    try {
+      // 進捗はスワップの集計を0〜50%、流動性履歴を50〜100%に割り当てる
+      const chartPoints = await runAggregation(
+        { kind: 'swapChart', swapEvents: events, feeTier },
+        {
+          signal: controller.signal,
+          progressCallback: (percent, message) => progressCallback(percent * 0.5, message),
+        },
+      );
+      const history = poolData?.Pool_by_pk
+        ? await runAggregation(
+            {
+              kind: 'liquidityHistory',
+              liquidityEvents,
+              swapEvents: [], // スワップデータは上の集計で別途処理
+              poolData: poolData.Pool_by_pk,
+            },
+            {
+              signal: controller.signal,
+              progressCallback: (percent, message) => progressCallback(50 + percent * 0.5, message),
+            },
+          )
+        : [];
+
+      setChartData(chartPoints);
+      setLiquidityHistoryData(history);
+      return true;
+    } catch (error) {
+      if (isAggregationAborted(error)) return false;
+      throw error;
+    }
+  };
+
+  // プールや期間を切り替えたとき、ページを離れたときは集計を中断する
+  useEffect(() => {
+    return () => aggregationAbortRef.current?.abort();
+  }, [id, timeRange]);
+
+  // 大量データを取得する関数
+  // IndexedDBが使える場合は保存済みデータを即座に表示し、差分だけを同期する
+  const fetchLargeSwapDataset = async (options: { rebuild?: boolean } = {}) => {
     if (!id || !poolData?.Pool_by_pk?.feeTier) return;
 
+    const poolId = id as string;
+    const feeTier = poolData.Pool_by_pk.feeTier;
+    const runId = ++loadRunRef.current;
+    const isCurrentRun = () => runId === loadRunRef.current;
+    let shownFromCache = false;
+
     setIsLoadingSwapData(true);
     setDataError(null);
+    setSwapDataPartialUntil(null);
     setAllSwapEvents([]);
+    setAllLiquidityEvents([]);
 
     try {
       // 進捗報告用コールバック
       const updateProgress = (percent: number, message: string) => {
+        if (!isCurrentRun()) return;
         setLoadingProgress(percent);
         setLoadingMessage(message);
       };
 
-      // 大量データ取得（ページネーションを使用）
-      const events = await fetchAllSwapEvents(
-        apolloClient,
-        id as string,
-        startTimestamp,
-        100, // 最大バッチ数（最大10万件）
-        1000, // 1回あたりの取得数
-        updateProgress,
-      );
+      // 最後まで読み込めなかった種別の、読み込めた最後の時点を記録する
+      const markPartial = (complete: boolean, events: { timestamp: string }[]) => {
+        if (complete || events.length === 0 || !isCurrentRun()) return;
+        const until = Number(events[events.length - 1].timestamp);
+        setSwapDataPartialUntil((current) => (current === null ? until : Math.min(current, until)));
+      };
 
-      setAllSwapEvents(events);
+      if (!isEventStoreAvailable()) {
+        // 大量データ取得（キーセットページネーション、バッチ上限に達した場合は続きから取得）
+        const { swaps: events, complete: swapsComplete } = await fetchSwapHistory(
+          apolloClient,
+          poolId,
+          startTimestamp,
+          { progressCallback: (percent, message) => updateProgress(percent * 0.95, message) },
+          SWAP_DATA_MAX_ROUNDS,
+        );
 
-      // チャート用データ形式に変換
-      const chartPoints = createChartDataFromSwapEvents(
-        events,
-        poolData.Pool_by_pk.feeTier,
-        [], // 流動性データは別途取得
-      );
+        // 同じ期間の流動性変更イベントもキーセットで取得
+        updateProgress(95, '流動性イベントを取得中...');
+        const { events: liquidityEvents, complete: liquidityComplete } = await fetchModifyLiquidityHistory(
+          apolloClient,
+          poolId,
+          startTimestamp,
+          {},
+          SWAP_DATA_MAX_ROUNDS,
+        );
+        markPartial(swapsComplete, events);
+        markPartial(liquidityComplete, liquidityEvents);
+        if (isCurrentRun()) await applySwapDataset(events, liquidityEvents, feeTier, updateProgress);
+        return;
+      }
 
-      setChartData(chartPoints);
+      // バッチ上限に達した場合は、保存済みのカーソルから続けて同期する
+      const syncInRounds = async (kind: EventKind, progressCallback?: (percent: number, message: string) => void) => {
+        let added = 0;
+        let complete = false;
+        for (let round = 0; !complete && round < SWAP_DATA_MAX_ROUNDS && isCurrentRun(); round++) {
+          const sync = await syncPoolEvents(
+            apolloClient,
+            poolId,
+            kind,
+            startTimestamp,
+            progressCallback &&
+              ((percent, message) =>
+                progressCallback(((round + percent / 100) / SWAP_DATA_MAX_ROUNDS) * 95, `${round + 1}回目: ${message}`)),
+          );
+          added += sync.added;
+          complete = sync.complete;
+        }
+        return { added, complete };
+      };
+
+      if (options.rebuild) {
+        await evictPool(poolId);
+      }
+
+      // 保存済みデータが期間をカバーしていれば、同期を待たずに表示
+      const [swapsCached, liquidityCached] = await Promise.all([
+        isPoolCached(poolId, 'swaps', startTimestamp),
+        isPoolCached(poolId, 'modifyLiquidity', startTimestamp),
+      ]);
+      if (swapsCached && liquidityCached) {
+        const [events, liquidityEvents] = await Promise.all([
+          loadPoolEvents(poolId, 'swaps', startTimestamp),
+          loadPoolEvents(poolId, 'modifyLiquidity', startTimestamp),
+        ]);
+        if (!isCurrentRun()) return;
+        if (!(await applySwapDataset(events, liquidityEvents, feeTier, updateProgress))) return;
+        shownFromCache = true;
+        setIsLoadingSwapData(false);
+      }
+
+      // 保存済みのハイウォーターマークより新しい行だけを取得
+      const swapSync = await syncInRounds('swaps', updateProgress);
+      updateProgress(95, '流動性イベントを同期中...');
+      const liquiditySync = await syncInRounds('modifyLiquidity');
+      await enforceCacheLimit();
+
+      if (!isCurrentRun()) return;
+      const needsReload = !shownFromCache || swapSync.added > 0 || liquiditySync.added > 0;
+      const [events, liquidityEvents] =
+        needsReload || !swapSync.complete || !liquiditySync.complete
+          ? await Promise.all([
+              loadPoolEvents(poolId, 'swaps', startTimestamp),
+              loadPoolEvents(poolId, 'modifyLiquidity', startTimestamp),
+            ])
+          : [[], []];
+      markPartial(swapSync.complete, events);
+      markPartial(liquiditySync.complete, liquidityEvents);
+      if (needsReload && isCurrentRun()) await applySwapDataset(events, liquidityEvents, feeTier, updateProgress);
+      setCacheVersion((v) => v + 1);
     } catch (error) {
       console.error('大量データ取得エラー:', error);
-      setDataError(`データの取得に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+      // キャッシュから表示済みの場合は表示を維持する
+      if (isCurrentRun() && !shownFromCache) {
+        setDataError(`データの取得に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+      }
     } finally {
-      setIsLoadingSwapData(false);
+      if (isCurrentRun()) setIsLoadingSwapData(false);
     }
   };
 
+  // Tick分布の復元用に、プール作成以降の流動性変更イベントをすべて取得
+  const loadTickHistory = async () => {
+    if (!id) return;
+
+    const poolId = id as string;
+    tickHistoryPoolRef.current = poolId;
+    setTickHistoryLoading(true);
+    setTickHistoryError(null);
+
+    try {
+      const updateProgress = (_percent: number, message: string) => {
+        if (tickHistoryPoolRef.current === poolId) setTickHistoryMessage(message);
+      };
+
+      let events: ModifyLiquidityEvent[];
+      let complete: boolean;
+      if (isEventStoreAvailable()) {
+        // バッチ上限で止まった場合は、保存済みのカーソルから続けて同期する
+        let sync = await syncPoolEvents(apolloClient, poolId, 'modifyLiquidity', 0, updateProgress);
+        for (let round = 1; !sync.complete && round < TICK_HISTORY_MAX_ROUNDS; round++) {
+          if (tickHistoryPoolRef.current !== poolId) return;
+          sync = await syncPoolEvents(apolloClient, poolId, 'modifyLiquidity', 0, updateProgress);
+        }
+        events = await loadPoolEvents(poolId, 'modifyLiquidity', 0);
+        complete = sync.complete;
+        setCacheVersion((v) => v + 1);
+      } else {
+        ({ events, complete } = await fetchModifyLiquidityHistory(
+          apolloClient,
+          poolId,
+          0,
+          { progressCallback: updateProgress },
+          TICK_HISTORY_MAX_ROUNDS,
+        ));
+      }
+
+      if (tickHistoryPoolRef.current !== poolId) return;
+      setTickHistory(sortLiquidityEvents(events));
+      setTickHistoryComplete(complete);
+    } catch (error) {
+      console.error('流動性イベントの履歴の取得エラー:', error);
+      if (tickHistoryPoolRef.current === poolId) {
+        setTickHistoryError(`履歴の取得に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+      }
+    } finally {
+      if (tickHistoryPoolRef.current === poolId) setTickHistoryLoading(false);
+    }
+  };
+
+  // プールを切り替えたときは復元用の履歴を破棄する
+  useEffect(() => {
+    tickHistoryPoolRef.current = null;
+    setTickHistory(null);
+    setTickHistoryComplete(true);
+    setTickHistoryLoading(false);
+    setTickHistoryError(null);
+    setTickTime(null);
+  }, [id]);
+
   // 初回マウント時、およびtimeRangeが変わるたびにデータを取得
   useEffect(() => {
     if (id && poolData?.Pool_by_pk?.feeTier && activeTab === 'liquidity') {
@@ -173,23 +431,6 @@ export default function PoolDetail() {
     }
   }, [id, poolData?.Pool_by_pk?.feeTier, timeRange, activeTab]);
 
-  // 流動性イベントを取得
-  const {
-    loading: liquidityEventsLoading,
-    error: liquidityEventsError,
-    data: liquidityEventsData,
-  } = useQuery<ModifyLiquidityEventsQueryResult>(GET_RECENT_MODIFY_LIQUIDITY_EVENTS, {
-    variables: id
-      ? {
-          poolId: id,
-          startTime: startTimestamp,
-          first: 1000,
-        }
-      : undefined,
-    skip: !id || isLoadingSwapData, // 大量データ取得中はスキップ
-    client,
-  });
-
   // 既存の小さなスワップイベントクエリ（SwapDetailsTabで表示する用）
   const {
     loading: swapsLoading,
@@ -201,6 +442,7 @@ export default function PoolDetail() {
           poolId: id,
           startTime: 0, // すべてのスワップを取得
           first: 100, // 表示用に最新100件だけ
+          orderDirection: 'desc',
         }
       : undefined,
     skip: !id || activeTab !== 'swaps', // スワップタブでのみ実行
@@ -231,7 +473,7 @@ export default function PoolDetail() {
     data: positionsData,
   } = useQuery<LiquidityPositionsQueryResult>(GET_ACTIVE_POOL_LIQUIDITY_POSITIONS, {
     variables: id ? { poolId: id } : undefined,
-    skip: !id || (activeTab !== 'positions' && activeTab !== 'ticks'),
+    skip: !id || (activeTab !== 'positions' && activeTab !== 'ticks' && activeTab !== 'trade'),
     client,
   });
 
@@ -246,14 +488,6 @@ export default function PoolDetail() {
     client,
   });
 
-  // 流動性履歴データを使用してチャートデータを生成（既存のチャートデータと結合）
-  const liquidityHistoryData = useLiquidityHistory(
-    liquidityEventsData?.ModifyLiquidity,
-    [], // スワップデータは大量データ取得で別途処理
-    poolData?.Pool_by_pk,
-    timeRange,
-  );
-
   // 両方のデータソースを結合（大量データ取得と流動性ヒストリー）
   const combinedChartData = useMemo(() => {
     if (isLoadingSwapData) return []; // ロード中は空配列
@@ -284,22 +518,174 @@ export default function PoolDetail() {
     return liquidityHistoryData as unknown as ExtendedChartDataPoint[]; // 型をExtendedChartDataPoint[]としてキャスト
   }, [chartData, liquidityHistoryData, isLoadingSwapData]);
 
-  // プールデータがあるか確認
-  const pool = poolData?.Pool_by_pk;
+  // 新しいイベントと最新のTickをリアルタイムに受信
+  const live = useLivePoolUpdates(id as string | undefined, !!poolData?.Pool_by_pk);
 
-  // トークン情報
-  const token0 = token0Data?.Token_by_pk || { symbol: '', name: '', decimals: '' };
-  const token1 = token1Data?.Token_by_pk || { symbol: '', name: '', decimals: '' };
+  // プールデータがあるか確認（ライブ更新で受信した最新状態を反映）
+  const pool = useMemo(() => {
+    if (!poolData?.Pool_by_pk || !live.poolState) return poolData?.Pool_by_pk;
+    return { ...poolData.Pool_by_pk, ...live.poolState };
+  }, [poolData?.Pool_by_pk, live.poolState]);
+
+  // ライブ更新で受信したイベントを各テーブルの先頭に追加
+  const mergedSwaps = useMemo(
+    () => mergeEventsById(allSwapEvents.length > 0 ? allSwapEvents : swapsData?.Swap || [], live.swaps),
+    [allSwapEvents, swapsData?.Swap, live.swaps],
+  );
+  const displayedSwaps = useMemo(() => mergedSwaps.slice(0, 100), [mergedSwaps]);
+  const displayedLiquidityEvents = useMemo(
+    () => mergeEventsById(eventsData?.ModifyLiquidity || [], live.liquidityEvents),
+    [eventsData?.ModifyLiquidity, live.liquidityEvents],
+  );
+  const liveSwapIds = useMemo(() => new Set(live.swaps.map((swap) => swap.id)), [live.swaps]);
+  const liveLiquidityEventIds = useMemo(
+    () => new Set(live.liquidityEvents.map((event) => event.id)),
+    [live.liquidityEvents],
+  );
+
+  // トークン情報（ネイティブ通貨はチェーンのnativeTokenDetailsから解決）
+  const poolChainId = poolData?.Pool_by_pk?.chainId;
+  const token0 = useMemo(
+    () => resolveToken(poolData?.Pool_by_pk?.token0 ?? '', token0Data?.Token_by_pk, '', poolChainId),
+    [poolData?.Pool_by_pk?.token0, token0Data?.Token_by_pk, poolChainId],
+  );
+  const token1 = useMemo(
+    () => resolveToken(poolData?.Pool_by_pk?.token1 ?? '', token1Data?.Token_by_pk, '', poolChainId),
+    [poolData?.Pool_by_pk?.token1, token1Data?.Token_by_pk, poolChainId],
+  );
 
   const token0Symbol = token0.symbol || '';
   const token1Symbol = token1.symbol || '';
   const currentTick = Number(pool?.tick || 0);
   const tickSpacing = Number(pool?.tickSpacing || 60);
-  const hasHooks = pool?.hooks && pool?.hooks !== '0x0000000000000000000000000000000000000000';
+
+  // Tick分布・トレードシミュレーター用に、ポジションからTickごとの流動性を復元
+  const reconstructedTicks = useMemo(
+    () =>
+      activeTab === 'ticks' || activeTab === 'trade'
+        ? generateTicksFromPositions(
+            positionsData?.LiquidityPosition || [],
+            pool && { ...pool, token0Decimals: token0.decimals, token1Decimals: token1.decimals },
+          )
+        : [],
+    [activeTab, positionsData, pool, token0.decimals, token1.decimals],
+  );
+
+  // スライダーで選んだ時点のTick分布（nullの場合は現在の分布を表示）
+  const historicalTicks = useMemo(
+    () =>
+      tickHistory && tickTime !== null
+        ? replayTicksAt(tickHistory, tickTime, {
+            id: id as string,
+            token0Decimals: token0.decimals,
+            token1Decimals: token1.decimals,
+          })
+        : null,
+    [tickHistory, tickTime, id, token0.decimals, token1.decimals],
+  );
+  // 選んだ時点のTick（読み込み済みのスワップから分からない場合は現在のTick）
+  const historicalTick = tickTime !== null ? getTickAt(allSwapEvents, tickTime) : null;
+  const displayedTick = historicalTick ?? currentTick;
+
+  const hasHooks = hasHook(pool?.hooks);
+
+  // PoolKeyを復元してプールIDを検証（フィールドが不正な場合はnull）
+  const poolKeyVerification = useMemo(() => {
+    const poolDetails = poolData?.Pool_by_pk;
+    if (!poolDetails) return null;
+    try {
+      return verifyPoolId(poolDetails);
+    } catch (e) {
+      console.error('PoolKeyの復元エラー:', e);
+      return null;
+    }
+  }, [poolData?.Pool_by_pk]);
+
+  // スワップごとの手数料率（動的手数料のプールはスワップ前後の価格と量から推定）
+  const feeTier = poolData?.Pool_by_pk?.feeTier;
+  const swapFeeRates = useMemo(
+    () => (feeTier ? getSwapFeeRates(mergedSwaps, feeTier, token0.decimals, token1.decimals) : undefined),
+    [mergedSwaps, feeTier, token0.decimals, token1.decimals],
+  );
+  // シミュレーター用の手数料率（動的手数料の場合は推定値の中央値）
+  const effectiveFeeTier = swapFeeRates?.dynamic
+    ? String(Math.round(swapFeeRates.defaultRate * 1000000))
+    : pool?.feeTier;
+
+  // 手数料の按分の分母に使うため、ポジションタブを開いたときにすべてのアクティブなポジションを取得
+  useEffect(() => {
+    if (activeTab !== 'positions' || !id || poolPositions || !allSwapEvents.length) return;
+
+    let cancelled = false;
+    setPoolPositionsError(null);
+    fetchAllLiquidityPositions(apolloClient, id as string)
+      .then((positions) => {
+        if (!cancelled) setPoolPositions(positions);
+      })
+      .catch((error) => {
+        console.error('ポジションの一覧の取得エラー:', error);
+        if (!cancelled) setPoolPositionsError(error instanceof Error ? error.message : '不明なエラー');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, id, poolPositions, allSwapEvents.length, apolloClient]);
+
+  // 取得済みのスワップを再生して、各ポジションの手数料を推定（ポジションタブでのみ実行）
+  useEffect(() => {
+    const positions = positionsData?.LiquidityPosition;
+    if (activeTab !== 'positions' || !positions?.length || !poolPositions || !allSwapEvents.length || !feeTier) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setFeeEstimateProgress(0);
+    runAggregation(
+      {
+        kind: 'positionFees',
+        swapEvents: allSwapEvents,
+        positions,
+        poolPositions,
+        liquidityEvents: allLiquidityEvents,
+        feeTier,
+        startTimestamp,
+      },
+      { signal: controller.signal, progressCallback: (percent) => setFeeEstimateProgress(percent) },
+    )
+      .then((estimates) => {
+        setPositionFeeEstimates(new Map(estimates.map((estimate) => [estimate.positionId, estimate])));
+        setFeeEstimateProgress(null);
+      })
+      .catch((error) => {
+        if (isAggregationAborted(error)) return;
+        console.error('手数料の推定エラー:', error);
+        setFeeEstimateProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [activeTab, positionsData, poolPositions, allSwapEvents, allLiquidityEvents, feeTier, startTimestamp]);
+
+  // プールや期間を切り替えたときは推定結果を破棄する
+  useEffect(() => {
+    setPositionFeeEstimates(null);
+    setSelectedPositionId(null);
+  }, [id, timeRange]);
+
+  // プールを切り替えたときは分母に使うポジションも取り直す
+  useEffect(() => {
+    setPoolPositions(null);
+    setPoolPositionsError(null);
+  }, [id]);
+
+  // 詳細を表示中のポジション
+  const selectedPosition = selectedPositionId
+    ? positionsData?.LiquidityPosition?.find((position) => position.id === selectedPositionId)
+    : undefined;
 
   // ローディング状態の確認
   const isLoading = poolLoading || (token0Id && token0Loading) || (token1Id && token1Loading);
-  const isChartLoading = isLoadingSwapData || liquidityEventsLoading;
+  const isChartLoading = isLoadingSwapData;
 
   // 期間選択の変更ハンドラ
   const handleTimeRangeChange = (range: string) => {
@@ -334,332 +720,548 @@ export default function PoolDetail() {
     );
 
   return (
-    <div className='container mx-auto px-4 py-8'>
-      <div className='max-w-6xl mx-auto'>
-        <div className='flex items-center mb-6'>
-          <Link href='/' className='text-blue-500 hover:underline mr-4 flex items-center'>
-            <svg
-              xmlns='http://www.w3.org/2000/svg'
-              className='h-5 w-5 mr-1'
-              fill='none'
-              viewBox='0 0 24 24'
-              stroke='currentColor'
-            >
-              <path strokeLinecap='round' strokeLinejoin='round' strokeWidth={2} d='M10 19l-7-7m0 0l7-7m-7 7h18' />
-            </svg>
-            戻る
-          </Link>
-          <h1 className='text-2xl font-bold'>
-            {token0Symbol} / {token1Symbol} プール
-            {hasHooks && (
-              <span className='ml-2 px-2 py-0.5 text-xs bg-purple-100 text-purple-800 rounded-full'>Hook</span>
-            )}
-          </h1>
-        </div>
-
-        <div className='card mb-6'>
-          <h2 className='card-title'>プール情報</h2>
-          <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
-            <div>
-              <p className='mb-2'>
-                <span className='font-medium'>プールID:</span>{' '}
-                <span className='text-sm text-gray-600'>{id as string}</span>
-              </p>
-              <p className='mb-2'>
-                <span className='font-medium'>トークン0:</span> {token0Symbol}{' '}
-                <a
-                  href={`https://etherscan.io/token/${pool.token0}`}
-                  target='_blank'
-                  rel='noopener noreferrer'
-                  className='text-blue-500 hover:underline text-sm'
+    <PriceDisplayProvider token0={token0} token1={token1}>
+      <div className='container mx-auto px-4 py-8'>
+        <div className='max-w-6xl mx-auto'>
+          <div className='flex items-center mb-6'>
+            <Link href='/' className='text-blue-500 hover:underline mr-4 flex items-center'>
+              <svg
+                xmlns='http://www.w3.org/2000/svg'
+                className='h-5 w-5 mr-1'
+                fill='none'
+                viewBox='0 0 24 24'
+                stroke='currentColor'
+              >
+                <path strokeLinecap='round' strokeLinejoin='round' strokeWidth={2} d='M10 19l-7-7m0 0l7-7m-7 7h18' />
+              </svg>
+              戻る
+            </Link>
+            <h1 className='text-2xl font-bold'>
+              {token0Symbol} / {token1Symbol} プール
+              <HookPermissionBadges hookAddress={pool.hooks} compact />
+              {poolKeyVerification && !poolKeyVerification.matches && (
+                <span
+                  className='ml-2 px-2 py-0.5 text-xs bg-red-100 text-red-800 rounded-full'
+                  title='PoolKeyから計算したPoolIdがプールIDと一致しません'
                 >
-                  ({shortenAddress(pool.token0)})
-                </a>
-              </p>
-              <p className='mb-2'>
-                <span className='font-medium'>トークン1:</span> {token1Symbol}{' '}
-                <a
-                  href={`https://etherscan.io/token/${pool.token1}`}
-                  target='_blank'
-                  rel='noopener noreferrer'
-                  className='text-blue-500 hover:underline text-sm'
+                  PoolId不一致
+                </span>
+              )}
+              {live.mode !== 'off' && (
+                <span
+                  className='ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full'
+                  title={live.mode === 'websocket' ? 'WebSocketで受信中' : '15秒ごとに更新'}
                 >
-                  ({shortenAddress(pool.token1)})
-                </a>
-              </p>
-              <p className='mb-2'>
-                <span className='font-medium'>手数料率:</span> {Number(pool.feeTier) / 10000}%
-              </p>
-              {hasHooks && (
+                  {live.mode === 'websocket' ? 'ライブ' : 'ライブ（ポーリング）'}
+                </span>
+              )}
+            </h1>
+          </div>
+
+          <div className='card mb-6'>
+            <h2 className='card-title'>プール情報</h2>
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+              <div>
                 <p className='mb-2'>
-                  <span className='font-medium'>Hook:</span>{' '}
-                  <a
-                    href={`https://etherscan.io/address/${pool.hooks}`}
-                    target='_blank'
-                    rel='noopener noreferrer'
-                    className='text-blue-500 hover:underline'
-                  >
-                    {shortenAddress(pool.hooks)}
-                  </a>
+                  <span className='font-medium'>プールID:</span>{' '}
+                  <span className='text-sm text-gray-600'>{id as string}</span>
                 </p>
-              )}
-            </div>
-            <div>
-              <p className='mb-2'>
-                <span className='font-medium'>総流動性 (USD):</span> {formatUSD(pool.totalValueLockedUSD)}
-              </p>
-              <p className='mb-2'>
-                <span className='font-medium'>現在のTick:</span> {pool.tick}
-              </p>
-              <p className='mb-2'>
-                <span className='font-medium'>流動性プロバイダー数:</span>{' '}
-                {Number(pool.liquidityProviderCount).toLocaleString()}
-              </p>
-              <p className='mb-2'>
-                <span className='font-medium'>トランザクション数:</span> {Number(pool.txCount).toLocaleString()}
-              </p>
-              <p className='mb-2'>
-                <span className='font-medium'>作成日:</span> {formatTimestamp(pool.createdAtTimestamp)}{' '}
-                <span className='text-gray-500 text-sm'>({formatTimestampRelative(pool.createdAtTimestamp)})</span>
-              </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>トークン0:</span> <TokenLabel token={token0} />{' '}
+                  {token0.isNative ? (
+                    <span className='text-gray-500 text-sm'>（ネイティブ通貨、アドレス: {shortenAddress(pool.token0)}）</span>
+                  ) : (
+                    <a
+                      href={getExplorerUrl(pool.chainId, 'token', pool.token0) ?? undefined}
+                      target='_blank'
+                      rel='noopener noreferrer'
+                      className='text-blue-500 hover:underline text-sm'
+                    >
+                      ({shortenAddress(pool.token0)})
+                    </a>
+                  )}
+                </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>トークン1:</span> <TokenLabel token={token1} />{' '}
+                  {token1.isNative ? (
+                    <span className='text-gray-500 text-sm'>（ネイティブ通貨、アドレス: {shortenAddress(pool.token1)}）</span>
+                  ) : (
+                    <a
+                      href={getExplorerUrl(pool.chainId, 'token', pool.token1) ?? undefined}
+                      target='_blank'
+                      rel='noopener noreferrer'
+                      className='text-blue-500 hover:underline text-sm'
+                    >
+                      ({shortenAddress(pool.token1)})
+                    </a>
+                  )}
+                </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>手数料率:</span> {formatFeeTier(pool.feeTier)}
+                  {swapFeeRates?.dynamic && swapFeeRates.inferredCount > 0 && (
+                    <span className='ml-1 text-sm text-gray-500'>
+                      （推定中央値 {(swapFeeRates.defaultRate * 100).toFixed(3)}%、
+                      {swapFeeRates.inferredCount.toLocaleString()}件のスワップから推定）
+                    </span>
+                  )}
+                </p>
+                {hasHooks && (
+                  <p className='mb-2'>
+                    <span className='font-medium'>Hook:</span>{' '}
+                    <a
+                      href={getExplorerUrl(pool.chainId, 'address', pool.hooks) ?? undefined}
+                      target='_blank'
+                      rel='noopener noreferrer'
+                      className='text-blue-500 hover:underline'
+                    >
+                      {shortenAddress(pool.hooks)}
+                    </a>
+                    <span className='block mt-1'>
+                      <HookPermissionBadges hookAddress={pool.hooks} />
+                    </span>
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className='mb-2'>
+                  <span className='font-medium'>総流動性 (USD):</span> {formatUSD(pool.totalValueLockedUSD)}
+                </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>現在価格:</span> <CurrentPrice sqrtPriceX96={pool.sqrtPrice} />
+                </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>現在のTick:</span> {pool.tick}
+                </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>流動性プロバイダー数:</span>{' '}
+                  {Number(pool.liquidityProviderCount).toLocaleString()}
+                </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>トランザクション数:</span> {Number(pool.txCount).toLocaleString()}
+                </p>
+                <p className='mb-2'>
+                  <span className='font-medium'>作成日:</span> {formatTimestamp(pool.createdAtTimestamp)}{' '}
+                  <span className='text-gray-500 text-sm'>({formatTimestampRelative(pool.createdAtTimestamp)})</span>
+                </p>
+              </div>
             </div>
+            {poolData?.Pool_by_pk && buildCounterpartPoolWhere(pool.token0, pool.token1, pool.chainId) && (
+              <details className='mt-4 border-t pt-4'>
+                <summary className='font-medium cursor-pointer'>ネイティブ通貨 / ラップ版のプールとの比較</summary>
+                <div className='mt-3'>
+                  <NativePairComparison pool={poolData.Pool_by_pk} token0={token0} token1={token1} />
+                </div>
+              </details>
+            )}
+            {poolKeyVerification && (
+              <details className='mt-4 border-t pt-4' open={!poolKeyVerification.matches}>
+                <summary className='font-medium cursor-pointer'>PoolKey</summary>
+                <div className='mt-3'>
+                  <PoolKeyPanel poolId={id as string} verification={poolKeyVerification} />
+                </div>
+              </details>
+            )}
           </div>
-        </div>
 
-        <div className='mb-4 border-b'>
-          <ul className='flex flex-wrap -mb-px'>
-            <li className='mr-2'>
-              <button
-                className={`tab-button ${activeTab === 'liquidity' ? 'tab-button-active' : 'tab-button-inactive'}`}
-                onClick={() => setActiveTab('liquidity')}
-              >
-                流動性チャート
-              </button>
-            </li>
-            <li className='mr-2'>
-              <button
-                className={`tab-button ${activeTab === 'positions' ? 'tab-button-active' : 'tab-button-inactive'}`}
-                onClick={() => setActiveTab('positions')}
-              >
-                流動性ポジション
-              </button>
-            </li>
-            <li className='mr-2'>
-              <button
-                className={`tab-button ${activeTab === 'ticks' ? 'tab-button-active' : 'tab-button-inactive'}`}
-                onClick={() => setActiveTab('ticks')}
-              >
-                Tick分布
-              </button>
-            </li>
-            <li className='mr-2'>
-              <button
-                className={`tab-button ${activeTab === 'events' ? 'tab-button-active' : 'tab-button-inactive'}`}
-                onClick={() => setActiveTab('events')}
-              >
-                流動性イベント
-              </button>
-            </li>
-            <li className='mr-2'>
-              <button
-                className={`tab-button ${activeTab === 'swaps' ? 'tab-button-active' : 'tab-button-inactive'}`}
-                onClick={() => setActiveTab('swaps')}
-              >
-                スワップ
-              </button>
-            </li>
-          </ul>
-        </div>
+          <div className='mb-4 border-b'>
+            <ul className='flex flex-wrap -mb-px'>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'liquidity' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('liquidity')}
+                >
+                  流動性チャート
+                </button>
+              </li>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'positions' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('positions')}
+                >
+                  流動性ポジション
+                </button>
+              </li>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'ticks' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('ticks')}
+                >
+                  Tick分布
+                </button>
+              </li>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'events' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('events')}
+                >
+                  流動性イベント
+                </button>
+              </li>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'swaps' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('swaps')}
+                >
+                  スワップ
+                </button>
+              </li>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'trade' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('trade')}
+                >
+                  トレードシミュレーター
+                </button>
+              </li>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'backtest' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('backtest')}
+                >
+                  バックテスト
+                </button>
+              </li>
+              <li className='mr-2'>
+                <button
+                  className={`tab-button ${activeTab === 'planner' ? 'tab-button-active' : 'tab-button-inactive'}`}
+                  onClick={() => setActiveTab('planner')}
+                >
+                  ポジション計算
+                </button>
+              </li>
+            </ul>
+          </div>
 
-        {/* タブコンテンツ */}
-        <div className='mt-6'>
-          {/* 流動性と手数料チャート */}
-          {activeTab === 'liquidity' && (
-            <div className='fade-in'>
-              {isChartLoading ? (
-                <div className='card p-8'>
-                  <h2 className='text-xl font-bold mb-4'>データを読み込み中...</h2>
-                  <div className='w-full bg-gray-200 rounded-full h-2.5 mb-2'>
-                    <div
-                      className='bg-blue-600 h-2.5 rounded-full transition-all duration-300'
-                      style={{ width: `${loadingProgress}%` }}
-                    ></div>
+          {/* タブコンテンツ */}
+          <div className='mt-6'>
+            {/* 流動性と手数料チャート */}
+            {activeTab === 'liquidity' && (
+              <div className='fade-in'>
+                <EventCacheControls
+                  poolId={id as string}
+                  refreshKey={cacheVersion}
+                  onRebuild={() => fetchLargeSwapDataset({ rebuild: true })}
+                  busy={isLoadingSwapData}
+                />
+                {isChartLoading ? (
+                  <div className='card p-8'>
+                    <h2 className='text-xl font-bold mb-4'>データを読み込み中...</h2>
+                    <div className='w-full bg-gray-200 rounded-full h-2.5 mb-2'>
+                      <div
+                        className='bg-blue-600 h-2.5 rounded-full transition-all duration-300'
+                        style={{ width: `${loadingProgress}%` }}
+                      ></div>
+                    </div>
+                    <p className='text-sm text-gray-600'>{loadingMessage}</p>
+                    <p className='mt-4 text-sm text-gray-500'>
+                      {timeRange === '90d'
+                        ? '過去3ヶ月分のデータを取得しています。この処理には時間がかかる場合があります。'
+                        : '過去のデータを取得しています。'}
+                    </p>
                   </div>
-                  <p className='text-sm text-gray-600'>{loadingMessage}</p>
-                  <p className='mt-4 text-sm text-gray-500'>
-                    {timeRange === '90d'
-                      ? '過去3ヶ月分のデータを取得しています。この処理には時間がかかる場合があります。'
-                      : '過去のデータを取得しています。'}
-                  </p>
-                </div>
-              ) : dataError || liquidityEventsError ? (
-                <div className='card p-8 text-center'>
-                  <p className='text-red-500'>エラーが発生しました: {dataError || liquidityEventsError?.message}</p>
-                  <button
-                    className='mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700'
-                    onClick={() => fetchLargeSwapDataset()}
-                  >
-                    再試行
-                  </button>
-                </div>
-              ) : combinedChartData.length > 0 ? (
-                <>
-                  {/* データ情報 */}
-                  {allSwapEvents.length > 0 && (
-                    <div className='mb-4 p-3 bg-blue-50 rounded-md'>
-                      <div className='text-sm text-blue-800'>
-                        <span className='font-medium'>処理済みデータ: </span>
-                        <span>{allSwapEvents.length.toLocaleString()}件のスワップイベント</span>
-                        <span className='mx-2'>|</span>
-                        <span>{combinedChartData.length}日分のデータ</span>
-                        <span className='mx-2'>|</span>
-                        <span className='font-medium'>期間: </span>
-                        <span>
-                          {combinedChartData.length > 0
-                            ? `${new Date(combinedChartData[0].timestamp * 1000).toLocaleDateString(
-                                'ja-JP',
-                              )} ~ ${new Date(
-                                combinedChartData[combinedChartData.length - 1].timestamp * 1000,
-                              ).toLocaleDateString('ja-JP')}`
-                            : '利用可能なデータなし'}
-                        </span>
+                ) : dataError ? (
+                  <div className='card p-8 text-center'>
+                    <p className='text-red-500'>エラーが発生しました: {dataError}</p>
+                    <button
+                      className='mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700'
+                      onClick={() => fetchLargeSwapDataset()}
+                    >
+                      再試行
+                    </button>
+                  </div>
+                ) : combinedChartData.length > 0 ? (
+                  <>
+                    {swapDataPartialUntil !== null && (
+                      <div className='mb-4 p-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg'>
+                        イベントが多いため、{formatTimestamp(swapDataPartialUntil)}
+                        までのデータのみ読み込みました。それより後の集計は含まれていません
+                        {isEventStoreAvailable() && '（再読み込みすると保存済みの続きから同期します）'}。
                       </div>
-                    </div>
-                  )}
+                    )}
+                    {/* データ情報 */}
+                    {allSwapEvents.length > 0 && (
+                      <div className='mb-4 p-3 bg-blue-50 rounded-md'>
+                        <div className='text-sm text-blue-800'>
+                          <span className='font-medium'>処理済みデータ: </span>
+                          <span>{allSwapEvents.length.toLocaleString()}件のスワップイベント</span>
+                          <span className='mx-2'>|</span>
+                          <span>{combinedChartData.length}日分のデータ</span>
+                          <span className='mx-2'>|</span>
+                          <span className='font-medium'>期間: </span>
+                          <span>
+                            {combinedChartData.length > 0
+                              ? `${new Date(combinedChartData[0].timestamp * 1000).toLocaleDateString(
+                                  'ja-JP',
+                                )} ~ ${new Date(
+                                  combinedChartData[combinedChartData.length - 1].timestamp * 1000,
+                                ).toLocaleDateString('ja-JP')}`
+                              : '利用可能なデータなし'}
+                          </span>
+                        </div>
+                      </div>
+                    )}
 
-                  <LiquidityFeesChart
-                    data={combinedChartData}
-                    token0Symbol={token0Symbol}
-                    token1Symbol={token1Symbol}
-                    timeRange={timeRange}
-                    onTimeRangeChange={handleTimeRangeChange}
-                    feeTier={pool.feeTier}
-                  />
-                </>
-              ) : (
-                <div className='card p-8 text-center'>
-                  <p className='text-gray-500'>選択した期間のデータがありません</p>
-                </div>
-              )}
-            </div>
-          )}
-
-          {/* 流動性ポジション */}
-          {activeTab === 'positions' && (
-            <div className='card fade-in'>
-              <h2 className='card-title'>アクティブな流動性ポジション</h2>
-              <LiquidityPositionsTable
-                positions={positionsData?.LiquidityPosition || []}
-                token0={token0}
-                token1={token1}
-                ethPrice={bundle?.ethPriceUSD || '0'}
-                currentTick={currentTick}
-                loading={positionsLoading}
-                error={positionsError}
-              />
-            </div>
-          )}
-
-          {/* Tick分布 */}
-          {activeTab === 'ticks' && (
-            <div className='fade-in'>
-              {ticksLoading ? (
-                <div className='card p-8 text-center'>
-                  <p className='text-gray-500'>Tickデータを読み込み中...</p>
-                </div>
-              ) : ticksError ? (
-                <div className='card p-8 text-center'>
-                  <p className='text-red-500'>Tickデータの取得中にエラーが発生しました: {ticksError.message}</p>
-                </div>
-              ) : (
-                <div className='grid grid-cols-1 gap-6'>
-                  {/* アクティブティック範囲チャート */}
-                  <ActiveTickRangeChart
-                    tickData={generateTicksFromPositions(positionsData?.LiquidityPosition || [], poolData?.Pool_by_pk)}
+                    <LiquidityFeesChart
+                      data={combinedChartData}
+                      token0Symbol={token0Symbol}
+                      token1Symbol={token1Symbol}
+                      timeRange={timeRange}
+                      onTimeRangeChange={handleTimeRangeChange}
+                      feeTier={pool.feeTier}
+                      feeRates={swapFeeRates}
+                    />
+                  </>
+                ) : (
+                  <div className='card p-8 text-center'>
+                    <p className='text-gray-500'>選択した期間のデータがありません</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* 流動性ポジション */}
+            {activeTab === 'positions' && (
+              <div className='card fade-in'>
+                <h2 className='card-title'>アクティブな流動性ポジション</h2>
+                <p className='mb-4 text-sm text-gray-500'>
+                  {feeEstimateProgress !== null
+                    ? `スワップから手数料を推定中... ${Math.round(feeEstimateProgress)}%`
+                    : allSwapEvents.length > 0 && poolPositionsError
+                      ? `手数料の按分に使うポジションの一覧を取得できないため、推定手数料は表示できません: ${poolPositionsError}`
+                      : allSwapEvents.length > 0 && !poolPositions
+                        ? '手数料の按分に使うプールのすべてのアクティブなポジションを取得中...'
+                        : allSwapEvents.length > 0
+                      ? `推定手数料は選択期間のスワップ${allSwapEvents.length.toLocaleString()}件を` +
+                        '各ポジションのレンジと流動性で按分した値です。行をクリックすると損益の内訳と手数料の推移を表示します。'
+                      : '行をクリックすると損益の内訳を表示します。推定手数料を含めるには、' +
+                        '流動性チャートタブでスワップデータを読み込んでください。'}
+                </p>
+                <LiquidityPositionsTable
+                  positions={positionsData?.LiquidityPosition || []}
+                  token0={token0}
+                  token1={token1}
+                  ethPrice={bundle?.ethPriceUSD || '0'}
+                  currentTick={currentTick}
+                  sqrtPriceX96={pool?.sqrtPrice}
+                  loading={positionsLoading}
+                  error={positionsError}
+                  feeEstimates={positionFeeEstimates || undefined}
+                  selectedPositionId={selectedPositionId}
+                  onSelectPosition={(positionId) =>
+                    setSelectedPositionId((current) => (current === positionId ? null : positionId))
+                  }
+                />
+                {selectedPosition && (
+                  <PositionDetail
+                    position={selectedPosition}
+                    token0={token0}
+                    token1={token1}
+                    sqrtPriceX96={pool?.sqrtPrice}
                     currentTick={currentTick}
-                    token0Symbol={token0Symbol}
-                    token1Symbol={token1Symbol}
-                    maxTicksToShow={200}
+                    ethPrice={bundle?.ethPriceUSD || '0'}
+                    feeEstimate={positionFeeEstimates?.get(selectedPosition.id)}
+                    onClose={() => setSelectedPositionId(null)}
                   />
+                )}
+              </div>
+            )}
 
-                  {/* 流動性の厚さチャート */}
-                  {ticksData?.positions && ticksData.positions.length > 0 ? (
-                    <LiquidityDepthChart
-                      tickData={ticksData.positions}
-                      currentTick={currentTick}
+            {/* Tick分布 */}
+            {activeTab === 'ticks' && (
+              <div className='fade-in'>
+                {ticksLoading ? (
+                  <div className='card p-8 text-center'>
+                    <p className='text-gray-500'>Tickデータを読み込み中...</p>
+                  </div>
+                ) : ticksError ? (
+                  <div className='card p-8 text-center'>
+                    <p className='text-red-500'>Tickデータの取得中にエラーが発生しました: {ticksError.message}</p>
+                  </div>
+                ) : (
+                  <div className='grid grid-cols-1 gap-6'>
+                    {/* 表示する時点の選択 */}
+                    <TickTimeTravelSlider
+                      events={tickHistory}
+                      loading={tickHistoryLoading}
+                      progressMessage={tickHistoryMessage}
+                      error={tickHistoryError}
+                      onLoad={loadTickHistory}
+                      complete={tickHistoryComplete}
+                      value={tickTime}
+                      onChange={setTickTime}
+                      tickAvailable={historicalTick !== null}
+                    />
+
+                    {/* アクティブティック範囲チャート */}
+                    <ActiveTickRangeChart
+                      tickData={historicalTicks ?? reconstructedTicks}
+                      currentTick={displayedTick}
                       token0Symbol={token0Symbol}
                       token1Symbol={token1Symbol}
-                      tickSpacing={tickSpacing}
+                      maxTicksToShow={200}
                     />
-                  ) : positionsData?.LiquidityPosition && positionsData.LiquidityPosition.length > 0 ? (
-                    <LiquidityDepthChart
-                      tickData={positionsData.LiquidityPosition}
-                      currentTick={currentTick}
+
+                    {/* 流動性の厚さチャート */}
+                    {historicalTicks ? (
+                      <LiquidityDepthChart
+                        tickData={historicalTicks}
+                        currentTick={displayedTick}
+                        token0Symbol={token0Symbol}
+                        token1Symbol={token1Symbol}
+                        tickSpacing={tickSpacing}
+                      />
+                    ) : ticksData?.positions && ticksData.positions.length > 0 ? (
+                      <LiquidityDepthChart
+                        tickData={ticksData.positions}
+                        currentTick={currentTick}
+                        token0Symbol={token0Symbol}
+                        token1Symbol={token1Symbol}
+                        tickSpacing={tickSpacing}
+                      />
+                    ) : positionsData?.LiquidityPosition && positionsData.LiquidityPosition.length > 0 ? (
+                      <LiquidityDepthChart
+                        tickData={positionsData.LiquidityPosition}
+                        currentTick={currentTick}
+                        token0Symbol={token0Symbol}
+                        token1Symbol={token1Symbol}
+                        tickSpacing={tickSpacing}
+                      />
+                    ) : (
+                      <div className='card p-8 text-center'>
+                        <p className='text-gray-500'>このプールのTickデータはありません</p>
+                      </div>
+                    )}
+
+                    {/* 市場の厚さ（±x%） */}
+                    <MarketDepthPanel
+                      ticks={reconstructedTicks}
+                      pool={{
+                        sqrtPriceX96: pool.sqrtPrice,
+                        tick: pool.tick,
+                        liquidity: pool.liquidity,
+                        feeTier: effectiveFeeTier ?? pool.feeTier,
+                      }}
+                      token0={token0}
+                      token1={token1}
+                      ethPriceUSD={bundle?.ethPriceUSD || '0'}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* 流動性イベント */}
+            {activeTab === 'events' && (
+              <div className='card fade-in'>
+                <h2 className='card-title'>最近の流動性イベント</h2>
+                <LiquidityEventsTable
+                  events={displayedLiquidityEvents}
+                  token0Symbol={token0Symbol}
+                  token1Symbol={token1Symbol}
+                  loading={eventsLoading}
+                  error={eventsError}
+                  type='liquidity'
+                  highlightIds={liveLiquidityEventIds}
+                  chainId={pool.chainId}
+                />
+              </div>
+            )}
+
+            {/* スワップ */}
+            {activeTab === 'swaps' && (
+              <div className='card fade-in'>
+                {allSwapEvents.length > 0 ? (
+                  <>
+                    <div className='mb-4 p-3 bg-blue-50 rounded-md'>
+                      <div className='text-sm text-blue-800'>
+                        <span className='font-medium'>スワップ取引データ: </span>
+                        <span>全{allSwapEvents.length.toLocaleString()}件 （直近100件のみ表示）</span>
+                      </div>
+                    </div>
+                    <SwapDetailsTable
+                      swaps={displayedSwaps}
                       token0Symbol={token0Symbol}
                       token1Symbol={token1Symbol}
-                      tickSpacing={tickSpacing}
+                      feeTier={pool.feeTier}
+                      feeRates={swapFeeRates}
+                      loading={false}
+                      error={null}
+                      networkName={getChainName(pool.chainId)}
+                      chainId={pool.chainId}
+                      highlightIds={liveSwapIds}
                     />
-                  ) : (
-                    <div className='card p-8 text-center'>
-                      <p className='text-gray-500'>このプールのTickデータはありません</p>
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
-
-          {/* 流動性イベント */}
-          {activeTab === 'events' && (
-            <div className='card fade-in'>
-              <h2 className='card-title'>最近の流動性イベント</h2>
-              <LiquidityEventsTable
-                events={eventsData?.ModifyLiquidity || []}
-                token0Symbol={token0Symbol}
-                token1Symbol={token1Symbol}
-                loading={eventsLoading}
-                error={eventsError}
-                type='liquidity'
-              />
-            </div>
-          )}
-
-          {/* スワップ */}
-          {activeTab === 'swaps' && (
-            <div className='card fade-in'>
-              {allSwapEvents.length > 0 ? (
-                <>
-                  <div className='mb-4 p-3 bg-blue-50 rounded-md'>
-                    <div className='text-sm text-blue-800'>
-                      <span className='font-medium'>スワップ取引データ: </span>
-                      <span>全{allSwapEvents.length.toLocaleString()}件 （直近100件のみ表示）</span>
-                    </div>
-                  </div>
+                  </>
+                ) : (
                   <SwapDetailsTable
-                    swaps={allSwapEvents.slice(0, 100)}
+                    swaps={displayedSwaps}
                     token0Symbol={token0Symbol}
                     token1Symbol={token1Symbol}
                     feeTier={pool.feeTier}
-                    loading={false}
-                    error={null}
-                    networkName='Ethereum'
+                    feeRates={swapFeeRates}
+                    loading={swapsLoading}
+                    error={swapsError}
+                    networkName={getChainName(pool.chainId)}
+                    chainId={pool.chainId}
+                    highlightIds={liveSwapIds}
                   />
-                </>
-              ) : (
-                <SwapDetailsTable
-                  swaps={swapsData?.Swap || []}
-                  token0Symbol={token0Symbol}
-                  token1Symbol={token1Symbol}
+                )}
+              </div>
+            )}
+
+            {/* トレードシミュレーター */}
+            {activeTab === 'trade' && (
+              <div className='fade-in'>
+                {positionsError ? (
+                  <div className='card p-8 text-center'>
+                    <p className='text-red-500'>ポジションデータの取得中にエラーが発生しました: {positionsError.message}</p>
+                  </div>
+                ) : (
+                  <TradeSimulator
+                    ticks={reconstructedTicks}
+                    sqrtPriceX96={pool.sqrtPrice}
+                    currentTick={pool.tick}
+                    liquidity={pool.liquidity}
+                    feeTier={effectiveFeeTier}
+                    token0={token0}
+                    token1={token1}
+                    loading={positionsLoading}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* バックテスト */}
+            {activeTab === 'backtest' && (
+              <div className='fade-in'>
+                <BacktestPanel
+                  swapEvents={mergedSwaps}
+                  loading={isLoadingSwapData}
                   feeTier={pool.feeTier}
-                  loading={swapsLoading}
-                  error={swapsError}
-                  networkName='Ethereum'
+                  token0={token0}
+                  token1={token1}
                 />
-              )}
-            </div>
-          )}
+              </div>
+            )}
+
+            {/* ポジション計算 */}
+            {activeTab === 'planner' && (
+              <div className='fade-in'>
+                <PositionPlanner
+                  sqrtPriceX96={pool.sqrtPrice}
+                  currentTick={pool.tick}
+                  liquidity={pool.liquidity}
+                  tickSpacing={tickSpacing}
+                  feeTier={pool.feeTier}
+                  swapEvents={mergedSwaps}
+                  token0={token0}
+                  token1={token1}
+                  ethPriceUSD={bundle?.ethPriceUSD || '0'}
+                />
+              </div>
+            )}
+          </div>
         </div>
       </div>
-    </div>
+    </PriceDisplayProvider>
   );
 }
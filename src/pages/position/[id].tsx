@@ -0,0 +1,337 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { useQuery } from '@apollo/client';
+import { GET_LIQUIDITY_POSITION } from '../../lib/queries';
+import { fetchPortfolioPoolContexts, PortfolioPoolContext } from '../../lib/portfolio';
+import { fetchPositionModifyLiquidityEvents } from '../../lib/liquidityDataFetcher';
+import { fetchSwapHistory } from '../../lib/swapDataFetcher';
+import { buildPositionHistory, createSwapSampler, parsePositionId } from '../../lib/positionHistory';
+import { calculatePositionPnl } from '../../lib/positionPnl';
+import { createPriceFormatter, PriceDisplayProvider } from '../../lib/priceDisplay';
+import { formatFeeTier } from '../../lib/dynamicFees';
+import { formatTimestamp, shortenAddress } from '../../lib/utils';
+import { getChainName } from '../../utils/chains';
+import { client } from '../../lib/apollo-client';
+import PositionHistoryCharts from '../../components/PositionHistoryCharts';
+import PositionPnlBreakdown from '../../components/PositionPnlBreakdown';
+import LiquidityEventsTable from '../../components/LiquidityEventsTable';
+import TokenLabel from '../../components/TokenLabel';
+import { LiquidityPositionQueryResult, ModifyLiquidityEvent, SwapEvent } from '../../types';
+
+// 履歴の取得に使うプールの状態・流動性変更イベント・スワップイベント
+interface PositionHistoryData {
+  context: PortfolioPoolContext | null;
+  events: ModifyLiquidityEvent[];
+  /** 1時間ごと・範囲の内外の切り替わりに間引いたスワップ */
+  swaps: SwapEvent[];
+  /** スワップを最後まで取得できたか */
+  swapsComplete: boolean;
+}
+
+const formatDuration = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  return days > 0 ? `${days}日${hours}時間` : `${hours}時間`;
+};
+
+export default function PositionPage() {
+  const router = useRouter();
+  const id = typeof router.query.id === 'string' ? router.query.id : '';
+  const parsedId = parsePositionId(id);
+  const [historyData, setHistoryData] = useState<PositionHistoryData | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<Error | null>(null);
+  const [progress, setProgress] = useState({ percent: 0, message: '' });
+
+  // ポジションを取得（IDの接頭辞のチェーンのインデクサーに送る）
+  const {
+    loading: positionLoading,
+    error: positionError,
+    data: positionData,
+  } = useQuery<LiquidityPositionQueryResult>(GET_LIQUIDITY_POSITION, {
+    variables: { positionId: id },
+    context: parsedId?.chainId ? { chainId: parsedId.chainId } : undefined,
+    skip: !id,
+    client,
+  });
+  const position = positionData?.LiquidityPosition_by_pk || null;
+
+  // プールの状態と流動性変更イベントを取得し、最初のイベント（または作成日時）以降のスワップを取得する
+  useEffect(() => {
+    if (!position?.pool) return;
+
+    let cancelled = false;
+    setHistoryLoading(true);
+    setHistoryError(null);
+    setProgress({ percent: 0, message: '流動性の変更履歴を取得中...' });
+
+    (async () => {
+      try {
+        const [contexts, events] = await Promise.all([
+          fetchPortfolioPoolContexts(client, [position.pool!]),
+          fetchPositionModifyLiquidityEvents(client, position),
+        ]);
+        const startTime = Math.min(
+          ...events.map((event) => Number(event.timestamp)),
+          Number(position.createdAtTimestamp || Math.floor(Date.now() / 1000)),
+        );
+        // 価格の推移だけが必要なため、すべてのスワップは保持せずバッチごとに間引く
+        const sampler = createSwapSampler(position.tickLower, position.tickUpper);
+        const { complete } = await fetchSwapHistory(client, position.pool!, startTime, {
+          keepRows: false,
+          onBatch: (batch) => sampler.add(batch),
+          progressCallback: (percent, message) => {
+            if (!cancelled) setProgress({ percent, message });
+          },
+        });
+        if (!cancelled) {
+          setHistoryData({
+            context: contexts.get(position.pool!) || null,
+            events,
+            swaps: sampler.swaps(),
+            swapsComplete: complete,
+          });
+        }
+      } catch (error) {
+        console.error('ポジションの履歴の取得エラー:', error);
+        if (!cancelled) setHistoryError(error as Error);
+      } finally {
+        if (!cancelled) setHistoryLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [position?.id]);
+
+  const context = historyData?.context || null;
+
+  const history = useMemo(() => {
+    if (!position || !historyData || !context) return null;
+    const { pool, token0, token1, ethPriceUSD } = context;
+    return buildPositionHistory(position, historyData.events, historyData.swaps, {
+      decimals0: token0.decimals,
+      decimals1: token1.decimals,
+      currentSqrtPriceX96: pool.sqrtPrice,
+      currentTick: pool.tick,
+      endTimestamp: Math.floor(Date.now() / 1000),
+      fallbackUSDPerToken1: Number(token1.derivedETH || 0) * Number(ethPriceUSD || 0) || undefined,
+      swapsComplete: historyData.swapsComplete,
+    });
+  }, [position, historyData, context]);
+
+  const pnl = useMemo(() => {
+    if (!position || !context) return null;
+    try {
+      return calculatePositionPnl(position, {
+        sqrtPriceX96: context.pool.sqrtPrice,
+        currentTick: context.pool.tick,
+        token0: context.token0,
+        token1: context.token1,
+        ethPriceUSD: context.ethPriceUSD,
+      });
+    } catch (e) {
+      console.error('損益の計算エラー:', e);
+      return null;
+    }
+  }, [position, context]);
+
+  if (!router.isReady || positionLoading)
+    return (
+      <div className='container mx-auto p-4'>
+        <div className='max-w-6xl mx-auto py-8 text-center'>
+          <p className='text-gray-500'>読み込み中...</p>
+        </div>
+      </div>
+    );
+
+  if (positionError)
+    return (
+      <div className='container mx-auto p-4'>
+        <div className='max-w-6xl mx-auto py-8 text-center'>
+          <p className='text-red-500'>エラーが発生しました: {positionError.message}</p>
+        </div>
+      </div>
+    );
+
+  if (!position)
+    return (
+      <div className='container mx-auto p-4'>
+        <div className='max-w-6xl mx-auto py-8 text-center'>
+          <p className='text-red-500'>ポジションが見つかりません: {id}</p>
+        </div>
+      </div>
+    );
+
+  const token0 = context?.token0;
+  const token1 = context?.token1;
+  const symbol0 = token0?.symbol || 'Token0';
+  const symbol1 = token1?.symbol || 'Token1';
+  const priceFormatter = token0 && token1 ? createPriceFormatter(token0, token1) : null;
+  const currentTick = context ? Number(context.pool.tick) : null;
+  const closed = BigInt(position.liquidity.split('.')[0] || '0') === BigInt(0);
+  const inRange =
+    !closed && currentTick !== null && Number(position.tickLower) <= currentTick && currentTick < Number(position.tickUpper);
+
+  const content = (
+    <div className='container mx-auto px-4 py-8'>
+      <div className='max-w-6xl mx-auto'>
+        <div className='flex items-center mb-6'>
+          <Link
+            href={position.pool ? `/pool/${position.pool}` : '/'}
+            className='text-blue-500 hover:underline mr-4 flex items-center'
+          >
+            <svg
+              xmlns='http://www.w3.org/2000/svg'
+              className='h-5 w-5 mr-1'
+              fill='none'
+              viewBox='0 0 24 24'
+              stroke='currentColor'
+            >
+              <path strokeLinecap='round' strokeLinejoin='round' strokeWidth={2} d='M10 19l-7-7m0 0l7-7m-7 7h18' />
+            </svg>
+            戻る
+          </Link>
+          <h1 className='text-2xl font-bold mr-3'>
+            ポジション{' '}
+            {token0 && token1 ? (
+              <>
+                <TokenLabel token={token0} /> / <TokenLabel token={token1} />
+              </>
+            ) : (
+              shortenAddress(position.id)
+            )}
+          </h1>
+          {context &&
+            (closed ? (
+              <span className='px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded-full'>クローズ済み</span>
+            ) : inRange ? (
+              <span className='px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full'>レンジ内</span>
+            ) : (
+              <span className='px-2 py-0.5 text-xs bg-yellow-100 text-yellow-800 rounded-full'>レンジ外</span>
+            ))}
+        </div>
+
+        <div className='card mb-6'>
+          <h2 className='card-title'>ポジション情報</h2>
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-2 text-sm'>
+            <p>
+              <span className='font-medium'>所有者:</span>{' '}
+              <Link href={`/address/${position.owner}`} className='text-blue-500 hover:underline'>
+                {shortenAddress(position.owner)}
+              </Link>
+            </p>
+            <p>
+              <span className='font-medium'>プール:</span>{' '}
+              {position.pool ? (
+                <Link href={`/pool/${position.pool}`} className='text-blue-500 hover:underline'>
+                  {shortenAddress(parsedId?.poolId.replace(/^\d+_/, '') || position.pool)}
+                </Link>
+              ) : (
+                '-'
+              )}
+              {context && `（${getChainName(context.pool.chainId)}・${formatFeeTier(context.pool.feeTier)}）`}
+            </p>
+            <p>
+              <span className='font-medium'>価格範囲:</span>{' '}
+              {priceFormatter
+                ? `${priceFormatter.formatTickRange(position.tickLower, position.tickUpper).join(' 〜 ')} ${
+                    priceFormatter.unitLabel
+                  }`
+                : '-'}
+            </p>
+            <p>
+              <span className='font-medium'>Tick範囲:</span> {Number(position.tickLower).toLocaleString()} 〜{' '}
+              {Number(position.tickUpper).toLocaleString()}
+            </p>
+            <p>
+              <span className='font-medium'>作成日:</span> {formatTimestamp(Number(position.createdAtTimestamp || 0))}
+            </p>
+            <p>
+              <span className='font-medium'>レンジ内の時間:</span>{' '}
+              {history
+                ? history.timeInRangePercent !== null
+                  ? `${history.timeInRangePercent.toFixed(1)}%（${formatDuration(
+                      history.inRangeSeconds,
+                    )} / ${formatDuration(history.activeSeconds)}${
+                      history.truncated ? `、${formatTimestamp(history.endTimestamp)}まで` : ''
+                    }）`
+                  : '-'
+                : historyLoading
+                ? '計算中...'
+                : '-'}
+            </p>
+          </div>
+        </div>
+
+        {historyLoading ? (
+          <div className='card mb-6'>
+            <p className='text-gray-500'>履歴を読み込み中... {progress.message}</p>
+            <div className='w-full bg-gray-200 rounded-full h-2 mt-2'>
+              <div className='bg-blue-500 h-2 rounded-full' style={{ width: `${progress.percent}%` }}></div>
+            </div>
+          </div>
+        ) : historyError ? (
+          <div className='card mb-6'>
+            <p className='text-red-500'>履歴の取得中にエラーが発生しました: {historyError.message}</p>
+          </div>
+        ) : historyData && !context ? (
+          <div className='card mb-6'>
+            <p className='text-gray-500'>プールの情報を取得できないため、履歴を表示できません</p>
+          </div>
+        ) : (
+          history && (
+            <>
+              {history.truncated && (
+                <div className='mb-4 p-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg'>
+                  スワップが多いため、{formatTimestamp(history.endTimestamp)}
+                  までの履歴のみ読み込みました。レンジ内の時間と価値の推移はこの時点までの値です。
+                </div>
+              )}
+              <PositionHistoryCharts
+                history={history}
+                tickLower={position.tickLower}
+                tickUpper={position.tickUpper}
+                token0Symbol={symbol0}
+                token1Symbol={symbol1}
+              />
+            </>
+          )
+        )}
+
+        {pnl && (
+          <div className='card mb-6'>
+            <h2 className='card-title'>損益の内訳</h2>
+            <PositionPnlBreakdown pnl={pnl} token0Symbol={symbol0} token1Symbol={symbol1} />
+          </div>
+        )}
+
+        <div className='card'>
+          <h2 className='card-title'>流動性の変更履歴</h2>
+          <p className='text-xs text-gray-500 mb-2'>
+            所有者（sender / origin）・プール・Tick範囲が一致する流動性変更イベントを表示します。
+          </p>
+          <LiquidityEventsTable
+            events={historyData?.events || []}
+            token0Symbol={symbol0}
+            token1Symbol={symbol1}
+            loading={historyLoading}
+            error={historyError}
+            type='liquidity'
+            chainId={context?.pool.chainId || parsedId?.chainId || undefined}
+          />
+        </div>
+      </div>
+    </div>
+  );
+
+  return token0 && token1 ? (
+    <PriceDisplayProvider token0={token0} token1={token1}>
+      {content}
+    </PriceDisplayProvider>
+  ) : (
+    content
+  );
+}
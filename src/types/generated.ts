@@ -1,10 +1,91 @@
 // Envio のインデックスで使用される型定義
 
+/**
+ * 丸めモード
+ * - down: 0に近づける（切り捨て） / up: 0から遠ざける（切り上げ）
+ * - floor: 負の無限大方向 / ceil: 正の無限大方向
+ * - halfUp / halfDown / halfEven: 最も近い値に丸め、ちょうど中間の場合はそれぞれ0から遠ざける / 0に近づける / 偶数にする
+ */
+export type RoundingMode = "down" | "up" | "floor" | "ceil" | "halfUp" | "halfDown" | "halfEven";
+
+/** times / div の精度の指定（省略時は BigDecimal.precision / BigDecimal.roundingMode） */
+export interface BigDecimalContext {
+  /** 結果の有効桁数 */
+  precision?: number;
+  roundingMode?: RoundingMode;
+}
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
+
+function digitCount(value: bigint): number {
+  return (value < BigInt(0) ? -value : value).toString().length;
+}
+
+// numerator / denominator を丸めモードに従って整数に丸める（denominator > 0）
+function divideAndRound(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === BigInt(0)) return quotient;
+
+  const negative = numerator < BigInt(0);
+  const awayFromZero = negative ? quotient - BigInt(1) : quotient + BigInt(1);
+
+  switch (mode) {
+    case "down":
+      return quotient;
+    case "up":
+      return awayFromZero;
+    case "floor":
+      return negative ? awayFromZero : quotient;
+    case "ceil":
+      return negative ? quotient : awayFromZero;
+    default: {
+      const twiceRemainder = (remainder < BigInt(0) ? -remainder : remainder) * BigInt(2);
+      if (twiceRemainder > denominator) return awayFromZero;
+      if (twiceRemainder < denominator) return quotient;
+      if (mode === "halfUp") return awayFromZero;
+      if (mode === "halfDown") return quotient;
+      return quotient % BigInt(2) === BigInt(0) ? quotient : awayFromZero;
+    }
+  }
+}
+
+/**
+ * bigintを使った任意精度の10進数
+ * 値は digits / 10^scale で保持し、plus / minus は誤差なし、times / div は有効桁数（既定34桁）に丸める
+ */
 export class BigDecimal {
-  private value: string;
+  /** times / div の結果の有効桁数（graph-nodeのBigDecimalと同じ34桁） */
+  static precision = 34;
+
+  /** times / div の丸めモード */
+  static roundingMode: RoundingMode = "halfEven";
+
+  private digits: bigint;
+  private scale: number;
 
   constructor(value: string | number | bigint) {
-    this.value = value.toString();
+    this.digits = BigInt(0);
+    this.scale = 0;
+
+    if (typeof value === "bigint") {
+      this.digits = value;
+      return;
+    }
+
+    const text = typeof value === "number" ? value.toString() : value.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (match[2] === "" && !match[3])) {
+      throw new Error(`Invalid BigDecimal: ${value}`);
+    }
+
+    const [, sign, whole, fraction = "", exponent = "0"] = match;
+    const unsigned = BigInt(`${whole}${fraction}` || "0");
+    this.setNormalized(sign === "-" ? -unsigned : unsigned, fraction.length - Number(exponent));
   }
 
   static fromString(value: string): BigDecimal {
@@ -15,86 +96,171 @@ export class BigDecimal {
     return new BigDecimal(value.toString());
   }
 
+  /**
+   * 最小単位の整数から作成する（例: fromBigInt(1500000n, 6) = 1.5）
+   * @param value 整数値
+   * @param decimals 小数点以下の桁数
+   */
   static fromBigInt(value: bigint, decimals: number = 0): BigDecimal {
-    if (decimals === 0) {
-      return new BigDecimal(value.toString());
-    }
-
-    const divisor = BigInt(10) ** BigInt(decimals);
-    const wholePart = value / divisor;
-    const fractionalPart = value % divisor;
+    const result = new BigDecimal(BigInt(0));
+    result.setNormalized(value, decimals);
+    return result;
+  }
 
-    let fractionalStr = fractionalPart.toString().padStart(decimals, "0");
+  // 末尾の0を取り除き、scaleが負の場合は整数に展開する
+  private setNormalized(digits: bigint, scale: number): void {
+    if (scale < 0) {
+      digits = digits * pow10(-scale);
+      scale = 0;
+    }
+    if (digits === BigInt(0)) {
+      scale = 0;
+    }
+    while (scale > 0 && digits % BigInt(10) === BigInt(0)) {
+      digits = digits / BigInt(10);
+      scale -= 1;
+    }
+    this.digits = digits;
+    this.scale = scale;
+  }
 
-    // 末尾の0を削除
-    fractionalStr = fractionalStr.replace(/0+$/, "");
+  // 有効桁数に丸めた値を作成する
+  private static withPrecision(digits: bigint, scale: number, context: BigDecimalContext = {}): BigDecimal {
+    const precision = context.precision ?? BigDecimal.precision;
+    const mode = context.roundingMode ?? BigDecimal.roundingMode;
 
-    if (fractionalStr.length > 0) {
-      return new BigDecimal(`${wholePart}.${fractionalStr}`);
-    } else {
-      return new BigDecimal(wholePart.toString());
+    const excess = digitCount(digits) - precision;
+    if (excess > 0) {
+      digits = divideAndRound(digits, pow10(excess), mode);
+      scale -= excess;
     }
+    return BigDecimal.fromBigInt(digits, scale);
+  }
+
+  // 2つの値を同じscaleにそろえた整数を返す
+  private static align(a: BigDecimal, b: BigDecimal): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [a.digits * pow10(scale - a.scale), b.digits * pow10(scale - b.scale), scale];
   }
 
   toString(): string {
-    return this.value;
+    const negative = this.digits < BigInt(0);
+    const unsigned = (negative ? -this.digits : this.digits).toString();
+    if (this.scale === 0) return negative ? `-${unsigned}` : unsigned;
+
+    const padded = unsigned.padStart(this.scale + 1, "0");
+    const whole = padded.slice(0, padded.length - this.scale);
+    const fraction = padded.slice(padded.length - this.scale);
+    return `${negative ? "-" : ""}${whole}.${fraction}`;
   }
 
-  toFixed(decimals: number): string {
-    if (!this.value.includes(".")) {
-      return decimals > 0
-        ? `${this.value}.${"0".repeat(decimals)}`
-        : this.value;
-    }
+  /**
+   * 小数点以下の桁数を指定して文字列に変換する
+   * @param decimals 小数点以下の桁数
+   * @param roundingMode 丸めモード（既定は切り捨て）
+   */
+  toFixed(decimals: number, roundingMode: RoundingMode = "down"): string {
+    const rounded = this.round(decimals, roundingMode);
+    if (decimals <= 0) return rounded.toString();
+
+    const [whole, fraction = ""] = rounded.toString().split(".");
+    return `${whole}.${fraction.padEnd(decimals, "0")}`;
+  }
+
+  /**
+   * 小数点以下の桁数に丸める
+   * @param decimals 小数点以下の桁数
+   * @param roundingMode 丸めモード（既定は BigDecimal.roundingMode）
+   */
+  round(decimals: number, roundingMode: RoundingMode = BigDecimal.roundingMode): BigDecimal {
+    if (this.scale <= decimals) return this;
+    const digits = divideAndRound(this.digits, pow10(this.scale - decimals), roundingMode);
+    return BigDecimal.fromBigInt(digits, decimals);
+  }
 
-    const [whole, fraction] = this.value.split(".");
-    const paddedFraction = fraction.padEnd(decimals, "0").slice(0, decimals);
-    return decimals > 0 ? `${whole}.${paddedFraction}` : whole;
+  toNumber(): number {
+    return Number(this.toString());
   }
 
   // 算術演算
   plus(other: BigDecimal): BigDecimal {
-    // 簡易実装 - 実際には精度の処理が必要
-    const result = parseFloat(this.value) + parseFloat(other.value);
-    return new BigDecimal(result.toString());
+    const [a, b, scale] = BigDecimal.align(this, other);
+    return BigDecimal.fromBigInt(a + b, scale);
   }
 
   minus(other: BigDecimal): BigDecimal {
-    const result = parseFloat(this.value) - parseFloat(other.value);
-    return new BigDecimal(result.toString());
+    const [a, b, scale] = BigDecimal.align(this, other);
+    return BigDecimal.fromBigInt(a - b, scale);
   }
 
-  times(other: BigDecimal): BigDecimal {
-    const result = parseFloat(this.value) * parseFloat(other.value);
-    return new BigDecimal(result.toString());
+  times(other: BigDecimal, context?: BigDecimalContext): BigDecimal {
+    return BigDecimal.withPrecision(this.digits * other.digits, this.scale + other.scale, context);
   }
 
-  div(other: BigDecimal): BigDecimal {
-    if (parseFloat(other.value) === 0) {
+  div(other: BigDecimal, context: BigDecimalContext = {}): BigDecimal {
+    if (other.isZero()) {
       throw new Error("Division by zero");
     }
-    const result = parseFloat(this.value) / parseFloat(other.value);
-    return new BigDecimal(result.toString());
+    const precision = context.precision ?? BigDecimal.precision;
+    const mode = context.roundingMode ?? BigDecimal.roundingMode;
+
+    let numerator = this.digits;
+    let denominator = other.digits;
+    if (denominator < BigInt(0)) {
+      numerator = -numerator;
+      denominator = -denominator;
+    }
+
+    // 商がprecision桁になるように10のべき乗を掛けてから、1回だけ丸める
+    const quotientDigits = (shift: number) =>
+      shift >= 0 ? (numerator * pow10(shift)) / denominator : numerator / (denominator * pow10(-shift));
+    let shift = precision + digitCount(denominator) - digitCount(numerator) + 1;
+    const excess = digitCount(quotientDigits(shift)) - precision;
+    if (excess > 0) shift -= excess;
+
+    const digits =
+      shift >= 0
+        ? divideAndRound(numerator * pow10(shift), denominator, mode)
+        : divideAndRound(numerator, denominator * pow10(-shift), mode);
+    return BigDecimal.withPrecision(digits, this.scale - other.scale + shift, context);
+  }
+
+  abs(): BigDecimal {
+    return this.digits < BigInt(0) ? this.neg() : this;
+  }
+
+  neg(): BigDecimal {
+    return BigDecimal.fromBigInt(-this.digits, this.scale);
   }
 
   // 比較演算
+  /** this < other なら -1、等しければ 0、this > other なら 1 */
+  cmp(other: BigDecimal): number {
+    const [a, b] = BigDecimal.align(this, other);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  isZero(): boolean {
+    return this.digits === BigInt(0);
+  }
+
   eq(other: BigDecimal): boolean {
-    return parseFloat(this.value) === parseFloat(other.value);
+    return this.cmp(other) === 0;
   }
 
   lt(other: BigDecimal): boolean {
-    return parseFloat(this.value) < parseFloat(other.value);
+    return this.cmp(other) < 0;
   }
 
   gt(other: BigDecimal): boolean {
-    return parseFloat(this.value) > parseFloat(other.value);
+    return this.cmp(other) > 0;
   }
 
   lte(other: BigDecimal): boolean {
-    return parseFloat(this.value) <= parseFloat(other.value);
+    return this.cmp(other) <= 0;
   }
 
   gte(other: BigDecimal): boolean {
-    return parseFloat(this.value) >= parseFloat(other.value);
+    return this.cmp(other) >= 0;
   }
 }
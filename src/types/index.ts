@@ -159,6 +159,17 @@ export interface TicksQueryResult {
   positions?: Tick[];
 }
 
+// ライブ更新で取得するプールの状態
+export type LivePoolState = Pick<
+  Pool,
+  'id' | 'tick' | 'sqrtPrice' | 'liquidity' | 'token0Price' | 'token1Price' | 'totalValueLockedUSD' | 'txCount'
+>;
+
+// プール状態のサブスクリプション/ポーリング結果の型定義
+export interface LivePoolStateQueryResult {
+  Pool_by_pk?: LivePoolState | null;
+}
+
 // チャートデータポイントの型定義
 export interface ChartDataPoint {
   date: Date;
@@ -196,6 +207,20 @@ export interface LiquidityPositionsQueryResult {
   LiquidityPosition?: LiquidityPosition[];
 }
 
+// LiquidityPosition_by_pkクエリ結果の型定義
+export interface LiquidityPositionQueryResult {
+  LiquidityPosition_by_pk?: LiquidityPosition | null;
+}
+
+// トークンとETH価格のクエリ結果の型定義（ポートフォリオ用）
+export interface TokensWithBundleQueryResult {
+  Token?: Token[];
+  Bundle_by_pk?: {
+    id: string;
+    ethPriceUSD: string;
+  } | null;
+}
+
 // バンドルクエリ結果の型定義
 export interface BundleQueryResult {
   Bundle_by_pk?: {
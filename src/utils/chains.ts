@@ -16,6 +16,22 @@ export enum ChainId {
   SONEIUM = 1868,
 }
 
+// Display names for each chain
+export const CHAIN_NAMES: { [chainId: number]: string } = {
+  [ChainId.MAINNET]: "Ethereum",
+  [ChainId.ARBITRUM_ONE]: "Arbitrum One",
+  [ChainId.OPTIMISM]: "Optimism",
+  [ChainId.BASE]: "Base",
+  [ChainId.MATIC]: "Polygon",
+  [ChainId.BSC]: "BNB Chain",
+  [ChainId.AVALANCHE]: "Avalanche",
+  [ChainId.BLAST]: "Blast",
+  [ChainId.ZORA]: "Zora",
+  [ChainId.WORLD]: "World Chain",
+  [ChainId.UNICHAIN]: "Unichain",
+  [ChainId.SONEIUM]: "Soneium",
+};
+
 // Native token details interface
 export interface NativeTokenDetails {
   symbol: string;
@@ -400,3 +416,8 @@ export function isStablecoin(chainId: number, tokenAddress: string): boolean {
   const config = getChainConfig(chainId);
   return config.stablecoinAddresses.includes(tokenAddress.toLowerCase());
 }
+
+// Helper function to get a display name for a chain
+export function getChainName(chainId: number | string): string {
+  return CHAIN_NAMES[Number(chainId)] || `Chain ${chainId}`;
+}
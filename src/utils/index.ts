@@ -2,13 +2,7 @@ import { BigDecimal } from "@/types/generated";
 import { ZERO_BD, ONE_BD, ZERO_BI } from "./constants";
 
 export function exponentToBigDecimal(decimals: bigint): BigDecimal {
-  let resultString = "1";
-
-  for (let i = 0; i < Number(decimals); i++) {
-    resultString += "0";
-  }
-
-  return new BigDecimal(resultString);
+  return new BigDecimal(BigInt(10) ** decimals);
 }
 
 // return 0 if denominator is 0 in division
@@ -49,7 +43,7 @@ export function fastExponentiation(
     return value;
   }
 
-  const halfPower = power / 2;
+  const halfPower = Math.floor(power / 2);
   const halfResult = fastExponentiation(value, halfPower);
 
   // Use the fact that x ^ (2n) = (x ^ n) * (x ^ n) and we can compute (x ^ n) only once.
@@ -76,7 +70,6 @@ export function convertTokenToDecimal(
   if (exchangeDecimals == ZERO_BI) {
     return new BigDecimal(tokenAmount.toString());
   }
-  return new BigDecimal(tokenAmount.toString()).div(
-    exponentToBigDecimal(exchangeDecimals),
-  );
+  // 小数点の位置を移すだけなので丸めは発生しない
+  return BigDecimal.fromBigInt(tokenAmount, Number(exchangeDecimals));
 }
@@ -1,3 +1,4 @@
+import { FullMath } from "./fullMath";
 import { SqrtPriceMath } from "./sqrtPriceMath";
 import { TickMath } from "./tickMath";
 
@@ -8,12 +9,12 @@ export function getAmount0(
   currTick: bigint,
   amount: bigint,
   currSqrtPriceX96: bigint,
+  roundUp: boolean = amount > 0n,
 ): bigint {
   const sqrtRatioAX96 = TickMath.getSqrtRatioAtTick(tickLower);
   const sqrtRatioBX96 = TickMath.getSqrtRatioAtTick(tickUpper);
 
   let amount0 = 0n;
-  const roundUp = amount > 0n;
 
   if (currTick < tickLower) {
     amount0 = SqrtPriceMath.getAmount0Delta(
@@ -40,12 +41,12 @@ export function getAmount1(
   currTick: bigint,
   amount: bigint,
   currSqrtPriceX96: bigint,
+  roundUp: boolean = amount > 0n,
 ): bigint {
   const sqrtRatioAX96 = TickMath.getSqrtRatioAtTick(tickLower);
   const sqrtRatioBX96 = TickMath.getSqrtRatioAtTick(tickUpper);
 
   let amount1 = 0n;
-  const roundUp = amount > 0n;
 
   if (currTick < tickLower) {
     amount1 = 0n;
@@ -67,3 +68,68 @@ export function getAmount1(
 
   return amount1;
 }
+
+const Q96 = 2n ** 96n;
+
+// https://github.com/Uniswap/v4-periphery/blob/main/src/libraries/LiquidityAmounts.sol
+export function getLiquidityForAmount0(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount0: bigint,
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+  // 幅が0の範囲には流動性を置けない（0除算を避ける）
+  if (sqrtRatioAX96 === sqrtRatioBX96) return 0n;
+
+  const intermediate = FullMath.mulDiv(sqrtRatioAX96, sqrtRatioBX96, Q96);
+  return FullMath.mulDiv(
+    amount0,
+    intermediate,
+    sqrtRatioBX96 - sqrtRatioAX96,
+  );
+}
+
+export function getLiquidityForAmount1(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount1: bigint,
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+  if (sqrtRatioAX96 === sqrtRatioBX96) return 0n;
+
+  return FullMath.mulDiv(amount1, Q96, sqrtRatioBX96 - sqrtRatioAX96);
+}
+
+export function getLiquidityForAmounts(
+  sqrtRatioX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount0: bigint,
+  amount1: bigint,
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+
+  if (sqrtRatioX96 <= sqrtRatioAX96) {
+    return getLiquidityForAmount0(sqrtRatioAX96, sqrtRatioBX96, amount0);
+  } else if (sqrtRatioX96 < sqrtRatioBX96) {
+    const liquidity0 = getLiquidityForAmount0(
+      sqrtRatioX96,
+      sqrtRatioBX96,
+      amount0,
+    );
+    const liquidity1 = getLiquidityForAmount1(
+      sqrtRatioAX96,
+      sqrtRatioX96,
+      amount1,
+    );
+    return liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+  }
+
+  return getLiquidityForAmount1(sqrtRatioAX96, sqrtRatioBX96, amount1);
+}
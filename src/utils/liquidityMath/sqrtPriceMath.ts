@@ -1,6 +1,7 @@
 import { FullMath } from "./fullMath";
 
 const Q96 = 2n ** 96n;
+const MaxUint160 = 2n ** 160n - 1n;
 
 export class SqrtPriceMath {
   public static getAmount0Delta(
@@ -41,4 +42,105 @@ export class SqrtPriceMath {
       ? FullMath.mulDivRoundingUp(liquidity, difference, Q96)
       : (liquidity * difference) / Q96;
   }
+
+  // https://github.com/Uniswap/sdks/blob/92b765bdf2759e5e6639a01728a96df81efbaa2b/sdks/v3-sdk/src/utils/sqrtPriceMath.ts#L73-L127
+  // bigintは桁あふれしないため、uint256の桁あふれ時の分岐は省略している
+  public static getNextSqrtPriceFromInput(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amountIn: bigint,
+    zeroForOne: boolean,
+  ): bigint {
+    if (sqrtPX96 <= 0n || liquidity <= 0n) {
+      throw new Error("SQRT_PRICE_OR_LIQUIDITY");
+    }
+
+    return zeroForOne
+      ? this.getNextSqrtPriceFromAmount0RoundingUp(
+          sqrtPX96,
+          liquidity,
+          amountIn,
+          true,
+        )
+      : this.getNextSqrtPriceFromAmount1RoundingDown(
+          sqrtPX96,
+          liquidity,
+          amountIn,
+          true,
+        );
+  }
+
+  public static getNextSqrtPriceFromOutput(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amountOut: bigint,
+    zeroForOne: boolean,
+  ): bigint {
+    if (sqrtPX96 <= 0n || liquidity <= 0n) {
+      throw new Error("SQRT_PRICE_OR_LIQUIDITY");
+    }
+
+    return zeroForOne
+      ? this.getNextSqrtPriceFromAmount1RoundingDown(
+          sqrtPX96,
+          liquidity,
+          amountOut,
+          false,
+        )
+      : this.getNextSqrtPriceFromAmount0RoundingUp(
+          sqrtPX96,
+          liquidity,
+          amountOut,
+          false,
+        );
+  }
+
+  private static getNextSqrtPriceFromAmount0RoundingUp(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amount: bigint,
+    add: boolean,
+  ): bigint {
+    if (amount === 0n) return sqrtPX96;
+    const numerator1 = liquidity << 96n;
+    const product = amount * sqrtPX96;
+
+    if (add) {
+      return FullMath.mulDivRoundingUp(
+        numerator1,
+        sqrtPX96,
+        numerator1 + product,
+      );
+    }
+
+    if (numerator1 <= product) {
+      throw new Error("INSUFFICIENT_LIQUIDITY");
+    }
+    return FullMath.mulDivRoundingUp(
+      numerator1,
+      sqrtPX96,
+      numerator1 - product,
+    );
+  }
+
+  private static getNextSqrtPriceFromAmount1RoundingDown(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amount: bigint,
+    add: boolean,
+  ): bigint {
+    if (add) {
+      const quotient =
+        amount <= MaxUint160
+          ? (amount << 96n) / liquidity
+          : (amount * Q96) / liquidity;
+      return sqrtPX96 + quotient;
+    }
+
+    const quotient = FullMath.mulDivRoundingUp(amount, Q96, liquidity);
+    if (sqrtPX96 <= quotient) {
+      throw new Error("INSUFFICIENT_LIQUIDITY");
+    }
+    return sqrtPX96 - quotient;
+  }
 }
@@ -0,0 +1,144 @@
+import { FullMath } from "./fullMath";
+import { SqrtPriceMath } from "./sqrtPriceMath";
+
+const MAX_FEE = 10n ** 6n;
+
+// https://github.com/Uniswap/sdks/blob/92b765bdf2759e5e6639a01728a96df81efbaa2b/sdks/v3-sdk/src/utils/swapMath.ts
+export class SwapMath {
+  /**
+   * Computes the result of swapping some amount in, or amount out, given the parameters of the swap
+   * @param sqrtRatioCurrentX96 the current sqrt price of the pool
+   * @param sqrtRatioTargetX96 the price that cannot be exceeded, from which the direction of the swap is inferred
+   * @param liquidity the usable liquidity
+   * @param amountRemaining how much input or output amount is remaining to be swapped in/out
+   * (positive for exact input, negative for exact output)
+   * @param feePips the fee taken from the input amount, expressed in hundredths of a bip
+   * @returns [sqrtRatioNextX96, amountIn, amountOut, feeAmount]
+   */
+  public static computeSwapStep(
+    sqrtRatioCurrentX96: bigint,
+    sqrtRatioTargetX96: bigint,
+    liquidity: bigint,
+    amountRemaining: bigint,
+    feePips: bigint,
+  ): [bigint, bigint, bigint, bigint] {
+    const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+    const exactIn = amountRemaining >= 0n;
+
+    let sqrtRatioNextX96: bigint;
+    let amountIn = 0n;
+    let amountOut = 0n;
+    let feeAmount: bigint;
+
+    if (exactIn) {
+      const amountRemainingLessFee =
+        (amountRemaining * (MAX_FEE - feePips)) / MAX_FEE;
+      amountIn = zeroForOne
+        ? SqrtPriceMath.getAmount0Delta(
+            sqrtRatioTargetX96,
+            sqrtRatioCurrentX96,
+            liquidity,
+            true,
+          )
+        : SqrtPriceMath.getAmount1Delta(
+            sqrtRatioCurrentX96,
+            sqrtRatioTargetX96,
+            liquidity,
+            true,
+          );
+      if (amountRemainingLessFee >= amountIn) {
+        sqrtRatioNextX96 = sqrtRatioTargetX96;
+      } else {
+        sqrtRatioNextX96 = SqrtPriceMath.getNextSqrtPriceFromInput(
+          sqrtRatioCurrentX96,
+          liquidity,
+          amountRemainingLessFee,
+          zeroForOne,
+        );
+      }
+    } else {
+      amountOut = zeroForOne
+        ? SqrtPriceMath.getAmount1Delta(
+            sqrtRatioTargetX96,
+            sqrtRatioCurrentX96,
+            liquidity,
+            false,
+          )
+        : SqrtPriceMath.getAmount0Delta(
+            sqrtRatioCurrentX96,
+            sqrtRatioTargetX96,
+            liquidity,
+            false,
+          );
+      if (-amountRemaining >= amountOut) {
+        sqrtRatioNextX96 = sqrtRatioTargetX96;
+      } else {
+        sqrtRatioNextX96 = SqrtPriceMath.getNextSqrtPriceFromOutput(
+          sqrtRatioCurrentX96,
+          liquidity,
+          -amountRemaining,
+          zeroForOne,
+        );
+      }
+    }
+
+    const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+
+    if (zeroForOne) {
+      amountIn =
+        max && exactIn
+          ? amountIn
+          : SqrtPriceMath.getAmount0Delta(
+              sqrtRatioNextX96,
+              sqrtRatioCurrentX96,
+              liquidity,
+              true,
+            );
+      amountOut =
+        max && !exactIn
+          ? amountOut
+          : SqrtPriceMath.getAmount1Delta(
+              sqrtRatioNextX96,
+              sqrtRatioCurrentX96,
+              liquidity,
+              false,
+            );
+    } else {
+      amountIn =
+        max && exactIn
+          ? amountIn
+          : SqrtPriceMath.getAmount1Delta(
+              sqrtRatioCurrentX96,
+              sqrtRatioNextX96,
+              liquidity,
+              true,
+            );
+      amountOut =
+        max && !exactIn
+          ? amountOut
+          : SqrtPriceMath.getAmount0Delta(
+              sqrtRatioCurrentX96,
+              sqrtRatioNextX96,
+              liquidity,
+              false,
+            );
+    }
+
+    if (!exactIn && amountOut > -amountRemaining) {
+      amountOut = -amountRemaining;
+    }
+
+    if (exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96) {
+      // we didn't reach the target, so take the remainder of the maximum input as fee
+      feeAmount = amountRemaining - amountIn;
+    } else {
+      feeAmount = FullMath.mulDivRoundingUp(
+        amountIn,
+        feePips,
+        MAX_FEE - feePips,
+      );
+    }
+
+    return [sqrtRatioNextX96, amountIn, amountOut, feeAmount];
+  }
+}
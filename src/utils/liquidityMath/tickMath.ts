@@ -7,6 +7,23 @@ function mulShift(val: bigint, mulBy: bigint): bigint {
   return (val * mulBy) >> 128n;
 }
 
+// https://github.com/Uniswap/sdks/blob/92b765bdf2759e5e6639a01728a96df81efbaa2b/sdks/v3-sdk/src/utils/mostSignificantBit.ts
+function mostSignificantBit(x: bigint): bigint {
+  if (x <= 0n) {
+    throw new Error("ZERO");
+  }
+
+  let msb = 0n;
+  for (const power of [128n, 64n, 32n, 16n, 8n, 4n, 2n, 1n]) {
+    const min = 1n << power;
+    if (x >= min) {
+      x = x >> power;
+      msb += power;
+    }
+  }
+  return msb;
+}
+
 export class TickMath {
   /**
    * The minimum tick that can be used on any pool.
@@ -90,4 +107,47 @@ export class TickMath {
     const remainder = ratio & ((1n << 32n) - 1n);
     return result + (remainder > 0n ? 1n : 0n);
   }
+
+  /**
+   * Returns the tick corresponding to a given sqrt ratio, s.t. #getSqrtRatioAtTick(tick) <= sqrtRatioX96
+   * and #getSqrtRatioAtTick(tick + 1) > sqrtRatioX96
+   * @param sqrtRatioX96 the sqrt ratio as a Q64.96 for which to compute the tick
+   */
+  static getTickAtSqrtRatio(sqrtRatioX96: bigint): bigint {
+    if (
+      sqrtRatioX96 < TickMath.MIN_SQRT_RATIO ||
+      sqrtRatioX96 >= TickMath.MAX_SQRT_RATIO
+    ) {
+      throw new Error("SQRT_RATIO");
+    }
+
+    const sqrtRatioX128 = sqrtRatioX96 << 32n;
+    const msb = mostSignificantBit(sqrtRatioX128);
+
+    let r =
+      msb >= 128n
+        ? sqrtRatioX128 >> (msb - 127n)
+        : sqrtRatioX128 << (127n - msb);
+    let log_2 = (msb - 128n) << 64n;
+
+    for (let i = 0n; i < 14n; i++) {
+      r = (r * r) >> 127n;
+      const f = r >> 128n;
+      log_2 = log_2 | (f << (63n - i));
+      r = r >> f;
+    }
+
+    const log_sqrt10001 = log_2 * 255738958999603826347141n;
+
+    const tickLow =
+      (log_sqrt10001 - 3402992956809132418596140100660247210n) >> 128n;
+    const tickHigh =
+      (log_sqrt10001 + 291339464771989622907027621153398088495n) >> 128n;
+
+    return tickLow === tickHigh
+      ? tickLow
+      : TickMath.getSqrtRatioAtTick(tickHigh) <= sqrtRatioX96
+        ? tickHigh
+        : tickLow;
+  }
 }